@@ -1,414 +1,110 @@
 import { NextRequest, NextResponse } from 'next/server'
-import OpenAI from 'openai'
-import { Octokit } from '@octokit/rest'
-import JSZip from 'jszip'
 import { validateEnv } from '@/lib/env'
 import { checkRateLimit, getClientIdentifier } from '@/lib/rateLimit'
 import { retryWithBackoff } from '@/lib/retry'
-import { getNextGitHubToken, hasGitHubToken, getTokenCount, getTokenUsageStats } from '@/lib/githubTokens'
+import {
+  EXPLAIN_MODEL,
+  generateCompletion,
+  getLLMProvider,
+  streamCompletion,
+  type ChatCompletionMessage,
+} from '@/lib/llm'
+import { hasGitHubToken, getTokenCount, getTokenUsageStats } from '@/lib/githubTokens'
+import {
+  describeRepo,
+  detectArchiveFormat,
+  getGitHubRateLimit,
+  ingestArchive,
+  ingestRepository,
+  parseRepoUrl,
+  SUPPORTED_ARCHIVE_EXTENSIONS,
+  type IngestProgress,
+  type RepoLocator,
+} from '@/lib/ingest'
+import { createSSEStream, SSE_HEADERS, wantsEventStream } from '@/lib/sse'
+import { needsSummary, summarizeRepository, summaryBudget } from '@/lib/summarize'
+import { sourceFromDescription, sourceFromRepo, verifyClaims, type ClaimSource } from '@/lib/verify'
+import {
+  countTokens,
+  EXPLAIN_OUTPUT_TOKENS,
+  getPromptBudget,
+  TOKENS_PER_CHAR,
+} from '@/lib/tokens'
+import type {
+  Audience,
+  Tone,
+  ClaimVerification,
+  ExplainMetadata,
+  ExplainResponse,
+  ExplainResult,
+  ExplainStreamEvent,
+} from '@/types/explain'
+import type { FetchedRepo } from '@/types/interview'
 
 // Configure route for larger file uploads
 export const runtime = 'nodejs'
 export const maxDuration = 60
+// Share of maxDuration a large repo may spend being summarized; generation and verification need the rest.
+// Summaries are cached, so a repo too large to finish in one request is covered further by the next
+const SUMMARY_SECONDS = 25
 
 // Validate environment variables - don't crash on module load
-let openai: OpenAI | null = null
+let envValid = false
 try {
   validateEnv()
-  openai = new OpenAI({
-    apiKey: process.env.OPENAI_API_KEY,
-  })
+  envValid = true
 } catch (error) {
   console.error('Environment validation failed:', error)
-  // openai will be null, API routes will handle this
+  // envValid stays false, API routes will handle this
 }
 
-// Token estimation: ~4 characters = 1 token (rough estimate)
-// OpenAI context window: 128K tokens total
-// Breakdown:
-//   - System prompt: ~150 tokens
-//   - User prompt template: ~600 tokens
-//   - Output buffer: ~5,000 tokens
-//   - Available for project description: ~122,000 tokens = ~488,000 characters
-// We'll dynamically read until we approach the limit
-const TOKENS_PER_CHAR = 0.25 // ~4 characters per token
-const SYSTEM_PROMPT_TOKENS = 150
-const USER_PROMPT_TEMPLATE_TOKENS = 600
-const OUTPUT_BUFFER_TOKENS = 5000
-const MAX_CONTEXT_TOKENS = 128000
-const MAX_PROJECT_TOKENS = MAX_CONTEXT_TOKENS - SYSTEM_PROMPT_TOKENS - USER_PROMPT_TEMPLATE_TOKENS - OUTPUT_BUFFER_TOKENS
-const MAX_PROJECT_CHARACTERS = Math.floor(MAX_PROJECT_TOKENS / TOKENS_PER_CHAR) // ~488,000 characters
-const WARNING_THRESHOLD_TOKENS = MAX_PROJECT_TOKENS * 0.75 // Warn at 75% of limit
-const WARNING_THRESHOLD_CHARACTERS = Math.floor(WARNING_THRESHOLD_TOKENS / TOKENS_PER_CHAR) // ~366,000 characters
-
 interface RequestBody {
   projectDescription?: string
-  audience?: 'recruiter' | 'engineer' | 'hiring-manager' | 'founder-product'
-  tone?: 'confident' | 'concise' | 'conversational' | 'technical'
+  audience?: Audience
+  tone?: Tone
   inputMethod?: 'text' | 'github' | 'upload'
+  // Check generated claims against the source (default true)
+  verifyClaims?: boolean
+  // Rewrite sentences whose claims the source does not support (default true)
+  regenerateUnsupported?: boolean
 }
 
-// Parse GitHub URL to extract owner and repo
-function parseGitHubUrl(url: string): { owner: string; repo: string } | null {
-  try {
-    const urlObj = new URL(url)
-    if (urlObj.hostname !== 'github.com' && urlObj.hostname !== 'www.github.com') {
-      return null
-    }
-    const parts = urlObj.pathname.split('/').filter(Boolean)
-    if (parts.length >= 2) {
-      return { owner: parts[0], repo: parts[1].replace(/\.git$/, '') }
-    }
-    return null
-  } catch {
-    return null
-  }
-}
-
-// Calculate tokens from text
-function estimateTokens(text: string): number {
-  return Math.ceil(text.length * TOKENS_PER_CHAR)
-}
-
-// Recursively fetch all files from a directory in the repository
-// Stops when approaching token limit
-async function fetchDirectoryContents(
-  octokit: Octokit,
-  owner: string,
-  repo: string,
-  path: string = '',
-  maxFileSize: number = 100000, // 100KB per file
-  excludeDirs: string[] = ['node_modules', '.git', 'dist', 'build', '.next', 'venv', '__pycache__', '.venv', 'target', 'bin', 'obj'],
-  onProgress?: (filesFetched: number, totalTokens: number) => void,
-  currentTokens: number = 0
-): Promise<{ files: Map<string, string>, totalTokens: number, filesFetched: number, stoppedEarly: boolean }> {
-  const files = new Map<string, string>()
-  let totalTokens = currentTokens
-  let filesFetched = 0
-  let stoppedEarly = false
-
-  async function traverse(currentPath: string): Promise<void> {
-    if (stoppedEarly) return
-    
-    // Skip excluded directories
-    const pathParts = currentPath.split('/').filter(Boolean)
-    if (pathParts.some(part => excludeDirs.includes(part))) {
-      return
-    }
-
-    try {
-      const { data } = await octokit.repos.getContent({
-        owner,
-        repo,
-        path: currentPath || '',
-      })
+type ExplainEmit = (event: ExplainStreamEvent) => void
 
-      if (Array.isArray(data)) {
-        // It's a directory
-        for (const item of data) {
-          if (stoppedEarly) break
-          
-          if (item.type === 'file') {
-            // Skip binary files and large files
-            if (item.size && item.size > maxFileSize) {
-              continue
-            }
-
-            // Check if we're approaching token limit
-            if (totalTokens >= MAX_PROJECT_TOKENS * 0.95) {
-              stoppedEarly = true
-              break
-            }
-
-            // Skip binary file extensions
-            const binaryExtensions = ['.png', '.jpg', '.jpeg', '.gif', '.svg', '.ico', '.woff', '.woff2', '.ttf', '.eot', '.pdf', '.zip', '.tar', '.gz', '.exe', '.dll', '.so', '.dylib']
-            const isBinary = binaryExtensions.some(ext => item.name.toLowerCase().endsWith(ext))
-            if (isBinary) {
-              continue
-            }
-
-            try {
-              const fileData = await octokit.repos.getContent({
-                owner,
-                repo,
-                path: item.path,
-              })
-              
-              if ('content' in fileData.data && fileData.data.content) {
-                const content = Buffer.from(fileData.data.content, 'base64').toString('utf-8')
-                const fileTokens = estimateTokens(content)
-                
-                // Check if adding this file would exceed the limit
-                if (totalTokens + fileTokens > MAX_PROJECT_TOKENS * 0.95) {
-                  stoppedEarly = true
-                  break
-                }
-                
-                files.set(item.path, content)
-                totalTokens += fileTokens
-                filesFetched++
-                if (onProgress) {
-                  onProgress(filesFetched, totalTokens)
-                }
-              }
-            } catch {
-              // Skip files that can't be read
-            }
-          } else if (item.type === 'dir') {
-            await traverse(item.path)
-          }
-        }
-      } else if (data.type === 'file') {
-        if (stoppedEarly) return
-        
-        // Single file
-        if (data.size && data.size <= maxFileSize) {
-          // Check token limit
-          if (totalTokens >= MAX_PROJECT_TOKENS * 0.95) {
-            stoppedEarly = true
-            return
-          }
-
-          const binaryExtensions = ['.png', '.jpg', '.jpeg', '.gif', '.svg', '.ico', '.woff', '.woff2', '.ttf', '.eot', '.pdf', '.zip', '.tar', '.gz', '.exe', '.dll', '.so', '.dylib']
-          const isBinary = binaryExtensions.some(ext => data.name.toLowerCase().endsWith(ext))
-          
-          if (!isBinary && 'content' in data && data.content) {
-            const content = Buffer.from(data.content, 'base64').toString('utf-8')
-            const fileTokens = estimateTokens(content)
-            
-            if (totalTokens + fileTokens > MAX_PROJECT_TOKENS * 0.95) {
-              stoppedEarly = true
-              return
-            }
-            
-            files.set(data.path, content)
-            totalTokens += fileTokens
-            filesFetched++
-            if (onProgress) {
-              onProgress(filesFetched, totalTokens)
-            }
-          }
-        }
-      }
-    } catch (error: any) {
-      // Skip directories/files that can't be accessed
-      if (error.status !== 404) {
-        console.warn(`Failed to fetch ${currentPath}:`, error.message)
-      }
-    }
+// Error with an HTTP status, so the same failure can become a JSON response or a stream error event
+class ExplainError extends Error {
+  constructor(message: string, public status: number, public details?: Record<string, unknown>) {
+    super(message)
+    this.name = 'ExplainError'
   }
-
-  await traverse(path)
-  return { files, totalTokens, filesFetched, stoppedEarly }
 }
 
-// Fetch repository information from GitHub
-async function fetchGitHubRepoInfo(
-  owner: string, 
-  repo: string,
-  onProgress?: (filesFetched: number, totalTokens: number) => void
-): Promise<{ description: string, rateLimit?: { remaining: number, reset: number } }> {
-  // Use token rotation if multiple tokens are available
-  const token = getNextGitHubToken()
-  const octokit = new Octokit({
-    auth: token, // Optional: can work without auth for public repos
-  })
-
-  try {
-    // Fetch repository details with retry
-    const { data: repoData } = await retryWithBackoff(async () => {
-      return await octokit.repos.get({ owner, repo })
-    }, {
-      retryableErrors: (error: any) => {
-        return error?.status === 429 || error?.status >= 500
-      }
-    })
-
-    // Fetch README if available with retry
-    let readmeContent = ''
-    try {
-      const { data: readmeData } = await retryWithBackoff(async () => {
-        return await octokit.repos.getReadme({ owner, repo })
-      }, {
-        retryableErrors: (error: any) => {
-          return error?.status === 429 || error?.status >= 500
-        }
-      })
-      if (readmeData.content) {
-        readmeContent = Buffer.from(readmeData.content, 'base64').toString('utf-8')
-      }
-    } catch {
-      // README might not exist, continue without it
-    }
-
-    // Get rate limit info
-    const rateLimitResponse = await octokit.rateLimit.get()
-    const rateLimit = {
-      remaining: rateLimitResponse.data.rate.remaining,
-      reset: rateLimitResponse.data.rate.reset * 1000, // Convert to milliseconds
-    }
-
-    // Start with README tokens
-    let currentTokens = estimateTokens(readmeContent)
-
-    // Recursively fetch all repository files until token limit
-    const { files, totalTokens, filesFetched, stoppedEarly } = await fetchDirectoryContents(
-      octokit, 
-      owner, 
-      repo, 
-      '', 
-      100000, 
-      ['node_modules', '.git', 'dist', 'build', '.next', 'venv', '__pycache__', '.venv', 'target', 'bin', 'obj'], 
-      onProgress,
-      currentTokens
-    )
-
-    // Build project description from fetched data
-    let description = `Repository: ${owner}/${repo}\n`
-    description += `Description: ${repoData.description || 'No description provided'}\n`
-    description += `Language: ${repoData.language || 'Not specified'}\n`
-    description += `Stars: ${repoData.stargazers_count}\n`
-    description += `Forks: ${repoData.forks_count}\n`
-    description += `Files analyzed: ${filesFetched}\n`
-    description += `Tokens used: ~${totalTokens.toLocaleString()} / ${MAX_PROJECT_TOKENS.toLocaleString()}\n`
-    if (stoppedEarly) {
-      description += `Note: Reading stopped at ~95% of token limit to ensure room for output.\n`
-    }
-    description += `\n`
-
-    if (readmeContent) {
-      description += `=== README ===\n${readmeContent}\n\n`
-    }
-
-    // Add all fetched files
-    const sortedFiles = Array.from(files.entries()).sort((a, b) => a[0].localeCompare(b[0]))
-    for (const [filePath, content] of sortedFiles) {
-      // Skip README since we already added it above
-      if (filePath.toLowerCase().includes('readme')) {
-        continue
-      }
-      description += `=== ${filePath} ===\n${content}\n\n`
-    }
-
-    return { description, rateLimit }
-  } catch (error: any) {
-    if (error.status === 404) {
-      throw new Error('Repository not found. Please check the URL and ensure the repository is public.')
-    }
-    if (error.status === 403) {
-      // Check if it's a rate limit error
-      const rateLimitRemaining = error.response?.headers?.['x-ratelimit-remaining']
-      const rateLimitReset = error.response?.headers?.['x-ratelimit-reset']
-      if (rateLimitRemaining === '0' || error.message?.includes('rate limit')) {
-        const resetTime = rateLimitReset ? new Date(parseInt(rateLimitReset) * 1000).toLocaleString() : 'soon'
-        throw new Error(`GitHub API rate limit exceeded. Please try again after ${resetTime}. Consider adding a GITHUB_TOKEN for higher limits.`)
-      }
-      throw new Error('Access forbidden. The repository may be private or you may have exceeded your API rate limit.')
-    }
-    if (error.status === 429) {
-      throw new Error('GitHub API rate limit exceeded. Please wait a moment and try again.')
-    }
-    throw new Error(`Failed to fetch repository: ${error.message || 'Unknown error'}`)
-  }
+type ProjectSource =
+  | { kind: 'text'; text: string }
+  | { kind: 'repository'; url: string; locator: RepoLocator }
+  | { kind: 'upload'; file: File }
+
+interface ExplainInput {
+  source: ProjectSource
+  audience: Audience
+  tone: Tone
+  verifyClaims: boolean
+  regenerateUnsupported: boolean
 }
 
-// Extract project information from uploaded file
-async function extractProjectInfoFromFile(file: File): Promise<string> {
-  const fileExtension = file.name.split('.').pop()?.toLowerCase()
-  
-  if (fileExtension === 'zip') {
-    return extractFromZip(file)
-  } else {
-    throw new Error('Unsupported file format. Please upload a ZIP file.')
+// Retry on rate limits and server errors
+function isRetryableLLMError(error: any): boolean {
+  if (error?.status === 429 || error?.status >= 500) {
+    return true
   }
-}
-
-// Extract project information from ZIP file
-async function extractFromZip(file: File): Promise<string> {
-  try {
-    const arrayBuffer = await file.arrayBuffer()
-    const zip = await JSZip.loadAsync(arrayBuffer)
-    
-    let description = `Project files from: ${file.name}\n\n`
-    
-    // Look for key files
-    const keyFiles = [
-      'README.md', 'README.txt', 'README',
-      'package.json', 'requirements.txt', 'Pipfile',
-      'Cargo.toml', 'go.mod', 'pom.xml', 'build.gradle',
-      'setup.py', 'pyproject.toml',
-    ]
-    
-    const foundFiles: string[] = []
-    
-    // Extract content from key files
-    for (const fileName of keyFiles) {
-      // Search for files matching the name (case-insensitive, can be in subdirectories)
-      const regex = new RegExp(`(^|/)${fileName.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}$`, 'i')
-      let matchingPath: string | null = null
-      for (const relativePath of Object.keys(zip.files)) {
-        if (regex.test(relativePath) && !relativePath.endsWith('/')) {
-          matchingPath = relativePath
-          break
-        }
-      }
-      if (matchingPath) {
-        const matchingFile = zip.file(matchingPath)
-        if (matchingFile) {
-          foundFiles.push(fileName)
-          try {
-            const content = await (matchingFile as JSZip.JSZipObject).async('string')
-            description += `--- ${matchingFile.name} ---\n${content}\n\n`
-          } catch {
-            // Skip if can't read as string (binary file)
-          }
-        }
-      }
-    }
-    
-    // If no key files found, list all files
-    if (foundFiles.length === 0) {
-      description += 'Files in project:\n'
-      const allFiles: string[] = []
-      zip.forEach((relativePath) => {
-        if (!relativePath.endsWith('/')) {
-          allFiles.push(relativePath)
-          description += `- ${relativePath}\n`
-        }
-      })
-      description += '\n'
-      
-      // Try to get content from first few text files
-      let fileCount = 0
-      for (const relativePath of allFiles) {
-        if (fileCount >= 5) break
-        const file = zip.file(relativePath)
-        if (file) {
-          try {
-            const content = await file.async('string')
-            if (content.length < 5000) { // Only include smaller files
-              description += `--- ${relativePath} ---\n${content.substring(0, 2000)}...\n\n`
-              fileCount++
-            }
-          } catch {
-            // Skip binary files
-          }
-        }
-      }
-    }
-    
-    return description
-  } catch (error: any) {
-    throw new Error(`Failed to extract project information: ${error.message}`)
+  if (error?.message?.includes('rate limit') || error?.message?.includes('timeout')) {
+    return true
   }
+  return false
 }
 
-// Generate explanation using OpenAI
-async function generateExplanation(
-  projectDescription: string,
-  audience: 'recruiter' | 'engineer' | 'hiring-manager' | 'founder-product',
-  tone: 'confident' | 'concise' | 'conversational' | 'technical'
-) {
+// The system and user prompts for explaining a project to the given audience
+function buildExplainMessages(projectDescription: string, audience: Audience, tone: Tone): ChatCompletionMessage[] {
   const systemPrompt = `You are an expert technical communicator specializing in translating complex project descriptions into clear, accurate explanations for different audiences. Your role is to:
 - Preserve technical accuracy without inventing features
 - Use concrete mechanisms and specific technologies over vague buzzwords
@@ -468,63 +164,257 @@ Return your response as a JSON object with exactly these fields:
 
 resumeBullets must be an array of exactly 2 or 3 strings. Do not include bullet characters (• or -) in the text.`
 
-  // Validate input length based on token estimation
-  const inputLength = projectDescription.length
-  const estimatedTokens = estimateTokens(projectDescription)
-  
-  if (estimatedTokens > MAX_PROJECT_TOKENS) {
-    throw new Error(`Input is too long (${inputLength.toLocaleString()} characters, ~${estimatedTokens.toLocaleString()} tokens). Maximum allowed is ~${MAX_PROJECT_TOKENS.toLocaleString()} tokens (~${MAX_PROJECT_CHARACTERS.toLocaleString()} characters). Please reduce the size of your project description.`)
+  return [
+    { role: 'system', content: systemPrompt },
+    { role: 'user', content: userPrompt },
+  ]
+}
+
+// Generate explanation using the configured LLM provider, with room for `outputTokens` of output
+// When `onPartial` is provided the completion is streamed and every delta is forwarded
+async function generateExplanation(
+  messages: ChatCompletionMessage[],
+  outputTokens: number,
+  onPartial?: (delta: string, length: number) => void
+): Promise<ExplainResult> {
+  const completionOptions = {
+    model: EXPLAIN_MODEL,
+    responseFormat: 'json' as const,
+    temperature: 0.7,
+    task: 'explain' as const,
+    maxTokens: outputTokens,
   }
 
-  const completion = await retryWithBackoff(async () => {
-    return await openai!.chat.completions.create({
-      model: 'gpt-4o-mini',
-      messages: [
-        { role: 'system', content: systemPrompt },
-        { role: 'user', content: userPrompt },
-      ],
-      response_format: { type: 'json_object' },
-      temperature: 0.7,
+  let content: string
+  if (onPartial) {
+    const stream = await retryWithBackoff(async () => {
+      return await streamCompletion(messages, completionOptions)
+    }, {
+      retryableErrors: isRetryableLLMError,
     })
-  }, {
-    retryableErrors: (error: any) => {
-      // Retry on rate limits and server errors
-      if (error?.status === 429 || error?.status >= 500) {
-        return true
-      }
-      if (error?.message?.includes('rate limit') || error?.message?.includes('timeout')) {
-        return true
-      }
-      return false
+
+    content = ''
+    for await (const delta of stream) {
+      content += delta
+      onPartial(delta, content.length)
     }
-  })
+  } else {
+    content = await retryWithBackoff(async () => {
+      return await generateCompletion(messages, completionOptions)
+    }, {
+      retryableErrors: isRetryableLLMError,
+    })
+  }
 
-  const content = completion.choices[0]?.message?.content
   if (!content) {
-    throw new Error('No response from OpenAI')
+    throw new Error('No response from the language model')
   }
 
   const result = JSON.parse(content)
 
   // Validate the response structure
   if (!result.technicalExplanation || !result.interviewPitch) {
-    throw new Error('Invalid response format from OpenAI')
+    throw new Error('Invalid response format from the language model')
   }
   const bullets = result.resumeBullets
   if (!Array.isArray(bullets) || bullets.length < 2) {
-    throw new Error('Invalid response format from OpenAI: resumeBullets must be an array of 2 or 3 strings')
+    throw new Error('Invalid response format from the language model: resumeBullets must be an array of 2 or 3 strings')
   }
   result.resumeBullets = bullets.slice(0, 3).map((b: unknown) => (typeof b === 'string' ? b : String(b)))
 
   return result
 }
 
+// Repos too large for one prompt are described through their map-reduce summary
+async function describeForPrompt(repo: FetchedRepo, emit?: ExplainEmit): Promise<string> {
+  if (!needsSummary(repo)) {
+    return describeRepo(repo)
+  }
+  const summary = await summarizeRepository(repo, {
+    onProgress: (progress) => emit?.({ type: 'summarizing', ...progress }),
+    tokenBudget: summaryBudget(SUMMARY_SECONDS),
+  })
+  return describeRepo(repo, summary)
+}
+
+// Turn the request source into the project description sent to the model, and what its claims are checked against
+async function resolveProjectDescription(
+  source: ProjectSource,
+  emit?: ExplainEmit
+): Promise<{ projectDescription: string, claimSource: ClaimSource, githubRateLimit?: { remaining: number, reset: number } }> {
+  if (source.kind === 'text') {
+    return { projectDescription: source.text, claimSource: sourceFromDescription(source.text) }
+  }
+
+  const onProgress = (event: IngestProgress) => {
+    if (event.type === 'files') {
+      emit?.({ type: 'files', filesFetched: event.filesFetched, totalTokens: event.totalTokens })
+    } else {
+      emit?.({ type: 'github-rate-limit', remaining: event.remaining, reset: event.reset })
+    }
+  }
+
+  if (source.kind === 'upload') {
+    const data = Buffer.from(await source.file.arrayBuffer())
+    const { repo } = await ingestArchive(source.file.name, data, { onProgress })
+    return { projectDescription: await describeForPrompt(repo, emit), claimSource: sourceFromRepo(repo) }
+  }
+
+  // Check GitHub rate limit before fetching (to give better error messages)
+  if (source.locator.hostname === 'github.com') {
+    try {
+      const { remaining, reset } = await getGitHubRateLimit()
+      emit?.({ type: 'github-rate-limit', remaining, reset })
+      if (remaining < 5) {
+        const resetTime = new Date(reset).toLocaleString()
+        throw new ExplainError(
+          `GitHub API rate limit is very low (${remaining} remaining). Please wait until ${resetTime} or add a GITHUB_TOKEN for higher limits.`,
+          429,
+          { githubRateLimit: { remaining, reset } }
+        )
+      }
+    } catch (error) {
+      if (error instanceof ExplainError) throw error
+      // If we can't check rate limit, continue anyway
+    }
+  }
+
+  const { repo, rateLimit } = await ingestRepository(source.url, { onProgress })
+  return {
+    projectDescription: await describeForPrompt(repo, emit),
+    claimSource: sourceFromRepo(repo, source.url),
+    githubRateLimit: rateLimit,
+  }
+}
+
+// Run the full explain pipeline: gather the project description, validate its size, generate outputs
+async function runExplain(
+  input: ExplainInput,
+  metadata: ExplainMetadata,
+  emit?: ExplainEmit
+): Promise<ExplainResponse> {
+  const { projectDescription, claimSource, githubRateLimit } = await resolveProjectDescription(input.source, emit)
+
+  if (!projectDescription || projectDescription.trim().length === 0) {
+    throw new ExplainError('Failed to extract project information', 400)
+  }
+
+  // Validate input length with the tokenizer and context window of the model that will serve the request,
+  // counting the real system prompt and template around the description
+  const messages = buildExplainMessages(projectDescription, input.audience, input.tone)
+  const model = getLLMProvider().resolveModel(EXPLAIN_MODEL)
+  const inputLength = projectDescription.length
+  const estimatedTokens = countTokens(projectDescription, model)
+  // Reserves EXPLAIN_OUTPUT_TOKENS for the answer, or as much as the model can produce
+  const budget = getPromptBudget(model, {
+    systemPromptTokens: countTokens(messages[0].content, model),
+    templateTokens: countTokens(messages[1].content, model) - estimatedTokens,
+    outputTokens: EXPLAIN_OUTPUT_TOKENS,
+  })
+  const maxTokens = budget.projectTokens
+  emit?.({ type: 'tokens', inputLength, estimatedTokens, maxTokens })
+  
+  if (estimatedTokens > maxTokens) {
+    throw new ExplainError(
+      `Input is too long (${inputLength.toLocaleString()} characters, ${estimatedTokens.toLocaleString()} tokens). Maximum allowed is ${maxTokens.toLocaleString()} tokens (~${Math.floor(maxTokens / TOKENS_PER_CHAR).toLocaleString()} characters). Please reduce the size of your project description.`,
+      400,
+      { inputLength, estimatedTokens }
+    )
+  }
+
+  emit?.({ type: 'generation-started', model })
+  let result = await generateExplanation(
+    messages,
+    budget.outputTokens,
+    emit ? (delta, length) => emit({ type: 'partial', delta, length }) : undefined
+  )
+
+  let verification: ClaimVerification | undefined
+  if (input.verifyClaims) {
+    try {
+      const verified = await verifyClaims(result, claimSource, {
+        regenerate: input.regenerateUnsupported,
+        onStage: (stage) => emit?.({ type: 'verifying', stage }),
+      })
+      result = verified.result
+      verification = verified.verification
+    } catch (error) {
+      // An unchecked explanation is still useful; it just goes out without verification
+      console.error('Claim verification failed:', error)
+    }
+  }
+  
+  // Include rate limit info in response
+  const tokenUsage = getTokenUsageStats()
+  const response: ExplainResponse = {
+    ...result,
+    verification,
+    metadata: {
+      ...metadata,
+      inputLength,
+      estimatedTokens,
+      githubTokens: metadata.githubTokens ? {
+        ...metadata.githubTokens,
+        totalUsage: tokenUsage.total,
+        usagePerToken: tokenUsage.perToken,
+      } : undefined,
+    },
+  }
+  
+  if (githubRateLimit) {
+    response.metadata!.githubRateLimit = githubRateLimit
+  }
+
+  return response
+}
+
+// Map an error to the JSON body and status returned to the client
+function toErrorResponse(error: unknown): { body: { error: string } & Record<string, unknown>, status: number } {
+  if (error instanceof ExplainError) {
+    return { body: { error: error.message, ...error.details }, status: error.status }
+  }
+
+  if (error instanceof Error) {
+    // Handle OpenAI API errors
+    if (error.message.includes('API key') || error.message.includes('OPENAI_API_KEY')) {
+      return { body: { error: 'OpenAI API key is missing or invalid. Please check your environment variables.' }, status: 500 }
+    }
+    
+    // Handle rate limit errors
+    if (error.message.includes('rate limit')) {
+      return { body: { error: error.message }, status: 429 }
+    }
+    
+    // Handle authentication errors
+    if (error.message.includes('401') || error.message.includes('Unauthorized')) {
+      return { body: { error: 'Authentication failed. Please check your API keys.' }, status: 401 }
+    }
+    
+    // Handle not found errors
+    if (error.message.includes('404') || error.message.includes('not found')) {
+      return { body: { error: error.message }, status: 404 }
+    }
+    
+    // Handle input validation errors
+    if (error.message.includes('too long') || error.message.includes('too large') || error.message.includes('Maximum allowed') || error.message.includes('does not contain any readable')) {
+      return { body: { error: error.message }, status: 400 }
+    }
+    
+    // Return specific error messages
+    return { body: { error: error.message || 'An unexpected error occurred' }, status: 500 }
+  }
+
+  return { body: { error: 'Failed to generate explanation. Please try again.' }, status: 500 }
+}
+
 export async function POST(request: NextRequest) {
+  const streaming = wantsEventStream(request)
+
   try {
-    // Check if OpenAI client is initialized
-    if (!openai) {
+    // Check if the LLM provider is configured
+    if (!envValid) {
       return NextResponse.json(
-        { error: 'OpenAI API key is not configured. Please set OPENAI_API_KEY environment variable.' },
+        { error: 'LLM provider is not configured. Please set OPENAI_API_KEY, or LLM_PROVIDER=local with LLM_BASE_URL.' },
         { status: 500 }
       )
     }
@@ -629,11 +519,12 @@ export async function POST(request: NextRequest) {
 
     const contentType = request.headers.get('content-type') || ''
     
-    let projectDescription = ''
-    let audience: 'recruiter' | 'engineer' | 'hiring-manager' | 'founder-product' = 'engineer'
-    let tone: 'confident' | 'concise' | 'conversational' | 'technical' = 'confident'
+    let source: ProjectSource
+    let audience: Audience = 'engineer'
+    let tone: Tone = 'confident'
     let inputMethod: 'text' | 'github' | 'upload' = 'text'
-    let githubRateLimit: { remaining: number, reset: number } | undefined
+    let verify = true
+    let regenerateUnsupported = true
 
     // Handle file upload (FormData)
     if (contentType.includes('multipart/form-data')) {
@@ -642,6 +533,8 @@ export async function POST(request: NextRequest) {
       const audienceStr = formData.get('audience') as string
       const toneStr = formData.get('tone') as string
       const inputMethodStr = formData.get('inputMethod') as string
+      verify = formData.get('verifyClaims') !== 'false'
+      regenerateUnsupported = formData.get('regenerateUnsupported') !== 'false'
 
       if (!file) {
         return NextResponse.json(
@@ -657,11 +550,18 @@ export async function POST(request: NextRequest) {
         )
       }
 
-      audience = (audienceStr as 'recruiter' | 'engineer' | 'hiring-manager' | 'founder-product') || 'engineer'
-      tone = (toneStr as 'confident' | 'concise' | 'conversational' | 'technical') || 'confident'
+      if (!detectArchiveFormat(file.name)) {
+        return NextResponse.json(
+          { error: `Unsupported file format. Please upload a ${SUPPORTED_ARCHIVE_EXTENSIONS.join(', ')} archive.` },
+          { status: 400 }
+        )
+      }
+
+      audience = (audienceStr as Audience) || 'engineer'
+      tone = (toneStr as Tone) || 'confident'
       inputMethod = (inputMethodStr as typeof inputMethod) || 'upload'
 
-      projectDescription = await extractProjectInfoFromFile(file)
+      source = { kind: 'upload', file }
     } else {
       // Handle JSON request
       const body: RequestBody = await request.json()
@@ -670,6 +570,8 @@ export async function POST(request: NextRequest) {
       audience = inputAudience || 'engineer'
       tone = inputTone || 'confident'
       inputMethod = inputMethodType || 'text'
+      verify = body.verifyClaims !== false
+      regenerateUnsupported = body.regenerateUnsupported !== false
 
       if (!inputDescription || inputDescription.trim().length === 0) {
         return NextResponse.json(
@@ -680,162 +582,71 @@ export async function POST(request: NextRequest) {
 
       // Handle GitHub URL
       if (inputMethod === 'github') {
-        const repoInfo = parseGitHubUrl(inputDescription)
-        if (!repoInfo) {
+        const locator = parseRepoUrl(inputDescription)
+        if (!locator) {
           return NextResponse.json(
-            { error: 'Invalid GitHub URL. Please provide a valid GitHub repository URL.' },
+            { error: 'Invalid repository URL. Please provide a GitHub, GitLab or Bitbucket repository URL, or a git URL ending in .git.' },
             { status: 400 }
           )
         }
-        
-        // Check GitHub rate limit before fetching (to give better error messages)
-        const token = getNextGitHubToken()
-        const octokit = new Octokit({
-          auth: token,
-        })
-        try {
-          const rateLimitCheck = await octokit.rateLimit.get()
-          const remaining = rateLimitCheck.data.rate.remaining
-          if (remaining < 5) {
-            const resetTime = new Date(rateLimitCheck.data.rate.reset * 1000).toLocaleString()
-            return NextResponse.json(
-              { 
-                error: `GitHub API rate limit is very low (${remaining} remaining). Please wait until ${resetTime} or add a GITHUB_TOKEN for higher limits.`,
-                githubRateLimit: {
-                  remaining,
-                  reset: rateLimitCheck.data.rate.reset * 1000,
-                }
-              },
-              { status: 429 }
-            )
-          }
-        } catch {
-          // If we can't check rate limit, continue anyway
-        }
-        
-        const result = await fetchGitHubRepoInfo(repoInfo.owner, repoInfo.repo)
-        projectDescription = result.description
-        githubRateLimit = result.rateLimit
+        source = { kind: 'repository', url: inputDescription.trim(), locator }
       } else {
         // Handle text input
-        projectDescription = inputDescription
+        source = { kind: 'text', text: inputDescription }
       }
     }
 
-    if (!projectDescription || projectDescription.trim().length === 0) {
-      return NextResponse.json(
-        { error: 'Failed to extract project information' },
-        { status: 400 }
-      )
+    const input: ExplainInput = { source, audience, tone, verifyClaims: verify, regenerateUnsupported }
+    const metadata: ExplainMetadata = {
+      rateLimit: {
+        remaining: rateLimit.remaining,
+        resetTime: rateLimit.resetTime,
+        limit: PER_USER_LIMIT,
+        globalLimit: maxGlobalRequests,
+        globalRemaining: globalRateLimit.remaining,
+      },
+      githubTokens: hasToken ? {
+        count: tokenCount,
+        effectiveLimit: maxGlobalRequests,
+      } : undefined,
     }
-
-    // Validate input length based on token estimation
-    const inputLength = projectDescription.length
-    const estimatedTokens = estimateTokens(projectDescription)
-    
-    if (estimatedTokens > MAX_PROJECT_TOKENS) {
-      return NextResponse.json(
-        { 
-          error: `Input is too long (${inputLength.toLocaleString()} characters, ~${estimatedTokens.toLocaleString()} tokens). Maximum allowed is ~${MAX_PROJECT_TOKENS.toLocaleString()} tokens (~${MAX_PROJECT_CHARACTERS.toLocaleString()} characters). Please reduce the size of your project description.`,
-          inputLength,
-          estimatedTokens,
-        },
-        { status: 400 }
-      )
+    const rateLimitHeaders = {
+      'X-RateLimit-Remaining': rateLimit.remaining.toString(),
+      'X-RateLimit-Reset': rateLimit.resetTime.toString(),
+      'X-RateLimit-Limit': PER_USER_LIMIT.toString(),
+      'X-RateLimit-Global-Remaining': globalRateLimit.remaining.toString(),
+      'X-RateLimit-Global-Limit': maxGlobalRequests.toString(),
     }
 
-    const result = await generateExplanation(projectDescription, audience, tone)
-    
-    // Include rate limit info in response
-    const tokenUsage = getTokenUsageStats()
-    const response: any = {
-      ...result,
-      metadata: {
-        inputLength,
-        estimatedTokens,
-        rateLimit: {
-          remaining: rateLimit.remaining,
-          resetTime: rateLimit.resetTime,
-          limit: PER_USER_LIMIT,
-          globalLimit: maxGlobalRequests,
-          globalRemaining: globalRateLimit.remaining,
-        },
-        githubTokens: hasToken ? {
-          count: tokenCount,
-          effectiveLimit: maxGlobalRequests,
-          totalUsage: tokenUsage.total,
-          usagePerToken: tokenUsage.perToken,
-        } : undefined,
-      },
-    }
-    
-    if (githubRateLimit) {
-      response.metadata.githubRateLimit = githubRateLimit
+    // Streaming mode: report real progress as server-sent events, final payload arrives last
+    if (streaming) {
+      const stream = createSSEStream(async (send) => {
+        const emit: ExplainEmit = (event) => send(event.type, event)
+        try {
+          const response = await runExplain(input, metadata, emit)
+          emit({ type: 'result', data: response })
+        } catch (error) {
+          console.error('Error in /api/explain stream:', error)
+          const { body, status } = toErrorResponse(error)
+          emit({ ...body, type: 'error', status })
+        }
+      })
+      return new Response(stream, {
+        headers: {
+          ...SSE_HEADERS,
+          ...rateLimitHeaders,
+        }
+      })
     }
+
+    const response = await runExplain(input, metadata)
     
     return NextResponse.json(response, {
-      headers: {
-        'X-RateLimit-Remaining': rateLimit.remaining.toString(),
-        'X-RateLimit-Reset': rateLimit.resetTime.toString(),
-        'X-RateLimit-Limit': PER_USER_LIMIT.toString(),
-        'X-RateLimit-Global-Remaining': globalRateLimit.remaining.toString(),
-        'X-RateLimit-Global-Limit': maxGlobalRequests.toString(),
-      }
+      headers: rateLimitHeaders
     })
   } catch (error) {
     console.error('Error in /api/explain:', error)
-    
-    if (error instanceof Error) {
-      // Handle OpenAI API errors
-      if (error.message.includes('API key') || error.message.includes('OPENAI_API_KEY')) {
-        return NextResponse.json(
-          { error: 'OpenAI API key is missing or invalid. Please check your environment variables.' },
-          { status: 500 }
-        )
-      }
-      
-      // Handle rate limit errors
-      if (error.message.includes('rate limit')) {
-        return NextResponse.json(
-          { error: error.message },
-          { status: 429 }
-        )
-      }
-      
-      // Handle authentication errors
-      if (error.message.includes('401') || error.message.includes('Unauthorized')) {
-        return NextResponse.json(
-          { error: 'Authentication failed. Please check your API keys.' },
-          { status: 401 }
-        )
-      }
-      
-      // Handle not found errors
-      if (error.message.includes('404') || error.message.includes('not found')) {
-        return NextResponse.json(
-          { error: error.message },
-          { status: 404 }
-        )
-      }
-      
-      // Handle input validation errors
-      if (error.message.includes('too long') || error.message.includes('Maximum allowed')) {
-        return NextResponse.json(
-          { error: error.message },
-          { status: 400 }
-        )
-      }
-      
-      // Return specific error messages
-      return NextResponse.json(
-        { error: error.message || 'An unexpected error occurred' },
-        { status: 500 }
-      )
-    }
-
-    return NextResponse.json(
-      { error: 'Failed to generate explanation. Please try again.' },
-      { status: 500 }
-    )
+    const { body, status } = toErrorResponse(error)
+    return NextResponse.json(body, { status })
   }
 }
@@ -1,17 +1,27 @@
 import { NextRequest, NextResponse } from 'next/server';
 import {
   getSession,
-  setAnalysisCache,
+  setSessionAnalysis,
+  setRepoRevision,
   updateSessionStatus,
   addMessage,
   createMessage,
 } from '@/lib/interview/sessionManager';
-import { fetchRepository } from '@/lib/interview/githubFetcher';
+import {
+  filterRepoToDirectories,
+  getCachedRepo,
+  ingestRepository,
+  withDirectories,
+} from '@/lib/ingest';
+import { cacheAnalysis, getCachedAnalysis } from '@/lib/interview/analysisCache';
 import { analyzeRepository } from '@/lib/interview/repoAnalyzer';
-import type { AnalyzeRequest, AnalyzeResponse } from '@/types/interview';
+import { summaryBudget } from '@/lib/summarize';
+import type { AnalyzeRequest, AnalyzeResponse, FetchedRepo } from '@/types/interview';
 
 export const runtime = 'nodejs';
 export const maxDuration = 120; // Analysis can take longer
+// Share of maxDuration a large repo may spend being summarized before the analysis call
+const SUMMARY_SECONDS = 90;
 
 export async function POST(request: NextRequest): Promise<NextResponse<AnalyzeResponse>> {
   try {
@@ -44,8 +54,25 @@ export async function POST(request: NextRequest): Promise<NextResponse<AnalyzeRe
       )
     );
 
-    // Fetch repository contents
-    const repo = await fetchRepository(session.repoUrl, directories);
+    let repo: FetchedRepo;
+    let cacheKey: string;
+    if (session.source === 'upload') {
+      // Uploaded code was extracted when the session started
+      const uploadedRepo = session.repoKey ? await getCachedRepo(session.repoKey) : null;
+      if (!session.repoKey || !uploadedRepo) {
+        await updateSessionStatus(sessionId, 'selecting_dirs');
+        return NextResponse.json(
+          { success: false, error: 'Uploaded code has expired. Please start a new interview.' },
+          { status: 410 }
+        );
+      }
+      repo = filterRepoToDirectories(uploadedRepo, directories);
+      cacheKey = withDirectories(session.repoKey, directories);
+    } else {
+      // Fetch repository contents (reuses an earlier fetch of the same commit, e.g. from /api/explain)
+      ({ repo, cacheKey } = await ingestRepository(session.repoUrl, { directories }));
+      await setRepoRevision(sessionId, repo);
+    }
 
     if (repo.files.length === 0) {
       await updateSessionStatus(sessionId, 'selecting_dirs');
@@ -55,11 +82,14 @@ export async function POST(request: NextRequest): Promise<NextResponse<AnalyzeRe
       );
     }
 
-    // Analyze the repository with GPT-4
-    const analysis = await analyzeRepository(repo);
+    // Analyze the repository with GPT-4, unless another session already analyzed this commit
+    let analysis = await getCachedAnalysis(cacheKey);
+    if (!analysis) {
+      analysis = await analyzeRepository(repo, { tokenBudget: summaryBudget(SUMMARY_SECONDS) });
+      await cacheAnalysis(cacheKey, analysis);
+    }
 
-    // Cache the analysis in the session
-    await setAnalysisCache(sessionId, analysis);
+    await setSessionAnalysis(sessionId, cacheKey);
 
     // Add success message
     await addMessage(
@@ -1,23 +1,58 @@
 import { NextRequest, NextResponse } from 'next/server';
 import {
   getSession,
-  clearCurrentQuestion,
+  completeQuestion,
+  startFollowUp,
   addMessage,
   createMessage,
+  getSessionAnalysis,
 } from '@/lib/interview/sessionManager';
-import { evaluateAnswer, formatEvaluationMessage } from '@/lib/interview/answerEvaluator';
+import {
+  createTimedOutEvaluation,
+  evaluateAnswer,
+  formatEvaluationMessage,
+} from '@/lib/interview/answerEvaluator';
 import { annotateAllSnippets } from '@/lib/interview/codeAnnotator';
+import { createFollowUp } from '@/lib/interview/followUpEngine';
+import { isPastDeadline } from '@/lib/interview/interviewPlan';
+import { readRecordingUpload, transcribeRecording, type RecordingUpload } from '@/lib/speech';
 import type { AnswerRequest, AnswerResponse } from '@/types/interview';
+import type { DeliveryMetrics } from '@/types/speech';
 
 export const runtime = 'nodejs';
 export const maxDuration = 60;
 
+type ParsedAnswerRequest = Partial<AnswerRequest> & { recording?: RecordingUpload };
+
+// A spoken answer arrives as multipart form data with the recording in place of the text
+async function parseAnswerRequest(request: NextRequest): Promise<ParsedAnswerRequest> {
+  const contentType = request.headers.get('content-type') || '';
+  if (!contentType.includes('multipart/form-data')) {
+    return (await request.json()) as AnswerRequest;
+  }
+
+  const formData = await request.formData();
+  return {
+    sessionId: (formData.get('sessionId') as string | null) || undefined,
+    questionId: (formData.get('questionId') as string | null) || undefined,
+    recording: readRecordingUpload(formData),
+  };
+}
+
 export async function POST(request: NextRequest): Promise<NextResponse<AnswerResponse>> {
   try {
-    const body = (await request.json()) as AnswerRequest;
-    const { sessionId, answer, questionId } = body;
+    // Transcription takes a while, so the time limit is checked against when the answer arrived
+    const receivedAt = Date.now();
+    const { sessionId, questionId, recording, ...body } = await parseAnswerRequest(request);
+
+    if (recording?.error !== undefined) {
+      return NextResponse.json(
+        { success: false, error: recording.error },
+        { status: 400 }
+      );
+    }
 
-    if (!sessionId || !answer || !questionId) {
+    if (!sessionId || !(body.answer || recording) || !questionId) {
       return NextResponse.json(
         { success: false, error: 'Session ID, answer, and question ID are required' },
         { status: 400 }
@@ -40,59 +75,122 @@ export async function POST(request: NextRequest): Promise<NextResponse<AnswerRes
       );
     }
 
-    if (!session.analysisCache) {
+    const analysis = await getSessionAnalysis(session);
+    if (!analysis) {
       return NextResponse.json(
         { success: false, error: 'Repository analysis not found' },
         { status: 400 }
       );
     }
 
+    // Follow-ups belong to the thread of the question they probe
+    const question = session.currentQuestion;
+    const parentQuestionId = question.parentQuestionId;
+    const threadId = parentQuestionId || question.id;
+
+    // The question and its files tell the transcriber how identifiers are spelled
+    let answer = body.answer || '';
+    let delivery: DeliveryMetrics | undefined;
+    if (recording) {
+      ({ transcript: answer, delivery } = await transcribeRecording(recording.audio, recording.recordedSeconds, {
+        prompt: `${question.text}\n${question.relatedFiles.join(', ')}`,
+      }));
+
+      if (!answer) {
+        return NextResponse.json(
+          { success: false, error: 'No speech was detected in the recording' },
+          { status: 400 }
+        );
+      }
+    }
+
     // Add user's answer to chat
     await addMessage(
       sessionId,
       createMessage('user', answer, {
         type: 'answer',
         questionId,
+        parentQuestionId,
+        delivery,
       })
     );
 
-    // Evaluate the answer
-    const evaluation = await evaluateAnswer(
-      session.currentQuestion,
-      answer,
-      session.analysisCache
-    );
+    // Evaluate the answer, unless it came in after the plan's time limit
+    const timedOut = isPastDeadline(session, receivedAt);
+    const evaluation = timedOut
+      ? createTimedOutEvaluation(question)
+      : await evaluateAnswer(question, answer, analysis, delivery);
 
     // Format evaluation message
     const evaluationText = formatEvaluationMessage(
       evaluation,
-      session.currentQuestion.text
+      question.text
     );
 
     // Annotate code snippets with evaluation context
-    let codeSnippets = session.currentQuestion.codeSnippets;
+    let codeSnippets = question.codeSnippets;
     if (codeSnippets.length > 0) {
-      codeSnippets = await annotateAllSnippets(codeSnippets, session.currentQuestion);
+      codeSnippets = await annotateAllSnippets(codeSnippets, question, analysis.symbols);
     }
 
     // Add evaluation message to chat
     const message = createMessage('assistant', evaluationText, {
       type: 'evaluation',
       questionId,
+      parentQuestionId,
       score: evaluation.score,
+      strengths: evaluation.strengths,
+      missedPoints: evaluation.missedPoints,
       codeSnippets,
     });
 
     await addMessage(sessionId, message);
 
-    // Clear current question to prepare for next
-    await clearCurrentQuestion(sessionId);
+    // Probe a partial answer with a follow-up before moving on
+    const thread = session.questionsAsked.find(q => q.id === threadId);
+    const followUp = timedOut
+      ? null
+      : await createFollowUp(analysis, question, answer, evaluation, thread?.answerScores?.length || 0);
+
+    if (followUp) {
+      if (followUp.codeSnippets.length > 0) {
+        followUp.codeSnippets = await annotateAllSnippets(followUp.codeSnippets, followUp, analysis.symbols);
+      }
+      await startFollowUp(sessionId, threadId, evaluation.score, followUp);
+      await addMessage(
+        sessionId,
+        createMessage('assistant', followUp.text, {
+          type: 'question',
+          questionId: followUp.id,
+          parentQuestionId: threadId,
+          difficulty: followUp.difficulty,
+          category: followUp.category,
+          codeSnippets: followUp.codeSnippets,
+        })
+      );
+
+      return NextResponse.json({
+        success: true,
+        evaluation,
+        message,
+        codeSnippets,
+        transcript: recording ? answer : undefined,
+        delivery,
+        followUpQuestion: followUp,
+      });
+    }
+
+    // Record the thread's combined score for adaptive difficulty and clear the question; ends the session after the plan's last one
+    const updated = await completeQuestion(sessionId, threadId, evaluation.score, timedOut);
 
     return NextResponse.json({
       success: true,
       evaluation,
       message,
       codeSnippets,
+      transcript: recording ? answer : undefined,
+      delivery,
+      sessionEnded: updated?.status === 'ended',
     });
   } catch (error) {
     console.error('Error evaluating answer:', error);
@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSession } from '@/lib/interview/sessionManager';
+import {
+  buildTranscript,
+  EXPORT_FORMATS,
+  getExportFileName,
+  isExportFormat,
+  renderHtml,
+  renderMarkdown,
+  type ExportFormat,
+} from '@/lib/interview/transcriptExport';
+
+export const runtime = 'nodejs';
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  markdown: 'text/markdown; charset=utf-8',
+  json: 'application/json; charset=utf-8',
+  html: 'text/html; charset=utf-8',
+};
+
+// A plain ASCII filename for old clients, and the exact one as RFC 5987 `filename*`
+function contentDisposition(type: 'inline' | 'attachment', fileName: string): string {
+  const fallback = fileName.replace(/[^\x20-\x7e]|["\\]/g, '_');
+  // encodeURIComponent leaves these as they are, but RFC 5987 does not allow them unencoded
+  const encoded = encodeURIComponent(fileName).replace(/['()*]/g, char => `%${char.charCodeAt(0).toString(16).toUpperCase()}`);
+  return `${type}; filename="${fallback}"; filename*=UTF-8''${encoded}`;
+}
+
+// GET /api/interview/export?sessionId=...&format=markdown|json|html downloads the
+// full transcript. HTML opens in the browser, ready to print or save as PDF.
+export async function GET(request: NextRequest): Promise<Response> {
+  try {
+    const { searchParams } = new URL(request.url);
+    const sessionId = searchParams.get('sessionId');
+    const format = searchParams.get('format') || 'markdown';
+
+    if (!sessionId) {
+      return NextResponse.json(
+        { success: false, error: 'Session ID is required' },
+        { status: 400 }
+      );
+    }
+
+    if (!isExportFormat(format)) {
+      return NextResponse.json(
+        { success: false, error: `Unsupported format. Use one of: ${EXPORT_FORMATS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const session = await getSession(sessionId);
+
+    if (!session) {
+      return NextResponse.json(
+        { success: false, error: 'Session not found' },
+        { status: 404 }
+      );
+    }
+
+    const transcript = buildTranscript(session);
+    const body = format === 'json'
+      ? JSON.stringify(transcript, null, 2)
+      : format === 'html'
+      ? renderHtml(transcript)
+      : renderMarkdown(transcript);
+
+    const fileName = getExportFileName(transcript, format);
+    return new Response(body, {
+      headers: {
+        'Content-Type': CONTENT_TYPES[format],
+        'Content-Disposition': contentDisposition(format === 'html' ? 'inline' : 'attachment', fileName),
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error) {
+    console.error('Error exporting transcript:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to export transcript' },
+      { status: 500 }
+    );
+  }
+}
@@ -3,8 +3,11 @@ import {
   getSession,
   addMessage,
   createMessage,
+  getSessionAnalysis,
+  recordHint,
 } from '@/lib/interview/sessionManager';
 import { generateHint, formatHintMessage } from '@/lib/interview/hintGenerator';
+import { getHintsRemaining } from '@/lib/interview/interviewPlan';
 import type { HintRequest, HintResponse } from '@/types/interview';
 
 export const runtime = 'nodejs';
@@ -42,7 +45,15 @@ export async function POST(request: NextRequest): Promise<NextResponse<HintRespo
       );
     }
 
-    if (!session.analysisCache) {
+    if (getHintsRemaining(session) === 0) {
+      return NextResponse.json(
+        { success: false, error: 'No hints left in this interview plan' },
+        { status: 400 }
+      );
+    }
+
+    const analysis = await getSessionAnalysis(session);
+    if (!analysis) {
       return NextResponse.json(
         { success: false, error: 'Repository analysis not found' },
         { status: 400 }
@@ -55,7 +66,7 @@ export async function POST(request: NextRequest): Promise<NextResponse<HintRespo
     // Generate hint
     const hint = await generateHint(
       session.currentQuestion,
-      session.analysisCache,
+      analysis,
       clampedHintLevel
     );
 
@@ -69,6 +80,7 @@ export async function POST(request: NextRequest): Promise<NextResponse<HintRespo
     });
 
     await addMessage(sessionId, message);
+    await recordHint(sessionId);
 
     return NextResponse.json({
       success: true,
@@ -4,9 +4,11 @@ import {
   setCurrentQuestion,
   addMessage,
   createMessage,
+  getSessionAnalysis,
 } from '@/lib/interview/sessionManager';
 import { generateQuestion } from '@/lib/interview/questionGenerator';
 import { annotateAllSnippets } from '@/lib/interview/codeAnnotator';
+import { isPlanComplete } from '@/lib/interview/interviewPlan';
 import type { QuestionRequest, QuestionResponse } from '@/types/interview';
 
 export const runtime = 'nodejs';
@@ -33,7 +35,8 @@ export async function POST(request: NextRequest): Promise<NextResponse<QuestionR
       );
     }
 
-    if (!session.analysisCache) {
+    const analysis = await getSessionAnalysis(session);
+    if (!analysis) {
       return NextResponse.json(
         { success: false, error: 'Repository analysis not found. Please analyze the repository first.' },
         { status: 400 }
@@ -47,17 +50,26 @@ export async function POST(request: NextRequest): Promise<NextResponse<QuestionR
       );
     }
 
-    // Generate a new question
+    if (isPlanComplete(session)) {
+      return NextResponse.json(
+        { success: false, error: 'Every question in the interview plan has been asked' },
+        { status: 400 }
+      );
+    }
+
+    // Generate a new question within the plan, adapted to how the earlier answers scored
     const question = await generateQuestion(
-      session.analysisCache,
-      session.questionsAsked
+      analysis,
+      session.questionsAsked,
+      session.plan
     );
 
     // Annotate code snippets
     if (question.codeSnippets.length > 0) {
       question.codeSnippets = await annotateAllSnippets(
         question.codeSnippets,
-        question
+        question,
+        analysis.symbols
       );
     }
 
@@ -68,6 +80,8 @@ export async function POST(request: NextRequest): Promise<NextResponse<QuestionR
     const message = createMessage('assistant', question.text, {
       type: 'question',
       questionId: question.id,
+      difficulty: question.difficulty,
+      category: question.category,
       codeSnippets: question.codeSnippets,
     });
 
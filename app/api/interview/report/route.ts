@@ -0,0 +1,92 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  claimReportGeneration,
+  getSession,
+  getSessionAnalysis,
+  recordReportFailure,
+  releaseReportGeneration,
+  setSessionReport,
+  waitForReport,
+} from '@/lib/interview/sessionManager';
+import { generateReport } from '@/lib/interview/reportGenerator';
+import type { ReportResponse } from '@/types/interview';
+
+export const runtime = 'nodejs';
+export const maxDuration = 60;
+// How long a request waits for a report another request is generating, within maxDuration
+const REPORT_WAIT_MS = 50 * 1000;
+
+// GET /api/interview/report?sessionId=... returns the scorecard of an ended session,
+// generating it on the first request; requests that arrive meanwhile wait for that one
+export async function GET(request: NextRequest): Promise<NextResponse<ReportResponse>> {
+  try {
+    const { searchParams } = new URL(request.url);
+    const sessionId = searchParams.get('sessionId');
+
+    if (!sessionId) {
+      return NextResponse.json(
+        { success: false, error: 'Session ID is required' },
+        { status: 400 }
+      );
+    }
+
+    const session = await getSession(sessionId);
+
+    if (!session) {
+      return NextResponse.json(
+        { success: false, error: 'Session not found' },
+        { status: 404 }
+      );
+    }
+
+    if (session.status !== 'ended') {
+      return NextResponse.json(
+        { success: false, error: 'The report is available once the interview has ended' },
+        { status: 400 }
+      );
+    }
+
+    if (session.report) {
+      return NextResponse.json({ success: true, report: session.report });
+    }
+
+    const claim = await claimReportGeneration(sessionId);
+    if (!claim) {
+      const report = await waitForReport(sessionId, REPORT_WAIT_MS);
+      if (!report) {
+        return NextResponse.json(
+          { success: false, error: 'The report is still being prepared. Please try again shortly.' },
+          { status: 503 }
+        );
+      }
+      return NextResponse.json({ success: true, report });
+    }
+
+    try {
+      // The session may have been reported on between reading it and taking the claim
+      const current = await getSession(sessionId);
+      if (current?.report) {
+        return NextResponse.json({ success: true, report: current.report });
+      }
+
+      const report = await generateReport(session, await getSessionAnalysis(session));
+      await setSessionReport(sessionId, report);
+      return NextResponse.json({ success: true, report });
+    } catch (error) {
+      await recordReportFailure(sessionId, error instanceof Error ? error.message : 'Failed to generate report');
+      throw error;
+    } finally {
+      await releaseReportGeneration(sessionId, claim);
+    }
+  } catch (error) {
+    console.error('Error generating report:', error);
+
+    const errorMessage =
+      error instanceof Error ? error.message : 'Failed to generate report';
+
+    return NextResponse.json(
+      { success: false, error: errorMessage },
+      { status: 500 }
+    );
+  }
+}
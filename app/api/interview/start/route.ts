@@ -1,14 +1,91 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { resolveInterviewPlan } from '@/lib/interview/interviewPlan';
 import { createSession } from '@/lib/interview/sessionManager';
-import type { StartInterviewRequest, StartInterviewResponse } from '@/types/interview';
+import {
+  detectArchiveFormat,
+  ingestArchive,
+  parseRepoUrl,
+  SUPPORTED_ARCHIVE_EXTENSIONS,
+} from '@/lib/ingest';
+import type { FetchedRepo, StartInterviewRequest, StartInterviewResponse } from '@/types/interview';
 
 export const runtime = 'nodejs';
 export const maxDuration = 60;
 
+const MAX_UPLOAD_SIZE = 50 * 1024 * 1024; // 50MB, same as /api/explain
+
+// Start a session on an uploaded archive; the session references the extracted code by its content address
+async function startFromUpload(request: NextRequest): Promise<NextResponse<StartInterviewResponse>> {
+  const formData = await request.formData();
+  const file = formData.get('file') as File | null;
+  const repoId = formData.get('repoId') as string | null;
+  const planField = formData.get('plan') as string | null;
+
+  if (!file) {
+    return NextResponse.json(
+      { success: false, error: 'File is required' },
+      { status: 400 }
+    );
+  }
+
+  if (file.size > MAX_UPLOAD_SIZE) {
+    return NextResponse.json(
+      { success: false, error: 'File size exceeds 50MB limit' },
+      { status: 400 }
+    );
+  }
+
+  if (!detectArchiveFormat(file.name)) {
+    return NextResponse.json(
+      { success: false, error: `Unsupported file format. Please upload a ${SUPPORTED_ARCHIVE_EXTENSIONS.join(', ')} archive.` },
+      { status: 400 }
+    );
+  }
+
+  let plan: StartInterviewRequest['plan'];
+  try {
+    plan = planField ? JSON.parse(planField) : undefined;
+  } catch {
+    return NextResponse.json(
+      { success: false, error: 'Interview plan must be valid JSON' },
+      { status: 400 }
+    );
+  }
+
+  let repo: FetchedRepo;
+  let cacheKey: string;
+  try {
+    ({ repo, cacheKey } = await ingestArchive(file.name, Buffer.from(await file.arrayBuffer())));
+  } catch (error) {
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Failed to read the uploaded archive' },
+      { status: 400 }
+    );
+  }
+
+  const session = await createSession(
+    `upload://${repo.name}`,
+    repoId || repo.name,
+    'upload',
+    cacheKey,
+    resolveInterviewPlan(plan)
+  );
+
+  return NextResponse.json({
+    success: true,
+    sessionId: session.sessionId,
+  });
+}
+
 export async function POST(request: NextRequest): Promise<NextResponse<StartInterviewResponse>> {
   try {
+    const contentType = request.headers.get('content-type') || '';
+    if (contentType.includes('multipart/form-data')) {
+      return await startFromUpload(request);
+    }
+
     const body = (await request.json()) as StartInterviewRequest;
-    const { repoUrl, repoId } = body;
+    const { repoUrl, repoId, plan } = body;
 
     if (!repoUrl) {
       return NextResponse.json(
@@ -17,24 +94,16 @@ export async function POST(request: NextRequest): Promise<NextResponse<StartInte
       );
     }
 
-    // Validate GitHub URL format
-    try {
-      const url = new URL(repoUrl);
-      if (url.hostname !== 'github.com' && url.hostname !== 'www.github.com') {
-        return NextResponse.json(
-          { success: false, error: 'Invalid GitHub URL' },
-          { status: 400 }
-        );
-      }
-    } catch {
+    // Validate the URL against the supported hosts (GitHub, GitLab, Bitbucket, git remotes)
+    if (!parseRepoUrl(repoUrl)) {
       return NextResponse.json(
-        { success: false, error: 'Invalid URL format' },
+        { success: false, error: 'Invalid repository URL' },
         { status: 400 }
       );
     }
 
-    // Create a new interview session
-    const session = await createSession(repoUrl, repoId || repoUrl);
+    // Create a new interview session; plan fields left out take their defaults
+    const session = await createSession(repoUrl, repoId || repoUrl, 'github', undefined, resolveInterviewPlan(plan));
 
     return NextResponse.json({
       success: true,
@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSession, getSessionAnalysis } from '@/lib/interview/sessionManager';
+import { createSymbolSnippet, searchSymbols } from '@/lib/interview/symbolIndex';
+import type { SymbolSearchResponse } from '@/types/interview';
+
+export const runtime = 'nodejs';
+
+export async function GET(request: NextRequest): Promise<NextResponse<SymbolSearchResponse>> {
+  try {
+    const { searchParams } = new URL(request.url);
+    const sessionId = searchParams.get('sessionId');
+    const query = searchParams.get('q');
+    const file = searchParams.get('file');
+    const line = Number(searchParams.get('line'));
+
+    if (!sessionId) {
+      return NextResponse.json(
+        { success: false, error: 'Session ID is required' },
+        { status: 400 }
+      );
+    }
+
+    const session = await getSession(sessionId);
+
+    if (!session) {
+      return NextResponse.json(
+        { success: false, error: 'Session not found' },
+        { status: 404 }
+      );
+    }
+
+    const analysis = await getSessionAnalysis(session);
+    if (!analysis) {
+      return NextResponse.json(
+        { success: false, error: 'Repository analysis not found. Please analyze the repository first.' },
+        { status: 400 }
+      );
+    }
+
+    const symbols = analysis.symbols || [];
+
+    // Jump to a definition
+    if (file && line) {
+      const symbol = symbols.find(s => s.file === file && s.startLine === line);
+      const snippet = symbol ? createSymbolSnippet(analysis, symbol) : null;
+      if (!snippet) {
+        return NextResponse.json(
+          { success: false, error: 'Symbol not found' },
+          { status: 404 }
+        );
+      }
+      return NextResponse.json({ success: true, snippet });
+    }
+
+    return NextResponse.json({
+      success: true,
+      symbols: searchSymbols(symbols, query || ''),
+    });
+  } catch (error) {
+    console.error('Error searching symbols:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to search symbols' },
+      { status: 500 }
+    );
+  }
+}
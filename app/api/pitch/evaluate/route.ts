@@ -0,0 +1,97 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { validateEnv } from '@/lib/env'
+import { evaluatePitch } from '@/lib/pitch/pitchCoach'
+import { checkRateLimit, getClientIdentifier } from '@/lib/rateLimit'
+import type { PitchEvaluateRequest, PitchEvaluateResponse } from '@/types/pitch'
+
+export const runtime = 'nodejs'
+export const maxDuration = 60
+
+// Validate environment variables - don't crash on module load
+let envValid = false
+try {
+  validateEnv()
+  envValid = true
+} catch (error) {
+  console.error('Environment validation failed:', error)
+  // envValid stays false, API routes will handle this
+}
+
+// A 30-second pitch is well under this; anything longer is not a pitch
+const MAX_PITCH_LENGTH = 4000
+const MAX_CONTEXT_LENGTH = 12000
+
+export async function POST(request: NextRequest): Promise<NextResponse<PitchEvaluateResponse>> {
+  try {
+    // Check if the LLM provider is configured
+    if (!envValid) {
+      return NextResponse.json(
+        { error: 'LLM provider is not configured. Please set OPENAI_API_KEY, or LLM_PROVIDER=local with LLM_BASE_URL.' },
+        { status: 500 }
+      )
+    }
+
+    // Rate limiting
+    const clientId = getClientIdentifier(request)
+    const rateLimit = checkRateLimit(`pitch:${clientId}`, 30, 60 * 60 * 1000) // 30 rehearsals per hour
+
+    if (!rateLimit.allowed) {
+      const resetDate = new Date(rateLimit.resetTime).toLocaleTimeString()
+      return NextResponse.json(
+        { error: `Rate limit exceeded. Please try again after ${resetDate}.` },
+        { status: 429 }
+      )
+    }
+
+    const body: PitchEvaluateRequest = await request.json()
+    const { rehearsedPitch, generatedPitch, projectContext, delivery } = body
+
+    if (typeof rehearsedPitch !== 'string' || !rehearsedPitch.trim() || typeof generatedPitch !== 'string' || !generatedPitch.trim()) {
+      return NextResponse.json(
+        { error: 'Missing required fields: rehearsedPitch and generatedPitch are required' },
+        { status: 400 }
+      )
+    }
+
+    if (rehearsedPitch.length > MAX_PITCH_LENGTH || generatedPitch.length > MAX_PITCH_LENGTH) {
+      return NextResponse.json(
+        { error: `Pitches must be at most ${MAX_PITCH_LENGTH} characters` },
+        { status: 400 }
+      )
+    }
+
+    // Delivery comes from /api/speech/transcribe; only its duration needs to be sound to score timing
+    const validDelivery = delivery && typeof delivery.durationSeconds === 'number' && delivery.durationSeconds > 0
+      ? delivery
+      : undefined
+
+    const evaluation = await evaluatePitch({
+      rehearsedPitch: rehearsedPitch.trim(),
+      generatedPitch: generatedPitch.trim(),
+      projectContext: typeof projectContext === 'string' ? projectContext.slice(0, MAX_CONTEXT_LENGTH) : undefined,
+      delivery: validDelivery,
+    })
+
+    return NextResponse.json({ evaluation })
+  } catch (error) {
+    console.error('Error in /api/pitch/evaluate:', error)
+
+    if (error instanceof Error) {
+      if (error.message.includes('API key')) {
+        return NextResponse.json(
+          { error: 'OpenAI API key is missing or invalid' },
+          { status: 500 }
+        )
+      }
+      return NextResponse.json(
+        { error: error.message },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to evaluate pitch. Please try again.' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,21 +1,19 @@
 import { NextRequest, NextResponse } from 'next/server'
-import OpenAI from 'openai'
 import { validateEnv } from '@/lib/env'
+import { EXPLAIN_MODEL, generateCompletion } from '@/lib/llm'
 import { checkRateLimit, getClientIdentifier } from '@/lib/rateLimit'
 
 export const runtime = 'nodejs'
 export const maxDuration = 60
 
 // Validate environment variables - don't crash on module load
-let openai: OpenAI | null = null
+let envValid = false
 try {
   validateEnv()
-  openai = new OpenAI({
-    apiKey: process.env.OPENAI_API_KEY,
-  })
+  envValid = true
 } catch (error) {
   console.error('Environment validation failed:', error)
-  // openai will be null, API routes will handle this
+  // envValid stays false, API routes will handle this
 }
 
 interface RefineRequest {
@@ -77,19 +75,19 @@ Refinement request: ${prompt}
 
 Please provide the refined version. Return only the refined content, no explanations or meta-commentary.`
 
-  const completion = await openai!.chat.completions.create({
-    model: 'gpt-4o-mini',
-    messages: [
-      { role: 'system', content: systemPrompt },
-      { role: 'user', content: userPrompt },
-    ],
+  const completion = await generateCompletion([
+    { role: 'system', content: systemPrompt },
+    { role: 'user', content: userPrompt },
+  ], {
+    model: EXPLAIN_MODEL,
     temperature: 0.7,
-    max_tokens: 2000,
+    maxTokens: 2000,
+    task: 'refine',
   })
 
-  const refined = completion.choices[0]?.message?.content?.trim()
+  const refined = completion.trim()
   if (!refined) {
-    throw new Error('No response from OpenAI')
+    throw new Error('No response from the language model')
   }
 
   return refined
@@ -97,10 +95,10 @@ Please provide the refined version. Return only the refined content, no explanat
 
 export async function POST(request: NextRequest) {
   try {
-    // Check if OpenAI client is initialized
-    if (!openai) {
+    // Check if the LLM provider is configured
+    if (!envValid) {
       return NextResponse.json(
-        { error: 'OpenAI API key is not configured. Please set OPENAI_API_KEY environment variable.' },
+        { error: 'LLM provider is not configured. Please set OPENAI_API_KEY, or LLM_PROVIDER=local with LLM_BASE_URL.' },
         { status: 500 }
       )
     }
@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getRepositoryInfo, parseRepoUrl } from '@/lib/ingest'
+
+export const runtime = 'nodejs'
+export const maxDuration = 30
+
+interface RepoInfoRequest {
+  url: string
+}
+
+// Repository preview for hosts the browser can't query directly (GitLab, Bitbucket, GitHub Enterprise, git remotes)
+export async function POST(request: NextRequest) {
+  try {
+    const { url }: RepoInfoRequest = await request.json()
+
+    const locator = url ? parseRepoUrl(url) : null
+    if (!locator) {
+      return NextResponse.json(
+        { error: 'Invalid repository URL. Please provide a GitHub, GitLab or Bitbucket repository URL, or a git URL ending in .git.' },
+        { status: 400 }
+      )
+    }
+
+    const info = await getRepositoryInfo(locator)
+
+    return NextResponse.json({
+      host: locator.host,
+      owner: locator.owner,
+      name: locator.repo,
+      description: info.description || null,
+      stars: info.stars ?? 0,
+      defaultBranch: info.defaultBranch,
+    })
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to fetch repository information'
+    const status = message.includes('not found') ? 404 : message.includes('forbidden') ? 403 : 500
+    return NextResponse.json({ error: message }, { status })
+  }
+}
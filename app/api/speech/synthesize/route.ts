@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { MAX_SPEECH_CHARS, synthesizeSpeech } from '@/lib/speech';
+import { checkRateLimit, getClientIdentifier } from '@/lib/rateLimit';
+import type { SynthesizeRequest } from '@/types/speech';
+
+export const runtime = 'nodejs';
+export const maxDuration = 60;
+
+const SYNTHESIZE_LIMIT = 60;
+const SYNTHESIZE_WINDOW_MS = 10 * 60 * 1000;
+
+// POST /api/speech/synthesize reads `text` aloud, returning the audio itself
+// (errors are JSON), so the client can play it from an object URL.
+export async function POST(request: NextRequest): Promise<Response> {
+  try {
+    const rateLimit = checkRateLimit(`synthesize:${getClientIdentifier(request)}`, SYNTHESIZE_LIMIT, SYNTHESIZE_WINDOW_MS);
+    if (!rateLimit.allowed) {
+      return NextResponse.json(
+        { success: false, error: `Too many requests. Please try again after ${new Date(rateLimit.resetTime).toLocaleTimeString()}.` },
+        { status: 429 }
+      );
+    }
+
+    const { text } = (await request.json()) as SynthesizeRequest;
+
+    if (typeof text !== 'string' || !text.trim()) {
+      return NextResponse.json(
+        { success: false, error: 'Text is required' },
+        { status: 400 }
+      );
+    }
+
+    if (text.length > MAX_SPEECH_CHARS) {
+      return NextResponse.json(
+        { success: false, error: `Text must be at most ${MAX_SPEECH_CHARS} characters` },
+        { status: 400 }
+      );
+    }
+
+    const speech = await synthesizeSpeech(text);
+    return new Response(speech.audio, {
+      headers: {
+        'Content-Type': speech.contentType,
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error) {
+    console.error('Error synthesizing speech:', error);
+
+    const errorMessage =
+      error instanceof Error ? error.message : 'Failed to synthesize speech';
+
+    return NextResponse.json(
+      { success: false, error: errorMessage },
+      { status: 500 }
+    );
+  }
+}
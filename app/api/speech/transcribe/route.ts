@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { readRecordingUpload, transcribeRecording } from '@/lib/speech';
+import { checkRateLimit, getClientIdentifier } from '@/lib/rateLimit';
+import type { TranscribeResponse } from '@/types/speech';
+
+export const runtime = 'nodejs';
+export const maxDuration = 60;
+
+const TRANSCRIBE_LIMIT = 30;
+const TRANSCRIBE_WINDOW_MS = 10 * 60 * 1000;
+
+// POST /api/speech/transcribe takes a multipart `audio` recording (plus the
+// browser-timed `durationSeconds` and an optional `prompt`) and returns its
+// transcript with delivery metrics, e.g. for rehearsing the interview pitch.
+export async function POST(request: NextRequest): Promise<NextResponse<TranscribeResponse>> {
+  try {
+    const rateLimit = checkRateLimit(`transcribe:${getClientIdentifier(request)}`, TRANSCRIBE_LIMIT, TRANSCRIBE_WINDOW_MS);
+    if (!rateLimit.allowed) {
+      return NextResponse.json(
+        { success: false, error: `Too many recordings. Please try again after ${new Date(rateLimit.resetTime).toLocaleTimeString()}.` },
+        { status: 429 }
+      );
+    }
+
+    const formData = await request.formData();
+    const upload = readRecordingUpload(formData);
+    if (upload.error !== undefined) {
+      return NextResponse.json(
+        { success: false, error: upload.error },
+        { status: 400 }
+      );
+    }
+
+    const prompt = formData.get('prompt');
+    const { transcript, delivery } = await transcribeRecording(upload.audio, upload.recordedSeconds, {
+      prompt: typeof prompt === 'string' ? prompt : undefined,
+    });
+
+    if (!transcript) {
+      return NextResponse.json(
+        { success: false, error: 'No speech was detected in the recording' },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      transcript,
+      delivery,
+    });
+  } catch (error) {
+    console.error('Error transcribing recording:', error);
+
+    const errorMessage =
+      error instanceof Error ? error.message : 'Failed to transcribe recording';
+
+    return NextResponse.json(
+      { success: false, error: errorMessage },
+      { status: 500 }
+    );
+  }
+}
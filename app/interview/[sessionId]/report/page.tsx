@@ -0,0 +1,15 @@
+'use client';
+
+import { useParams } from 'next/navigation';
+import { InterviewReportView } from '@/components/interview/InterviewReportView';
+
+export default function InterviewReportPage() {
+  const params = useParams<{ sessionId: string }>();
+  const sessionId = params.sessionId;
+
+  if (!sessionId) {
+    return <div>Loading...</div>;
+  }
+
+  return <InterviewReportView sessionId={sessionId} />;
+}
@@ -10,6 +10,12 @@ import { Alert, AlertDescription } from '@/components/ui/alert'
 import { Toaster } from '@/components/ui/toaster'
 import { toast } from 'sonner'
 import ColorBends from '@/components/ColorBends'
+import { PitchRehearsal } from '@/components/PitchRehearsal'
+import { VerificationSummary, VerifiedSentences } from '@/components/VerifiedText'
+import { readSSEStream } from '@/lib/sse'
+import { EXPLAIN_MODEL } from '@/lib/llm/models'
+import { getExplainBudget } from '@/lib/tokens/models'
+import type { ExplainResponse, ExplainStreamEvent } from '@/types/explain'
 import { 
   Copy, 
   Check, 
@@ -19,43 +25,41 @@ import {
   AlertCircle, 
   Target,
   MessageSquare,
-  Award
+  Award,
+  Upload
 } from 'lucide-react'
 
-interface Output {
-  technicalExplanation: string
-  resumeBullets: string[]
-  interviewPitch: string
-  metadata?: {
-    inputLength?: number
-    estimatedTokens?: number
-    rateLimit?: {
-      remaining: number
-      resetTime: number
-      maxRequests?: number
-    }
-    githubRateLimit?: {
-      remaining: number
-      reset: number
-    }
-    githubTokens?: {
-      count: number
-      effectiveLimit: number
-      totalUsage?: number
-      usagePerToken?: number[]
-    }
+type Output = ExplainResponse
+
+interface Progress {
+  message: string
+  filesFetched?: number
+  tokens?: number
+  githubRemaining?: number
+  generatedChars?: number
+}
+
+// Build a user-facing message from an error body returned as JSON or as a stream `error` event
+function formatExplainError(status: number, data: { error?: string; rateLimit?: { resetTime?: number } }): string {
+  // Handle rate limit errors
+  if (status === 429) {
+    const resetTime = data.rateLimit?.resetTime 
+      ? new Date(data.rateLimit.resetTime).toLocaleTimeString()
+      : 'soon'
+    return `${data.error || 'Rate limit exceeded'}. Please try again after ${resetTime}.`
   }
+  return data.error || 'Failed to generate explanation'
 }
 
 type RefineAction = 'make-concise' | 'add-metrics' | 'make-senior' | 'faang-style' | 'more-impact' | 'simplify'
 type RefineType = 'resume-bullets' | 'interview-pitch' | 'technical-explanation'
 
 const MAX_FILE_SIZE = 50 * 1024 * 1024 // 50MB
-// Token estimation: ~4 characters = 1 token
-const TOKENS_PER_CHAR = 0.25
-const MAX_PROJECT_TOKENS = 122000 // 128K - 6K for prompts/output
-const MAX_INPUT_CHARACTERS = Math.floor(MAX_PROJECT_TOKENS / TOKENS_PER_CHAR) // ~488,000 characters
-const MAX_INPUT_CHARACTERS_WARNING = Math.floor(MAX_PROJECT_TOKENS * 0.75 / TOKENS_PER_CHAR) // ~366,000 characters
+// The page does no counting of its own: the server counts the project with the model's tokenizer,
+// whose tables are too large to ship to the browser, and reports it in the `tokens` event.
+// Same per-model budget the server enforces; warn once a project uses most of it
+const MAX_PROJECT_TOKENS = getExplainBudget(EXPLAIN_MODEL).projectTokens
+const LARGE_INPUT_TOKENS = Math.floor(MAX_PROJECT_TOKENS * 0.6)
 
 export default function Home() {
   const router = useRouter()
@@ -63,13 +67,16 @@ export default function Home() {
   const [githubUsername, setGithubUsername] = useState('')
   const [githubRepo, setGithubRepo] = useState('')
   const [startingInterview, setStartingInterview] = useState(false)
+  // Interview plan: number of questions and seconds per question (0 for untimed)
+  const [interviewQuestions, setInterviewQuestions] = useState('8')
+  const [interviewTimeLimit, setInterviewTimeLimit] = useState('0')
   const [audience, setAudience] = useState<'recruiter' | 'engineer' | 'hiring-manager' | 'founder-product'>('engineer')
   const [tone, setTone] = useState<'confident' | 'concise' | 'conversational' | 'technical'>('confident')
   const [output, setOutput] = useState<Output | null>(null)
   const [loading, setLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
   const [copied, setCopied] = useState<string | null>(null)
-  const [progress, setProgress] = useState<{ message: string; filesFetched?: number; tokens?: number } | null>(null)
+  const [progress, setProgress] = useState<Progress | null>(null)
   const [rateLimitInfo, setRateLimitInfo] = useState<{ remaining: number; resetTime?: number } | null>(null)
   const [refining, setRefining] = useState<{ type: RefineType; action: RefineAction } | null>(null)
   const [refinedContent, setRefinedContent] = useState<{
@@ -124,12 +131,8 @@ export default function Home() {
     }
     try {
       const normalizedUrl = normalizeGithubUrl(githubUrlValue)
-      const urlObj = new URL(normalizedUrl)
-      if (!urlObj.hostname.includes('github.com')) {
-        setError('Please enter a valid GitHub repository URL')
-        toast.error('Invalid GitHub URL')
-        return false
-      }
+      // Other hosts (GitLab, Bitbucket, git remotes) are validated by the server
+      new URL(normalizedUrl)
     } catch {
       setError('Please enter a valid URL')
       toast.error('Invalid URL format')
@@ -155,8 +158,25 @@ export default function Home() {
       
       // Validate the URL
       const urlObj = new URL(normalizedUrl)
-      if (!urlObj.hostname.includes('github.com')) {
-        throw new Error('Please enter a valid GitHub repository URL')
+      if (urlObj.hostname !== 'github.com' && urlObj.hostname !== 'www.github.com') {
+        // GitLab, Bitbucket and other remotes are looked up by the server
+        const response = await fetch('/api/repo-info', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ url: normalizedUrl }),
+        })
+        const data = await response.json()
+        if (!response.ok) {
+          throw new Error(data.error || 'Failed to fetch repository information')
+        }
+        setGithubRepoInfo({
+          name: data.name,
+          description: data.description || 'No description available',
+          stars: data.stars || 0,
+          owner: data.owner,
+        })
+        toast.success('Repository fetched successfully!')
+        return
       }
 
       // Parse the GitHub URL
@@ -212,7 +232,7 @@ export default function Home() {
     setOutput(null)
     setRateLimitInfo(null)
     
-    setProgress({ message: 'Fetching repository information and analyzing files...' })
+    setProgress({ message: 'Checking GitHub rate limits...' })
 
     try {
       const githubUrlValue = getGithubUrl()
@@ -221,6 +241,7 @@ export default function Home() {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
+          'Accept': 'text/event-stream',
         },
         body: JSON.stringify({
           projectDescription: normalizedUrl,
@@ -232,36 +253,83 @@ export default function Home() {
 
       if (!response.ok) {
         const data = await response.json()
-        
-        // Handle rate limit errors
-        if (response.status === 429) {
-          const resetTime = data.rateLimit?.resetTime 
-            ? new Date(data.rateLimit.resetTime).toLocaleTimeString()
-            : 'soon'
-          throw new Error(`${data.error || 'Rate limit exceeded'}. Please try again after ${resetTime}.`)
-        }
-        
-        throw new Error(data.error || 'Failed to generate explanation')
+        throw new Error(formatExplainError(response.status, data))
       }
 
-      const data = await response.json()
-      setOutput(data)
+      // Read real progress events; the final payload arrives as the last `result` event
+      let data: Output | null = null
+      let streamError: string | null = null
+      await readSSEStream<ExplainStreamEvent>(response, (_event, payload) => {
+        switch (payload.type) {
+          case 'github-rate-limit':
+            setProgress(prev => ({ ...prev, message: 'Fetching repository files...', githubRemaining: payload.remaining }))
+            break
+          case 'files':
+            setProgress(prev => ({
+              ...prev,
+              message: 'Fetching repository files...',
+              filesFetched: payload.filesFetched,
+              tokens: payload.totalTokens,
+            }))
+            break
+          case 'summarizing':
+            setProgress(prev => ({
+              ...prev,
+              message: payload.stage === 'overview'
+                ? 'Summarizing repository architecture...'
+                : `Summarizing large repository ${payload.stage} (${payload.completed}/${payload.total})...`,
+            }))
+            break
+          case 'tokens':
+            setProgress(prev => ({ ...prev, message: 'Preparing project context...', tokens: payload.estimatedTokens }))
+            break
+          case 'generation-started':
+            setProgress(prev => ({ ...prev, message: 'Generating explanations...' }))
+            break
+          case 'partial':
+            setProgress(prev => ({ ...prev, message: 'Generating explanations...', generatedChars: payload.length }))
+            break
+          case 'verifying':
+            setProgress(prev => ({
+              ...prev,
+              message: payload.stage === 'checking'
+                ? 'Checking claims against the source...'
+                : 'Rewriting unsupported claims...',
+            }))
+            break
+          case 'result':
+            data = payload.data
+            break
+          case 'error':
+            streamError = formatExplainError(payload.status, payload)
+            break
+        }
+      })
+
+      if (streamError) {
+        throw new Error(streamError)
+      }
+      if (!data) {
+        throw new Error('Failed to generate explanation')
+      }
+      const result: Output = data
+      setOutput(result)
       
       // Update rate limit info (only show remaining, not technical details)
-      if (data.metadata?.rateLimit) {
+      if (result.metadata?.rateLimit) {
         setRateLimitInfo({
-          remaining: data.metadata.rateLimit.remaining,
-          resetTime: data.metadata.rateLimit.resetTime,
+          remaining: result.metadata.rateLimit.remaining,
+          resetTime: result.metadata.rateLimit.resetTime,
         })
       }
       
       // Show warnings only if critical
-      if (data.metadata?.githubRateLimit && data.metadata.githubRateLimit.remaining < 5) {
+      if (result.metadata?.githubRateLimit && result.metadata.githubRateLimit.remaining < 5) {
         toast.warning('GitHub API rate limit is very low. Some features may be unavailable.')
       }
       
       // Show warnings for long inputs
-      if (data.metadata?.estimatedTokens && data.metadata.estimatedTokens > 75000) {
+      if (result.metadata?.estimatedTokens && result.metadata.estimatedTokens > LARGE_INPUT_TOKENS) {
         toast.warning('Large input detected. Results may be truncated.')
       }
       
@@ -290,6 +358,11 @@ export default function Home() {
     }
   }
 
+  const getInterviewPlan = () => ({
+    questionCount: Number(interviewQuestions),
+    timeLimitSeconds: Number(interviewTimeLimit) || null,
+  })
+
   const startInterview = async () => {
     const githubUrlValue = getGithubUrl()
     if (!githubUrlValue || (!githubUsername.trim() && !githubRepo.trim() && !githubUrl.trim())) {
@@ -305,7 +378,8 @@ export default function Home() {
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
           repoUrl: normalizedUrl,
-          repoId: githubRepoInfo ? `${githubRepoInfo.owner}/${githubRepoInfo.name}` : normalizedUrl
+          repoId: githubRepoInfo ? `${githubRepoInfo.owner}/${githubRepoInfo.name}` : normalizedUrl,
+          plan: getInterviewPlan()
         })
       })
 
@@ -325,6 +399,39 @@ export default function Home() {
     }
   }
 
+  // Start Interview Mode on an uploaded archive, for code that isn't on public GitHub
+  const startInterviewFromUpload = async (file: File) => {
+    if (file.size > MAX_FILE_SIZE) {
+      toast.error('File size exceeds 50MB limit')
+      return
+    }
+
+    setStartingInterview(true)
+    try {
+      const formData = new FormData()
+      formData.append('file', file)
+      formData.append('plan', JSON.stringify(getInterviewPlan()))
+      const response = await fetch('/api/interview/start', {
+        method: 'POST',
+        body: formData,
+      })
+
+      const data = await response.json()
+
+      if (data.success && data.sessionId) {
+        toast.success('Starting Interview Mode...')
+        router.push(`/interview/${data.sessionId}`)
+      } else {
+        toast.error(data.error || 'Failed to start interview mode')
+      }
+    } catch (error) {
+      console.error('Failed to start interview:', error)
+      toast.error('Failed to start interview mode')
+    } finally {
+      setStartingInterview(false)
+    }
+  }
+
   const handleRefine = async (
     content: string,
     refineType: RefineType,
@@ -440,6 +547,15 @@ export default function Home() {
                                 e.preventDefault()
                                 const pastedText = e.clipboardData.getData('text')
                                 
+                                // Repositories on other hosts (GitLab, Bitbucket, git remotes) are used as a full URL
+                                if (/^https?:\/\//.test(pastedText.trim()) && !pastedText.includes('github.com/')) {
+                                  setGithubUrl(pastedText.trim())
+                                  setGithubUsername('')
+                                  setGithubRepo('')
+                                  setGithubRepoInfo(null)
+                                  return
+                                }
+
                                 // If it's a full GitHub URL, extract username and repo
                                 if (pastedText.includes('github.com/')) {
                                   try {
@@ -535,6 +651,23 @@ export default function Home() {
                     </div>
                   </div>
 
+                  {githubUrl && !githubUsername.trim() && !githubRepo.trim() && (
+                    <div className="flex items-center gap-2 text-sm text-muted-foreground min-w-0">
+                      <span className="shrink-0">Using</span>
+                      <span className="font-mono text-foreground truncate">{githubUrl}</span>
+                      <button
+                        type="button"
+                        onClick={() => {
+                          setGithubUrl('')
+                          setGithubRepoInfo(null)
+                        }}
+                        className="shrink-0 underline hover:text-foreground"
+                      >
+                        Clear
+                      </button>
+                    </div>
+                  )}
+
                   {githubRepoInfo && (
                     <div className="p-4 glass rounded-lg fade-in-up border-0 transition-all mt-4">
                       <div className="flex items-start gap-3">
@@ -763,15 +896,20 @@ export default function Home() {
                     <div className="cool-spinner-inner"></div>
                   </div>
                 </div>
-                <p className="text-center text-xs text-muted-foreground">Ready to use in your resume, interviews, and applications</p>
+                <p className="text-center text-xs text-muted-foreground">{progress?.message || 'Ready to use in your resume, interviews, and applications'}</p>
                 {progress?.filesFetched !== undefined && (
                   <p className="text-center text-xs text-muted-foreground mt-1">
                     Fetched {progress.filesFetched} file{progress.filesFetched !== 1 ? 's' : ''}
                     {progress.tokens !== undefined && (
-                      <span className="ml-2">(~{progress.tokens.toLocaleString()} tokens)</span>
+                      <span className="ml-2">({progress.tokens.toLocaleString()} tokens)</span>
                     )}
                   </p>
                 )}
+                {progress?.generatedChars !== undefined && (
+                  <p className="text-center text-xs text-muted-foreground mt-1">
+                    Received {progress.generatedChars.toLocaleString()} characters of output
+                  </p>
+                )}
               </div>
 
               {/* Blurred Resume Bullets Preview */}
@@ -923,6 +1061,11 @@ export default function Home() {
                   )}
                 </Button>
                 <p className="text-center text-xs text-muted-foreground">Ready to use in your resume, interviews, and applications</p>
+                {output.verification && (
+                  <div className="mt-1">
+                    <VerificationSummary verification={output.verification} />
+                  </div>
+                )}
               </div>
 
               {/* 1. Resume Bullets - Most actionable, shown first */}
@@ -1041,7 +1184,12 @@ export default function Home() {
                   )}
                   <ul className="text-foreground leading-relaxed text-sm font-medium list-disc pl-4 space-y-1.5">
                     {(getDisplayContent('resume-bullets', output.resumeBullets) as string[]).map((bullet, i) => (
-                      <li key={i} className="pl-1 text-xs sm:text-sm">{bullet}</li>
+                      <li key={i} className="pl-1 text-xs sm:text-sm">
+                        {/* Refined bullets were never checked, so they show without flags */}
+                        {output.verification && !refinedContent['resume-bullets'] && output.verification.resumeBullets[i]
+                          ? <VerifiedSentences sentences={[output.verification.resumeBullets[i]]} snippets={output.verification.snippets} />
+                          : bullet}
+                      </li>
                     ))}
                   </ul>
                 </CardContent>
@@ -1158,9 +1306,16 @@ export default function Home() {
                       </Button>
                     </div>
                   )}
-                  <p className="text-foreground leading-relaxed whitespace-pre-wrap text-xs sm:text-sm">
-                    {getDisplayContent('interview-pitch', output.interviewPitch) as string}
-                  </p>
+                  {/* A div, since cited code opens inside the text */}
+                  <div className="text-foreground leading-relaxed whitespace-pre-wrap text-xs sm:text-sm">
+                    {output.verification && !refinedContent['interview-pitch']
+                      ? <VerifiedSentences sentences={output.verification.interviewPitch} snippets={output.verification.snippets} />
+                      : getDisplayContent('interview-pitch', output.interviewPitch) as string}
+                  </div>
+                  <PitchRehearsal
+                    pitch={getDisplayContent('interview-pitch', output.interviewPitch) as string}
+                    context={output.technicalExplanation}
+                  />
                 </CardContent>
               </Card>
 
@@ -1275,9 +1430,11 @@ export default function Home() {
                       </Button>
                     </div>
                   )}
-                  <p className="text-foreground leading-relaxed whitespace-pre-wrap text-xs sm:text-sm">
-                    {getDisplayContent('technical-explanation', output.technicalExplanation) as string}
-                  </p>
+                  <div className="text-foreground leading-relaxed whitespace-pre-wrap text-xs sm:text-sm">
+                    {output.verification && !refinedContent['technical-explanation']
+                      ? <VerifiedSentences sentences={output.verification.technicalExplanation} snippets={output.verification.snippets} />
+                      : getDisplayContent('technical-explanation', output.technicalExplanation) as string}
+                  </div>
                 </CardContent>
               </Card>
 
@@ -1296,24 +1453,66 @@ export default function Home() {
                         </p>
                       </div>
                     </div>
-                    <Button
-                      onClick={startInterview}
-                      disabled={startingInterview}
-                      className="shrink-0 h-8 text-xs"
-                      size="sm"
-                    >
-                      {startingInterview ? (
-                        <>
-                          <Loader2 className="mr-1 h-3 w-3 animate-spin" />
-                          Starting...
-                        </>
-                      ) : (
-                        <>
-                          <Target className="mr-1 h-3 w-3" />
-                          Interview Mode
-                        </>
-                      )}
-                    </Button>
+                    <div className="flex items-center gap-2 shrink-0">
+                      <Select value={interviewQuestions} onValueChange={setInterviewQuestions} disabled={startingInterview}>
+                        <SelectTrigger className="h-8 w-[122px] text-xs" title="Questions in the interview">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="3">3 questions</SelectItem>
+                          <SelectItem value="5">5 questions</SelectItem>
+                          <SelectItem value="8">8 questions</SelectItem>
+                          <SelectItem value="12">12 questions</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      <Select value={interviewTimeLimit} onValueChange={setInterviewTimeLimit} disabled={startingInterview}>
+                        <SelectTrigger className="h-8 w-[112px] text-xs" title="Time limit per question">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="0">No time limit</SelectItem>
+                          <SelectItem value="120">2 min each</SelectItem>
+                          <SelectItem value="300">5 min each</SelectItem>
+                          <SelectItem value="600">10 min each</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      <label
+                        className={`inline-flex items-center h-8 px-3 rounded-md border text-xs font-medium cursor-pointer hover:bg-muted ${startingInterview ? 'pointer-events-none opacity-50' : ''}`}
+                        title="Practice on a .zip or .tar.gz of your code instead of the public GitHub repo"
+                      >
+                        <Upload className="mr-1 h-3 w-3" />
+                        Use Archive
+                        <input
+                          type="file"
+                          accept=".zip,.tar.gz,.tgz"
+                          className="hidden"
+                          disabled={startingInterview}
+                          onChange={(e) => {
+                            const file = e.target.files?.[0]
+                            e.target.value = ''
+                            if (file) startInterviewFromUpload(file)
+                          }}
+                        />
+                      </label>
+                      <Button
+                        onClick={startInterview}
+                        disabled={startingInterview}
+                        className="h-8 text-xs"
+                        size="sm"
+                      >
+                        {startingInterview ? (
+                          <>
+                            <Loader2 className="mr-1 h-3 w-3 animate-spin" />
+                            Starting...
+                          </>
+                        ) : (
+                          <>
+                            <Target className="mr-1 h-3 w-3" />
+                            Interview Mode
+                          </>
+                        )}
+                      </Button>
+                    </div>
                   </div>
                 </CardContent>
               </Card>
@@ -0,0 +1,216 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Keyboard, Loader2, Volume2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { VoiceRecorder } from '@/components/VoiceRecorder';
+import { playSpeech, stopSpeech } from '@/lib/speech/playback';
+import { cn } from '@/lib/utils';
+import type { PitchCriterion, PitchEvaluateResponse, PitchEvaluation } from '@/types/pitch';
+import type { DeliveryMetrics, TranscribeResponse } from '@/types/speech';
+
+interface PitchRehearsalProps {
+  pitch: string;
+  /** What the project is, so the coach can check the rehearsal's claims */
+  context?: string;
+}
+
+interface Rehearsal {
+  transcript: string;
+  delivery?: DeliveryMetrics;
+}
+
+const CRITERIA: Array<[PitchCriterion, string]> = [
+  ['timing', 'Timing'],
+  ['coverage', 'Key decisions'],
+  ['clarity', 'Clarity'],
+  ['accuracy', 'Accuracy'],
+];
+
+function scoreColor(score: number): string {
+  if (score >= 70) return 'text-green-600 dark:text-green-400';
+  if (score >= 50) return 'text-amber-600 dark:text-amber-400';
+  return 'text-red-600 dark:text-red-400';
+}
+
+/** Listen to the generated pitch, then say (or type) it yourself and get coached on the rehearsal */
+export function PitchRehearsal({ pitch, context }: PitchRehearsalProps) {
+  const [rehearsal, setRehearsal] = useState<Rehearsal | null>(null);
+  const [evaluation, setEvaluation] = useState<PitchEvaluation | null>(null);
+  const [busy, setBusy] = useState<'transcribing' | 'scoring' | null>(null);
+  const [listening, setListening] = useState(false);
+  const [typing, setTyping] = useState(false);
+  const [typedPitch, setTypedPitch] = useState('');
+
+  useEffect(() => () => stopSpeech(), []);
+
+  const listen = async () => {
+    setListening(true);
+    try {
+      await playSpeech(pitch);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to read the pitch aloud');
+    } finally {
+      setListening(false);
+    }
+  };
+
+  const score = async (next: Rehearsal) => {
+    setRehearsal(next);
+    setEvaluation(null);
+    setBusy('scoring');
+    try {
+      const response = await fetch('/api/pitch/evaluate', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          rehearsedPitch: next.transcript,
+          generatedPitch: pitch,
+          projectContext: context,
+          delivery: next.delivery,
+        }),
+      });
+      const data: PitchEvaluateResponse = await response.json();
+
+      if (response.ok && data.evaluation) {
+        setEvaluation(data.evaluation);
+      } else {
+        toast.error(data.error || 'Failed to score the rehearsal');
+      }
+    } catch (error) {
+      console.error('Pitch evaluation error:', error);
+      toast.error('Failed to score the rehearsal');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const transcribe = async (audio: File, durationSeconds: number) => {
+    setBusy('transcribing');
+    try {
+      const formData = new FormData();
+      formData.append('audio', audio);
+      formData.append('durationSeconds', String(durationSeconds));
+      // The pitch tells the transcriber how project and library names are spelled
+      formData.append('prompt', pitch);
+      const response = await fetch('/api/speech/transcribe', { method: 'POST', body: formData });
+      const data: TranscribeResponse = await response.json();
+
+      if (data.success && data.transcript && data.delivery) {
+        await score({ transcript: data.transcript, delivery: data.delivery });
+      } else {
+        toast.error(data.error || 'Failed to transcribe the recording');
+        setBusy(null);
+      }
+    } catch (error) {
+      console.error('Pitch transcription error:', error);
+      toast.error('Failed to transcribe the recording');
+      setBusy(null);
+    }
+  };
+
+  const submitTyped = () => {
+    if (!typedPitch.trim()) return;
+    setTyping(false);
+    score({ transcript: typedPitch.trim() });
+  };
+
+  const delivery = rehearsal?.delivery;
+
+  return (
+    <div className="mt-3 pt-3 border-t border-foreground/10 space-y-2">
+      <div className="flex items-center gap-1.5">
+        <Button variant="outline" size="sm" onClick={listen} disabled={listening} className="h-6 text-xs px-2">
+          {listening ? <Loader2 className="h-3 w-3 animate-spin" /> : <Volume2 className="h-3 w-3" />}
+          <span className="ml-1">Listen</span>
+        </Button>
+        <VoiceRecorder
+          onRecorded={transcribe}
+          disabled={busy !== null}
+          maxSeconds={90}
+          label="Rehearse"
+          className="h-6 px-2"
+        />
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => setTyping((prev) => !prev)}
+          disabled={busy !== null}
+          title="Type your rehearsal instead"
+          className="h-6 w-6 p-0"
+        >
+          <Keyboard className="h-3 w-3" />
+        </Button>
+        {busy && (
+          <span className="flex items-center gap-1 text-xs text-muted-foreground">
+            <Loader2 className="h-3 w-3 animate-spin" />
+            {busy === 'transcribing' ? 'Transcribing...' : 'Scoring...'}
+          </span>
+        )}
+      </div>
+
+      {typing && (
+        <div className="space-y-1.5">
+          <Textarea
+            value={typedPitch}
+            onChange={(e) => setTypedPitch(e.target.value)}
+            placeholder="Type the pitch the way you would say it..."
+            className="min-h-[72px] text-xs"
+          />
+          <Button size="sm" onClick={submitTyped} disabled={!typedPitch.trim()} className="h-6 text-xs px-2">
+            Score
+          </Button>
+        </div>
+      )}
+
+      {rehearsal && (
+        <div className="space-y-1.5">
+          {delivery && (
+            <div className="flex flex-wrap gap-x-3 gap-y-0.5 text-xs text-muted-foreground">
+              <span className={cn(delivery.pace !== 'good' && 'text-amber-600 dark:text-amber-400')}>
+                {delivery.wordsPerMinute} wpm, {delivery.pace} pace
+              </span>
+              <span className={cn(delivery.fillerWordCount > 2 && 'text-amber-600 dark:text-amber-400')}>
+                {delivery.fillerWordCount} filler word{delivery.fillerWordCount === 1 ? '' : 's'}
+                {delivery.fillerWordCount > 0 &&
+                  ` (${Object.entries(delivery.fillerWords).map(([filler, count]) => `${filler} ×${count}`).join(', ')})`}
+              </span>
+            </div>
+          )}
+          <p className="text-xs text-muted-foreground italic whitespace-pre-wrap">“{rehearsal.transcript}”</p>
+        </div>
+      )}
+
+      {evaluation && (
+        <div className="space-y-1.5 text-xs">
+          <div className="flex items-baseline gap-2">
+            <span className={cn('text-base font-semibold', scoreColor(evaluation.score))}>{evaluation.score}/100</span>
+            <span className="text-muted-foreground">{evaluation.feedback}</span>
+          </div>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-x-4 gap-y-1">
+            {CRITERIA.map(([criterion, label]) => (
+              <div key={criterion} title={evaluation.criteria[criterion].feedback}>
+                <span className="font-medium">{label}</span>{' '}
+                <span className={scoreColor(evaluation.criteria[criterion].score)}>
+                  {evaluation.criteria[criterion].score}
+                </span>
+                <span className="text-muted-foreground">
+                  {' '}· {evaluation.criteria[criterion].feedback}
+                  {criterion === 'timing' && evaluation.durationEstimated ? ' (estimated from length)' : ''}
+                </span>
+              </div>
+            ))}
+          </div>
+          {evaluation.strengths.length > 0 && (
+            <p><span className="font-medium">Strengths:</span> {evaluation.strengths.join('; ')}</p>
+          )}
+          {evaluation.missedPoints.length > 0 && (
+            <p><span className="font-medium">To work on:</span> {evaluation.missedPoints.join('; ')}</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,154 @@
+'use client';
+
+import { useState } from 'react';
+import { AlertTriangle, ExternalLink, RefreshCw, ShieldAlert, ShieldCheck } from 'lucide-react';
+import { AnnotatedCode } from '@/components/interview/AnnotatedCode';
+import { cn } from '@/lib/utils';
+import type { ClaimVerification, SourceCitation, VerifiedSentence } from '@/types/explain';
+import type { CodeSnippet } from '@/types/interview';
+
+function formatCitation(citation: SourceCitation): string {
+  return `${citation.path}:${citation.startLine}-${citation.endLine}`;
+}
+
+function describeSentence(sentence: VerifiedSentence): string | undefined {
+  const notes: string[] = [];
+  const unsupported = sentence.claims.filter((claim) => !claim.supported);
+  if (unsupported.length > 0) {
+    notes.push(`Not supported by the source: ${unsupported.map((claim) => claim.claim).join('; ')}`);
+  }
+  if (sentence.originalText) {
+    notes.push(`Rewritten to match the source. Originally: “${sentence.originalText}”`);
+  }
+  return notes.length > 0 ? notes.join('\n\n') : undefined;
+}
+
+function findSnippet(snippets: CodeSnippet[], citation: SourceCitation): CodeSnippet | undefined {
+  return snippets.find(
+    (snippet) =>
+      snippet.file === citation.path && snippet.startLine === citation.startLine && snippet.endLine === citation.endLine
+  );
+}
+
+// Mark the cited lines with the claims they back, so the viewer says why they were cited
+function annotateSnippet(snippet: CodeSnippet, sentence: VerifiedSentence, citation: SourceCitation): CodeSnippet {
+  const key = formatCitation(citation);
+  const claims = sentence.claims.filter((claim) => claim.citations.some((cited) => formatCitation(cited) === key));
+  return {
+    ...snippet,
+    annotations: [
+      claims.length > 0
+        ? { line: snippet.startLine, type: 'key-point', text: claims.map((claim) => claim.claim).join('; ') }
+        : { line: snippet.startLine, type: 'connection', text: 'The code that best matches this sentence' },
+    ],
+  };
+}
+
+interface CitationLinkProps {
+  citation: SourceCitation;
+  index: number;
+  sentence: VerifiedSentence;
+  snippet?: CodeSnippet;
+}
+
+/** A numbered citation that previews the cited code on hover, or on click to keep it open */
+function CitationLink({ citation, index, sentence, snippet }: CitationLinkProps) {
+  const [hovered, setHovered] = useState(false);
+  const [pinned, setPinned] = useState(false);
+  const open = (hovered || pinned) && snippet;
+
+  return (
+    <span className="relative" onMouseEnter={() => setHovered(true)} onMouseLeave={() => setHovered(false)}>
+      <sup className="ml-0.5 text-[10px] text-muted-foreground">
+        <button
+          type="button"
+          onClick={() => setPinned((prev) => !prev)}
+          title={formatCitation(citation)}
+          className={cn('hover:text-foreground hover:underline', pinned && 'text-foreground underline')}
+        >
+          [{index}]
+        </button>
+      </sup>
+      {open && (
+        <span className="absolute left-0 top-full z-50 block pt-1 w-[80vw] sm:w-[32rem] whitespace-normal">
+          <span className="block rounded-lg border border-border bg-background shadow-lg overflow-hidden">
+            <span className="block max-h-72 overflow-auto">
+              <AnnotatedCode snippet={annotateSnippet(snippet, sentence, citation)} />
+            </span>
+            {citation.url && (
+              <a
+                href={citation.url}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="flex items-center gap-1 px-2 py-1 border-t border-border text-xs text-muted-foreground hover:text-foreground"
+              >
+                <ExternalLink className="h-3 w-3" />
+                Open {citation.path} at lines {citation.startLine}-{citation.endLine}
+              </a>
+            )}
+          </span>
+        </span>
+      )}
+    </span>
+  );
+}
+
+interface VerifiedSentencesProps {
+  sentences: VerifiedSentence[];
+  /** The cited code, from `ClaimVerification.snippets` */
+  snippets: CodeSnippet[];
+}
+
+/** Generated sentences with links to the code they cite, flagging the ones the source does not support */
+export function VerifiedSentences({ sentences, snippets }: VerifiedSentencesProps) {
+  return (
+    <>
+      {sentences.map((sentence, i) => (
+        <span key={i}>
+          <span
+            title={describeSentence(sentence)}
+            className={cn(
+              !sentence.supported && 'underline decoration-dotted decoration-amber-500 underline-offset-2'
+            )}
+          >
+            {sentence.text}
+          </span>
+          {!sentence.supported && <AlertTriangle className="inline h-3 w-3 ml-0.5 text-amber-500 align-baseline" />}
+          {sentence.originalText && <RefreshCw className="inline h-3 w-3 ml-0.5 text-muted-foreground align-baseline" />}
+          {sentence.citations.map((citation, j) => (
+            <CitationLink
+              key={formatCitation(citation)}
+              citation={citation}
+              index={j + 1}
+              sentence={sentence}
+              snippet={findSnippet(snippets, citation)}
+            />
+          ))}
+          {i < sentences.length - 1 && ' '}
+        </span>
+      ))}
+    </>
+  );
+}
+
+/** One line on how the generated claims held up against the source */
+export function VerificationSummary({ verification }: { verification: ClaimVerification }) {
+  const total =
+    verification.technicalExplanation.length + verification.resumeBullets.length + verification.interviewPitch.length;
+  const clean = verification.unsupported === 0;
+
+  return (
+    <p className="flex items-center justify-center gap-1.5 text-xs text-muted-foreground">
+      {clean ? (
+        <ShieldCheck className="h-3.5 w-3.5 text-green-600 dark:text-green-400" />
+      ) : (
+        <ShieldAlert className="h-3.5 w-3.5 text-amber-500" />
+      )}
+      <span>
+        {total} sentence{total === 1 ? '' : 's'} checked against the source
+        {verification.regenerated > 0 && `, ${verification.regenerated} rewritten`}
+        {clean ? ', all supported' : `, ${verification.unsupported} still unsupported (underlined)`}
+      </span>
+    </p>
+  );
+}
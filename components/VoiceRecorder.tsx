@@ -0,0 +1,128 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { Mic, Square } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { cn } from '@/lib/utils';
+
+interface VoiceRecorderProps {
+  /** Called with the finished recording and how long it ran */
+  onRecorded: (audio: File, durationSeconds: number) => void;
+  disabled?: boolean;
+  /** Recording stops by itself after this long */
+  maxSeconds?: number;
+  label?: string;
+  className?: string;
+}
+
+// Formats the transcription APIs accept, in the order browsers tend to support them
+const MIME_TYPES: Array<[string, string]> = [
+  ['audio/webm', 'webm'],
+  ['audio/mp4', 'm4a'],
+  ['audio/ogg', 'ogg'],
+];
+
+function pickMimeType(): [string, string] | null {
+  return MIME_TYPES.find(([type]) => MediaRecorder.isTypeSupported(type)) || null;
+}
+
+export function VoiceRecorder({
+  onRecorded,
+  disabled = false,
+  maxSeconds = 180,
+  label,
+  className,
+}: VoiceRecorderProps) {
+  const [recording, setRecording] = useState(false);
+  const [elapsed, setElapsed] = useState(0);
+  const recorderRef = useRef<MediaRecorder | null>(null);
+  const startedAtRef = useRef(0);
+  // Read inside the recorder's `stop` handler, which outlives the render that created it
+  const onRecordedRef = useRef(onRecorded);
+  onRecordedRef.current = onRecorded;
+
+  useEffect(() => {
+    if (!recording) return;
+    const interval = setInterval(() => {
+      const seconds = Math.floor((Date.now() - startedAtRef.current) / 1000);
+      setElapsed(seconds);
+      if (seconds >= maxSeconds) recorderRef.current?.stop();
+    }, 250);
+    return () => clearInterval(interval);
+  }, [recording, maxSeconds]);
+
+  // Release the microphone if the component goes away mid-recording
+  useEffect(() => () => {
+    const recorder = recorderRef.current;
+    if (recorder && recorder.state !== 'inactive') {
+      recorder.onstop = null;
+      recorder.stop();
+      recorder.stream.getTracks().forEach((track) => track.stop());
+    }
+  }, []);
+
+  const startRecording = async () => {
+    if (typeof MediaRecorder === 'undefined' || !navigator.mediaDevices?.getUserMedia) {
+      toast.error('Recording is not supported in this browser');
+      return;
+    }
+    const format = pickMimeType();
+
+    let stream: MediaStream;
+    try {
+      stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+    } catch (error) {
+      console.error('Microphone access denied:', error);
+      toast.error('Microphone access is needed to record an answer');
+      return;
+    }
+
+    const recorder = new MediaRecorder(stream, format ? { mimeType: format[0] } : undefined);
+    const chunks: Blob[] = [];
+    recorder.ondataavailable = (event) => {
+      if (event.data.size > 0) chunks.push(event.data);
+    };
+    recorder.onstop = () => {
+      stream.getTracks().forEach((track) => track.stop());
+      setRecording(false);
+      const durationSeconds = (Date.now() - startedAtRef.current) / 1000;
+      const type = recorder.mimeType || format?.[0] || 'audio/webm';
+      const extension = MIME_TYPES.find(([mime]) => type.startsWith(mime))?.[1] || 'webm';
+      if (chunks.length > 0) {
+        onRecordedRef.current(new File(chunks, `recording.${extension}`, { type }), durationSeconds);
+      }
+    };
+
+    recorderRef.current = recorder;
+    startedAtRef.current = Date.now();
+    setElapsed(0);
+    setRecording(true);
+    recorder.start();
+  };
+
+  const stopRecording = () => {
+    recorderRef.current?.stop();
+  };
+
+  return (
+    <Button
+      type="button"
+      variant={recording ? 'destructive' : 'outline'}
+      size={label ? 'sm' : 'icon'}
+      onClick={recording ? stopRecording : startRecording}
+      disabled={disabled && !recording}
+      title={recording ? 'Stop and submit the recording' : 'Record a spoken answer'}
+      className={cn('shrink-0', className)}
+    >
+      {recording ? <Square className="h-4 w-4" /> : <Mic className="h-4 w-4" />}
+      {recording ? (
+        <span className="ml-1 text-xs font-mono">
+          {Math.floor(elapsed / 60)}:{String(elapsed % 60).padStart(2, '0')}
+        </span>
+      ) : (
+        label && <span className="ml-1 text-xs">{label}</span>
+      )}
+    </Button>
+  );
+}
@@ -4,9 +4,12 @@ import { useState, useRef, useEffect } from 'react';
 import { Button } from '@/components/ui/button';
 import { Textarea } from '@/components/ui/textarea';
 import { Send, Lightbulb } from 'lucide-react';
+import { VoiceRecorder } from '@/components/VoiceRecorder';
 
 interface ChatInputProps {
   onSend: (message: string) => void;
+  /** Shows a record button; the recording is sent instead of typed text */
+  onSendRecording?: (audio: File, durationSeconds: number) => void;
   onRequestHint?: () => void;
   disabled?: boolean;
   placeholder?: string;
@@ -15,6 +18,7 @@ interface ChatInputProps {
 
 export function ChatInput({
   onSend,
+  onSendRecording,
   onRequestHint,
   disabled = false,
   placeholder = 'Type your answer...',
@@ -71,6 +75,9 @@ export function ChatInput({
         className="min-h-[36px] max-h-[120px] resize-none text-sm"
         rows={1}
       />
+      {onSendRecording && (
+        <VoiceRecorder onRecorded={onSendRecording} disabled={disabled} />
+      )}
       <Button
         onClick={handleSubmit}
         disabled={disabled || !value.trim()}
@@ -1,5 +1,6 @@
 'use client';
 
+import { Mic } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import type { ChatMessage as ChatMessageType } from '@/types/interview';
 
@@ -30,7 +31,9 @@ export function ChatMessage({ message }: ChatMessageProps) {
       >
         {message.metadata?.type === 'question' && (
           <div className="text-xs font-medium mb-1 opacity-70">
-            Question
+            {message.metadata.parentQuestionId ? 'Follow-up' : 'Question'}
+            {message.metadata.difficulty && ` · ${message.metadata.difficulty}`}
+            {message.metadata.category && ` · ${message.metadata.category.replace('-', ' ')}`}
           </div>
         )}
         {message.metadata?.type === 'evaluation' && (
@@ -48,6 +51,15 @@ export function ChatMessage({ message }: ChatMessageProps) {
           {formatMessageContent(message.content)}
         </div>
 
+        {message.metadata?.delivery && (
+          <div className="mt-1.5 pt-1.5 border-t border-current/20 flex items-center gap-1 text-xs opacity-80">
+            <Mic className="h-3 w-3" />
+            {Math.round(message.metadata.delivery.durationSeconds)}s · {message.metadata.delivery.wordsPerMinute} wpm
+            {' '}({message.metadata.delivery.pace} pace) · {message.metadata.delivery.fillerWordCount} filler
+            {message.metadata.delivery.fillerWordCount === 1 ? '' : 's'}
+          </div>
+        )}
+
         {message.metadata?.score !== undefined && (
           <div className="mt-1.5 pt-1.5 border-t border-current/20">
             <span className="text-xs font-medium">
@@ -0,0 +1,33 @@
+'use client';
+
+import { Download } from 'lucide-react';
+
+interface ExportLinksProps {
+  sessionId: string;
+}
+
+const FORMATS = [
+  { format: 'markdown', label: 'MD', title: 'Download the transcript as Markdown' },
+  { format: 'json', label: 'JSON', title: 'Download the transcript as JSON' },
+  { format: 'html', label: 'PDF', title: 'Open a printable transcript to save as PDF' },
+];
+
+export function ExportLinks({ sessionId }: ExportLinksProps) {
+  return (
+    <span className="flex items-center gap-1 text-xs text-muted-foreground">
+      <Download className="h-3 w-3" />
+      {FORMATS.map(({ format, label, title }) => (
+        <a
+          key={format}
+          href={`/api/interview/export?sessionId=${sessionId}&format=${format}`}
+          target={format === 'html' ? '_blank' : undefined}
+          rel={format === 'html' ? 'noopener noreferrer' : undefined}
+          title={title}
+          className="hover:text-foreground hover:underline"
+        >
+          {label}
+        </a>
+      ))}
+    </span>
+  );
+}
@@ -9,6 +9,7 @@ import type { ChatMessage as ChatMessageType } from '@/types/interview';
 interface InterviewChatProps {
   messages: ChatMessageType[];
   onSendMessage: (message: string) => void;
+  onSendRecording?: (audio: File, durationSeconds: number) => void;
   onRequestHint?: () => void;
   isLoading?: boolean;
   showHintButton?: boolean;
@@ -19,6 +20,7 @@ interface InterviewChatProps {
 export function InterviewChat({
   messages,
   onSendMessage,
+  onSendRecording,
   onRequestHint,
   isLoading = false,
   showHintButton = false,
@@ -52,6 +54,7 @@ export function InterviewChat({
       {/* Input area */}
       <ChatInput
         onSend={onSendMessage}
+        onSendRecording={onSendRecording}
         onRequestHint={onRequestHint}
         disabled={disabled || isLoading}
         placeholder={inputPlaceholder}
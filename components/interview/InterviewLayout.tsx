@@ -1,12 +1,16 @@
 'use client';
 
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useRef } from 'react';
 import { useRouter } from 'next/navigation';
 import { Button } from '@/components/ui/button';
 import { toast } from 'sonner';
-import { LogOut, Loader2, Github, RefreshCw } from 'lucide-react';
+import { LogOut, Loader2, Github, RefreshCw, Timer, FileBarChart, Volume2, VolumeX } from 'lucide-react';
 import { InterviewChat } from './InterviewChat';
 import { CodePanel } from './CodePanel';
+import { SymbolSearch } from './SymbolSearch';
+import { ExportLinks } from './ExportLinks';
+import { getHintsRemaining } from '@/lib/interview/interviewPlan';
+import { playSpeech, stopSpeech } from '@/lib/speech/playback';
 import type {
   InterviewSession,
   ChatMessage,
@@ -18,13 +22,26 @@ interface InterviewLayoutProps {
   sessionId: string;
 }
 
+interface RecordedAnswer {
+  audio: File;
+  durationSeconds: number;
+}
+
+const READ_ALOUD_KEY = 'interview:readAloud';
+
 export function InterviewLayout({ sessionId }: InterviewLayoutProps) {
   const router = useRouter();
   const [session, setSession] = useState<InterviewSession | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [isProcessing, setIsProcessing] = useState(false);
   const [codeSnippets, setCodeSnippets] = useState<CodeSnippet[]>([]);
+  // Definitions opened from the symbol search; kept apart so session polling does not replace them
+  const [symbolSnippets, setSymbolSnippets] = useState<CodeSnippet[]>([]);
   const [hintCount, setHintCount] = useState(0);
+  const [now, setNow] = useState(() => Date.now());
+  const [readAloud, setReadAloud] = useState(false);
+  // The last question read aloud, so polling does not read it again
+  const spokenQuestionRef = useRef<string | null>(null);
 
   const fetchSession = useCallback(async () => {
     try {
@@ -58,6 +75,45 @@ export function InterviewLayout({ sessionId }: InterviewLayoutProps) {
     return () => clearInterval(interval);
   }, [fetchSession]);
 
+  // Tick the question timer while the plan's time limit is running
+  const questionDeadline = session?.questionDeadline ?? null;
+  useEffect(() => {
+    if (questionDeadline === null) return;
+    setNow(Date.now());
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [questionDeadline]);
+
+  // Read each new question aloud, follow-ups included, while the toggle is on
+  const questionMessages = session?.messages.filter((m) => m.metadata?.type === 'question') || [];
+  const latestQuestion = questionMessages[questionMessages.length - 1];
+  const latestQuestionId = latestQuestion?.id;
+  const latestQuestionText = latestQuestion?.content;
+
+  useEffect(() => {
+    setReadAloud(localStorage.getItem(READ_ALOUD_KEY) === 'true');
+    return () => stopSpeech();
+  }, []);
+
+  useEffect(() => {
+    if (!readAloud || !latestQuestionId || !latestQuestionText) return;
+    if (spokenQuestionRef.current === latestQuestionId) return;
+    spokenQuestionRef.current = latestQuestionId;
+    playSpeech(latestQuestionText).catch((error) => {
+      console.error('Read aloud error:', error);
+      toast.error('Failed to read the question aloud');
+    });
+  }, [readAloud, latestQuestionId, latestQuestionText]);
+
+  const toggleReadAloud = () => {
+    const next = !readAloud;
+    localStorage.setItem(READ_ALOUD_KEY, String(next));
+    // Turning it on reads the current question
+    spokenQuestionRef.current = null;
+    if (!next) stopSpeech();
+    setReadAloud(next);
+  };
+
   const handleSendMessage = async (content: string) => {
     if (!session) return;
 
@@ -93,6 +149,17 @@ export function InterviewLayout({ sessionId }: InterviewLayoutProps) {
     }
   };
 
+  const handleSendRecording = async (audio: File, durationSeconds: number) => {
+    if (!session?.currentQuestion) return;
+
+    setIsProcessing(true);
+    try {
+      await submitAnswer({ audio, durationSeconds });
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
   const handleDirectorySelection = async (input: string) => {
     const isEntireRepo =
       input.toLowerCase().includes('entire') ||
@@ -152,19 +219,31 @@ export function InterviewLayout({ sessionId }: InterviewLayoutProps) {
     }
   };
 
-  const submitAnswer = async (answer: string) => {
+  const submitAnswer = async (answer: string | RecordedAnswer) => {
     if (!session?.currentQuestion) return;
 
     try {
-      const response = await fetch('/api/interview/answer', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          sessionId,
-          answer,
-          questionId: session.currentQuestion.id,
-        }),
-      });
+      // A recording goes up as form data and is transcribed by the server
+      let request: RequestInit;
+      if (typeof answer === 'string') {
+        request = {
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            sessionId,
+            answer,
+            questionId: session.currentQuestion.id,
+          }),
+        };
+      } else {
+        const formData = new FormData();
+        formData.append('sessionId', sessionId);
+        formData.append('questionId', session.currentQuestion.id);
+        formData.append('audio', answer.audio);
+        formData.append('durationSeconds', String(answer.durationSeconds));
+        request = { body: formData };
+      }
+
+      const response = await fetch('/api/interview/answer', { method: 'POST', ...request });
 
       const data = await response.json();
 
@@ -180,6 +259,16 @@ export function InterviewLayout({ sessionId }: InterviewLayoutProps) {
         // Fetch updated session
         await fetchSession();
 
+        if (data.sessionEnded) {
+          toast.success('Interview plan complete. Your report is ready.');
+          return;
+        }
+
+        // A partial answer gets a follow-up, already the current question (and its code) in the session
+        if (data.followUpQuestion) {
+          return;
+        }
+
         // Auto-request next question after a delay
         setTimeout(() => {
           requestNewQuestion();
@@ -258,7 +347,7 @@ export function InterviewLayout({ sessionId }: InterviewLayoutProps) {
 
       if (data.success) {
         toast.success('Session ended');
-        router.push('/');
+        router.push(`/interview/${sessionId}/report`);
       } else {
         toast.error(data.error || 'Failed to end session');
       }
@@ -284,7 +373,16 @@ export function InterviewLayout({ sessionId }: InterviewLayoutProps) {
     );
   }
 
-  const repoName = session.repoUrl.split('/').slice(-2).join('/');
+  const { plan } = session;
+  const hintsRemaining = getHintsRemaining(session);
+  const secondsLeft = session.questionDeadline !== null
+    ? Math.max(0, Math.ceil((session.questionDeadline - now) / 1000))
+    : null;
+
+  // repoId is owner/name unless the client only had the URL (e.g. one pointing at a branch or subdirectory)
+  const repoName = session.source === 'upload' || !session.repoId.includes('://')
+    ? session.repoId
+    : new URL(session.repoUrl).pathname.split(/\/(?:-|tree|blob|src|commit|commits|releases)\//)[0].slice(1);
 
   return (
     <div className="h-screen flex flex-col overflow-hidden">
@@ -297,6 +395,15 @@ export function InterviewLayout({ sessionId }: InterviewLayoutProps) {
           <span className="text-xs font-mono text-muted-foreground truncate max-w-[200px]">
             {repoName}
           </span>
+          {session.ref && (
+            <span
+              className="text-xs font-mono text-muted-foreground truncate max-w-[160px]"
+              title={session.commitSha ? `Commit ${session.commitSha}` : undefined}
+            >
+              @{session.ref}
+              {session.subdirectory ? ` / ${session.subdirectory}` : ''}
+            </span>
+          )}
           {session.status === 'analyzing' && (
             <span className="flex items-center gap-1 text-xs text-muted-foreground">
               <RefreshCw className="h-3 w-3 animate-spin" />
@@ -306,13 +413,48 @@ export function InterviewLayout({ sessionId }: InterviewLayoutProps) {
         </div>
 
         <div className="flex items-center gap-2">
-          <span className="text-xs text-muted-foreground">
-            Q: {session.questionsAsked.length}
-          </span>
-          <Button variant="destructive" size="sm" onClick={endSession} className="h-7 text-xs px-2">
-            <LogOut className="h-3 w-3 mr-1" />
-            End
+          {secondsLeft !== null && (
+            <span
+              className={`flex items-center gap-1 text-xs font-mono ${secondsLeft === 0 ? 'text-destructive' : 'text-muted-foreground'}`}
+              title="Time left for this question"
+            >
+              <Timer className="h-3 w-3" />
+              {secondsLeft === 0
+                ? 'Time is up'
+                : `${Math.floor(secondsLeft / 60)}:${String(secondsLeft % 60).padStart(2, '0')}`}
+            </span>
+          )}
+          {session.questionsAsked.length > 0 && <ExportLinks sessionId={sessionId} />}
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={toggleReadAloud}
+            title={readAloud ? 'Stop reading questions aloud' : 'Read questions aloud'}
+            className="h-7 w-7 p-0"
+          >
+            {readAloud ? <Volume2 className="h-3 w-3" /> : <VolumeX className="h-3 w-3" />}
           </Button>
+          <span className="text-xs text-muted-foreground" title={`${hintsRemaining} of ${plan.maxHints} hints left`}>
+            Hints: {hintsRemaining}
+          </span>
+          <span className="text-xs text-muted-foreground" title={`Categories: ${plan.categories.join(', ')}`}>
+            Q: {session.questionsAsked.length}/{plan.questionCount}
+          </span>
+          {session.status === 'ended' ? (
+            <Button
+              size="sm"
+              onClick={() => router.push(`/interview/${sessionId}/report`)}
+              className="h-7 text-xs px-2"
+            >
+              <FileBarChart className="h-3 w-3 mr-1" />
+              Report
+            </Button>
+          ) : (
+            <Button variant="destructive" size="sm" onClick={endSession} className="h-7 text-xs px-2">
+              <LogOut className="h-3 w-3 mr-1" />
+              End
+            </Button>
+          )}
         </div>
       </header>
 
@@ -323,16 +465,19 @@ export function InterviewLayout({ sessionId }: InterviewLayoutProps) {
           <InterviewChat
             messages={session.messages}
             onSendMessage={handleSendMessage}
+            onSendRecording={
+              session.status === 'active' && session.currentQuestion ? handleSendRecording : undefined
+            }
             onRequestHint={requestHint}
             isLoading={isProcessing}
             showHintButton={
-              session.status === 'active' && !!session.currentQuestion && hintCount < 3
+              session.status === 'active' && !!session.currentQuestion && hintCount < 3 && hintsRemaining > 0
             }
             inputPlaceholder={
               session.status === 'selecting_dirs'
                 ? 'Enter directories to focus on, or type "all" for entire repo...'
                 : session.currentQuestion
-                ? 'Type your answer... (or type "hint" for a hint)'
+                ? 'Type or record your answer... (or type "hint" for a hint)'
                 : 'Type "next" for a new question...'
             }
             disabled={session.status === 'ended' || session.status === 'analyzing'}
@@ -341,8 +486,16 @@ export function InterviewLayout({ sessionId }: InterviewLayoutProps) {
 
         {/* Right side - Code */}
         <div className="w-1/2 flex flex-col min-w-0">
+          {session.analysisKey && (
+            <SymbolSearch
+              sessionId={sessionId}
+              onOpenSymbol={(snippet) => setSymbolSnippets((prev) => [snippet, ...prev].slice(0, 5))}
+            />
+          )}
           <CodePanel
-            snippets={codeSnippets}
+            // Remount when a snippet is added in front, so it opens expanded
+            key={symbolSnippets[0]?.id ?? codeSnippets[0]?.id}
+            snippets={[...symbolSnippets, ...codeSnippets]}
             title={
               session.currentQuestion
                 ? `Code for: ${session.currentQuestion.relatedFiles[0] || 'Question'}`
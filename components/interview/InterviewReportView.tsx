@@ -0,0 +1,236 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { ArrowLeft, BookOpen, ExternalLink, FileCode, Loader2, Target } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { ExportLinks } from './ExportLinks';
+import type { InterviewRating, InterviewReport, ReportFileLink } from '@/types/interview';
+
+interface InterviewReportViewProps {
+  sessionId: string;
+}
+
+const RATING_LABELS: Record<InterviewRating, string> = {
+  excellent: 'Excellent',
+  strong: 'Strong',
+  competent: 'Competent',
+  developing: 'Developing',
+  'needs-work': 'Needs work',
+};
+
+function scoreColor(score: number): string {
+  if (score >= 70) return 'text-green-600 dark:text-green-400';
+  if (score >= 50) return 'text-amber-600 dark:text-amber-400';
+  return 'text-red-600 dark:text-red-400';
+}
+
+function FileLinks({ files }: { files: ReportFileLink[] }) {
+  if (files.length === 0) return null;
+  return (
+    <div className="flex flex-wrap gap-1.5 mt-1.5">
+      {files.map((file) =>
+        file.url ? (
+          <a
+            key={file.path}
+            href={file.url}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="inline-flex items-center gap-1 text-xs font-mono px-1.5 py-0.5 rounded bg-muted hover:underline"
+          >
+            <FileCode className="h-3 w-3" />
+            {file.path}
+            <ExternalLink className="h-3 w-3 opacity-60" />
+          </a>
+        ) : (
+          <span
+            key={file.path}
+            className="inline-flex items-center gap-1 text-xs font-mono px-1.5 py-0.5 rounded bg-muted"
+          >
+            <FileCode className="h-3 w-3" />
+            {file.path}
+          </span>
+        )
+      )}
+    </div>
+  );
+}
+
+export function InterviewReportView({ sessionId }: InterviewReportViewProps) {
+  const [report, setReport] = useState<InterviewReport | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadReport = async () => {
+      try {
+        const response = await fetch(`/api/interview/report?sessionId=${sessionId}`);
+        const data = await response.json();
+        if (data.success && data.report) {
+          setReport(data.report);
+        } else {
+          setError(data.error || 'Failed to load report');
+        }
+      } catch (err) {
+        console.error('Failed to load report:', err);
+        setError('Failed to load report');
+      }
+    };
+    loadReport();
+  }, [sessionId]);
+
+  if (error) {
+    return (
+      <div className="h-screen flex flex-col items-center justify-center gap-3">
+        <p className="text-sm text-muted-foreground">{error}</p>
+        <Button asChild variant="outline" size="sm">
+          <Link href={`/interview/${sessionId}`}>Back to interview</Link>
+        </Button>
+      </div>
+    );
+  }
+
+  if (!report) {
+    return (
+      <div className="h-screen flex flex-col items-center justify-center gap-2">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+        <p className="text-xs text-muted-foreground">Preparing your report...</p>
+      </div>
+    );
+  }
+
+  const minutes = Math.max(1, Math.round((report.endedAt - report.startedAt) / 60000));
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="max-w-3xl mx-auto px-4 py-6 space-y-4">
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-lg font-semibold">Interview Report</h1>
+            <p className="text-xs font-mono text-muted-foreground">
+              {report.repoId}
+              {report.ref ? ` @${report.ref}` : ''}
+              {report.commitSha ? ` (${report.commitSha.slice(0, 7)})` : ''}
+            </p>
+          </div>
+          <div className="flex items-center gap-2">
+            <ExportLinks sessionId={sessionId} />
+            <Button asChild variant="ghost" size="sm" className="h-7 text-xs px-2">
+              <Link href={`/interview/${sessionId}`}>
+                <ArrowLeft className="h-3 w-3 mr-1" />
+                Transcript
+              </Link>
+            </Button>
+          </div>
+        </div>
+
+        {/* Scorecard */}
+        <Card>
+          <CardContent className="pt-4 pb-4">
+            <div className="flex items-center gap-6">
+              <div className="text-center">
+                <div className={cn('text-3xl font-bold', report.overallScore !== null && scoreColor(report.overallScore))}>
+                  {report.overallScore ?? '-'}
+                </div>
+                <div className="text-xs text-muted-foreground">out of 100</div>
+              </div>
+              <div className="space-y-0.5">
+                <div className="text-sm font-semibold">
+                  {report.rating ? RATING_LABELS[report.rating] : 'No answers evaluated'}
+                </div>
+                <div className="text-xs text-muted-foreground">
+                  {report.questionsAnswered} of {report.questionsPlanned} questions answered · {report.hintsUsed} hint{report.hintsUsed === 1 ? '' : 's'} used
+                  {report.timedOut > 0 ? ` · ${report.timedOut} timed out` : ''} · {minutes} min
+                </div>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Weak areas */}
+        {report.weakAreas.length > 0 && (
+          <Card>
+            <CardHeader className="pb-2">
+              <CardTitle className="text-sm flex items-center gap-1.5">
+                <Target className="h-4 w-4" />
+                Weak Areas
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {report.weakAreas.map((area) => (
+                <div key={area.topic}>
+                  <div className="flex items-baseline justify-between gap-2">
+                    <span className="text-sm font-medium">{area.topic}</span>
+                    <span className={cn('text-xs font-medium', scoreColor(area.averageScore))}>
+                      {area.averageScore}/100
+                    </span>
+                  </div>
+                  {area.missedPoints.length > 0 && (
+                    <ul className="mt-1 text-xs text-muted-foreground list-disc pl-4 space-y-0.5">
+                      {area.missedPoints.map((point) => (
+                        <li key={point}>{point}</li>
+                      ))}
+                    </ul>
+                  )}
+                  <FileLinks files={area.files} />
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Recommendations */}
+        {report.recommendations.length > 0 && (
+          <Card>
+            <CardHeader className="pb-2">
+              <CardTitle className="text-sm flex items-center gap-1.5">
+                <BookOpen className="h-4 w-4" />
+                Study Recommendations
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <ol className="text-xs list-decimal pl-4 space-y-1.5">
+                {report.recommendations.map((recommendation) => (
+                  <li key={recommendation}>{recommendation}</li>
+                ))}
+              </ol>
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Every topic */}
+        {report.topics.length > 0 && (
+          <Card>
+            <CardHeader className="pb-2">
+              <CardTitle className="text-sm">Topics</CardTitle>
+            </CardHeader>
+            <CardContent className="divide-y divide-border">
+              {report.topics.map((topic) => (
+                <div key={topic.topic} className="py-2 first:pt-0 last:pb-0">
+                  <div className="flex items-baseline justify-between gap-2">
+                    <span className="text-sm">
+                      {topic.topic}
+                      <span className="text-xs text-muted-foreground">
+                        {' '}· {topic.category.replace('-', ' ')}
+                        {topic.questionsAnswered > 1 ? ` · ${topic.questionsAnswered} questions` : ''}
+                      </span>
+                    </span>
+                    <span className={cn('text-xs font-medium', scoreColor(topic.averageScore))}>
+                      {topic.averageScore}/100
+                    </span>
+                  </div>
+                  {topic.strengths.length > 0 && (
+                    <p className="text-xs text-muted-foreground mt-0.5">
+                      Strengths: {topic.strengths.join('; ')}
+                    </p>
+                  )}
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,96 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Input } from '@/components/ui/input';
+import { Search } from 'lucide-react';
+import type { CodeSnippet, CodeSymbol } from '@/types/interview';
+
+interface SymbolSearchProps {
+  sessionId: string;
+  onOpenSymbol: (snippet: CodeSnippet) => void;
+}
+
+export function SymbolSearch({ sessionId, onOpenSymbol }: SymbolSearchProps) {
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState<CodeSymbol[]>([]);
+
+  useEffect(() => {
+    if (!query.trim()) {
+      setResults([]);
+      return;
+    }
+
+    // Debounce so typing does not fire a request per keystroke
+    const timeout = setTimeout(async () => {
+      try {
+        const response = await fetch(
+          `/api/interview/symbols?sessionId=${sessionId}&q=${encodeURIComponent(query.trim())}`
+        );
+        const data = await response.json();
+        setResults(data.success ? data.symbols : []);
+      } catch (error) {
+        console.error('Symbol search error:', error);
+      }
+    }, 200);
+    return () => clearTimeout(timeout);
+  }, [query, sessionId]);
+
+  const openSymbol = async (symbol: CodeSymbol) => {
+    try {
+      const response = await fetch(
+        `/api/interview/symbols?sessionId=${sessionId}&file=${encodeURIComponent(symbol.file)}&line=${symbol.startLine}`
+      );
+      const data = await response.json();
+      if (data.success && data.snippet) {
+        onOpenSymbol(data.snippet);
+        setQuery('');
+      }
+    } catch (error) {
+      console.error('Failed to open symbol:', error);
+    }
+  };
+
+  return (
+    <div className="relative p-2 border-b border-border shrink-0">
+      <div className="relative">
+        <Search className="absolute left-2 top-1/2 -translate-y-1/2 h-3.5 w-3.5 text-muted-foreground" />
+        <Input
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter' && results[0]) openSymbol(results[0]);
+            if (e.key === 'Escape') setQuery('');
+          }}
+          placeholder="Jump to a function, class or type..."
+          className="h-8 pl-7 text-xs"
+        />
+      </div>
+
+      {results.length > 0 && (
+        <ul className="absolute left-2 right-2 z-10 mt-1 max-h-64 overflow-y-auto rounded-md border border-border bg-background shadow-md">
+          {results.map((symbol) => (
+            <li key={`${symbol.file}:${symbol.startLine}:${symbol.name}`}>
+              <button
+                type="button"
+                onClick={() => openSymbol(symbol)}
+                className="w-full text-left px-2 py-1.5 hover:bg-muted/50 transition-colors"
+                title={symbol.doc || symbol.signature}
+              >
+                <div className="flex items-center gap-1.5 text-xs">
+                  <span className="text-muted-foreground shrink-0">{symbol.kind}</span>
+                  <span className="font-mono truncate">
+                    {symbol.container ? `${symbol.container}.` : ''}
+                    {symbol.name}
+                  </span>
+                </div>
+                <div className="text-xs text-muted-foreground font-mono truncate">
+                  {symbol.file}:{symbol.startLine}
+                </div>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
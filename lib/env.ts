@@ -2,10 +2,35 @@
 export function validateEnv() {
   const errors: string[] = []
 
-  if (!process.env.OPENAI_API_KEY) {
-    errors.push('OPENAI_API_KEY is required')
-  } else if (!process.env.OPENAI_API_KEY.startsWith('sk-')) {
-    errors.push('OPENAI_API_KEY appears to be invalid (should start with "sk-")')
+  // LLM_PROVIDER selects the completion backend: openai (default), local or mock
+  const provider = (process.env.LLM_PROVIDER || 'openai').toLowerCase()
+  if (provider === 'openai') {
+    if (!process.env.OPENAI_API_KEY) {
+      errors.push('OPENAI_API_KEY is required')
+    } else if (!process.env.OPENAI_API_KEY.startsWith('sk-')) {
+      errors.push('OPENAI_API_KEY appears to be invalid (should start with "sk-")')
+    }
+  } else if (provider === 'local') {
+    // Any OpenAI-compatible server (Ollama, llama.cpp) - no API key needed
+    if (!process.env.LLM_BASE_URL) {
+      errors.push('LLM_BASE_URL is required when LLM_PROVIDER=local (e.g. http://localhost:11434/v1)')
+    }
+  } else if (provider !== 'mock') {
+    errors.push(`LLM_PROVIDER "${provider}" is not supported (use openai, local or mock)`)
+  }
+
+  // SPEECH_PROVIDER selects the speech-to-text and text-to-speech backend; unset follows LLM_PROVIDER=mock
+  const speechProvider = (process.env.SPEECH_PROVIDER || '').toLowerCase()
+  if (speechProvider === 'local' && !process.env.SPEECH_BASE_URL) {
+    errors.push('SPEECH_BASE_URL is required when SPEECH_PROVIDER=local (e.g. http://localhost:8000/v1)')
+  } else if (speechProvider && !['openai', 'local', 'mock'].includes(speechProvider)) {
+    errors.push(`SPEECH_PROVIDER "${speechProvider}" is not supported (use openai, local or mock)`)
+  }
+
+  // INGEST_MODE selects how repositories are downloaded
+  const ingestMode = (process.env.INGEST_MODE || 'tree').toLowerCase()
+  if (!['tree', 'tarball', 'clone', 'contents'].includes(ingestMode)) {
+    errors.push(`INGEST_MODE "${ingestMode}" is not supported (use tree, tarball, clone or contents)`)
   }
 
   // GITHUB_TOKEN is optional, but if provided, validate format
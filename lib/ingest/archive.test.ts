@@ -0,0 +1,43 @@
+import JSZip from 'jszip';
+import { describe, expect, it } from 'vitest';
+import { listArchive, stripCommonRoot } from './archive';
+import { MAX_FILE_SIZE } from './filters';
+
+async function zipOf(files: Record<string, string>): Promise<Buffer> {
+  const zip = new JSZip();
+  for (const [path, content] of Object.entries(files)) zip.file(path, content);
+  return zip.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' });
+}
+
+describe('stripCommonRoot', () => {
+  it('removes the folder every entry is wrapped in', () => {
+    expect(stripCommonRoot([{ path: 'project-main/' }, { path: 'project-main/src/a.ts' }])).toEqual([
+      { path: 'src/a.ts' },
+    ]);
+  });
+
+  it('leaves archives without a single root alone', () => {
+    const entries = [{ path: 'a.ts' }, { path: 'src/b.ts' }];
+    expect(stripCommonRoot(entries)).toEqual(entries);
+  });
+});
+
+describe('listArchive', () => {
+  it('lists ZIP files with their declared sizes, without Finder resource forks', async () => {
+    const candidates = await listArchive(
+      await zipOf({ 'project/README.md': '# Project', 'project/src/a.ts': 'const a = 1;', '__MACOSX/project/._a.ts': 'x' }),
+      'zip'
+    );
+
+    expect(candidates.map(c => [c.path, c.size])).toEqual([
+      ['README.md', 9],
+      ['src/a.ts', 12],
+    ]);
+    expect(await candidates[1].read()).toBe('const a = 1;');
+  });
+
+  it('stops inflating a ZIP entry past the per-file limit', async () => {
+    const [candidate] = await listArchive(await zipOf({ 'big.txt': 'a'.repeat(MAX_FILE_SIZE + 1) }), 'zip');
+    expect(await candidate.read()).toBeNull();
+  });
+});
@@ -0,0 +1,152 @@
+import JSZip from 'jszip';
+import type { Readable } from 'stream';
+import { cacheRepo, getCachedRepo, uploadRevisionKey, withDirectories } from './cache';
+import { collectFiles } from './collect';
+import { MAX_EXTRACTED_BYTES } from './budget';
+import { MAX_FILE_SIZE, detectPrimaryLanguage } from './filters';
+import { archiveTooLarge, parseTarGz } from './tar';
+import { buildFileTree } from './tree';
+import type { CandidateFile, IngestOptions, IngestResult } from './types';
+import type { FetchedRepo } from '@/types/interview';
+
+export type ArchiveFormat = 'zip' | 'tar.gz';
+
+export const SUPPORTED_ARCHIVE_EXTENSIONS = ['.zip', '.tar.gz', '.tgz'];
+
+export function detectArchiveFormat(fileName: string): ArchiveFormat | null {
+  const lowerName = fileName.toLowerCase();
+  if (lowerName.endsWith('.zip')) return 'zip';
+  if (lowerName.endsWith('.tar.gz') || lowerName.endsWith('.tgz')) return 'tar.gz';
+  return null;
+}
+
+function stripArchiveExtension(fileName: string): string {
+  return fileName.replace(/\.(zip|tar\.gz|tgz)$/i, '');
+}
+
+/**
+ * Remove the folder an archive wraps all of its contents in (`project-main/`,
+ * `owner-repo-sha/`), so paths match what they are in the repository.
+ */
+export function stripCommonRoot<T extends { path: string }>(entries: T[]): T[] {
+  const roots = new Set(entries.map(entry => entry.path.split('/')[0]));
+  const [root] = Array.from(roots);
+  if (roots.size !== 1 || entries.some(entry => !entry.path.startsWith(`${root}/`))) {
+    return entries;
+  }
+  return entries
+    .map(entry => ({ ...entry, path: entry.path.slice(root.length + 1) }))
+    .filter(entry => entry.path !== '');
+}
+
+// JSZip keeps the sizes from the central directory on a private field
+function declaredSize(entry: JSZip.JSZipObject): number | undefined {
+  const size = (entry as unknown as { _data?: { uncompressedSize?: number } })._data?.uncompressedSize;
+  return typeof size === 'number' ? size : undefined;
+}
+
+// Inflate an entry as a stream and give up past `limit` bytes, in case its declared size lies
+function readZipEntry(entry: JSZip.JSZipObject, limit: number): Promise<string | null> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    // Typed as the NodeJS.ReadableStream interface, but it is a `Readable`
+    const stream = entry.nodeStream('nodebuffer') as Readable;
+    stream.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > limit) {
+        stream.destroy();
+        resolve(null);
+        return;
+      }
+      chunks.push(chunk);
+    });
+    stream.on('end', () => resolve(Buffer.concat(chunks).toString('utf-8')));
+    stream.on('error', reject);
+  });
+}
+
+/**
+ * List the files of a ZIP or tar.gz archive as ingestion candidates. Archives
+ * that extract to more than MAX_EXTRACTED_BYTES are refused: tarballs while
+ * they are decompressed, ZIPs by their declared sizes before anything is read.
+ */
+export async function listArchive(data: Buffer, format: ArchiveFormat): Promise<CandidateFile[]> {
+  if (format === 'zip') {
+    const zip = await JSZip.loadAsync(data);
+    const entries = Object.values(zip.files)
+      .filter(entry => !entry.dir)
+      // macOS Finder adds resource forks to ZIPs it creates
+      .filter(entry => !entry.name.startsWith('__MACOSX/'));
+
+    let totalSize = 0;
+    for (const entry of entries) {
+      totalSize += declaredSize(entry) || 0;
+      if (totalSize > MAX_EXTRACTED_BYTES) throw archiveTooLarge();
+    }
+
+    const candidates = entries.map(entry => ({
+      path: entry.name,
+      size: declaredSize(entry),
+      read: () => readZipEntry(entry, MAX_FILE_SIZE),
+    }));
+    return stripCommonRoot(candidates);
+  }
+
+  const entries = stripCommonRoot(parseTarGz(data));
+  return entries.map(entry => ({
+    path: entry.path,
+    size: entry.content.length,
+    read: async () => entry.content.toString('utf-8'),
+  }));
+}
+
+/**
+ * Ingest an uploaded archive through the same filtering, ignore rules and token
+ * budget as a GitHub fetch, producing a `FetchedRepo` with owner `upload`.
+ */
+export async function ingestArchive(
+  fileName: string,
+  data: Buffer,
+  options: IngestOptions = {}
+): Promise<IngestResult> {
+  const format = detectArchiveFormat(fileName);
+  if (!format) {
+    throw new Error(`Unsupported file format. Please upload a ${SUPPORTED_ARCHIVE_EXTENSIONS.join(', ')} archive.`);
+  }
+
+  // Archives are addressed by their content, so re-uploading the same file skips extraction
+  const name = stripArchiveExtension(fileName.split('/').pop() || fileName);
+  const cacheKey = withDirectories(uploadRevisionKey(data), options.directories);
+  const cached = await getCachedRepo(cacheKey);
+  if (cached) {
+    return { repo: { ...cached, name }, cacheKey, fromCache: true };
+  }
+
+  let candidates: CandidateFile[];
+  try {
+    candidates = await listArchive(data, format);
+  } catch (error: any) {
+    throw new Error(`Failed to extract project information: ${error.message}`);
+  }
+
+  const { files, totalTokens, stoppedEarly } = await collectFiles(candidates, options);
+  if (files.length === 0) {
+    throw new Error('The uploaded archive does not contain any readable source files.');
+  }
+
+  const repo: FetchedRepo = {
+    owner: 'upload',
+    name,
+    defaultBranch: '',
+    description: null,
+    language: detectPrimaryLanguage(files),
+    files,
+    structure: buildFileTree(files),
+    totalTokens,
+    stoppedEarly,
+    fetchedAt: Date.now(),
+  };
+  await cacheRepo(cacheKey, repo);
+  return { repo, cacheKey, fromCache: false };
+}
@@ -0,0 +1,40 @@
+// Token budgeting for project content sent to the explain model
+//
+// Tokens are counted with the model's own BPE tokenizer (see lib/tokens). The
+// context window of EXPLAIN_MODEL is split into:
+//   - System prompt: ~150 tokens
+//   - User prompt template: ~600 tokens
+//   - Output buffer: ~5,000 tokens (less if the model cannot produce that much)
+//   - Project description: the rest (~122,000 tokens for a 128K window)
+// Repos that don't fit are summarized hierarchically instead of truncated
+
+import { EXPLAIN_MODEL } from '@/lib/llm/models';
+import { countTokens, getExplainBudget, TOKENS_PER_CHAR } from '@/lib/tokens';
+
+export { TOKENS_PER_CHAR };
+
+export const MAX_PROJECT_TOKENS = getExplainBudget(EXPLAIN_MODEL).projectTokens;
+// Only for messages; the limit itself is in tokens
+export const MAX_PROJECT_CHARACTERS = Math.floor(MAX_PROJECT_TOKENS / TOKENS_PER_CHAR);
+
+// Stop reading at ~95% of the limit so repository metadata still fits
+export const INGEST_TOKEN_BUDGET = Math.floor(MAX_PROJECT_TOKENS * 0.95);
+
+// Repos larger than INGEST_TOKEN_BUDGET are still read up to this limit, then
+// summarized file by file and directory by directory (see lib/summarize). A
+// route can only summarize a fraction of this per request, so it stays a small
+// multiple of the prompt budget
+export const MAX_INGEST_TOKENS = 400_000;
+
+// Files read per ingestion. In tree and contents modes every file is a request
+// of its own, which all has to finish within the route's time limit
+export const MAX_INGEST_FILES = 600;
+
+// Archives carry much more than what gets ingested (binaries, vendored and
+// ignored files), so extraction is capped at a multiple of the ingest budget.
+// Anything larger is refused rather than decompressed into memory
+export const MAX_EXTRACTED_BYTES = Math.floor(MAX_INGEST_TOKENS / TOKENS_PER_CHAR) * 32;
+
+export function estimateTokens(text: string): number {
+  return countTokens(text, EXPLAIN_MODEL);
+}
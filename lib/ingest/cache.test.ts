@@ -0,0 +1,71 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { redis } from '@/lib/redis';
+import type { FetchedRepo } from '@/types/interview';
+import {
+  cacheRepo,
+  cacheRevision,
+  getCachedRepo,
+  getCachedRevision,
+  repoRevisionKey,
+  uploadRevisionKey,
+  withDirectories,
+} from './cache';
+
+function repoAt(commitSha: string): FetchedRepo {
+  return {
+    owner: 'acme',
+    name: 'widgets',
+    defaultBranch: 'main',
+    commitSha,
+    files: [],
+    structure: [],
+    totalTokens: 0,
+    stoppedEarly: false,
+    fetchedAt: 0,
+  };
+}
+
+describe('cache keys', () => {
+  it('addresses a repository by host, lowercased name and revision', () => {
+    expect(repoRevisionKey('github.com', 'Acme', 'Widgets', 'abc123')).toBe('github.com:acme/widgets@abc123');
+    expect(uploadRevisionKey(Buffer.from('same'))).toBe(uploadRevisionKey(Buffer.from('same')));
+    expect(uploadRevisionKey(Buffer.from('same'))).not.toBe(uploadRevisionKey(Buffer.from('other')));
+  });
+
+  it('narrows a key to a sorted directory selection', () => {
+    expect(withDirectories('k', ['/src/', 'lib'])).toBe('k:lib,src');
+    expect(withDirectories('k', ['', '/'])).toBe('k');
+  });
+});
+
+describe('repo cache', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('misses, then hits for the same revision only', async () => {
+    const key = repoRevisionKey('github.com', 'acme', 'widgets', 'sha-1');
+    expect(await getCachedRepo(key)).toBeNull();
+
+    await cacheRepo(key, repoAt('sha-1'));
+    expect(await getCachedRepo(key)).toEqual(repoAt('sha-1'));
+    expect(await getCachedRepo(repoRevisionKey('github.com', 'acme', 'widgets', 'sha-2'))).toBeNull();
+    expect(await getCachedRepo(withDirectories(key, ['src']))).toBeNull();
+  });
+
+  it('maps a ref to its revision, keeping ref paths case-sensitive', async () => {
+    const revision = { ref: 'Main', commitSha: 'sha-1', info: { defaultBranch: 'main' } };
+    await cacheRevision('github.com', 'Acme', 'Widgets', 'Main', revision);
+    expect(await getCachedRevision('github.com', 'acme', 'widgets', 'Main')).toEqual(revision);
+    expect(await getCachedRevision('github.com', 'acme', 'widgets', 'main')).toBeNull();
+  });
+
+  it('treats store errors as misses', async () => {
+    vi.spyOn(redis, 'get').mockRejectedValue(new Error('down'));
+    vi.spyOn(redis, 'setex').mockRejectedValue(new Error('down'));
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    await expect(cacheRepo('broken', repoAt('sha-1'))).resolves.toBeUndefined();
+    expect(await getCachedRepo('broken')).toBeNull();
+  });
+});
@@ -0,0 +1,90 @@
+import { createHash } from 'crypto';
+import { ensureRedisConnected, redis } from '@/lib/redis';
+import type { FetchedRepo } from '@/types/interview';
+import type { RepoRevision } from './hosts/types';
+
+const REPO_CACHE_PREFIX = 'ingest:repo:';
+const REPO_CACHE_TTL = 7 * 24 * 60 * 60; // 7 days; keys are content addresses, so entries never go stale
+const REF_CACHE_PREFIX = 'ingest:ref:';
+const REF_CACHE_TTL = 60 * 60; // 1 hour; branches move, so a ref only maps to a commit for a while
+
+/**
+ * Content address of a repository revision: `<host>:<owner>/<repo>@<sha>` for
+ * hosted repos, `upload:<sha256>` for archives. A revision never changes, so
+ * everything derived from it can be cached for as long as storage allows.
+ */
+export function repoRevisionKey(host: string, owner: string, repo: string, revision: string): string {
+  return `${host}:${owner.toLowerCase()}/${repo.toLowerCase()}@${revision}`;
+}
+
+export function uploadRevisionKey(data: Buffer): string {
+  return `upload:${createHash('sha256').update(data).digest('hex')}`;
+}
+
+/** Narrow a revision key to a directory selection */
+export function withDirectories(key: string, directories?: string[]): string {
+  const dirs = (directories || []).map(d => d.replace(/^\/+|\/+$/g, '')).filter(Boolean).sort();
+  return dirs.length > 0 ? `${key}:${dirs.join(',')}` : key;
+}
+
+// Branch and path names are case-sensitive, unlike owner and repo names
+function refCacheKey(host: string, owner: string, repo: string, refPath?: string): string {
+  return `${host}:${owner.toLowerCase()}/${repo.toLowerCase()}@${refPath || ''}`;
+}
+
+/** The revision a repository URL resolved to recently, so repeat fetches skip the host entirely */
+export async function getCachedRevision(
+  host: string,
+  owner: string,
+  repo: string,
+  refPath?: string
+): Promise<RepoRevision | null> {
+  try {
+    await ensureRedisConnected();
+    const data = await redis.get(`${REF_CACHE_PREFIX}${refCacheKey(host, owner, repo, refPath)}`);
+    return data ? (JSON.parse(data) as RepoRevision) : null;
+  } catch (error) {
+    console.error('Error reading ref cache:', error);
+    return null;
+  }
+}
+
+export async function cacheRevision(
+  host: string,
+  owner: string,
+  repo: string,
+  refPath: string | undefined,
+  revision: RepoRevision
+): Promise<void> {
+  try {
+    await ensureRedisConnected();
+    await redis.setex(
+      `${REF_CACHE_PREFIX}${refCacheKey(host, owner, repo, refPath)}`,
+      REF_CACHE_TTL,
+      JSON.stringify(revision)
+    );
+  } catch (error) {
+    console.error('Error writing ref cache:', error);
+  }
+}
+
+export async function getCachedRepo(key: string): Promise<FetchedRepo | null> {
+  try {
+    await ensureRedisConnected();
+    const data = await redis.get(`${REPO_CACHE_PREFIX}${key}`);
+    return data ? (JSON.parse(data) as FetchedRepo) : null;
+  } catch (error) {
+    console.error('Error reading ingestion cache:', error);
+    return null;
+  }
+}
+
+export async function cacheRepo(key: string, repo: FetchedRepo): Promise<void> {
+  try {
+    await ensureRedisConnected();
+    await redis.setex(`${REPO_CACHE_PREFIX}${key}`, REPO_CACHE_TTL, JSON.stringify(repo));
+  } catch (error) {
+    // Caching is best-effort; ingestion already succeeded
+    console.error('Error writing ingestion cache:', error);
+  }
+}
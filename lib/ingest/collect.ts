@@ -0,0 +1,115 @@
+import { estimateTokens, MAX_INGEST_FILES, MAX_INGEST_TOKENS, TOKENS_PER_CHAR } from './budget';
+import {
+  MAX_FILE_SIZE,
+  getLanguageFromPath,
+  isInSelectedDirectories,
+  looksBinary,
+  shouldIncludePath,
+} from './filters';
+import { loadIgnoreRules } from './ignoreRules';
+import { compareByValue } from './ranking';
+import type { CandidateFile, IngestOptions } from './types';
+import type { RepoFile } from '@/types/interview';
+
+export interface CollectResult {
+  files: RepoFile[];
+  totalTokens: number;
+  stoppedEarly: boolean;
+}
+
+const DEFAULT_READ_CONCURRENCY = 8;
+
+async function readCandidate(candidate: CandidateFile): Promise<string | null> {
+  try {
+    const content = await candidate.read();
+    return content === null || looksBinary(content) ? null : content;
+  } catch {
+    // Skip files that can't be read
+    return null;
+  }
+}
+
+/**
+ * Apply the filtering policy and the repo's own .gitignore/.explainignore rules to
+ * candidate files and read them until the token budget or the file limit is reached. Every
+ * ingestion source funnels through here.
+ *
+ * Candidates are read in order of value (README and manifests, then source, then
+ * tests and docs) so the budget goes to the most informative files. A file that
+ * does not fit is skipped and smaller ones still fill the remaining budget.
+ * Reads happen in batches of `concurrency`; the result is the same as a sequential read.
+ */
+export async function collectFiles(
+  candidates: CandidateFile[],
+  options: IngestOptions = {}
+): Promise<CollectResult> {
+  const {
+    directories,
+    tokenBudget = MAX_INGEST_TOKENS,
+    maxFiles = MAX_INGEST_FILES,
+    concurrency = DEFAULT_READ_CONCURRENCY,
+    onProgress,
+  } = options;
+  const files: RepoFile[] = [];
+  let totalTokens = 0;
+  let stoppedEarly = false;
+
+  const isIgnored = await loadIgnoreRules(candidates);
+
+  const eligible = candidates
+    .filter(c => shouldIncludePath(c.path))
+    .filter(c => !isIgnored(c.path))
+    .filter(c => isInSelectedDirectories(c.path, directories))
+    .filter(c => !c.size || c.size <= MAX_FILE_SIZE)
+    .sort(compareByValue);
+
+  const batchSize = Math.max(1, concurrency);
+  let index = 0;
+  let reads = 0;
+  while (index < eligible.length) {
+    if (totalTokens >= tokenBudget || reads >= maxFiles) {
+      stoppedEarly = true;
+      break;
+    }
+
+    // Skip files whose size alone rules them out, without reading them
+    const batch: CandidateFile[] = [];
+    while (index < eligible.length && batch.length < batchSize && reads + batch.length < maxFiles) {
+      const candidate = eligible[index++];
+      if (candidate.size && candidate.size * TOKENS_PER_CHAR > tokenBudget - totalTokens) {
+        stoppedEarly = true;
+        continue;
+      }
+      batch.push(candidate);
+    }
+    reads += batch.length;
+    const contents = await Promise.all(batch.map(readCandidate));
+
+    for (let i = 0; i < batch.length; i++) {
+      const content = contents[i];
+      // Sources that can't report sizes up front are checked after reading
+      if (content === null || content.length > MAX_FILE_SIZE) {
+        continue;
+      }
+
+      const fileTokens = estimateTokens(content);
+      // Check if adding this file would exceed the limit
+      if (totalTokens + fileTokens > tokenBudget) {
+        stoppedEarly = true;
+        continue;
+      }
+
+      files.push({
+        path: batch[i].path,
+        content,
+        language: getLanguageFromPath(batch[i].path),
+        size: batch[i].size || content.length,
+      });
+      totalTokens += fileTokens;
+      onProgress?.({ type: 'files', filesFetched: files.length, totalTokens });
+    }
+  }
+
+  files.sort((a, b) => a.path.localeCompare(b.path));
+  return { files, totalTokens, stoppedEarly };
+}
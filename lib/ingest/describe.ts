@@ -0,0 +1,98 @@
+import { estimateTokens, INGEST_TOKEN_BUDGET, MAX_PROJECT_TOKENS } from './budget';
+import { compareByValue } from './ranking';
+import type { FetchedRepo, RepoFile, RepoSummary } from '@/types/interview';
+
+export function findReadme(repo: FetchedRepo): RepoFile | undefined {
+  return repo.files.find(f => /^readme(\.[a-z]+)?$/i.test(f.path));
+}
+
+// Key files in full, then the summaries of as many other files as still fit
+function describeSummarizedFiles(repo: FetchedRepo, summary: RepoSummary, readme: RepoFile | undefined, budget: number): string {
+  let description = '';
+  let remaining = budget - estimateTokens('=== FILE SUMMARIES ===\n');
+  const summarized: RepoFile[] = [];
+
+  for (const file of [...repo.files].sort(compareByValue)) {
+    if (file === readme) continue;
+    const section = `=== ${file.path} ===\n${file.content}\n\n`;
+    // Full contents may use half the budget; the rest goes to file summaries
+    if (remaining - estimateTokens(section) > budget / 2) {
+      description += section;
+      remaining -= estimateTokens(section);
+    } else if (summary.files[file.path]) {
+      summarized.push(file);
+    }
+  }
+
+  const lines: string[] = [];
+  for (const file of summarized.sort((a, b) => a.path.localeCompare(b.path))) {
+    const line = `- ${file.path}: ${summary.files[file.path]}\n`;
+    if (estimateTokens(line) > remaining) break;
+    lines.push(line);
+    remaining -= estimateTokens(line);
+  }
+  if (lines.length > 0) {
+    description += `=== FILE SUMMARIES ===\n${lines.join('')}\n`;
+  }
+  return description;
+}
+
+/**
+ * Render a fetched repo as the plain-text project description used in explain
+ * prompts. Repos too large for one prompt pass their hierarchical summary: the
+ * description then leads with the architecture overview and directory
+ * summaries, and spends the token budget on key files and file summaries.
+ */
+export function describeRepo(repo: FetchedRepo, summary?: RepoSummary): string {
+  const readme = findReadme(repo);
+
+  let description = repo.owner === 'upload'
+    ? `Project: ${repo.name} (uploaded archive)\n`
+    : `Repository: ${repo.owner}/${repo.name}\n`;
+  if (repo.ref && repo.ref !== repo.defaultBranch) {
+    description += `Ref: ${repo.ref}${repo.commitSha ? ` (${repo.commitSha.slice(0, 7)})` : ''}\n`;
+  }
+  if (repo.subdirectory) {
+    description += `Subdirectory: ${repo.subdirectory}\n`;
+  }
+  description += `Description: ${repo.description || 'No description provided'}\n`;
+  description += `Language: ${repo.language || 'Not specified'}\n`;
+  if (repo.stars !== undefined) {
+    description += `Stars: ${repo.stars}\n`;
+  }
+  if (repo.forks !== undefined) {
+    description += `Forks: ${repo.forks}\n`;
+  }
+  description += `Files analyzed: ${repo.files.length}\n`;
+  if (summary) {
+    description += `Tokens read: ~${repo.totalTokens.toLocaleString()} (more than fits in one prompt, so it was summarized)\n`;
+  } else {
+    description += `Tokens used: ~${repo.totalTokens.toLocaleString()} / ${MAX_PROJECT_TOKENS.toLocaleString()}\n`;
+  }
+  description += `\n`;
+
+  if (readme) {
+    description += `=== README ===\n${readme.content}\n\n`;
+  }
+
+  if (summary) {
+    description += `=== ARCHITECTURE OVERVIEW ===\n${summary.overview}\n\n`;
+    const directories = Object.keys(summary.directories).sort();
+    if (directories.length > 0) {
+      description += `=== DIRECTORY SUMMARIES ===\n${directories.map(dir => `- ${dir}/: ${summary.directories[dir]}`).join('\n')}\n\n`;
+    }
+    return description + describeSummarizedFiles(repo, summary, readme, INGEST_TOKEN_BUDGET - estimateTokens(description));
+  }
+
+  // Add all fetched files
+  const sortedFiles = [...repo.files].sort((a, b) => a.path.localeCompare(b.path));
+  for (const file of sortedFiles) {
+    // Skip README since we already added it above
+    if (file === readme) {
+      continue;
+    }
+    description += `=== ${file.path} ===\n${file.content}\n\n`;
+  }
+
+  return description;
+}
@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { getLanguageFromPath, isInSelectedDirectories, scopeDirectories } from './filters';
+
+describe('scopeDirectories', () => {
+  it('leaves the selection alone without a subdirectory', () => {
+    expect(scopeDirectories(undefined)).toBeUndefined();
+    expect(scopeDirectories(['src'], '')).toEqual(['src']);
+  });
+
+  it('scopes to the subdirectory when nothing is selected', () => {
+    expect(scopeDirectories(undefined, '/packages/api/')).toEqual(['packages/api']);
+    expect(scopeDirectories([], 'packages/api')).toEqual(['packages/api']);
+  });
+
+  it('resolves selected directories inside the subdirectory', () => {
+    expect(scopeDirectories(['src', '/test/'], 'packages/api')).toEqual(['packages/api/src', 'packages/api/test']);
+  });
+
+  it('keeps selections that already name the subdirectory or a path inside it', () => {
+    expect(scopeDirectories(['packages/api', 'packages/api/src/'], 'packages/api')).toEqual([
+      'packages/api',
+      'packages/api/src',
+    ]);
+    expect(scopeDirectories(['packages/api-client'], 'packages/api')).toEqual(['packages/api/packages/api-client']);
+  });
+});
+
+describe('isInSelectedDirectories', () => {
+  it('matches whole path segments only', () => {
+    expect(isInSelectedDirectories('packages/api/index.ts', ['packages/api'])).toBe(true);
+    expect(isInSelectedDirectories('packages/api-client/index.ts', ['packages/api'])).toBe(false);
+    expect(isInSelectedDirectories('anything.ts', [])).toBe(true);
+  });
+});
+
+describe('getLanguageFromPath', () => {
+  it('maps extensions and well-known file names', () => {
+    expect(getLanguageFromPath('src/index.mts')).toBe('typescript');
+    expect(getLanguageFromPath('docker/Dockerfile')).toBe('dockerfile');
+    expect(getLanguageFromPath('LICENSE')).toBe('text');
+  });
+});
@@ -0,0 +1,166 @@
+// Single filtering policy shared by every ingestion source
+
+export const MAX_FILE_SIZE = 100000; // 100KB per file
+
+export const EXCLUDE_DIRS = [
+  'node_modules', '.git', 'dist', 'build', '.next', 'venv',
+  '__pycache__', '.venv', 'target', 'bin', 'obj', 'coverage',
+  '.cache', '.husky', '.vscode', '.idea'
+];
+
+export const BINARY_EXTENSIONS = [
+  '.png', '.jpg', '.jpeg', '.gif', '.svg', '.ico', '.woff', '.woff2',
+  '.ttf', '.eot', '.pdf', '.zip', '.tar', '.gz', '.exe', '.dll',
+  '.so', '.dylib', '.mp3', '.mp4', '.wav', '.webp', '.bmp'
+];
+
+// Hidden files that still carry useful project information
+const IMPORTANT_HIDDEN_FILES = ['.env.example', '.gitignore', '.eslintrc', '.prettierrc'];
+
+export function getLanguageFromPath(path: string): string {
+  const fileName = path.split('/').pop()?.toLowerCase() || '';
+  if (fileName === 'dockerfile') return 'dockerfile';
+  if (fileName === 'makefile') return 'makefile';
+
+  const ext = fileName.includes('.') ? fileName.split('.').pop() : '';
+  const languageMap: Record<string, string> = {
+    ts: 'typescript',
+    tsx: 'tsx',
+    js: 'javascript',
+    jsx: 'jsx',
+    mjs: 'javascript',
+    cjs: 'javascript',
+    mts: 'typescript',
+    cts: 'typescript',
+    py: 'python',
+    rb: 'ruby',
+    go: 'go',
+    rs: 'rust',
+    java: 'java',
+    kt: 'kotlin',
+    swift: 'swift',
+    c: 'c',
+    cpp: 'cpp',
+    h: 'c',
+    hpp: 'cpp',
+    cs: 'csharp',
+    php: 'php',
+    html: 'html',
+    css: 'css',
+    scss: 'scss',
+    sass: 'sass',
+    less: 'less',
+    json: 'json',
+    yaml: 'yaml',
+    yml: 'yaml',
+    xml: 'xml',
+    md: 'markdown',
+    sql: 'sql',
+    sh: 'bash',
+    bash: 'bash',
+    zsh: 'bash',
+    vue: 'vue',
+    svelte: 'svelte',
+  };
+  return languageMap[ext || ''] || 'text';
+}
+
+// Languages that describe a project's data or docs rather than what it is written in
+const NON_PRIMARY_LANGUAGES = ['text', 'json', 'yaml', 'xml', 'markdown'];
+
+/** The language making up most of the code, for sources without repository metadata */
+export function detectPrimaryLanguage(files: { path: string; content: string }[]): string | null {
+  const totals = new Map<string, number>();
+  for (const file of files) {
+    const language = getLanguageFromPath(file.path);
+    if (NON_PRIMARY_LANGUAGES.includes(language)) continue;
+    totals.set(language, (totals.get(language) || 0) + file.content.length);
+  }
+
+  let primary: string | null = null;
+  let largest = 0;
+  for (const [language, total] of totals) {
+    if (total > largest) {
+      primary = language;
+      largest = total;
+    }
+  }
+  return primary;
+}
+
+export function isBinaryPath(path: string): boolean {
+  const fileName = path.toLowerCase();
+  return BINARY_EXTENSIONS.some(ext => fileName.endsWith(ext));
+}
+
+/** Content check for files whose extension did not give them away */
+export function looksBinary(content: string): boolean {
+  return content.slice(0, 8000).includes('\u0000');
+}
+
+export function shouldIncludePath(path: string): boolean {
+  const pathParts = path.split('/').filter(Boolean);
+
+  // Check if any part of the path is in exclude dirs
+  if (pathParts.some(part => EXCLUDE_DIRS.includes(part))) {
+    return false;
+  }
+
+  // Check for binary extensions
+  const fileName = pathParts[pathParts.length - 1]?.toLowerCase() || '';
+  if (isBinaryPath(fileName)) {
+    return false;
+  }
+
+  // Skip hidden directories
+  if (pathParts.slice(0, -1).some(part => part.startsWith('.'))) {
+    return false;
+  }
+
+  // Skip hidden files (except important config files)
+  if (fileName.startsWith('.') && !IMPORTANT_HIDDEN_FILES.some(f => fileName.startsWith(f))) {
+    return false;
+  }
+
+  return true;
+}
+
+function normalizeDir(dir: string): string {
+  return dir.replace(/^\/+|\/+$/g, '');
+}
+
+/** Whether a file lies inside one of the selected directories (no selection means everything) */
+export function isInSelectedDirectories(path: string, directories?: string[]): boolean {
+  if (!directories || directories.length === 0) return true;
+  return directories.some(dir => {
+    const normalizedDir = normalizeDir(dir);
+    return normalizedDir === '' || path === normalizedDir || path.startsWith(`${normalizedDir}/`);
+  });
+}
+
+/**
+ * Directories to ingest when the URL pointed into a subdirectory: the subdirectory
+ * itself, or the selected directories resolved inside it.
+ */
+export function scopeDirectories(directories: string[] | undefined, subdirectory?: string): string[] | undefined {
+  if (!subdirectory) return directories;
+  const scope = normalizeDir(subdirectory);
+  if (!directories || directories.length === 0) return [scope];
+  return directories.map(dir => {
+    const normalizedDir = normalizeDir(dir);
+    return normalizedDir === scope || normalizedDir.startsWith(`${scope}/`) ? normalizedDir : `${scope}/${normalizedDir}`;
+  });
+}
+
+/** Whether a directory may contain files from the selection, so it is worth descending into */
+export function shouldTraverseDirectory(path: string, directories?: string[]): boolean {
+  if (!directories || directories.length === 0) return true;
+  const normalizedPath = normalizeDir(path);
+  if (normalizedPath === '') return true;
+  return directories.some(dir => {
+    const normalizedDir = normalizeDir(dir);
+    return normalizedPath === normalizedDir ||
+           normalizedPath.startsWith(`${normalizedDir}/`) ||
+           normalizedDir.startsWith(`${normalizedPath}/`);
+  });
+}
@@ -0,0 +1,95 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { bitbucketHost } from './bitbucket';
+import { fetchFromHost, resolveRevision } from './index';
+import { startStandInServer, tarGzOf, type StandInResponse, type StandInServer } from './standInServer';
+
+const SHA = 'c'.repeat(40);
+const REPOSITORY = '/repositories/acme/widgets';
+const locator = bitbucketHost.parseUrl('https://bitbucket.org/acme/widgets/src/main/lib')!;
+
+let server: StandInServer;
+
+beforeAll(async () => {
+  server = await startStandInServer((url): StandInResponse | undefined => {
+    switch (url.pathname) {
+      case REPOSITORY:
+        return { body: { description: '', language: 'typescript', mainbranch: { name: 'main' } } };
+      case `${REPOSITORY}/commit/main`:
+        return { body: { hash: SHA } };
+      case `${REPOSITORY}/src/${SHA}/`:
+        // Pages link to each other with absolute `next` URLs
+        return url.searchParams.get('page') === '2'
+          ? { body: { values: [{ type: 'commit_file', path: 'lib/util.ts', size: 21 }] } }
+          : {
+              body: {
+                values: [
+                  { type: 'commit_directory', path: 'lib' },
+                  { type: 'commit_file', path: 'README.md', size: 9 },
+                ],
+                next: `${server.url}${REPOSITORY}/src/${SHA}/?page=2`,
+              },
+            };
+      case `${REPOSITORY}/src/${SHA}/lib/util.ts`:
+        return { body: 'export const util = 1;' };
+      case `/acme/widgets/get/${SHA}.tar.gz`:
+        return { body: tarGzOf('acme-widgets-cccccccccccc', { 'lib/util.ts': 'export const util = 1;', 'README.md': '# Widgets' }) };
+      case '/repositories/acme/locked':
+        return { status: 403, body: { type: 'error' } };
+    }
+  });
+  vi.stubEnv('BITBUCKET_API_URL', server.url);
+  vi.stubEnv('BITBUCKET_URL', server.url);
+});
+
+afterAll(async () => {
+  vi.unstubAllEnvs();
+  await server.close();
+});
+
+describe('bitbucketHost against a stand-in server', () => {
+  it('resolves the repository info and the ref the URL names', async () => {
+    expect(await resolveRevision(locator)).toEqual({
+      ref: 'main',
+      commitSha: SHA,
+      subdirectory: 'lib',
+      info: { defaultBranch: 'main', description: null, language: 'typescript' },
+    });
+  });
+
+  it('follows source listing pages and reads files in the subdirectory', async () => {
+    const revision = await resolveRevision(locator);
+    const { repo } = await fetchFromHost(locator, revision, { mode: 'tree' });
+
+    expect(repo.files.map(file => [file.path, file.content])).toEqual([['lib/util.ts', 'export const util = 1;']]);
+    expect(server.requests).toContain(`${REPOSITORY}/src/${SHA}/?page=2`);
+    expect(server.requests).not.toContain(`${REPOSITORY}/src/${SHA}/README.md`);
+  });
+
+  it('reads files from the archive', async () => {
+    const revision = await resolveRevision(locator);
+    const { repo } = await fetchFromHost(locator, { ...revision, subdirectory: undefined }, { mode: 'tarball' });
+    expect(repo.files.map(file => file.path)).toEqual(['lib/util.ts', 'README.md']);
+  });
+
+  it('explains missing and private repositories', async () => {
+    await expect(resolveRevision({ ...locator, repo: 'missing' })).rejects.toThrow('Repository not found');
+    await expect(resolveRevision({ ...locator, repo: 'locked' })).rejects.toThrow('set BITBUCKET_TOKEN');
+  });
+});
+
+describe('bitbucketHost.parseUrl', () => {
+  const refPath = (url: string) => bitbucketHost.parseUrl(url)?.refPath;
+
+  it('reads source, branch and commit URLs', () => {
+    expect(locator.refPath).toBe('main/lib');
+    expect(refPath('https://bitbucket.org/acme/widgets/src/feature/x/lib/util.ts')).toBe('feature/x/lib/util.ts');
+    expect(refPath('https://bitbucket.org/acme/widgets/branch/feature%2Fx')).toBe('feature/x');
+    expect(refPath(`https://bitbucket.org/acme/widgets/commits/${SHA}`)).toBe(SHA);
+  });
+
+  it('names no ref for the repository root and other pages', () => {
+    expect(refPath('https://bitbucket.org/acme/widgets')).toBeUndefined();
+    expect(refPath('https://bitbucket.org/acme/widgets/src')).toBeUndefined();
+    expect(refPath('https://bitbucket.org/acme/widgets/pull-requests/4')).toBeUndefined();
+  });
+});
@@ -0,0 +1,163 @@
+import { stripCommonRoot } from '../archive';
+import { parseTarGz } from '../tar';
+import type { CandidateFile } from '../types';
+import { encodePath, hostRequest, hostRequestJson, toHostError, webUrl } from './http';
+import type { RepoLocator, SourceHost } from './types';
+
+const BITBUCKET_HOSTNAME = 'bitbucket.org';
+
+interface BitbucketRepository {
+  description: string;
+  language: string;
+  mainbranch?: { name: string };
+}
+
+interface BitbucketSourcePage {
+  values: { type: 'commit_file' | 'commit_directory'; path: string; size?: number }[];
+  next?: string;
+}
+
+// Both overridable so ingestion can run against a local stand-in server (see bitbucket.test.ts)
+function getApiBase(): string {
+  return process.env.BITBUCKET_API_URL || 'https://api.bitbucket.org/2.0';
+}
+
+function getWebBase(): string {
+  return process.env.BITBUCKET_URL || `https://${BITBUCKET_HOSTNAME}`;
+}
+
+function getHeaders(): Record<string, string> {
+  return process.env.BITBUCKET_TOKEN ? { Authorization: `Bearer ${process.env.BITBUCKET_TOKEN}` } : {};
+}
+
+// Workspace and repository slugs as path segments
+function repositoryPath(locator: RepoLocator): string {
+  return `${encodeURIComponent(locator.owner)}/${encodeURIComponent(locator.repo)}`;
+}
+
+function repositoryUrl(locator: RepoLocator): string {
+  return `${getApiBase()}/repositories/${repositoryPath(locator)}`;
+}
+
+// The src endpoint lists recursively with max_depth and paginates through `next`
+async function listSource(locator: RepoLocator, ref: string): Promise<CandidateFile[]> {
+  const baseUrl = `${repositoryUrl(locator)}/src/${encodeURIComponent(ref)}`;
+  const headers = getHeaders();
+  const candidates: CandidateFile[] = [];
+  let next: string | undefined = `${baseUrl}/?max_depth=50&pagelen=100`;
+
+  while (next) {
+    const page: BitbucketSourcePage = await hostRequestJson<BitbucketSourcePage>(next, headers);
+    for (const item of page.values) {
+      if (item.type !== 'commit_file') continue;
+      candidates.push({
+        path: item.path,
+        size: item.size,
+        read: async () => {
+          const file = await hostRequest(`${baseUrl}/${encodePath(item.path)}`, headers);
+          return await file.text();
+        },
+      });
+    }
+    next = page.next;
+  }
+
+  return candidates;
+}
+
+async function listTarball(locator: RepoLocator, ref: string): Promise<CandidateFile[]> {
+  const response = await hostRequest(
+    `${getWebBase()}/${repositoryPath(locator)}/get/${encodeURIComponent(ref)}.tar.gz`,
+    getHeaders()
+  );
+  const entries = stripCommonRoot(parseTarGz(Buffer.from(await response.arrayBuffer())));
+  return entries.map(entry => ({
+    path: entry.path,
+    size: entry.content.length,
+    read: async () => entry.content.toString('utf-8'),
+  }));
+}
+
+// /src/<ref>/<path>, /branch/<name> and /commits/<sha>
+function parseBitbucketRefPath(parts: string[]): string | undefined {
+  const [kind, ...rest] = parts.map(decodeURIComponent);
+  if (rest.length === 0) return undefined;
+  if (kind === 'src' || kind === 'branch') {
+    return rest.join('/');
+  }
+  if (kind === 'commits') {
+    return rest[0];
+  }
+  return undefined;
+}
+
+export const bitbucketHost: SourceHost = {
+  kind: 'bitbucket',
+
+  parseUrl(url: string): RepoLocator | null {
+    try {
+      const urlObj = new URL(url);
+      if (urlObj.hostname.replace(/^www\./, '') !== BITBUCKET_HOSTNAME) {
+        return null;
+      }
+      const parts = urlObj.pathname.split('/').filter(Boolean);
+      if (parts.length < 2) {
+        return null;
+      }
+      const owner = decodeURIComponent(parts[0]);
+      const repo = decodeURIComponent(parts[1]).replace(/\.git$/, '');
+      return {
+        host: 'bitbucket',
+        hostname: BITBUCKET_HOSTNAME,
+        owner,
+        repo,
+        cloneUrl: `https://${BITBUCKET_HOSTNAME}/${encodeURIComponent(owner)}/${encodeURIComponent(repo)}.git`,
+        refPath: parseBitbucketRefPath(parts.slice(2)),
+      };
+    } catch {
+      return null;
+    }
+  },
+
+  async getRepoInfo(locator) {
+    const repository = await hostRequestJson<BitbucketRepository>(repositoryUrl(locator), getHeaders());
+    return {
+      defaultBranch: repository.mainbranch?.name || 'main',
+      description: repository.description || null,
+      language: repository.language || null,
+    };
+  },
+
+  async resolveCommit(locator, ref) {
+    try {
+      const commit = await hostRequestJson<{ hash: string }>(
+        `${repositoryUrl(locator)}/commit/${encodeURIComponent(ref)}`,
+        getHeaders()
+      );
+      return commit.hash;
+    } catch (error: any) {
+      if (error.status === 404) return null;
+      throw error;
+    }
+  },
+
+  async listFiles(locator, ref, mode) {
+    if (mode === 'clone') return null;
+    if (mode === 'tarball') return listTarball(locator, ref);
+    return listSource(locator, ref);
+  },
+
+  fileUrl(locator, ref, path, lines) {
+    const anchor = lines ? `#lines-${lines.start}:${lines.end}` : '';
+    return `${webUrl(locator)}/src/${encodePath(ref)}/${encodePath(path)}${anchor}`;
+  },
+
+  authenticatedCloneUrl(locator) {
+    const token = process.env.BITBUCKET_TOKEN;
+    return token ? locator.cloneUrl.replace('https://', `https://x-token-auth:${token}@`) : locator.cloneUrl;
+  },
+
+  toError(error: any) {
+    return toHostError(error, 'Bitbucket', 'BITBUCKET_TOKEN');
+  },
+};
@@ -0,0 +1,97 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { simpleGit } from 'simple-git';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { gitHost } from './git';
+import type { RepoLocator } from './types';
+
+describe('gitHost.parseUrl', () => {
+  it('accepts public HTTPS remotes ending in .git, with an optional ref', () => {
+    expect(gitHost.parseUrl('https://git.example.com/team/project.git#v1.2.0')).toMatchObject({
+      host: 'git',
+      hostname: 'git.example.com',
+      owner: 'team',
+      repo: 'project',
+      cloneUrl: 'https://git.example.com/team/project.git',
+      refPath: 'v1.2.0',
+    });
+  });
+
+  it('rejects plain HTTP', () => {
+    expect(gitHost.parseUrl('http://git.example.com/team/project.git')).toBeNull();
+  });
+
+  it.each([
+    'https://localhost/repo.git',
+    'https://127.0.0.1/repo.git',
+    'https://2130706433/repo.git',
+    'https://10.0.0.5/repo.git',
+    'https://172.20.1.1/repo.git',
+    'https://192.168.1.10/repo.git',
+    'https://169.254.169.254/latest/meta-data.git',
+    'https://[::1]/repo.git',
+    'https://[fd00::1]/repo.git',
+    'https://[fe80::1]/repo.git',
+    'https://[::ffff:127.0.0.1]/repo.git',
+    'https://metadata.google.internal/repo.git',
+  ])('rejects the internal address %s', (url) => {
+    expect(gitHost.parseUrl(url)).toBeNull();
+  });
+});
+
+describe('gitHost.prepareClone', () => {
+  it('refuses remotes that resolve to private addresses', async () => {
+    const locator = { hostname: 'localhost', cloneUrl: 'https://localhost/repo.git' } as RepoLocator;
+    await expect(gitHost.prepareClone!(locator)).rejects.toThrow('Cloning from localhost is not allowed');
+  });
+
+  it('pins the checked address and turns off redirects', async () => {
+    const locator = { hostname: '93.184.216.34', cloneUrl: 'https://93.184.216.34:8443/repo.git' } as RepoLocator;
+    expect(await gitHost.prepareClone!(locator)).toEqual([
+      'http.followRedirects=false',
+      'http.curloptResolve=93.184.216.34:8443:93.184.216.34',
+    ]);
+  });
+});
+
+describe('gitHost.resolveCommit', () => {
+  let dir: string;
+  let locator: RepoLocator;
+  const commits: Record<string, string> = {};
+
+  beforeAll(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'explainitback-git-test-'));
+    const git = simpleGit({ baseDir: dir, config: ['user.name=Test', 'user.email=test@example.com'] });
+    await git.init(['--initial-branch=main']);
+    await git.commit('first', { '--allow-empty': null });
+    commits.first = (await git.revparse(['HEAD'])).trim();
+    await git.branch(['feature/main']);
+    await git.addAnnotatedTag('v1', 'First release');
+    await git.commit('second', { '--allow-empty': null });
+    commits.second = (await git.revparse(['HEAD'])).trim();
+
+    vi.stubEnv('ALLOW_LOCAL_REPOS', 'true');
+    locator = gitHost.parseUrl(`file://${dir}`)!;
+  });
+
+  afterAll(async () => {
+    vi.unstubAllEnvs();
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('matches branch names exactly, not by suffix', async () => {
+    expect(await gitHost.resolveCommit!(locator, 'main')).toBe(commits.second);
+    expect(await gitHost.resolveCommit!(locator, 'feature/main')).toBe(commits.first);
+    expect(await gitHost.resolveCommit!(locator, 'feature')).toBeNull();
+  });
+
+  it('resolves annotated tags to the commit they point at', async () => {
+    expect(await gitHost.resolveCommit!(locator, 'v1')).toBe(commits.first);
+  });
+
+  it('accepts full SHAs only', async () => {
+    expect(await gitHost.resolveCommit!(locator, commits.first.toUpperCase())).toBe(commits.first);
+    expect(await gitHost.resolveCommit!(locator, commits.first.slice(0, 7))).toBeNull();
+  });
+});
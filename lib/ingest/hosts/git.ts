@@ -0,0 +1,179 @@
+import { lookup } from 'dns/promises';
+import { isIP } from 'net';
+import path from 'path';
+import { pathToFileURL } from 'url';
+import { simpleGit } from 'simple-git';
+import { redactCredentials } from './http';
+import type { RepoLocator, SourceHost } from './types';
+
+// Local paths read the server's filesystem, so they have to be enabled explicitly
+function localReposAllowed(): boolean {
+  return process.env.ALLOW_LOCAL_REPOS === 'true';
+}
+
+function parseLocalPath(input: string): RepoLocator | null {
+  if (!localReposAllowed()) return null;
+
+  let localPath: string;
+  let refPath: string | undefined;
+  if (input.startsWith('file://')) {
+    const fileUrl = new URL(input);
+    localPath = decodeURIComponent(fileUrl.pathname);
+    refPath = fileUrl.hash ? decodeURIComponent(fileUrl.hash.slice(1)) : undefined;
+  } else if (path.isAbsolute(input)) {
+    localPath = input;
+  } else {
+    return null;
+  }
+
+  const resolved = path.resolve(localPath);
+  return {
+    host: 'git',
+    hostname: 'local',
+    owner: path.basename(path.dirname(resolved)) || 'local',
+    repo: path.basename(resolved).replace(/\.git$/, ''),
+    cloneUrl: pathToFileURL(resolved).href,
+    refPath: refPath || undefined,
+  };
+}
+
+// Remotes the server must not be pointed at: its own network, not a git host
+class BlockedHostError extends Error {
+  constructor(hostname: string) {
+    super(`Cloning from ${hostname} is not allowed. Use a public HTTPS git remote.`);
+    this.name = 'BlockedHostError';
+  }
+}
+
+// Loopback, private, carrier-grade NAT, link-local (which includes cloud metadata endpoints) and unspecified addresses
+function isPrivateAddress(address: string): boolean {
+  if (isIP(address) === 4) {
+    const [a, b] = address.split('.').map(Number);
+    return a === 0 || a === 10 || a === 127
+      || (a === 100 && b >= 64 && b <= 127)
+      || (a === 169 && b === 254)
+      || (a === 172 && b >= 16 && b <= 31)
+      || (a === 192 && b === 168);
+  }
+  if (isIP(address) === 6) {
+    const lower = address.toLowerCase();
+    // IPv4-mapped, in dotted or hex form (URL parsing produces the latter)
+    const dotted = lower.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/);
+    if (dotted) return isPrivateAddress(dotted[1]);
+    const hex = lower.match(/^::ffff:([0-9a-f]{1,4}):([0-9a-f]{1,4})$/);
+    if (hex) {
+      const [high, low] = [parseInt(hex[1], 16), parseInt(hex[2], 16)];
+      return isPrivateAddress(`${high >> 8}.${high & 255}.${low >> 8}.${low & 255}`);
+    }
+    return lower === '::' || lower === '::1' || /^f[cd]/.test(lower) || /^fe[89ab]/.test(lower);
+  }
+  return false;
+}
+
+function isPrivateHostname(hostname: string): boolean {
+  const host = hostname.replace(/^\[|\]$/g, '').toLowerCase();
+  return host === 'localhost'
+    || host.endsWith('.localhost')
+    || host.endsWith('.local')
+    || host.endsWith('.internal')
+    || isPrivateAddress(host);
+}
+
+/**
+ * A public name can still resolve to a private address, so check what it
+ * resolves to right before every git command and return config that holds git
+ * to the checked addresses: they are pinned so a second lookup cannot rebind the
+ * name, and redirects, which could lead anywhere, are not followed.
+ */
+async function assertPublicHost(locator: RepoLocator): Promise<string[]> {
+  // Local repositories were allowed explicitly with ALLOW_LOCAL_REPOS
+  if (locator.cloneUrl.startsWith('file:')) return [];
+  const addresses = await lookup(locator.hostname, { all: true });
+  if (addresses.some(({ address }) => isPrivateAddress(address))) {
+    throw new BlockedHostError(locator.hostname);
+  }
+  const port = new URL(locator.cloneUrl).port || '443';
+  const pinned = addresses.map(({ address, family }) => (family === 6 ? `[${address}]` : address));
+  return [
+    'http.followRedirects=false',
+    `http.curloptResolve=${locator.hostname}:${port}:${pinned.join(',')}`,
+  ];
+}
+
+// git resolves a bare name as the first of these that exists, tags before branches
+function refCandidates(ref: string): string[] {
+  return [ref, `refs/${ref}`, `refs/tags/${ref}^{}`, `refs/tags/${ref}`, `refs/heads/${ref}`];
+}
+
+/**
+ * Any other git remote: an HTTPS URL ending in `.git`, or a local repository path
+ * when ALLOW_LOCAL_REPOS=true. These are always shallow-cloned.
+ */
+export const gitHost: SourceHost = {
+  kind: 'git',
+
+  parseUrl(url: string): RepoLocator | null {
+    const trimmed = url.trim();
+    const local = parseLocalPath(trimmed);
+    if (local) return local;
+
+    try {
+      const urlObj = new URL(trimmed);
+      if (urlObj.protocol !== 'https:' || isPrivateHostname(urlObj.hostname)) {
+        return null;
+      }
+      const parts = urlObj.pathname.split('/').filter(Boolean);
+      if (parts.length === 0 || !parts[parts.length - 1].endsWith('.git')) {
+        return null;
+      }
+      // A ref can be named in the fragment: https://host/repo.git#v1.2.0
+      const refPath = urlObj.hash ? decodeURIComponent(urlObj.hash.slice(1)) : undefined;
+      urlObj.hash = '';
+      return {
+        host: 'git',
+        hostname: urlObj.hostname,
+        owner: parts.slice(0, -1).join('/') || urlObj.hostname,
+        repo: parts[parts.length - 1].replace(/\.git$/, ''),
+        cloneUrl: urlObj.toString(),
+        refPath: refPath || undefined,
+      };
+    } catch {
+      return null;
+    }
+  },
+
+  async getRepoInfo(locator) {
+    const config = await assertPublicHost(locator);
+    // `ref: refs/heads/main\tHEAD` names the branch HEAD points at
+    const output = await simpleGit({ config }).listRemote(['--symref', locator.cloneUrl, 'HEAD']);
+    const match = output.match(/^ref: refs\/heads\/(\S+)\s+HEAD/m);
+    return {
+      defaultBranch: match ? match[1] : 'main',
+    };
+  },
+
+  async resolveCommit(locator, ref) {
+    if (/^[0-9a-f]{40}$/i.test(ref)) {
+      // Already a full SHA. ls-remote only lists named refs, so an abbreviated one is looked up as a name
+      return ref.toLowerCase();
+    }
+    const config = await assertPublicHost(locator);
+    // Patterns match any ref ending in `ref` (refs/heads/feature/main for `main`), so only exact names count.
+    // Peeled entries (`^{}`) give the commit an annotated tag points at
+    const output = await simpleGit({ config }).listRemote([locator.cloneUrl, ref, `${ref}^{}`]);
+    const refs = new Map(output.split('\n').filter(Boolean).map(line => {
+      const [sha, name] = line.split(/\s+/);
+      return [name, sha];
+    }));
+    const match = refCandidates(ref).find(name => refs.has(name));
+    return match ? refs.get(match)! : null;
+  },
+
+  prepareClone: assertPublicHost,
+
+  toError(error: any) {
+    if (error instanceof BlockedHostError) return error;
+    console.error('git remote failed:', redactCredentials(error?.message || String(error)));
+    return new Error('Repository not found or not reachable with git. Please check the URL and make sure git is installed on the server.');
+  },
+};
@@ -0,0 +1,110 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { githubHost } from './github';
+import { fetchFromHost, resolveRevision } from './index';
+import { startStandInServer, tarGzOf, type StandInResponse, type StandInServer } from './standInServer';
+
+const SHA = 'a'.repeat(40);
+const locator = githubHost.parseUrl('https://github.com/acme/widgets/tree/main/src')!;
+
+let server: StandInServer;
+
+beforeAll(async () => {
+  server = await startStandInServer((url): StandInResponse | undefined => {
+    switch (url.pathname) {
+      case '/repos/acme/widgets':
+        return { body: { default_branch: 'main', description: 'Widgets', language: 'TypeScript', stargazers_count: 3, forks_count: 1 } };
+      case '/repos/acme/widgets/commits/main':
+        return { body: { sha: SHA } };
+      case '/repos/acme/widgets/commits/v2':
+        return { status: 422, body: { message: 'No commit found for SHA: v2' } };
+      case `/repos/acme/widgets/git/trees/${SHA}`:
+        return {
+          body: {
+            truncated: false,
+            tree: [
+              { type: 'blob', path: 'src/index.ts', sha: 'blob-index', size: 13 },
+              { type: 'blob', path: 'docs/guide.md', sha: 'blob-guide', size: 7 },
+              { type: 'tree', path: 'src', sha: 'tree-src' },
+            ],
+          },
+        };
+      case '/repos/acme/widgets/git/blobs/blob-index':
+        return { body: { content: Buffer.from('export {};\n//').toString('base64'), encoding: 'base64' } };
+      case `/repos/acme/widgets/tarball/${SHA}`:
+        return {
+          headers: { 'content-type': 'application/x-gzip' },
+          body: tarGzOf('acme-widgets-aaaaaaa', { 'src/index.ts': 'export {};\n//', 'docs/guide.md': '# Guide' }),
+        };
+      case '/rate_limit':
+        return { body: { rate: { remaining: 42, reset: 1700000000 } } };
+      case '/repos/acme/private':
+        return { status: 403, headers: { 'x-ratelimit-remaining': '0', 'x-ratelimit-reset': '1700000000' }, body: { message: 'API rate limit exceeded' } };
+    }
+  });
+  vi.stubEnv('GITHUB_API_URL', server.url);
+});
+
+afterAll(async () => {
+  vi.unstubAllEnvs();
+  await server.close();
+});
+
+describe('githubHost against a stand-in server', () => {
+  it('resolves the repository info and the ref the URL names', async () => {
+    expect(await resolveRevision(locator)).toEqual({
+      ref: 'main',
+      commitSha: SHA,
+      subdirectory: 'src',
+      info: { defaultBranch: 'main', description: 'Widgets', language: 'TypeScript', stars: 3, forks: 1 },
+    });
+  });
+
+  it('reads blobs listed by the Git Trees API, scoped to the subdirectory', async () => {
+    const revision = await resolveRevision(locator);
+    const { repo, rateLimit } = await fetchFromHost(locator, revision, { mode: 'tree' });
+
+    expect(repo.files.map(file => [file.path, file.content])).toEqual([['src/index.ts', 'export {};\n//']]);
+    expect(repo.commitSha).toBe(SHA);
+    expect(rateLimit).toEqual({ remaining: 42, reset: 1700000000 * 1000 });
+    expect(server.requests).not.toContain('/repos/acme/widgets/git/blobs/blob-guide');
+  });
+
+  it('reads files from the tarball without per-file requests', async () => {
+    const revision = await resolveRevision(locator);
+    const { repo } = await fetchFromHost(locator, { ...revision, subdirectory: undefined }, { mode: 'tarball' });
+    expect(repo.files.map(file => file.path)).toEqual(['docs/guide.md', 'src/index.ts']);
+  });
+
+  it('reports unknown refs as not found', async () => {
+    await expect(resolveRevision({ ...locator, refPath: 'v2' })).rejects.toThrow(
+      'Branch, tag or commit "v2" not found in acme/widgets.'
+    );
+  });
+
+  it('explains missing repositories and rate limits', async () => {
+    await expect(resolveRevision({ ...locator, repo: 'missing' })).rejects.toThrow('Repository not found');
+    await expect(resolveRevision({ ...locator, repo: 'private' })).rejects.toThrow('GitHub API rate limit exceeded');
+  });
+});
+
+describe('githubHost.parseUrl', () => {
+  const refPath = (url: string) => githubHost.parseUrl(url)?.refPath;
+
+  it('keeps everything after tree and blob, since branch names can contain slashes', () => {
+    expect(refPath('https://github.com/acme/widgets/tree/feature/x/packages/api')).toBe('feature/x/packages/api');
+    expect(refPath('https://github.com/acme/widgets/blob/main/src/index.ts')).toBe('main/src/index.ts');
+    expect(refPath('https://github.com/acme/widgets/tree/release%2F2.0')).toBe('release/2.0');
+  });
+
+  it('reads commits and release tags', () => {
+    expect(refPath(`https://github.com/acme/widgets/commit/${SHA}`)).toBe(SHA);
+    expect(refPath('https://github.com/acme/widgets/releases/tag/v2.0.1')).toBe('v2.0.1');
+  });
+
+  it('names no ref for the repository root and other pages', () => {
+    expect(githubHost.parseUrl('https://www.github.com/acme/widgets.git')).toMatchObject({ owner: 'acme', repo: 'widgets', refPath: undefined });
+    expect(refPath('https://github.com/acme/widgets/issues/12')).toBeUndefined();
+    expect(refPath('https://github.com/acme/widgets/tree')).toBeUndefined();
+    expect(githubHost.parseUrl('https://github.com/acme')).toBeNull();
+  });
+});
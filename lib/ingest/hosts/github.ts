@@ -0,0 +1,304 @@
+import { Octokit } from '@octokit/rest';
+import { getNextGitHubToken } from '@/lib/githubTokens';
+import { retryWithBackoff } from '@/lib/retry';
+import { stripCommonRoot } from '../archive';
+import { shouldIncludePath, shouldTraverseDirectory } from '../filters';
+import { isIgnoreFile } from '../ignoreRules';
+import { parseTarGz } from '../tar';
+import type { CandidateFile } from '../types';
+import { encodePath, webUrl } from './http';
+import type { RepoLocator, SourceHost } from './types';
+
+const isRetryableGitHubError = (error: any): boolean =>
+  error?.status === 429 || error?.status >= 500;
+
+const GITHUB_HOSTNAME = 'github.com';
+
+// Self-hosted GitHub Enterprise Server, e.g. https://github.example.com
+function getEnterpriseOrigin(): URL | null {
+  try {
+    return process.env.GITHUB_ENTERPRISE_URL ? new URL(process.env.GITHUB_ENTERPRISE_URL) : null;
+  } catch {
+    return null;
+  }
+}
+
+export function createGitHubClient(hostname: string = GITHUB_HOSTNAME): Octokit {
+  const enterprise = getEnterpriseOrigin();
+  if (enterprise && hostname === enterprise.hostname) {
+    return new Octokit({
+      auth: process.env.GITHUB_ENTERPRISE_TOKEN,
+      baseUrl: `${enterprise.origin}/api/v3`,
+    });
+  }
+
+  // Use token rotation if multiple tokens are available
+  return new Octokit({
+    auth: getNextGitHubToken(), // Optional: can work without auth for public repos
+    // Overridable so ingestion can run against a local stand-in server (see github.test.ts)
+    baseUrl: process.env.GITHUB_API_URL || undefined,
+  });
+}
+
+export async function getGitHubRateLimit(
+  octokit: Octokit = createGitHubClient()
+): Promise<{ remaining: number; reset: number }> {
+  const { data } = await octokit.rateLimit.get();
+  return {
+    remaining: data.rate.remaining,
+    reset: data.rate.reset * 1000, // Convert to milliseconds
+  };
+}
+
+// Translate Octokit errors into messages the API routes can show to users
+function toGitHubError(error: any): Error {
+  if (error.status === 404) {
+    return new Error('Repository not found. Please check the URL and ensure the repository is public.');
+  }
+  if (error.status === 403) {
+    // Check if it's a rate limit error
+    const rateLimitRemaining = error.response?.headers?.['x-ratelimit-remaining'];
+    const rateLimitReset = error.response?.headers?.['x-ratelimit-reset'];
+    if (rateLimitRemaining === '0' || error.message?.includes('rate limit')) {
+      const resetTime = rateLimitReset ? new Date(parseInt(rateLimitReset) * 1000).toLocaleString() : 'soon';
+      return new Error(`GitHub API rate limit exceeded. Please try again after ${resetTime}. Consider adding a GITHUB_TOKEN for higher limits.`);
+    }
+    return new Error('Access forbidden. The repository may be private or you may have exceeded your API rate limit.');
+  }
+  if (error.status === 429) {
+    return new Error('GitHub API rate limit exceeded. Please wait a moment and try again.');
+  }
+  return new Error(`Failed to fetch repository: ${error.message || 'Unknown error'}`);
+}
+
+// Walk the repository with the contents API, one listing per directory
+async function listContents(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  ref: string,
+  directories?: string[]
+): Promise<CandidateFile[]> {
+  const candidates: CandidateFile[] = [];
+
+  async function traverse(path: string): Promise<void> {
+    if (!shouldTraverseDirectory(path, directories)) {
+      return;
+    }
+
+    try {
+      const { data } = await octokit.repos.getContent({ owner, repo, path, ref });
+      if (!Array.isArray(data)) return;
+
+      for (const item of data) {
+        // Ignore files are kept so collectFiles can apply their rules
+        if (!shouldIncludePath(item.path) && !isIgnoreFile(item.path)) {
+          continue;
+        }
+
+        if (item.type === 'file') {
+          candidates.push({
+            path: item.path,
+            size: item.size,
+            read: async () => {
+              const { data: fileData } = await octokit.repos.getContent({ owner, repo, path: item.path, ref });
+              if ('content' in fileData && fileData.content) {
+                return Buffer.from(fileData.content, 'base64').toString('utf-8');
+              }
+              return null;
+            },
+          });
+        } else if (item.type === 'dir') {
+          await traverse(item.path);
+        }
+      }
+    } catch (error: any) {
+      if (error.status === 404 && path === '') {
+        throw error;
+      }
+      // Skip directories that can't be accessed
+      if (error.status !== 404) {
+        console.warn(`Failed to fetch ${path}:`, error.message);
+      }
+    }
+  }
+
+  await traverse('');
+  return candidates;
+}
+
+// List every file with a single recursive Git Trees API call; blobs are read lazily.
+// Returns null when GitHub truncated the listing (very large repos).
+async function listTree(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  ref: string
+): Promise<CandidateFile[] | null> {
+  const { data } = await retryWithBackoff(async () => {
+    return await octokit.git.getTree({ owner, repo, tree_sha: ref, recursive: 'true' });
+  }, {
+    retryableErrors: isRetryableGitHubError,
+  });
+
+  if (data.truncated) {
+    return null;
+  }
+
+  return data.tree
+    .filter(item => item.type === 'blob' && item.path && item.sha)
+    .map(item => ({
+      path: item.path!,
+      size: item.size,
+      read: async () => {
+        const { data: blob } = await retryWithBackoff(async () => {
+          return await octokit.git.getBlob({ owner, repo, file_sha: item.sha! });
+        }, {
+          retryableErrors: isRetryableGitHubError,
+        });
+        return Buffer.from(blob.content, blob.encoding === 'base64' ? 'base64' : 'utf-8').toString('utf-8');
+      },
+    }));
+}
+
+// Download the whole repository as one tarball and read files from memory
+async function listTarball(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  ref: string
+): Promise<CandidateFile[]> {
+  const { data } = await retryWithBackoff(async () => {
+    return await octokit.repos.downloadTarballArchive({ owner, repo, ref });
+  }, {
+    retryableErrors: isRetryableGitHubError,
+  });
+
+  const entries = stripCommonRoot(parseTarGz(Buffer.from(data as ArrayBuffer)));
+  return entries.map(entry => ({
+    path: entry.path,
+    size: entry.content.length,
+    read: async () => entry.content.toString('utf-8'),
+  }));
+}
+
+// /tree/<ref>/<path>, /blob/<ref>/<path>, /commit/<sha> and /releases/tag/<tag>
+function parseGitHubRefPath(parts: string[]): string | undefined {
+  const [kind, ...rest] = parts.map(decodeURIComponent);
+  if ((kind === 'tree' || kind === 'blob') && rest.length > 0) {
+    return rest.join('/');
+  }
+  if (kind === 'commit' && rest.length > 0) {
+    return rest[0];
+  }
+  if (kind === 'releases' && rest[0] === 'tag' && rest.length > 1) {
+    return rest.slice(1).join('/');
+  }
+  return undefined;
+}
+
+export const githubHost: SourceHost = {
+  kind: 'github',
+
+  parseUrl(url: string): RepoLocator | null {
+    try {
+      const urlObj = new URL(url);
+      const enterprise = getEnterpriseOrigin();
+      const isGitHub = urlObj.hostname === GITHUB_HOSTNAME || urlObj.hostname === `www.${GITHUB_HOSTNAME}`;
+      const isEnterprise = enterprise !== null && urlObj.hostname === enterprise.hostname;
+      if (!isGitHub && !isEnterprise) {
+        return null;
+      }
+      const parts = urlObj.pathname.split('/').filter(Boolean);
+      if (parts.length < 2) {
+        return null;
+      }
+      const hostname = isEnterprise ? urlObj.hostname : GITHUB_HOSTNAME;
+      const owner = parts[0];
+      const repo = parts[1].replace(/\.git$/, '');
+      return {
+        host: 'github',
+        hostname,
+        owner,
+        repo,
+        cloneUrl: `${isEnterprise ? enterprise!.origin : `https://${GITHUB_HOSTNAME}`}/${owner}/${repo}.git`,
+        refPath: parseGitHubRefPath(parts.slice(2)),
+      };
+    } catch {
+      return null;
+    }
+  },
+
+  async getRepoInfo(locator) {
+    const octokit = createGitHubClient(locator.hostname);
+    const { data } = await retryWithBackoff(async () => {
+      return await octokit.repos.get({ owner: locator.owner, repo: locator.repo });
+    }, {
+      retryableErrors: isRetryableGitHubError,
+    });
+    return {
+      defaultBranch: data.default_branch,
+      description: data.description,
+      language: data.language,
+      stars: data.stargazers_count,
+      forks: data.forks_count,
+    };
+  },
+
+  async resolveCommit(locator, ref) {
+    const octokit = createGitHubClient(locator.hostname);
+    try {
+      const { data } = await retryWithBackoff(async () => {
+        return await octokit.repos.getCommit({ owner: locator.owner, repo: locator.repo, ref });
+      }, {
+        retryableErrors: isRetryableGitHubError,
+      });
+      return data.sha;
+    } catch (error: any) {
+      // 404 for unknown refs, 422 for names that can't be a ref
+      if (error.status === 404 || error.status === 422) return null;
+      throw error;
+    }
+  },
+
+  async listFiles(locator, ref, mode, directories) {
+    const octokit = createGitHubClient(locator.hostname);
+    const { owner, repo } = locator;
+
+    if (mode === 'tarball') {
+      return listTarball(octokit, owner, repo, ref);
+    }
+    if (mode === 'tree') {
+      const candidates = await listTree(octokit, owner, repo, ref);
+      if (candidates) {
+        return candidates;
+      }
+      console.warn(`Git tree for ${owner}/${repo} was truncated, falling back to the contents API`);
+    }
+    if (mode === 'clone') {
+      return null;
+    }
+    return listContents(octokit, owner, repo, ref, directories);
+  },
+
+  fileUrl(locator, ref, path, lines) {
+    const anchor = lines ? `#L${lines.start}-L${lines.end}` : '';
+    return `${webUrl(locator)}/blob/${encodePath(ref)}/${encodePath(path)}${anchor}`;
+  },
+
+  authenticatedCloneUrl(locator) {
+    const enterprise = getEnterpriseOrigin();
+    const token = enterprise && locator.hostname === enterprise.hostname
+      ? process.env.GITHUB_ENTERPRISE_TOKEN
+      : getNextGitHubToken();
+    return token
+      ? locator.cloneUrl.replace('https://', `https://x-access-token:${token}@`)
+      : locator.cloneUrl;
+  },
+
+  getRateLimit(locator) {
+    return getGitHubRateLimit(createGitHubClient(locator.hostname));
+  },
+
+  toError: toGitHubError,
+};
@@ -0,0 +1,125 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { gitlabHost } from './gitlab';
+import { fetchFromHost, resolveRevision } from './index';
+import { startStandInServer, tarGzOf, type StandInResponse, type StandInServer } from './standInServer';
+
+const SHA = 'b'.repeat(40);
+const PROJECT = '/projects/group%2Fsub%2Fwidgets';
+const locator = gitlabHost.parseUrl('https://gitlab.com/group/sub/widgets/-/tree/release/1.x')!;
+
+let server: StandInServer;
+
+beforeAll(async () => {
+  server = await startStandInServer((url): StandInResponse | undefined => {
+    const page = url.searchParams.get('page');
+    // The self-hosted instance is reached at its own /api/v4
+    switch (url.pathname.replace(/^\/api\/v4/, '')) {
+      case PROJECT:
+        return { body: { default_branch: 'main', description: null, star_count: 5, forks_count: 0 } };
+      case `${PROJECT}/repository/commits/release%2F1.x`:
+        return { body: { id: SHA } };
+      case `${PROJECT}/repository/tree`:
+        // Two pages, linked by X-Next-Page
+        return page === '1'
+          ? { headers: { 'x-next-page': '2' }, body: [{ type: 'blob', path: 'README.md' }, { type: 'tree', path: 'src' }] }
+          : { body: [{ type: 'blob', path: 'src/app.ts' }] };
+      case `${PROJECT}/repository/files/README.md/raw`:
+        return { body: '# Widgets' };
+      case `${PROJECT}/repository/files/src%2Fapp.ts/raw`:
+        return { body: 'export const app = 1;' };
+      case `${PROJECT}/repository/archive.tar.gz`:
+        return url.searchParams.get('sha') === SHA ? { body: tarGzOf('widgets-main', { 'src/app.ts': 'export const app = 1;' }) } : undefined;
+      case '/projects/group%2Fsub%2Fsecret':
+        return { status: 401, body: { message: '401 Unauthorized' } };
+    }
+  });
+  vi.stubEnv('GITLAB_API_URL', server.url);
+  vi.stubEnv('GITLAB_TOKEN', 'glpat-test');
+  vi.stubEnv('GITLAB_URL', server.url);
+  vi.stubEnv('GITLAB_SELF_HOSTED_TOKEN', 'glpat-self-hosted');
+});
+
+afterAll(async () => {
+  vi.unstubAllEnvs();
+  await server.close();
+});
+
+describe('gitlabHost against a stand-in server', () => {
+  it('resolves branch names with slashes in nested groups', async () => {
+    expect(await resolveRevision(locator)).toMatchObject({
+      ref: 'release/1.x',
+      commitSha: SHA,
+      subdirectory: undefined,
+      info: { defaultBranch: 'main', stars: 5, forks: 0 },
+    });
+    expect(server.requests).toContain(`${PROJECT}/repository/commits/release`);
+  });
+
+  it('follows tree pages and reads raw files at the resolved commit, with the token', async () => {
+    const revision = await resolveRevision(locator);
+    const { repo } = await fetchFromHost(locator, revision, { mode: 'tree' });
+
+    expect(repo.files.map(file => [file.path, file.content])).toEqual([
+      ['README.md', '# Widgets'],
+      ['src/app.ts', 'export const app = 1;'],
+    ]);
+    expect(server.requests).toContain(`${PROJECT}/repository/tree?recursive=true&per_page=100&ref=${SHA}&page=2`);
+    expect(server.headers.at(-1)?.['private-token']).toBe('glpat-test');
+  });
+
+  it('reads files from the archive', async () => {
+    const revision = await resolveRevision(locator);
+    const { repo } = await fetchFromHost(locator, revision, { mode: 'tarball' });
+    expect(repo.files.map(file => file.path)).toEqual(['src/app.ts']);
+  });
+
+  it('explains missing and private projects', async () => {
+    await expect(resolveRevision({ ...locator, repo: 'missing' })).rejects.toThrow('Repository not found');
+    await expect(resolveRevision({ ...locator, repo: 'secret' })).rejects.toThrow('set GITLAB_TOKEN');
+  });
+
+  it('sends each instance its own token at its own API', async () => {
+    const selfHosted = gitlabHost.parseUrl(`${server.url}/group/sub/widgets`)!;
+    expect(selfHosted.hostname).toBe('127.0.0.1');
+
+    await resolveRevision(selfHosted);
+    expect(server.requests.at(-1)).toBe(`/api/v4${PROJECT}/repository/commits/main`);
+    expect(server.headers.at(-1)?.['private-token']).toBe('glpat-self-hosted');
+    expect(gitlabHost.authenticatedCloneUrl!(selfHosted)).toBe(
+      `${server.url.replace('://', '://oauth2:glpat-self-hosted@')}/group/sub/widgets.git`
+    );
+
+    await resolveRevision(locator);
+    expect(server.requests.at(-1)).toBe(`${PROJECT}/repository/commits/release%2F1.x`);
+    expect(server.headers.at(-1)?.['private-token']).toBe('glpat-test');
+  });
+
+  it('only accepts gitlab.com and the configured instance', () => {
+    expect(gitlabHost.parseUrl('https://gitlab.example.com/group/widgets')).toBeNull();
+  });
+});
+
+describe('gitlabHost.parseUrl', () => {
+  const refPath = (url: string) => gitlabHost.parseUrl(url)?.refPath;
+
+  it('reads the ref path after the sub-page marker of nested group projects', () => {
+    expect(gitlabHost.parseUrl('https://gitlab.com/acme/tools/widgets/-/tree/feature/x/src')).toMatchObject({
+      owner: 'acme/tools',
+      repo: 'widgets',
+      refPath: 'feature/x/src',
+    });
+    expect(refPath('https://gitlab.com/acme/widgets/-/blob/main/README.md')).toBe('main/README.md');
+  });
+
+  it('reads commits, tags and releases', () => {
+    expect(refPath('https://gitlab.com/acme/widgets/-/commit/0123abc/diffs')).toBe('0123abc');
+    expect(refPath('https://gitlab.com/acme/widgets/-/tags/v1.2')).toBe('v1.2');
+    expect(refPath('https://gitlab.com/acme/widgets/-/releases/v1.2')).toBe('v1.2');
+  });
+
+  it('names no ref for the project root and other pages', () => {
+    expect(refPath('https://gitlab.com/acme/widgets')).toBeUndefined();
+    expect(refPath('https://gitlab.com/acme/widgets/-/issues/3')).toBeUndefined();
+    expect(refPath('https://gitlab.com/acme/widgets/-/tree')).toBeUndefined();
+  });
+});
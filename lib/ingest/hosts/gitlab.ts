@@ -0,0 +1,198 @@
+import { stripCommonRoot } from '../archive';
+import { parseTarGz } from '../tar';
+import type { CandidateFile } from '../types';
+import { encodePath, hostRequest, hostRequestJson, toHostError, webUrl } from './http';
+import type { RepoLocator, SourceHost } from './types';
+
+const GITLAB_HOSTNAME = 'gitlab.com';
+
+interface GitLabProject {
+  default_branch: string;
+  description: string | null;
+  star_count: number;
+  forks_count: number;
+}
+
+interface GitLabTreeItem {
+  type: 'blob' | 'tree' | 'commit';
+  path: string;
+}
+
+interface GitLabInstance {
+  apiBase: string;
+  token?: string;
+}
+
+// Self-hosted GitLab, e.g. https://gitlab.example.com
+function getSelfHostedOrigin(): URL | null {
+  try {
+    return process.env.GITLAB_URL ? new URL(process.env.GITLAB_URL) : null;
+  } catch {
+    // Ignore a malformed GITLAB_URL, gitlab.com still works
+    return null;
+  }
+}
+
+// gitlab.com and the GITLAB_URL instance each have their own API and token
+function getInstance(hostname: string): GitLabInstance | null {
+  if (hostname === GITLAB_HOSTNAME) {
+    return {
+      // Overridable so ingestion can run against a local stand-in server (see gitlab.test.ts)
+      apiBase: process.env.GITLAB_API_URL || `https://${GITLAB_HOSTNAME}/api/v4`,
+      token: process.env.GITLAB_TOKEN,
+    };
+  }
+  const selfHosted = getSelfHostedOrigin();
+  if (selfHosted && hostname === selfHosted.hostname) {
+    return { apiBase: `${selfHosted.origin}/api/v4`, token: process.env.GITLAB_SELF_HOSTED_TOKEN };
+  }
+  return null;
+}
+
+// A locator whose instance is no longer configured is read anonymously
+function instanceFor(locator: RepoLocator): GitLabInstance {
+  return getInstance(locator.hostname) ?? { apiBase: `https://${locator.hostname}/api/v4` };
+}
+
+function getHeaders(locator: RepoLocator): Record<string, string> {
+  const { token } = instanceFor(locator);
+  return token ? { 'PRIVATE-TOKEN': token } : {};
+}
+
+function projectUrl(locator: RepoLocator): string {
+  return `${instanceFor(locator).apiBase}/projects/${encodeURIComponent(`${locator.owner}/${locator.repo}`)}`;
+}
+
+// The tree endpoint is paginated; follow X-Next-Page until it is empty
+async function listTree(locator: RepoLocator, ref: string): Promise<CandidateFile[]> {
+  const baseUrl = projectUrl(locator);
+  const headers = getHeaders(locator);
+  const candidates: CandidateFile[] = [];
+  let page = '1';
+
+  while (page) {
+    const response = await hostRequest(
+      `${baseUrl}/repository/tree?recursive=true&per_page=100&ref=${encodeURIComponent(ref)}&page=${page}`,
+      headers
+    );
+    const items = (await response.json()) as GitLabTreeItem[];
+    for (const item of items) {
+      if (item.type !== 'blob') continue;
+      candidates.push({
+        path: item.path,
+        read: async () => {
+          const file = await hostRequest(
+            `${baseUrl}/repository/files/${encodeURIComponent(item.path)}/raw?ref=${encodeURIComponent(ref)}`,
+            headers
+          );
+          return await file.text();
+        },
+      });
+    }
+    page = response.headers.get('x-next-page') || '';
+  }
+
+  return candidates;
+}
+
+async function listTarball(locator: RepoLocator, ref: string): Promise<CandidateFile[]> {
+  const response = await hostRequest(
+    `${projectUrl(locator)}/repository/archive.tar.gz?sha=${encodeURIComponent(ref)}`,
+    getHeaders(locator)
+  );
+  const entries = stripCommonRoot(parseTarGz(Buffer.from(await response.arrayBuffer())));
+  return entries.map(entry => ({
+    path: entry.path,
+    size: entry.content.length,
+    read: async () => entry.content.toString('utf-8'),
+  }));
+}
+
+// /-/tree/<ref>/<path>, /-/blob/<ref>/<path>, /-/commit/<sha>, /-/tags/<tag> and /-/releases/<tag>
+function parseGitLabRefPath(parts: string[]): string | undefined {
+  const [kind, ...rest] = parts.map(decodeURIComponent);
+  if (rest.length === 0) return undefined;
+  if (kind === 'tree' || kind === 'blob' || kind === 'tags' || kind === 'releases') {
+    return rest.join('/');
+  }
+  if (kind === 'commit') {
+    return rest[0];
+  }
+  return undefined;
+}
+
+export const gitlabHost: SourceHost = {
+  kind: 'gitlab',
+
+  parseUrl(url: string): RepoLocator | null {
+    try {
+      const urlObj = new URL(url);
+      const hostname = urlObj.hostname.replace(/^www\./, '');
+      if (!getInstance(hostname)) {
+        return null;
+      }
+      // Projects can live in nested groups; GitLab separates sub-pages with /-/
+      const [projectPath, subPage] = urlObj.pathname.split('/-/');
+      const parts = projectPath.split('/').filter(Boolean);
+      if (parts.length < 2) {
+        return null;
+      }
+      const repo = parts[parts.length - 1].replace(/\.git$/, '');
+      const owner = parts.slice(0, -1).join('/');
+      return {
+        host: 'gitlab',
+        hostname,
+        owner,
+        repo,
+        cloneUrl: `${urlObj.protocol}//${urlObj.host}/${owner}/${repo}.git`,
+        refPath: subPage ? parseGitLabRefPath(subPage.split('/').filter(Boolean)) : undefined,
+      };
+    } catch {
+      return null;
+    }
+  },
+
+  async getRepoInfo(locator) {
+    const project = await hostRequestJson<GitLabProject>(projectUrl(locator), getHeaders(locator));
+    return {
+      defaultBranch: project.default_branch,
+      description: project.description,
+      stars: project.star_count,
+      forks: project.forks_count,
+    };
+  },
+
+  async resolveCommit(locator, ref) {
+    try {
+      const commit = await hostRequestJson<{ id: string }>(
+        `${projectUrl(locator)}/repository/commits/${encodeURIComponent(ref)}`,
+        getHeaders(locator)
+      );
+      return commit.id;
+    } catch (error: any) {
+      if (error.status === 404) return null;
+      throw error;
+    }
+  },
+
+  async listFiles(locator, ref, mode) {
+    if (mode === 'clone') return null;
+    if (mode === 'tarball') return listTarball(locator, ref);
+    // GitLab has no per-directory contents API worth using; `contents` lists the tree too
+    return listTree(locator, ref);
+  },
+
+  fileUrl(locator, ref, path, lines) {
+    const anchor = lines ? `#L${lines.start}-${lines.end}` : '';
+    return `${webUrl(locator)}/-/blob/${encodePath(ref)}/${encodePath(path)}${anchor}`;
+  },
+
+  authenticatedCloneUrl(locator) {
+    const { token } = instanceFor(locator);
+    return token ? locator.cloneUrl.replace('://', `://oauth2:${token}@`) : locator.cloneUrl;
+  },
+
+  toError(error: any) {
+    return toHostError(error, 'GitLab', 'GITLAB_TOKEN (GITLAB_SELF_HOSTED_TOKEN for GITLAB_URL)');
+  },
+};
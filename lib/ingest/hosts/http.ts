@@ -0,0 +1,59 @@
+import { retryWithBackoff } from '@/lib/retry';
+import type { RepoLocator } from './types';
+
+/** Non-2xx response from a host API; `status` mirrors Octokit's errors */
+export class HostRequestError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = 'HostRequestError';
+  }
+}
+
+const isRetryableHostError = (error: any): boolean =>
+  error?.status === 429 || error?.status >= 500;
+
+/** GET a host API URL, retrying rate limits and server errors */
+export async function hostRequest(url: string, headers: Record<string, string> = {}): Promise<Response> {
+  return retryWithBackoff(async () => {
+    const response = await fetch(url, { headers });
+    if (!response.ok) {
+      throw new HostRequestError(`${response.status} ${response.statusText}`.trim(), response.status);
+    }
+    return response;
+  }, {
+    retryableErrors: isRetryableHostError,
+  });
+}
+
+export async function hostRequestJson<T>(url: string, headers: Record<string, string> = {}): Promise<T> {
+  const response = await hostRequest(url, headers);
+  return (await response.json()) as T;
+}
+
+/** User-facing error for a failed request to a host other than GitHub */
+export function toHostError(error: any, hostLabel: string, tokenVariable: string): Error {
+  if (error.status === 404) {
+    return new Error('Repository not found. Please check the URL and ensure the repository is public.');
+  }
+  if (error.status === 401 || error.status === 403) {
+    return new Error(`Access forbidden. The repository may be private; set ${tokenVariable} to read private ${hostLabel} repositories.`);
+  }
+  if (error.status === 429) {
+    return new Error(`${hostLabel} API rate limit exceeded. Please wait a moment and try again.`);
+  }
+  return new Error(`Failed to fetch repository: ${error.message || 'Unknown error'}`);
+}
+
+/** Strip `user:token@` credentials from a remote, e.g. before logging a git error */
+export function redactCredentials(text: string): string {
+  return text.replace(/\/\/[^/@\s]+@/g, '//');
+}
+
+export function encodePath(path: string): string {
+  return path.split('/').map(encodeURIComponent).join('/');
+}
+
+/** Browser URL of a forge repository: its clone remote without the `.git` suffix */
+export function webUrl(locator: RepoLocator): string {
+  return locator.cloneUrl.replace(/\.git$/, '');
+}
@@ -0,0 +1,175 @@
+import { collectFiles, type CollectResult } from '../collect';
+import { detectPrimaryLanguage, scopeDirectories } from '../filters';
+import { listLocalFiles, withShallowClone } from '../local';
+import { getIngestMode } from '../mode';
+import { buildFileTree } from '../tree';
+import type { CandidateFile, IngestOptions, IngestResult } from '../types';
+import { bitbucketHost } from './bitbucket';
+import { gitHost } from './git';
+import { githubHost } from './github';
+import { gitlabHost } from './gitlab';
+import { redactCredentials } from './http';
+import { resolveRef } from './refs';
+import type { HostKind, RepoInfo, RepoLocator, RepoRevision, ResolvedRef, SourceHost } from './types';
+
+export type { HostKind, RepoInfo, RepoLocator, RepoRevision, ResolvedRef, SourceHost } from './types';
+export { createGitHubClient, getGitHubRateLimit } from './github';
+
+// Checked in order; the generic git adapter only accepts what no forge claimed
+const HOSTS: SourceHost[] = [githubHost, gitlabHost, bitbucketHost, gitHost];
+
+export function getSourceHost(kind: HostKind): SourceHost {
+  return HOSTS.find(host => host.kind === kind)!;
+}
+
+/** Parse a repository URL (or, when enabled, a local path) for any supported host */
+export function parseRepoUrl(url: string): RepoLocator | null {
+  for (const host of HOSTS) {
+    const locator = host.parseUrl(url.trim());
+    if (locator) return locator;
+  }
+  return null;
+}
+
+/** Look up repository metadata without fetching any files */
+export async function getRepositoryInfo(locator: RepoLocator): Promise<RepoInfo> {
+  const host = getSourceHost(locator.host);
+  try {
+    return await host.getRepoInfo(locator);
+  } catch (error: any) {
+    throw host.toError(error);
+  }
+}
+
+// Shallow-clone the repository; files have to be collected before the checkout is removed
+async function collectFromClone(
+  host: SourceHost,
+  locator: RepoLocator,
+  ref: string,
+  options: IngestOptions
+): Promise<CollectResult & { commitSha: string }> {
+  const remote = host.authenticatedCloneUrl?.(locator) ?? locator.cloneUrl;
+
+  let config: string[];
+  try {
+    config = (await host.prepareClone?.(locator)) ?? [];
+  } catch (error: any) {
+    throw host.toError(error);
+  }
+
+  try {
+    return await withShallowClone(remote, ref, async (dir, commitSha) => {
+      return { ...(await collectFiles(await listLocalFiles(dir), options)), commitSha };
+    }, config);
+  } catch (error: any) {
+    // git error messages can echo the remote URL, which may contain a token
+    console.error('Shallow clone failed:', redactCredentials(error.message || ''));
+    throw new Error('git clone failed. Make sure git is installed on the server and the repository is public.');
+  }
+}
+
+/**
+ * Web page for a file in a repository at `ref`, or null when the host has no
+ * web UI (plain git remotes) or the URL is not a repository.
+ */
+export function getFileUrl(
+  repoUrl: string,
+  ref: string,
+  path: string,
+  lines?: { start: number; end: number }
+): string | null {
+  const locator = parseRepoUrl(repoUrl);
+  const host = locator && getSourceHost(locator.host);
+  return locator && host?.fileUrl ? host.fileUrl(locator, ref, path, lines) : null;
+}
+
+/**
+ * Resolve the branch, tag or commit a URL names (the default branch when it
+ * names none) along with the repository metadata.
+ */
+export async function resolveRevision(locator: RepoLocator): Promise<RepoRevision> {
+  const host = getSourceHost(locator.host);
+
+  let info: RepoInfo;
+  let resolved: ResolvedRef | null;
+  try {
+    info = await host.getRepoInfo(locator);
+    resolved = await resolveRef(host, locator, info.defaultBranch);
+  } catch (error: any) {
+    throw host.toError(error);
+  }
+  if (!resolved) {
+    const [name] = (locator.refPath || '').split('/');
+    throw new Error(`Branch, tag or commit "${name}" not found in ${locator.owner}/${locator.repo}.`);
+  }
+  return { ...resolved, info };
+}
+
+/**
+ * Fetch a repository revision from its host with the configured ingestion mode,
+ * scoped to the subdirectory the URL pointed at, if any.
+ */
+export async function fetchFromHost(
+  locator: RepoLocator,
+  revision: RepoRevision,
+  options: IngestOptions = {}
+): Promise<Omit<IngestResult, 'fromCache' | 'cacheKey'>> {
+  const host = getSourceHost(locator.host);
+  const { info, ...resolved } = revision;
+
+  const directories = scopeDirectories(options.directories, resolved.subdirectory);
+  const collectOptions = { ...options, directories };
+  const mode = getIngestMode(options.mode);
+
+  let candidates: CandidateFile[] | null;
+  try {
+    // Pin API reads to the resolved commit so every file comes from the same revision
+    candidates = mode === 'clone' || !host.listFiles
+      ? null
+      : await host.listFiles(locator, resolved.commitSha || resolved.ref, mode, directories);
+  } catch (error: any) {
+    throw host.toError(error);
+  }
+
+  let result: CollectResult;
+  let commitSha = resolved.commitSha;
+  if (candidates) {
+    result = await collectFiles(candidates, collectOptions);
+  } else {
+    const cloned = await collectFromClone(host, locator, resolved.ref, collectOptions);
+    result = cloned;
+    commitSha = commitSha || cloned.commitSha;
+  }
+
+  let rateLimit: { remaining: number; reset: number } | undefined;
+  if (host.getRateLimit) {
+    try {
+      rateLimit = await host.getRateLimit(locator);
+      options.onProgress?.({ type: 'rate-limit', ...rateLimit });
+    } catch {
+      // Rate limit info is informational only
+    }
+  }
+
+  const { files, totalTokens, stoppedEarly } = result;
+  return {
+    repo: {
+      owner: locator.owner,
+      name: locator.repo,
+      defaultBranch: info.defaultBranch,
+      ref: resolved.ref,
+      commitSha,
+      subdirectory: resolved.subdirectory,
+      description: info.description,
+      language: info.language ?? detectPrimaryLanguage(files),
+      stars: info.stars,
+      forks: info.forks,
+      files,
+      structure: buildFileTree(files),
+      totalTokens,
+      stoppedEarly,
+      fetchedAt: Date.now(),
+    },
+    rateLimit,
+  };
+}
@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { resolveRef } from './refs';
+import type { RepoLocator, SourceHost } from './types';
+
+const locator: RepoLocator = {
+  host: 'git',
+  hostname: 'git.example.com',
+  owner: 'acme',
+  repo: 'widgets',
+  cloneUrl: 'https://git.example.com/acme/widgets.git',
+};
+
+// A host that knows the given refs and records every lookup
+function hostWith(refs: Record<string, string>, lookups: string[] = []): SourceHost {
+  return {
+    kind: 'git',
+    parseUrl: () => null,
+    getRepoInfo: async () => ({ defaultBranch: 'main' }),
+    resolveCommit: async (_locator, ref) => {
+      lookups.push(ref);
+      return refs[ref] || null;
+    },
+    toError: error => error,
+  };
+}
+
+describe('resolveRef', () => {
+  it('uses the default branch when the URL names no ref', async () => {
+    expect(await resolveRef(hostWith({ main: 'sha-main' }), locator, 'main')).toEqual({ ref: 'main', commitSha: 'sha-main' });
+    expect(await resolveRef(hostWith({}), locator, 'main')).toEqual({ ref: 'main', commitSha: undefined });
+  });
+
+  it('splits a branch name with slashes from the subdirectory after it', async () => {
+    const lookups: string[] = [];
+    const host = hostWith({ 'feature/x': 'sha-feature' }, lookups);
+
+    expect(await resolveRef(host, { ...locator, refPath: 'feature/x/packages/api' }, 'main')).toEqual({
+      ref: 'feature/x',
+      commitSha: 'sha-feature',
+      subdirectory: 'packages/api',
+    });
+    expect(lookups).toEqual(['feature', 'feature/x']);
+  });
+
+  it('takes the shortest prefix that names a ref', async () => {
+    const host = hostWith({ release: 'sha-release', 'release/2.0': 'sha-2.0' });
+    expect(await resolveRef(host, { ...locator, refPath: 'release/2.0/docs' }, 'main')).toEqual({
+      ref: 'release',
+      commitSha: 'sha-release',
+      subdirectory: '2.0/docs',
+    });
+  });
+
+  it('returns null when no prefix names a ref', async () => {
+    const lookups: string[] = [];
+    expect(await resolveRef(hostWith({}, lookups), { ...locator, refPath: 'gone/src' }, 'main')).toBeNull();
+    expect(lookups).toEqual(['gone', 'gone/src']);
+  });
+
+  it('treats the whole path as the ref on hosts without a commit lookup', async () => {
+    const { resolveCommit: _, ...host } = hostWith({});
+    expect(await resolveRef(host, { ...locator, refPath: '/feature/x/' }, 'main')).toEqual({ ref: 'feature/x' });
+  });
+});
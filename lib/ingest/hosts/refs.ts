@@ -0,0 +1,35 @@
+import type { RepoLocator, ResolvedRef, SourceHost } from './types';
+
+/**
+ * Work out which branch, tag or commit a URL points at and which subdirectory
+ * follows it. Branch names may contain slashes (`feature/x`), so prefixes of
+ * `refPath` are tried shortest first until the host recognizes one.
+ * Returns null when no prefix names a ref.
+ */
+export async function resolveRef(
+  host: SourceHost,
+  locator: RepoLocator,
+  defaultBranch: string
+): Promise<ResolvedRef | null> {
+  if (!locator.refPath) {
+    const commitSha = await host.resolveCommit?.(locator, defaultBranch);
+    return { ref: defaultBranch, commitSha: commitSha || undefined };
+  }
+
+  const segments = locator.refPath.split('/').filter(Boolean);
+  if (!host.resolveCommit) {
+    // Without a lookup the whole path is the ref; the clone reports the SHA
+    return { ref: segments.join('/') };
+  }
+
+  for (let i = 1; i <= segments.length; i++) {
+    const ref = segments.slice(0, i).join('/');
+    const commitSha = await host.resolveCommit(locator, ref);
+    if (commitSha) {
+      const subdirectory = segments.slice(i).join('/');
+      return { ref, commitSha, subdirectory: subdirectory || undefined };
+    }
+  }
+
+  return null;
+}
@@ -0,0 +1,63 @@
+import { createServer, type IncomingHttpHeaders } from 'http';
+import type { AddressInfo } from 'net';
+import { gzipSync } from 'zlib';
+
+// Test helper: a local HTTP server standing in for a host API, so adapters can
+// be exercised end to end through their *_API_URL overrides
+
+export interface StandInResponse {
+  status?: number;
+  headers?: Record<string, string>;
+  body?: unknown;
+}
+
+export interface StandInServer {
+  url: string;
+  /** Path and query of every request, in order */
+  requests: string[];
+  headers: IncomingHttpHeaders[];
+  close: () => Promise<void>;
+}
+
+/**
+ * Serve `route(url)`: objects and arrays as JSON, strings and buffers as they are,
+ * and a 404 when the route returns nothing.
+ */
+export async function startStandInServer(route: (url: URL) => StandInResponse | undefined): Promise<StandInServer> {
+  const requests: string[] = [];
+  const headers: IncomingHttpHeaders[] = [];
+  const server = createServer((request, response) => {
+    const url = new URL(request.url || '/', 'http://stand-in');
+    requests.push(`${url.pathname}${url.search}`);
+    headers.push(request.headers);
+
+    const { status = 200, headers: responseHeaders = {}, body = '' } = route(url) ?? { status: 404, body: { message: 'Not Found' } };
+    const isRaw = typeof body === 'string' || Buffer.isBuffer(body);
+    response.writeHead(status, { 'content-type': isRaw ? 'application/octet-stream' : 'application/json', ...responseHeaders });
+    response.end(isRaw ? body : JSON.stringify(body));
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+  return {
+    url: `http://127.0.0.1:${port}`,
+    requests,
+    headers,
+    close: () => new Promise(resolve => server.close(() => resolve())),
+  };
+}
+
+/** A gzipped tarball of `files` wrapped in one root folder, like forge archive downloads */
+export function tarGzOf(root: string, files: Record<string, string>): Buffer {
+  const blocks: Buffer[] = [];
+  for (const [path, content] of Object.entries(files)) {
+    const data = Buffer.from(content, 'utf-8');
+    const header = Buffer.alloc(512);
+    header.write(`${root}/${path}`, 0, 100, 'utf-8');
+    header.write(data.length.toString(8).padStart(11, '0'), 124, 12, 'utf-8');
+    header.write('0', 156, 1, 'utf-8');
+    header.write('ustar', 257, 6, 'utf-8');
+    blocks.push(header, data, Buffer.alloc((512 - (data.length % 512)) % 512));
+  }
+  return gzipSync(Buffer.concat([...blocks, Buffer.alloc(1024)]));
+}
@@ -0,0 +1,80 @@
+import type { CandidateFile, IngestMode } from '../types';
+
+export type HostKind = 'github' | 'gitlab' | 'bitbucket' | 'git';
+
+/** A repository on some source host, parsed from the URL a user entered */
+export interface RepoLocator {
+  host: HostKind;
+  /** Host name used in cache keys and API lookups, e.g. `github.com` or `gitlab.example.com` */
+  hostname: string;
+  /** User, organization, workspace or (on GitLab) the full group path */
+  owner: string;
+  repo: string;
+  /** Remote for `git clone`; a `file://` URL for local repositories */
+  cloneUrl: string;
+  /**
+   * Everything after the ref marker of a branch, tag or commit URL, e.g. `feature/x/packages/api`
+   * for `/tree/feature/x/packages/api`. Branch names can contain slashes, so the host
+   * decides where the ref ends and the subdirectory begins.
+   */
+  refPath?: string;
+}
+
+/** The revision a fetch resolved to */
+export interface ResolvedRef {
+  /** Branch, tag or SHA as named in the URL (the default branch when the URL names none) */
+  ref: string;
+  /** Unknown up front for hosts without a commit lookup; the clone reports it */
+  commitSha?: string;
+  /** Path inside the repository the URL pointed at, if any */
+  subdirectory?: string;
+}
+
+/** What a repository URL currently points at, with the metadata fetched alongside */
+export interface RepoRevision extends ResolvedRef {
+  info: RepoInfo;
+}
+
+export interface RepoInfo {
+  defaultBranch: string;
+  description?: string | null;
+  language?: string | null;
+  stars?: number;
+  forks?: number;
+}
+
+/**
+ * One source host (GitHub, GitLab, ...). Hosts that can list files over their API
+ * implement `listFiles`; everything else is shallow-cloned.
+ */
+export interface SourceHost {
+  kind: HostKind;
+  parseUrl(url: string): RepoLocator | null;
+  getRepoInfo(locator: RepoLocator): Promise<RepoInfo>;
+  /** Commit SHA for a branch, tag or SHA, or null when the host has no such ref */
+  resolveCommit?(locator: RepoLocator, ref: string): Promise<string | null>;
+  /**
+   * List files at `ref` for the given mode; null means the mode is not available and
+   * the caller shallow-clones instead. `directories` lets hosts skip unselected directories.
+   */
+  listFiles?(
+    locator: RepoLocator,
+    ref: string,
+    mode: IngestMode,
+    directories?: string[]
+  ): Promise<CandidateFile[] | null>;
+  /** Web page for a file at `ref`, optionally highlighting a line range (forges only) */
+  fileUrl?(locator: RepoLocator, ref: string, path: string, lines?: { start: number; end: number }): string;
+  /**
+   * Check the remote right before it is cloned (cached revisions skip
+   * `getRepoInfo`) and return git config to clone with. Throws when the remote
+   * must not be contacted.
+   */
+  prepareClone?(locator: RepoLocator): Promise<string[]>;
+  /** Clone remote including credentials, when the host has a token configured */
+  authenticatedCloneUrl?(locator: RepoLocator): string;
+  /** Remaining API quota, reported to clients as progress */
+  getRateLimit?(locator: RepoLocator): Promise<{ remaining: number; reset: number }>;
+  /** Translate host API errors into messages the API routes can show to users */
+  toError(error: any): Error;
+}
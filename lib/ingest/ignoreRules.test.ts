@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { isIgnoreFile, loadIgnoreRules } from './ignoreRules';
+import type { CandidateFile } from './types';
+
+function candidates(files: Record<string, string | null>): CandidateFile[] {
+  return Object.entries(files).map(([path, content]) => ({ path, read: async () => content }));
+}
+
+describe('isIgnoreFile', () => {
+  it('recognizes .gitignore and .explainignore in any directory', () => {
+    expect(isIgnoreFile('.gitignore')).toBe(true);
+    expect(isIgnoreFile('packages/web/.explainignore')).toBe(true);
+    expect(isIgnoreFile('docs/gitignore.md')).toBe(false);
+  });
+});
+
+describe('loadIgnoreRules', () => {
+  it('ignores nothing without ignore files', async () => {
+    const isIgnored = await loadIgnoreRules(candidates({ 'src/index.ts': '' }));
+    expect(isIgnored('src/index.ts')).toBe(false);
+  });
+
+  it('applies root rules to the whole repository', async () => {
+    const isIgnored = await loadIgnoreRules(candidates({ '.gitignore': 'dist/\n*.log\n' }));
+    expect(isIgnored('dist/index.js')).toBe(true);
+    expect(isIgnored('packages/api/debug.log')).toBe(true);
+    expect(isIgnored('src/index.ts')).toBe(false);
+  });
+
+  it('lets .explainignore re-include what .gitignore excludes in the same directory', async () => {
+    const isIgnored = await loadIgnoreRules(candidates({
+      '.explainignore': '!generated/schema.ts\nfixtures/\n',
+      '.gitignore': 'generated/*\n',
+    }));
+    expect(isIgnored('generated/schema.ts')).toBe(false);
+    expect(isIgnored('generated/client.ts')).toBe(true);
+    expect(isIgnored('fixtures/big.json')).toBe(true);
+  });
+
+  it('scopes nested rules to their directory and lets them override the parent', async () => {
+    const isIgnored = await loadIgnoreRules(candidates({
+      '.gitignore': '*.json\n',
+      'packages/web/.gitignore': '!config.json\nbuild/\n',
+    }));
+    expect(isIgnored('packages/web/config.json')).toBe(false);
+    expect(isIgnored('packages/api/config.json')).toBe(true);
+    expect(isIgnored('packages/web/build/app.js')).toBe(true);
+    expect(isIgnored('build/app.js')).toBe(false);
+  });
+
+  it('skips ignore files that cannot be read', async () => {
+    const unreadable: CandidateFile = { path: '.gitignore', read: async () => { throw new Error('EACCES'); } };
+    const isIgnored = await loadIgnoreRules([unreadable, ...candidates({ '.explainignore': null })]);
+    expect(isIgnored('anything.ts')).toBe(false);
+  });
+});
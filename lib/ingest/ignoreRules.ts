@@ -0,0 +1,75 @@
+import ignore, { type Ignore } from 'ignore';
+import type { CandidateFile } from './types';
+
+/**
+ * Ignore files honoured during ingestion. `.explainignore` uses .gitignore syntax
+ * and is applied after `.gitignore` in the same directory, so it can also
+ * re-include paths with `!pattern`.
+ */
+export const IGNORE_FILE_NAMES = ['.gitignore', '.explainignore'];
+
+export function isIgnoreFile(path: string): boolean {
+  const fileName = path.split('/').pop() || '';
+  return IGNORE_FILE_NAMES.includes(fileName);
+}
+
+export type IgnoreMatcher = (path: string) => boolean;
+
+interface DirectoryRules {
+  /** Directory the ignore files live in, '' for the repository root */
+  dir: string;
+  rules: Ignore;
+}
+
+function directoryOf(path: string): string {
+  const index = path.lastIndexOf('/');
+  return index === -1 ? '' : path.slice(0, index);
+}
+
+/**
+ * Read every ignore file among the candidates and build a matcher for repo paths.
+ * Rules from nested directories apply below that directory and override rules
+ * from their parents, as in git.
+ */
+export async function loadIgnoreRules(candidates: CandidateFile[]): Promise<IgnoreMatcher> {
+  const ignoreFiles = candidates
+    .filter(c => isIgnoreFile(c.path))
+    // .gitignore before .explainignore within each directory
+    .sort((a, b) => IGNORE_FILE_NAMES.indexOf(a.path.split('/').pop()!) - IGNORE_FILE_NAMES.indexOf(b.path.split('/').pop()!));
+
+  const byDirectory = new Map<string, Ignore>();
+  for (const file of ignoreFiles) {
+    let content: string | null;
+    try {
+      content = await file.read();
+    } catch {
+      continue;
+    }
+    if (!content) continue;
+
+    const dir = directoryOf(file.path);
+    const rules = byDirectory.get(dir) || ignore();
+    rules.add(content);
+    byDirectory.set(dir, rules);
+  }
+
+  // Shallowest directories first so deeper rules get the final say
+  const directories: DirectoryRules[] = Array.from(byDirectory, ([dir, rules]) => ({ dir, rules }))
+    .sort((a, b) => a.dir.split('/').length - b.dir.split('/').length || a.dir.length - b.dir.length);
+
+  if (directories.length === 0) {
+    return () => false;
+  }
+
+  return (path: string) => {
+    let ignored = false;
+    for (const { dir, rules } of directories) {
+      if (dir !== '' && !path.startsWith(`${dir}/`)) continue;
+      const relativePath = dir === '' ? path : path.slice(dir.length + 1);
+      const result = rules.test(relativePath);
+      if (result.ignored) ignored = true;
+      else if (result.unignored) ignored = false;
+    }
+    return ignored;
+  };
+}
@@ -0,0 +1,99 @@
+import {
+  cacheRepo,
+  cacheRevision,
+  getCachedRepo,
+  getCachedRevision,
+  repoRevisionKey,
+  withDirectories,
+} from './cache';
+import { isInSelectedDirectories, scopeDirectories } from './filters';
+import { estimateTokens } from './budget';
+import { fetchFromHost, parseRepoUrl, resolveRevision } from './hosts';
+import { buildFileTree } from './tree';
+import type { IngestOptions, IngestResult } from './types';
+import type { FetchedRepo } from '@/types/interview';
+
+export type { CandidateFile, IngestOptions, IngestProgress, IngestResult } from './types';
+export { parseRepoUrl, getFileUrl, getGitHubRateLimit, getRepositoryInfo } from './hosts';
+export type { HostKind, RepoInfo, RepoLocator } from './hosts';
+export { describeRepo, findReadme } from './describe';
+export { compareByValue } from './ranking';
+export { cacheRepo, getCachedRepo, withDirectories } from './cache';
+export { detectArchiveFormat, ingestArchive, SUPPORTED_ARCHIVE_EXTENSIONS } from './archive';
+export { getDirectoriesFromRepo } from './tree';
+export { loadIgnoreRules, isIgnoreFile, type IgnoreMatcher } from './ignoreRules';
+export {
+  estimateTokens,
+  INGEST_TOKEN_BUDGET,
+  MAX_INGEST_FILES,
+  MAX_INGEST_TOKENS,
+  MAX_PROJECT_CHARACTERS,
+  MAX_PROJECT_TOKENS,
+} from './budget';
+
+/** Narrow an already-fetched repo to the selected directories */
+export function filterRepoToDirectories(repo: FetchedRepo, directories?: string[]): FetchedRepo {
+  if (!directories || directories.length === 0) return repo;
+
+  const files = repo.files.filter(f => isInSelectedDirectories(f.path, directories));
+  return {
+    ...repo,
+    files,
+    structure: buildFileTree(files),
+    totalTokens: files.reduce((sum, f) => sum + estimateTokens(f.content), 0),
+  };
+}
+
+// A complete fetch of the whole revision can serve any directory selection
+async function getCachedSelection(
+  revisionKey: string,
+  directories?: string[]
+): Promise<{ repo: FetchedRepo; cacheKey: string } | null> {
+  const cacheKey = withDirectories(revisionKey, directories);
+  const fullRepo = await getCachedRepo(revisionKey);
+  if (fullRepo && (!fullRepo.stoppedEarly || !directories || directories.length === 0)) {
+    return { repo: filterRepoToDirectories(fullRepo, directories), cacheKey };
+  }
+  if (cacheKey === revisionKey) return null;
+  const cached = await getCachedRepo(cacheKey);
+  return cached ? { repo: cached, cacheKey } : null;
+}
+
+/**
+ * Fetch a repository through the shared ingestion pipeline. Results are cached
+ * by commit, so a repo fetched for /api/explain is reused when an interview
+ * starts on it, and later interviews on the same commit skip the host entirely.
+ */
+export async function ingestRepository(url: string, options: IngestOptions = {}): Promise<IngestResult> {
+  const locator = parseRepoUrl(url);
+  if (!locator) {
+    throw new Error('Invalid repository URL');
+  }
+  const { hostname, owner, repo, refPath } = locator;
+
+  let revision = await getCachedRevision(hostname, owner, repo, refPath);
+  if (!revision) {
+    revision = await resolveRevision(locator);
+    if (revision.commitSha) {
+      await cacheRevision(hostname, owner, repo, refPath, revision);
+    }
+  }
+  const directories = scopeDirectories(options.directories, revision.subdirectory);
+
+  if (revision.commitSha) {
+    const cached = await getCachedSelection(repoRevisionKey(hostname, owner, repo, revision.commitSha), directories);
+    if (cached) {
+      // The same commit may have been fetched through a different URL
+      const { ref, commitSha, subdirectory } = revision;
+      return { repo: { ...cached.repo, ref, commitSha, subdirectory }, cacheKey: cached.cacheKey, fromCache: true };
+    }
+  }
+
+  const result = await fetchFromHost(locator, revision, options);
+  const cacheKey = withDirectories(
+    repoRevisionKey(hostname, owner, repo, result.repo.commitSha || revision.ref),
+    directories
+  );
+  await cacheRepo(cacheKey, result.repo);
+  return { ...result, cacheKey, fromCache: false };
+}
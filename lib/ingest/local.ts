@@ -0,0 +1,58 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { glob } from 'glob';
+import { simpleGit } from 'simple-git';
+import type { CandidateFile } from './types';
+
+/** List the files of a directory on disk as ingestion candidates */
+export async function listLocalFiles(root: string): Promise<CandidateFile[]> {
+  const paths = await glob('**/*', {
+    cwd: root,
+    nodir: true,
+    dot: true,
+    follow: false,
+    ignore: ['.git/**'],
+    posix: true,
+  });
+
+  return Promise.all(
+    paths.map(async (relativePath): Promise<CandidateFile> => {
+      const absolutePath = path.join(root, relativePath);
+      const stats = await fs.stat(absolutePath);
+      return {
+        path: relativePath,
+        size: stats.size,
+        read: () => fs.readFile(absolutePath, 'utf-8'),
+      };
+    })
+  );
+}
+
+/**
+ * Shallow-clone a repository into a temporary directory, run `work` on it and
+ * remove the checkout afterwards. Requires a `git` binary on the server.
+ *
+ * Uses `git fetch --depth 1 <ref>` rather than `git clone --branch`, so `ref`
+ * may be a branch, a tag or a commit SHA. `config` entries (`key=value`) are
+ * passed to every git command with `-c`.
+ */
+export async function withShallowClone<T>(
+  remote: string,
+  ref: string | undefined,
+  work: (dir: string, commitSha: string) => Promise<T>,
+  config: string[] = []
+): Promise<T> {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'explainitback-clone-'));
+  try {
+    const git = simpleGit({ baseDir: dir, config });
+    await git.init();
+    await git.addRemote('origin', remote);
+    await git.fetch(['--depth', '1', '--no-tags', 'origin', ref || 'HEAD']);
+    await git.checkout('FETCH_HEAD');
+    const commitSha = (await git.revparse(['HEAD'])).trim();
+    return await work(dir, commitSha);
+  } finally {
+    await fs.rm(dir, { recursive: true, force: true });
+  }
+}
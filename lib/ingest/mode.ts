@@ -0,0 +1,10 @@
+import type { IngestMode } from './types';
+
+export const INGEST_MODES: IngestMode[] = ['tree', 'tarball', 'clone', 'contents'];
+
+/** The ingestion mode to use: an explicit option, else INGEST_MODE, else `tree` */
+export function getIngestMode(override?: IngestMode): IngestMode {
+  if (override) return override;
+  const configured = (process.env.INGEST_MODE || 'tree').toLowerCase() as IngestMode;
+  return INGEST_MODES.includes(configured) ? configured : 'tree';
+}
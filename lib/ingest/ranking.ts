@@ -0,0 +1,58 @@
+// Ranks files by how much they tell the model about a project, so the token
+// budget is spent on READMEs, manifests and source code before tests and lockfiles
+
+const MANIFEST_FILES = [
+  'package.json', 'requirements.txt', 'pipfile', 'pyproject.toml', 'setup.py',
+  'cargo.toml', 'go.mod', 'pom.xml', 'build.gradle', 'build.gradle.kts',
+  'gemfile', 'composer.json', 'dockerfile', 'docker-compose.yml', 'docker-compose.yaml',
+];
+
+const LOCK_FILES = [
+  'package-lock.json', 'yarn.lock', 'pnpm-lock.yaml', 'bun.lockb', 'cargo.lock',
+  'poetry.lock', 'pipfile.lock', 'gemfile.lock', 'composer.lock', 'go.sum',
+];
+
+const SOURCE_EXTENSIONS = [
+  'ts', 'tsx', 'js', 'jsx', 'mjs', 'cjs', 'py', 'rb', 'go', 'rs', 'java', 'kt',
+  'swift', 'c', 'cpp', 'h', 'hpp', 'cs', 'php', 'vue', 'svelte', 'sql', 'sh',
+];
+
+const ENTRYPOINT_NAMES = ['main', 'index', 'app', 'server', 'cli', 'lib', 'mod'];
+
+const TEST_PATTERN = /(^|\/)(__tests__|tests?|spec|e2e)\/|[._-](test|spec)\.[a-z]+$/i;
+const GENERATED_PATTERN = /\.min\.(js|css)$|\.map$|\.snap$|(^|\/)(generated|__generated__|vendor)\//i;
+
+/** Higher is more valuable; files with equal value keep path order */
+export function fileValue(path: string): number {
+  const parts = path.split('/');
+  const fileName = parts[parts.length - 1].toLowerCase();
+  const depth = parts.length - 1;
+  const ext = fileName.includes('.') ? fileName.split('.').pop()! : '';
+  const baseName = fileName.replace(/\.[^.]+$/, '');
+
+  if (LOCK_FILES.includes(fileName) || GENERATED_PATTERN.test(path)) {
+    return 0;
+  }
+  if (/^readme(\.[a-z]+)?$/.test(fileName)) {
+    return depth === 0 ? 100 : 50;
+  }
+  if (MANIFEST_FILES.includes(fileName)) {
+    return depth === 0 ? 90 : 55;
+  }
+  if (TEST_PATTERN.test(path)) {
+    return 30;
+  }
+  if (SOURCE_EXTENSIONS.includes(ext)) {
+    // Shallow files tend to be entrypoints and public surface
+    const entrypointBonus = ENTRYPOINT_NAMES.includes(baseName) ? 10 : 0;
+    return 70 + entrypointBonus - Math.min(depth * 2, 20);
+  }
+  if (ext === 'md' || ext === 'mdx' || ext === 'rst' || ext === 'txt') {
+    return 25;
+  }
+  return 15;
+}
+
+export function compareByValue(a: { path: string }, b: { path: string }): number {
+  return fileValue(b.path) - fileValue(a.path) || a.path.localeCompare(b.path);
+}
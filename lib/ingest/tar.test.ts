@@ -0,0 +1,95 @@
+import { gzipSync } from 'zlib';
+import { describe, expect, it } from 'vitest';
+import { parseTar, parseTarGz } from './tar';
+
+interface HeaderFields {
+  name: string;
+  size: number;
+  type?: string;
+  prefix?: string;
+}
+
+function header({ name, size, type = '0', prefix = '' }: HeaderFields): Buffer {
+  const block = Buffer.alloc(512);
+  block.write(name, 0, 100, 'utf-8');
+  block.write(size.toString(8).padStart(11, '0'), 124, 12, 'utf-8');
+  block.write(type, 156, 1, 'utf-8');
+  block.write('ustar', 257, 6, 'utf-8');
+  block.write(prefix, 345, 155, 'utf-8');
+  return block;
+}
+
+function padded(data: Buffer): Buffer {
+  return Buffer.concat([data, Buffer.alloc((512 - (data.length % 512)) % 512)]);
+}
+
+function entry(fields: Omit<HeaderFields, 'size'>, content: string): Buffer {
+  const data = Buffer.from(content, 'utf-8');
+  return Buffer.concat([header({ ...fields, size: data.length }), padded(data)]);
+}
+
+function tar(...entries: Buffer[]): Buffer {
+  return Buffer.concat([...entries, Buffer.alloc(1024)]);
+}
+
+function paxRecord(key: string, value: string): string {
+  const body = ` ${key}=${value}\n`;
+  let length = body.length + 1;
+  while (`${length}${body}`.length !== length) length++;
+  return `${length}${body}`;
+}
+
+describe('parseTar', () => {
+  it('returns regular files with their contents and skips directories', () => {
+    const entries = parseTar(tar(
+      entry({ name: 'repo/', type: '5' }, ''),
+      entry({ name: 'repo/README.md' }, '# Hello\n'),
+      entry({ name: 'repo/src/index.ts' }, 'export const answer = 42;\n'),
+    ));
+
+    expect(entries.map(e => [e.path, e.content.toString('utf-8')])).toEqual([
+      ['repo/README.md', '# Hello\n'],
+      ['repo/src/index.ts', 'export const answer = 42;\n'],
+    ]);
+  });
+
+  it('joins the ustar prefix and the name', () => {
+    const [file] = parseTar(tar(entry({ name: 'file.ts', prefix: 'a/b' }, 'x')));
+    expect(file.path).toBe('a/b/file.ts');
+  });
+
+  it('uses PAX path records and GNU long names for the next entry only', () => {
+    const longPath = `repo/${'nested/'.repeat(20)}file.ts`;
+    const entries = parseTar(tar(
+      entry({ name: 'PaxHeader', type: 'x' }, paxRecord('path', longPath)),
+      entry({ name: 'truncated-name' }, 'pax'),
+      entry({ name: '././@LongLink', type: 'L' }, `${longPath}.gnu\0`),
+      entry({ name: 'truncated-name' }, 'gnu'),
+      entry({ name: 'repo/short.ts' }, 'short'),
+    ));
+
+    expect(entries.map(e => e.path)).toEqual([longPath, `${longPath}.gnu`, 'repo/short.ts']);
+  });
+
+  it('skips global headers', () => {
+    const entries = parseTar(tar(
+      entry({ name: 'pax_global_header', type: 'g' }, paxRecord('comment', 'abc123')),
+      entry({ name: 'repo/a.ts' }, 'a'),
+    ));
+    expect(entries.map(e => e.path)).toEqual(['repo/a.ts']);
+  });
+});
+
+describe('parseTarGz', () => {
+  it('decompresses and parses a tarball', () => {
+    const entries = parseTarGz(gzipSync(tar(entry({ name: 'repo/a.ts' }, 'const a = 1;'))));
+    expect(entries.map(e => e.content.toString('utf-8'))).toEqual(['const a = 1;']);
+  });
+
+  it('refuses archives that inflate past the limit', () => {
+    // 4MB of zeros compresses to a few kilobytes
+    const bomb = gzipSync(tar(entry({ name: 'repo/zeros.txt' }, '\0'.repeat(4 * 1024 * 1024))));
+    expect(bomb.length).toBeLessThan(64 * 1024);
+    expect(() => parseTarGz(bomb, 1024 * 1024)).toThrow(/too large/);
+  });
+});
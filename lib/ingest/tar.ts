@@ -0,0 +1,102 @@
+import { gunzipSync } from 'zlib';
+import { MAX_EXTRACTED_BYTES } from './budget';
+
+export interface TarEntry {
+  path: string;
+  /** View into the archive buffer, not a copy */
+  content: Buffer;
+}
+
+const BLOCK_SIZE = 512;
+
+function readString(block: Buffer, offset: number, length: number): string {
+  const field = block.subarray(offset, offset + length);
+  const end = field.indexOf(0);
+  return field.subarray(0, end === -1 ? field.length : end).toString('utf-8');
+}
+
+function readOctal(block: Buffer, offset: number, length: number): number {
+  const value = readString(block, offset, length).trim();
+  return value ? parseInt(value, 8) : 0;
+}
+
+// PAX extended headers are "<length> <key>=<value>\n" records
+function readPaxPath(data: Buffer): string | undefined {
+  let offset = 0;
+  while (offset < data.length) {
+    const space = data.indexOf(0x20, offset);
+    if (space === -1) break;
+    const length = parseInt(data.subarray(offset, space).toString('utf-8'), 10);
+    if (!length) break;
+    const record = data.subarray(space + 1, offset + length - 1).toString('utf-8');
+    const separator = record.indexOf('=');
+    if (record.slice(0, separator) === 'path') {
+      return record.slice(separator + 1);
+    }
+    offset += length;
+  }
+  return undefined;
+}
+
+/**
+ * Parse an uncompressed tar archive and return its regular files.
+ * Supports ustar prefixes, PAX `path` records and GNU long names, which is
+ * enough for the archives GitHub, GitLab and `git archive` produce.
+ */
+export function parseTar(archive: Buffer): TarEntry[] {
+  const entries: TarEntry[] = [];
+  let offset = 0;
+  let longPath: string | undefined;
+
+  while (offset + BLOCK_SIZE <= archive.length) {
+    const header = archive.subarray(offset, offset + BLOCK_SIZE);
+    // Two zero blocks mark the end of the archive
+    if (header.every(byte => byte === 0)) break;
+
+    const name = readString(header, 0, 100);
+    const size = readOctal(header, 124, 12);
+    const type = String.fromCharCode(header[156] || 0x30);
+    const prefix = readString(header, 345, 155);
+    const dataStart = offset + BLOCK_SIZE;
+    const data = archive.subarray(dataStart, dataStart + size);
+    offset = dataStart + Math.ceil(size / BLOCK_SIZE) * BLOCK_SIZE;
+
+    if (type === 'x') {
+      longPath = readPaxPath(data) ?? longPath;
+      continue;
+    }
+    if (type === 'L') {
+      longPath = readString(data, 0, data.length);
+      continue;
+    }
+    if (type === 'g') {
+      // Global header (GitHub stores the commit SHA here), nothing to extract
+      continue;
+    }
+
+    const path = longPath ?? (prefix ? `${prefix}/${name}` : name);
+    longPath = undefined;
+
+    if (type === '0' || type === '\u0000' || type === '7') {
+      entries.push({ path, content: data });
+    }
+  }
+
+  return entries;
+}
+
+export function archiveTooLarge(): Error {
+  return new Error(`Archive is too large: it extracts to more than ${Math.round(MAX_EXTRACTED_BYTES / (1024 * 1024))}MB.`);
+}
+
+/** Decompress and parse a tar.gz, refusing archives that inflate past `maxBytes` */
+export function parseTarGz(archive: Buffer, maxBytes: number = MAX_EXTRACTED_BYTES): TarEntry[] {
+  let tar: Buffer;
+  try {
+    tar = gunzipSync(archive, { maxOutputLength: maxBytes });
+  } catch (error: any) {
+    if (error?.code === 'ERR_BUFFER_TOO_LARGE') throw archiveTooLarge();
+    throw error;
+  }
+  return parseTar(tar);
+}
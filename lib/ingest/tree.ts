@@ -0,0 +1,65 @@
+import type { FileNode, RepoFile } from '@/types/interview';
+
+export function buildFileTree(files: RepoFile[]): FileNode[] {
+  const root: FileNode[] = [];
+  const dirMap = new Map<string, FileNode>();
+
+  // Sort files by path for consistent ordering
+  const sortedFiles = [...files].sort((a, b) => a.path.localeCompare(b.path));
+
+  for (const file of sortedFiles) {
+    const parts = file.path.split('/');
+    let currentPath = '';
+    let currentLevel = root;
+
+    for (let i = 0; i < parts.length; i++) {
+      const part = parts[i];
+      const isFile = i === parts.length - 1;
+      currentPath = currentPath ? `${currentPath}/${part}` : part;
+
+      if (isFile) {
+        currentLevel.push({
+          path: file.path,
+          name: part,
+          type: 'file',
+          language: file.language,
+          size: file.size,
+        });
+      } else {
+        let dirNode = dirMap.get(currentPath);
+        if (!dirNode) {
+          dirNode = {
+            path: currentPath,
+            name: part,
+            type: 'directory',
+            children: [],
+          };
+          dirMap.set(currentPath, dirNode);
+          currentLevel.push(dirNode);
+        }
+        currentLevel = dirNode.children!;
+      }
+    }
+  }
+
+  return root;
+}
+
+export function getDirectoriesFromRepo(structure: FileNode[]): string[] {
+  const directories: string[] = [];
+
+  function traverse(nodes: FileNode[], prefix: string = ''): void {
+    for (const node of nodes) {
+      if (node.type === 'directory') {
+        const path = prefix ? `${prefix}/${node.name}` : node.name;
+        directories.push(path);
+        if (node.children) {
+          traverse(node.children, path);
+        }
+      }
+    }
+  }
+
+  traverse(structure);
+  return directories;
+}
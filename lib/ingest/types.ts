@@ -0,0 +1,44 @@
+import type { FetchedRepo } from '@/types/interview';
+
+/** A file discovered by a source, read lazily so filtered or over-budget files cost nothing */
+export interface CandidateFile {
+  path: string;
+  size?: number;
+  read: () => Promise<string | null>;
+}
+
+export type IngestProgress =
+  | { type: 'files'; filesFetched: number; totalTokens: number }
+  | { type: 'rate-limit'; remaining: number; reset: number };
+
+/**
+ * How repository contents are downloaded:
+ * - `tree`: one recursive Git Trees API call, then file blobs read in parallel
+ * - `tarball`: a single archive download, no per-file requests
+ * - `clone`: a shallow `git clone` into a temporary directory
+ * - `contents`: the contents API, one request per directory and per file
+ */
+export type IngestMode = 'tree' | 'tarball' | 'clone' | 'contents';
+
+export interface IngestOptions {
+  /** Restrict ingestion to these directories (empty means the whole repo) */
+  directories?: string[];
+  /** Maximum estimated tokens of file content to collect */
+  tokenBudget?: number;
+  /** Maximum number of files to read */
+  maxFiles?: number;
+  /** Overrides the INGEST_MODE environment variable */
+  mode?: IngestMode;
+  /** Maximum number of files read at the same time */
+  concurrency?: number;
+  onProgress?: (event: IngestProgress) => void;
+}
+
+export interface IngestResult {
+  repo: FetchedRepo;
+  /** True when the repo came from the ingestion cache instead of the network */
+  fromCache: boolean;
+  /** Content address the repo is cached under; analyses derived from it are keyed the same way */
+  cacheKey: string;
+  rateLimit?: { remaining: number; reset: number };
+}
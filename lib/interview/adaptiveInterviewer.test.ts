@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import type { AskedQuestion, QuestionCategory, QuestionDifficulty } from '@/types/interview';
+import { chooseCategory, chooseDifficulty, getCategoryPerformance, planNextQuestion } from './adaptiveInterviewer';
+
+function asked(difficulty: QuestionDifficulty, score?: number, category: QuestionCategory = 'architecture'): AskedQuestion {
+  return { id: `${category}-${difficulty}-${score}`, text: '', topic: '', category, difficulty, relatedFiles: [], score };
+}
+
+describe('chooseDifficulty', () => {
+  it('starts at medium until an answer is scored', () => {
+    expect(chooseDifficulty([])).toBe('medium');
+    expect(chooseDifficulty([asked('hard')])).toBe('medium');
+  });
+
+  it('steps up after two strong answers in a row at the same difficulty', () => {
+    expect(chooseDifficulty([asked('medium', 85)])).toBe('medium');
+    expect(chooseDifficulty([asked('medium', 85), asked('medium', 90)])).toBe('hard');
+    expect(chooseDifficulty([asked('easy', 95), asked('medium', 90)])).toBe('medium');
+    expect(chooseDifficulty([asked('staff', 90), asked('staff', 95)])).toBe('staff');
+  });
+
+  it('steps down after a weak answer', () => {
+    expect(chooseDifficulty([asked('medium', 90), asked('hard', 40)])).toBe('medium');
+    expect(chooseDifficulty([asked('easy', 10)])).toBe('easy');
+  });
+
+  it('stays put between the thresholds and ignores unanswered questions', () => {
+    expect(chooseDifficulty([asked('hard', 90), asked('hard', 65)])).toBe('hard');
+    expect(chooseDifficulty([asked('medium', 85), asked('medium', 90), asked('hard')])).toBe('hard');
+  });
+});
+
+describe('chooseCategory', () => {
+  it('covers every planned category once, in order', () => {
+    const categories: QuestionCategory[] = ['security', 'testing', 'performance'];
+    expect(chooseCategory([], categories)).toBe('security');
+    expect(chooseCategory([asked('medium', 70, 'security')], categories)).toBe('testing');
+    expect(chooseCategory([asked('medium', 70, 'security'), asked('medium', 70, 'testing')], categories)).toBe('performance');
+  });
+
+  it('then returns to the weakest category, never twice in a row', () => {
+    const categories: QuestionCategory[] = ['security', 'testing'];
+    const history = [asked('medium', 40, 'security'), asked('medium', 90, 'testing')];
+    expect(chooseCategory(history, categories)).toBe('security');
+    expect(chooseCategory([...history, asked('medium', 30, 'security')], categories)).toBe('testing');
+  });
+
+  it('breaks ties in score by asking the less covered category', () => {
+    const categories: QuestionCategory[] = ['security', 'testing', 'performance'];
+    const history = [
+      asked('medium', 60, 'security'),
+      asked('medium', 60, 'security'),
+      asked('medium', 60, 'testing'),
+      asked('medium', 90, 'performance'),
+    ];
+    expect(chooseCategory(history, categories)).toBe('testing');
+  });
+
+  it('ranks categories without a score after scored ones', () => {
+    const categories: QuestionCategory[] = ['security', 'testing', 'performance'];
+    const history = [asked('medium', 95, 'security'), asked('medium', undefined, 'testing'), asked('medium', 60, 'performance')];
+    expect(chooseCategory(history, categories)).toBe('security');
+  });
+
+  it('repeats a category only when it is the only one planned', () => {
+    expect(chooseCategory([asked('medium', 90, 'testing')], ['testing'])).toBe('testing');
+  });
+});
+
+describe('getCategoryPerformance', () => {
+  it('averages scored answers per category', () => {
+    expect(getCategoryPerformance([asked('easy', 60), asked('hard', 80), asked('hard')], ['architecture', 'testing'])).toEqual([
+      { category: 'architecture', asked: 3, answered: 2, averageScore: 70 },
+      { category: 'testing', asked: 0, answered: 0, averageScore: null },
+    ]);
+  });
+});
+
+describe('planNextQuestion', () => {
+  it('combines the difficulty and category choices', () => {
+    expect(planNextQuestion([asked('medium', 30, 'security')], ['security', 'testing'])).toEqual({
+      difficulty: 'easy',
+      category: 'testing',
+    });
+  });
+});
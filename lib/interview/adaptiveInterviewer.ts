@@ -0,0 +1,115 @@
+import type { AskedQuestion, QuestionCategory, QuestionDifficulty } from '@/types/interview';
+
+export const DIFFICULTIES: QuestionDifficulty[] = ['easy', 'medium', 'hard', 'staff'];
+
+export const CATEGORIES: QuestionCategory[] = ['architecture', 'error-handling', 'security', 'performance', 'testing'];
+
+/** What a question of each difficulty should ask for, as told to the question generator */
+export const DIFFICULTY_GUIDELINES: Record<QuestionDifficulty, string> = {
+  easy: 'Ask what a specific function, module or file does and where something happens. One part of the code, answerable by reading it.',
+  medium: 'Ask how two or three components interact or why an approach was chosen. Requires following calls across files.',
+  hard: 'Ask about edge cases, failure modes or trade-offs that span several modules. Requires reasoning beyond what the code states.',
+  staff: 'Ask how the design would hold up at larger scale or under new requirements, what should change and at what cost. Requires judgement about the system as a whole.',
+};
+
+export const CATEGORY_DESCRIPTIONS: Record<QuestionCategory, string> = {
+  architecture: 'architecture and design decisions, module boundaries and data flow',
+  'error-handling': 'error handling, validation, edge cases and failure recovery',
+  security: 'security: input handling, authentication, secrets and trust boundaries',
+  performance: 'performance: caching, concurrency, I/O and algorithmic cost',
+  testing: 'testing strategy, testability and how correctness is ensured',
+};
+
+// Words that find the code a category is about when retrieving context
+export const CATEGORY_SEARCH_TERMS: Record<QuestionCategory, string> = {
+  architecture: 'module service handler route controller interface export config',
+  'error-handling': 'error catch throw try fail invalid validate retry status',
+  security: 'auth token secret key password permission sanitize validate rate limit',
+  performance: 'cache concurrency parallel batch stream limit timeout memory queue',
+  testing: 'test spec mock fixture assert expect',
+};
+
+// Two strong answers in a row at the same difficulty move it up; a weak one moves it down
+const STEP_UP_SCORE = 80;
+const STEP_DOWN_SCORE = 50;
+const STARTING_DIFFICULTY: QuestionDifficulty = 'medium';
+
+export interface CategoryPerformance {
+  category: QuestionCategory;
+  asked: number;
+  answered: number;
+  /** Mean score of answered questions, null until one is answered */
+  averageScore: number | null;
+}
+
+export interface QuestionPlan {
+  difficulty: QuestionDifficulty;
+  category: QuestionCategory;
+}
+
+export function getCategoryPerformance(
+  asked: AskedQuestion[],
+  categories: QuestionCategory[] = CATEGORIES
+): CategoryPerformance[] {
+  return categories.map(category => {
+    const inCategory = asked.filter(q => q.category === category);
+    const scores = inCategory.map(q => q.score).filter((score): score is number => score !== undefined);
+    return {
+      category,
+      asked: inCategory.length,
+      answered: scores.length,
+      averageScore: scores.length > 0 ? scores.reduce((sum, score) => sum + score, 0) / scores.length : null,
+    };
+  });
+}
+
+/** Adjust the last question's difficulty by how the recent answers went */
+export function chooseDifficulty(asked: AskedQuestion[]): QuestionDifficulty {
+  const answered = asked.filter(q => q.score !== undefined);
+  if (answered.length === 0) return STARTING_DIFFICULTY;
+
+  const last = answered[answered.length - 1];
+  const level = DIFFICULTIES.indexOf(last.difficulty);
+  const recent = answered.slice(-2);
+
+  if (last.score! < STEP_DOWN_SCORE) {
+    return DIFFICULTIES[Math.max(0, level - 1)];
+  }
+  if (recent.length === 2 && recent.every(q => q.difficulty === last.difficulty && q.score! >= STEP_UP_SCORE)) {
+    return DIFFICULTIES[Math.min(DIFFICULTIES.length - 1, level + 1)];
+  }
+  return last.difficulty;
+}
+
+/**
+ * Cover every category once, then go back to the weakest one so the
+ * interview probes where the candidate struggled. Never the same category
+ * twice in a row unless it is the only one. `categories` is the interview
+ * plan's mix; categories outside it are never chosen.
+ */
+export function chooseCategory(
+  asked: AskedQuestion[],
+  categories: QuestionCategory[] = CATEGORIES
+): QuestionCategory {
+  const performance = getCategoryPerformance(asked, categories);
+  const lastCategory = asked[asked.length - 1]?.category;
+
+  const unasked = performance.filter(p => p.asked === 0);
+  if (unasked.length > 0) return unasked[0].category;
+
+  const candidates = performance.filter(p => p.category !== lastCategory);
+  const weakest = candidates.sort((a, b) =>
+    (a.averageScore ?? Infinity) - (b.averageScore ?? Infinity) || a.asked - b.asked
+  )[0];
+  return weakest?.category ?? categories[0] ?? CATEGORIES[0];
+}
+
+export function planNextQuestion(
+  asked: AskedQuestion[],
+  categories: QuestionCategory[] = CATEGORIES
+): QuestionPlan {
+  return {
+    difficulty: chooseDifficulty(asked),
+    category: chooseCategory(asked, categories),
+  };
+}
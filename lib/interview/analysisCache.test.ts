@@ -0,0 +1,44 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { repoRevisionKey, withDirectories } from '@/lib/ingest/cache';
+import { redis } from '@/lib/redis';
+import type { RepoAnalysis } from '@/types/interview';
+import { cacheAnalysis, getCachedAnalysis } from './analysisCache';
+
+function analysisOf(summary: string): RepoAnalysis {
+  return {
+    structure: [],
+    mainEntryPoints: [],
+    dependencies: {},
+    patterns: [],
+    librariesUsed: [],
+    summary,
+    symbols: [],
+    analyzedAt: 0,
+    fileContents: {},
+  };
+}
+
+describe('analysis cache', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('misses, then hits for the same revision and directory selection only', async () => {
+    const key = withDirectories(repoRevisionKey('github.com', 'acme', 'widgets', 'sha-1'), ['src']);
+    expect(await getCachedAnalysis(key)).toBeNull();
+
+    await cacheAnalysis(key, analysisOf('widgets at sha-1'));
+    expect(await getCachedAnalysis(key)).toEqual(analysisOf('widgets at sha-1'));
+    expect(await getCachedAnalysis(withDirectories(repoRevisionKey('github.com', 'acme', 'widgets', 'sha-2'), ['src']))).toBeNull();
+    expect(await getCachedAnalysis(repoRevisionKey('github.com', 'acme', 'widgets', 'sha-1'))).toBeNull();
+  });
+
+  it('treats store errors as misses', async () => {
+    vi.spyOn(redis, 'get').mockRejectedValue(new Error('down'));
+    vi.spyOn(redis, 'setex').mockRejectedValue(new Error('down'));
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    await expect(cacheAnalysis('broken', analysisOf(''))).resolves.toBeUndefined();
+    expect(await getCachedAnalysis('broken')).toBeNull();
+  });
+});
@@ -0,0 +1,31 @@
+import { ensureRedisConnected, redis } from '@/lib/redis';
+import type { RepoAnalysis } from '@/types/interview';
+
+const ANALYSIS_CACHE_PREFIX = 'interview:analysis:';
+const ANALYSIS_CACHE_TTL = 7 * 24 * 60 * 60; // 7 days, like the repos they are keyed by
+
+/**
+ * Analyses are keyed by the content address of the repo they were made from
+ * (see `IngestResult.cacheKey`), so every session on the same commit and
+ * directory selection shares one analysis instead of embedding its own copy.
+ */
+export async function getCachedAnalysis(key: string): Promise<RepoAnalysis | null> {
+  try {
+    await ensureRedisConnected();
+    const data = await redis.get(`${ANALYSIS_CACHE_PREFIX}${key}`);
+    return data ? (JSON.parse(data) as RepoAnalysis) : null;
+  } catch (error) {
+    console.error('Error reading analysis cache:', error);
+    return null;
+  }
+}
+
+export async function cacheAnalysis(key: string, analysis: RepoAnalysis): Promise<void> {
+  try {
+    await ensureRedisConnected();
+    await redis.setex(`${ANALYSIS_CACHE_PREFIX}${key}`, ANALYSIS_CACHE_TTL, JSON.stringify(analysis));
+  } catch (error) {
+    // Sessions without a cached analysis are asked to analyze again
+    console.error('Error writing analysis cache:', error);
+  }
+}
@@ -1,6 +1,8 @@
-import { generateStructuredCompletion, type ChatCompletionMessage } from './openaiClient';
-import { getFileContent } from './repoAnalyzer';
+import { generateStructuredCompletion, type ChatCompletionMessage } from '@/lib/llm';
+import { describeDelivery } from '@/lib/speech/delivery';
+import { formatChunks, retrieveChunks } from './retrieval';
 import type { Question, Evaluation, RepoAnalysis } from '@/types/interview';
+import type { DeliveryMetrics } from '@/types/speech';
 
 interface EvaluationResult {
   score: number;
@@ -11,23 +13,24 @@ interface EvaluationResult {
   needsHint: boolean;
 }
 
+/**
+ * Score an answer against the question's key points and the code. A spoken
+ * answer passes its `delivery` metrics: the transcript is scored the same
+ * way, and the feedback also comments on pace and filler words.
+ */
 export async function evaluateAnswer(
   question: Question,
   answer: string,
-  analysis: RepoAnalysis
+  analysis: RepoAnalysis,
+  delivery?: DeliveryMetrics
 ): Promise<Evaluation> {
-  // Get relevant code for context
-  const relevantCode = question.relatedFiles
-    .slice(0, 3)
-    .map(file => {
-      const content = getFileContent(analysis, file);
-      if (content) {
-        return `=== ${file} ===\n${content.slice(0, 3000)}`;
-      }
-      return null;
+  // The answer is part of the query, so code the candidate talks about is there to check claims against
+  const relevantCode = formatChunks(
+    retrieveChunks(analysis, `${question.text}\n${question.keyPoints.join('\n')}\n${answer}`, {
+      maxTokens: 4000,
+      boostFiles: [...question.relatedFiles, ...question.codeSnippets.map(snippet => snippet.file)],
     })
-    .filter(Boolean)
-    .join('\n\n');
+  );
 
   const messages: ChatCompletionMessage[] = [
     {
@@ -57,15 +60,20 @@ Be especially strict about:
 
 QUESTION: ${question.text}
 
+DIFFICULTY: ${question.difficulty} (${question.category}) - hold the answer to the depth this difficulty asks for, no more
+
 EXPECTED KEY POINTS:
 ${question.keyPoints.map((p, i) => `${i + 1}. ${p}`).join('\n')}
 
 RELEVANT CODE:
 ${relevantCode}
 
-CANDIDATE'S ANSWER:
+CANDIDATE'S ANSWER${delivery ? ' (spoken, transcribed automatically)' : ''}:
 ${answer}
-
+${delivery ? `
+DELIVERY: ${describeDelivery(delivery)}
+Score the content only, and forgive transcription errors in names and identifiers. End the feedback with one sentence on delivery: pace, filler words and whether the answer was easy to follow.
+` : ''}
 Evaluate the answer and respond in JSON format:
 {
   "score": <number 0-100>,
@@ -80,6 +88,7 @@ Evaluate the answer and respond in JSON format:
 
   const result = await generateStructuredCompletion<EvaluationResult>(messages, {
     temperature: 0.3,
+    task: 'evaluate-answer',
     maxTokens: 1500,
   });
 
@@ -127,3 +136,15 @@ export function formatEvaluationMessage(evaluation: Evaluation, questionText: st
 
   return message;
 }
+
+/** Stands in for an evaluation when the answer came in after the plan's time limit */
+export function createTimedOutEvaluation(question: Question): Evaluation {
+  return {
+    score: 0,
+    isCorrect: false,
+    feedback: 'Time ran out before this answer was submitted, so it was not evaluated.',
+    missedPoints: question.keyPoints,
+    strengths: [],
+    needsHint: false,
+  };
+}
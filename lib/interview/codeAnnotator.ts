@@ -1,6 +1,7 @@
 import { v4 as uuidv4 } from 'uuid';
-import { generateStructuredCompletion, type ChatCompletionMessage } from './openaiClient';
-import type { CodeSnippet, Annotation, Question } from '@/types/interview';
+import { generateStructuredCompletion, type ChatCompletionMessage } from '@/lib/llm';
+import { findMentionedSymbols, formatSymbol } from './symbolIndex';
+import type { CodeSnippet, CodeSymbol, Annotation, Question } from '@/types/interview';
 
 interface AnnotationResult {
   annotations: Array<{
@@ -12,9 +13,17 @@ interface AnnotationResult {
 
 export async function annotateCodeSnippet(
   snippet: CodeSnippet,
-  question: Question
+  question: Question,
+  symbols: CodeSymbol[] = []
 ): Promise<CodeSnippet> {
   const lines = snippet.code.split('\n');
+  // Signatures of what the snippet calls elsewhere, so "connection" annotations point at real code
+  const referenced = findMentionedSymbols(
+    symbols.filter(symbol => symbol.file !== snippet.file),
+    snippet.code
+  )
+    .map(symbol => `- ${formatSymbol(symbol)}`)
+    .join('\n');
   const numberedCode = lines
     .map((line, i) => `${snippet.startLine + i}: ${line}`)
     .join('\n');
@@ -47,7 +56,7 @@ ${question.keyPoints.map((p, i) => `${i + 1}. ${p}`).join('\n')}
 
 CODE (${snippet.file}):
 ${numberedCode}
-
+${referenced ? `\nDEFINED ELSEWHERE IN THE REPO:\n${referenced}\n` : ''}
 Generate annotations in JSON format:
 {
   "annotations": [
@@ -66,6 +75,7 @@ Only annotate lines that exist in the code (lines ${snippet.startLine}-${snippet
   try {
     const result = await generateStructuredCompletion<AnnotationResult>(messages, {
       temperature: 0.5,
+      task: 'annotate-snippet',
       maxTokens: 1024,
     });
 
@@ -90,12 +100,13 @@ Only annotate lines that exist in the code (lines ${snippet.startLine}-${snippet
 
 export async function annotateAllSnippets(
   snippets: CodeSnippet[],
-  question: Question
+  question: Question,
+  symbols: CodeSymbol[] = []
 ): Promise<CodeSnippet[]> {
   const annotatedSnippets: CodeSnippet[] = [];
 
   for (const snippet of snippets) {
-    const annotated = await annotateCodeSnippet(snippet, question);
+    const annotated = await annotateCodeSnippet(snippet, question, symbols);
     annotatedSnippets.push(annotated);
   }
 
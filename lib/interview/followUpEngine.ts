@@ -0,0 +1,39 @@
+import { generateFollowUpQuestion } from './questionGenerator';
+import type { Evaluation, Question, RepoAnalysis } from '@/types/interview';
+
+// A partial answer is worth probing; a weak one needs a hint or a new question, a strong one is done
+const FOLLOW_UP_MIN_SCORE = 40;
+const FOLLOW_UP_MAX_SCORE = 80;
+const MAX_FOLLOW_UPS = 2;
+// The first answer counts double, so follow-ups move the score but do not replace it
+const FIRST_ANSWER_WEIGHT = 2;
+
+export function isPartialAnswer(score: number): boolean {
+  return score >= FOLLOW_UP_MIN_SCORE && score < FOLLOW_UP_MAX_SCORE;
+}
+
+/** Score of a question's whole thread: the first answer and every follow-up answer */
+export function combineScores(scores: number[]): number {
+  if (scores.length === 0) return 0;
+  const weights = scores.map((_, index) => (index === 0 ? FIRST_ANSWER_WEIGHT : 1));
+  const total = scores.reduce((sum, score, index) => sum + score * weights[index], 0);
+  return Math.round(total / weights.reduce((sum, weight) => sum + weight, 0));
+}
+
+/**
+ * Decide whether to probe deeper instead of moving on, and generate the
+ * follow-up if so. `followUpsAsked` counts the follow-ups already asked in
+ * this thread. Returns null to move on to the next question.
+ */
+export async function createFollowUp(
+  analysis: RepoAnalysis,
+  question: Question,
+  answer: string,
+  evaluation: Evaluation,
+  followUpsAsked: number
+): Promise<Question | null> {
+  if (followUpsAsked >= MAX_FOLLOW_UPS || !isPartialAnswer(evaluation.score)) {
+    return null;
+  }
+  return generateFollowUpQuestion(analysis, question, answer, evaluation);
+}
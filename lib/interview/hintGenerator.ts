@@ -1,5 +1,6 @@
-import { generateCompletion, type ChatCompletionMessage } from './openaiClient';
-import { getFileContent } from './repoAnalyzer';
+import { generateCompletion, type ChatCompletionMessage } from '@/lib/llm';
+import { formatChunks, retrieveChunks } from './retrieval';
+import { findMentionedSymbols, getSymbolDefinition } from './symbolIndex';
 import type { Question, RepoAnalysis } from '@/types/interview';
 
 export async function generateHint(
@@ -7,15 +8,20 @@ export async function generateHint(
   analysis: RepoAnalysis,
   hintLevel: number = 1
 ): Promise<string> {
-  // Get relevant code for context
-  const relevantCode = question.relatedFiles
-    .slice(0, 2)
-    .map(file => {
-      const content = getFileContent(analysis, file);
-      if (content) {
-        return `=== ${file} ===\n${content.slice(0, 2000)}`;
-      }
-      return null;
+  // Pull the chunks that bear on the question, favouring the files it was written about
+  const relevantCode = formatChunks(
+    retrieveChunks(analysis, `${question.text}\n${question.keyPoints.join('\n')}`, {
+      maxTokens: 2000,
+      maxChunks: 6,
+      boostFiles: question.relatedFiles,
+    })
+  );
+
+  // Exact definitions of the functions and classes the question names
+  const definitions = findMentionedSymbols(analysis.symbols || [], question.text, 3)
+    .map(symbol => {
+      const code = getSymbolDefinition(analysis, symbol, 40);
+      return code ? `=== ${symbol.name} (${symbol.file}:${symbol.startLine}) ===\n${code}` : null;
     })
     .filter(Boolean)
     .join('\n\n');
@@ -57,13 +63,14 @@ ${question.keyPoints.map((p, i) => `${i + 1}. ${p}`).join('\n')}
 
 RELEVANT CODE:
 ${relevantCode}
-
+${definitions ? `\nDEFINITIONS REFERENCED IN THE QUESTION:\n${definitions}\n` : ''}
 Generate a helpful hint (hint level ${hintLevel} of 3).`,
     },
   ];
 
   const hint = await generateCompletion(messages, {
     temperature: 0.7,
+    task: 'hint',
     maxTokens: 500,
   });
 
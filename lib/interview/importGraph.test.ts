@@ -0,0 +1,151 @@
+import { describe, expect, it } from 'vitest';
+import { buildImportGraph } from './importGraph';
+
+function graphOf(files: Record<string, string>): Record<string, string[]> {
+  return buildImportGraph(Object.entries(files).map(([path, content]) => ({ path, content })));
+}
+
+describe('buildImportGraph', () => {
+  describe('TypeScript and JavaScript', () => {
+    it('resolves relative imports, re-exports, require and dynamic import', () => {
+      expect(graphOf({
+        'src/index.ts': [
+          "import { a } from './a';",
+          "import type { B } from './b.js';",
+          "export * from './c';",
+          "const d = require('./d');",
+          "const e = await import('./e');",
+          "import React from 'react';",
+        ].join('\n'),
+        'src/a.ts': '',
+        'src/b.ts': '',
+        'src/c/index.tsx': '',
+        'src/d.cjs': '',
+        'src/e.mjs': '',
+      })).toEqual({
+        'src/index.ts': ['src/a.ts', 'src/b.ts', 'src/c/index.tsx', 'src/d.cjs', 'src/e.mjs'],
+      });
+    });
+
+    it('ignores commented-out imports but not comment markers inside strings', () => {
+      expect(graphOf({
+        'src/index.ts': [
+          "const pattern = '**/*.ts';",
+          "import { a } from './a';",
+          "// import { b } from './b';",
+          "/* import { c } from './c'; */",
+          "const url = 'https://example.com'; import { d } from './d';",
+          "const end = '*/';",
+        ].join('\n'),
+        'src/a.ts': '',
+        'src/b.ts': '',
+        'src/c.ts': '',
+        'src/d.ts': '',
+      })).toEqual({ 'src/index.ts': ['src/a.ts', 'src/d.ts'] });
+    });
+
+    it('resolves tsconfig paths and baseUrl, following relative extends', () => {
+      expect(graphOf({
+        'tsconfig.base.json': JSON.stringify({ compilerOptions: { baseUrl: 'src', paths: { '@lib/*': ['lib/*'], '~config': ['config/index'] } } }),
+        'tsconfig.json': [
+          '{',
+          '  // Comments and trailing commas are allowed',
+          '  "extends": "./tsconfig.base",',
+          '  "include": ["**/*.ts"],',
+          '}',
+        ].join('\n'),
+        'src/app.ts': "import { db } from '@lib/db';\nimport config from '~config';\nimport { util } from 'utils/strings';",
+        'src/lib/db.ts': '',
+        'src/config/index.ts': '',
+        'src/utils/strings.ts': '',
+      })).toEqual({ 'src/app.ts': ['src/config/index.ts', 'src/lib/db.ts', 'src/utils/strings.ts'] });
+    });
+
+    it('uses the closest config and leaves bare specifiers alone without baseUrl', () => {
+      expect(graphOf({
+        'tsconfig.json': JSON.stringify({ compilerOptions: { paths: { '@/*': ['./*'] } } }),
+        'packages/web/tsconfig.json': JSON.stringify({ compilerOptions: { paths: { '@/*': ['./src/*'] } } }),
+        'packages/web/src/page.ts': "import { button } from '@/button';\nimport lodash from 'lodash';",
+        'packages/web/src/button.ts': '',
+        'button.ts': '',
+        'lodash.ts': '',
+      })).toEqual({ 'packages/web/src/page.ts': ['packages/web/src/button.ts'] });
+    });
+  });
+
+  describe('Python', () => {
+    it('resolves absolute, relative and submodule imports, including a src layout', () => {
+      expect(graphOf({
+        'src/app/main.py': [
+          'import os',
+          'import app.models as models, app.views',
+          'from . import utils',
+          'from .services import (billing,',
+          '    mail)',
+          '# import app.legacy',
+        ].join('\n'),
+        'src/app/__init__.py': '',
+        'src/app/models.py': '',
+        'src/app/views/__init__.py': '',
+        'src/app/utils.py': '',
+        'src/app/services/__init__.py': '',
+        'src/app/services/billing.py': '',
+        'src/app/services/mail.py': '',
+        'src/app/legacy.py': '',
+      })).toEqual({
+        'src/app/main.py': [
+          'src/app/models.py',
+          'src/app/services/__init__.py',
+          'src/app/services/billing.py',
+          'src/app/services/mail.py',
+          'src/app/utils.py',
+          'src/app/views/__init__.py',
+        ],
+      });
+    });
+  });
+
+  describe('Go', () => {
+    it('links local package imports to every non-test file of the package', () => {
+      expect(graphOf({
+        'go.mod': 'module github.com/acme/widgets\n\ngo 1.22\n',
+        'cmd/server/main.go': [
+          'package main',
+          '',
+          'import (',
+          '  "fmt"',
+          '  store "github.com/acme/widgets/internal/store"',
+          '  // "github.com/acme/widgets/internal/legacy"',
+          ')',
+          'import "github.com/acme/widgets/api"',
+        ].join('\n'),
+        'internal/store/store.go': 'package store',
+        'internal/store/cache.go': 'package store',
+        'internal/store/store_test.go': 'package store',
+        'internal/legacy/legacy.go': 'package legacy',
+        'api/api.go': 'package api',
+      })).toEqual({
+        'cmd/server/main.go': ['api/api.go', 'internal/store/cache.go', 'internal/store/store.go'],
+      });
+    });
+  });
+
+  describe('Rust', () => {
+    it('resolves mod declarations and crate, super and self paths', () => {
+      expect(graphOf({
+        'src/lib.rs': "pub mod net;\nmod config;\nfn parse<'a>(input: &'a str) -> &'a str { input } // mod old;",
+        'src/config.rs': 'use crate::net::client::Client;',
+        'src/net/mod.rs': 'pub mod client;',
+        'src/net/client.rs': 'use super::transport::Tcp;\nuse self::retry::Policy;',
+        'src/net/transport.rs': '',
+        'src/net/client/retry.rs': '',
+        'src/old.rs': '',
+      })).toEqual({
+        'src/config.rs': ['src/net/client.rs'],
+        'src/lib.rs': ['src/config.rs', 'src/net/mod.rs'],
+        'src/net/client.rs': ['src/net/client/retry.rs', 'src/net/transport.rs'],
+        'src/net/mod.rs': ['src/net/client.rs'],
+      });
+    });
+  });
+});
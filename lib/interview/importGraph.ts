@@ -0,0 +1,372 @@
+import path from 'path';
+
+interface SourceFile {
+  path: string;
+  content: string;
+}
+
+/** Files by path, plus the directory listing used to resolve package-level imports (Go) */
+interface RepoIndex {
+  files: Map<string, string>;
+  filesByDir: Map<string, string[]>;
+}
+
+interface PathAliases {
+  /** Directory (repo-relative) that `paths` targets and non-relative imports resolve from */
+  baseDir: string;
+  hasBaseUrl: boolean;
+  paths: Record<string, string[]>;
+}
+
+const JS_EXTENSIONS = ['.ts', '.tsx', '.js', '.jsx', '.mjs', '.cjs', '.mts', '.cts'];
+const JS_FILE = /\.(ts|tsx|js|jsx|mjs|cjs|mts|cts|vue|svelte)$/;
+
+function toPosix(filePath: string): string {
+  return path.posix.normalize(filePath).replace(/^\.\//, '');
+}
+
+function dirOf(filePath: string): string {
+  const dir = path.posix.dirname(filePath);
+  return dir === '.' ? '' : dir;
+}
+
+function joinPath(...parts: string[]): string {
+  const joined = toPosix(path.posix.join(...parts));
+  return joined === '.' ? '' : joined;
+}
+
+// Drop comments so commented-out imports do not become edges. String literals are
+// copied as they are, so `'**/*.ts'` does not open a comment; quoted strings end at
+// the line end so an unpaired quote (a Rust lifetime like `'a`) cannot run on
+function stripComments(content: string, style: 'c' | 'hash'): string {
+  if (style === 'hash') {
+    return content.replace(/^\s*#.*$/gm, '');
+  }
+
+  let result = '';
+  let i = 0;
+  while (i < content.length) {
+    const char = content[i];
+    const next = content[i + 1];
+    if (char === '/' && next === '/') {
+      const end = content.indexOf('\n', i);
+      i = end < 0 ? content.length : end;
+    } else if (char === '/' && next === '*') {
+      const end = content.indexOf('*/', i + 2);
+      const comment = content.slice(i, end < 0 ? content.length : end + 2);
+      // Keep the line breaks so line-anchored patterns still see line starts
+      result += comment.replace(/[^\n]/g, '');
+      i += comment.length;
+    } else if (char === '"' || char === "'" || char === '`') {
+      let j = i + 1;
+      while (j < content.length && content[j] !== char && (char === '`' || content[j] !== '\n')) {
+        j += content[j] === '\\' ? 2 : 1;
+      }
+      result += content.slice(i, j + 1);
+      i = j + 1;
+    } else {
+      result += char;
+      i++;
+    }
+  }
+  return result;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// tsconfig.json is JSONC: comments and trailing commas are allowed
+function parseJsonc(content: string): unknown {
+  try {
+    const withoutComments = content.replace(/("(?:\\.|[^"\\])*")|\/\*[\s\S]*?\*\/|\/\/.*$/gm, (match, str) => str ?? '');
+    return JSON.parse(withoutComments.replace(/,(\s*[}\]])/g, '$1'));
+  } catch {
+    return null;
+  }
+}
+
+// `compilerOptions.paths`, keeping only string targets
+function toPathMap(value: unknown): Record<string, string[]> | null {
+  if (!isRecord(value)) return null;
+  const paths: Record<string, string[]> = {};
+  for (const [pattern, targets] of Object.entries(value)) {
+    if (Array.isArray(targets)) {
+      paths[pattern] = targets.filter((target): target is string => typeof target === 'string');
+    }
+  }
+  return paths;
+}
+
+function loadAliases(configPath: string, index: RepoIndex, seen = new Set<string>()): PathAliases | null {
+  if (seen.has(configPath)) return null;
+  seen.add(configPath);
+
+  const content = index.files.get(configPath);
+  const config = content ? parseJsonc(content) : null;
+  if (!isRecord(config)) return null;
+
+  // Only relative `extends` can be followed; package configs are not part of the repo
+  const configDir = dirOf(configPath);
+  let inherited: PathAliases | null = null;
+  if (typeof config.extends === 'string' && config.extends.startsWith('.')) {
+    const parentPath = joinPath(configDir, config.extends);
+    inherited = loadAliases(parentPath.endsWith('.json') ? parentPath : `${parentPath}.json`, index, seen);
+  }
+
+  const options = isRecord(config.compilerOptions) ? config.compilerOptions : {};
+  const baseDir = typeof options.baseUrl === 'string' ? joinPath(configDir, options.baseUrl) : inherited?.baseDir ?? configDir;
+  return {
+    baseDir,
+    hasBaseUrl: typeof options.baseUrl === 'string' || !!inherited?.hasBaseUrl,
+    paths: toPathMap(options.paths) || inherited?.paths || {},
+  };
+}
+
+// Each file uses the tsconfig (or jsconfig) closest above it
+function findAliases(dir: string, index: RepoIndex, cache: Map<string, PathAliases | null>): PathAliases | null {
+  const cached = cache.get(dir);
+  if (cached !== undefined) return cached;
+
+  const configPath = ['tsconfig.json', 'jsconfig.json']
+    .map(name => joinPath(dir, name))
+    .find(candidate => index.files.has(candidate));
+  let aliases: PathAliases | null = null;
+  if (configPath) {
+    aliases = loadAliases(configPath, index);
+  } else if (dir !== '') {
+    aliases = findAliases(dirOf(dir), index, cache);
+  }
+  cache.set(dir, aliases);
+  return aliases;
+}
+
+function resolveJsFile(target: string, index: RepoIndex): string | null {
+  const candidates = [target];
+  // ESM TypeScript imports name the emitted `.js` file
+  const withoutJs = target.replace(/\.(js|jsx|mjs|cjs)$/, '');
+  for (const ext of JS_EXTENSIONS) {
+    candidates.push(`${withoutJs}${ext}`);
+  }
+  for (const ext of JS_EXTENSIONS) {
+    candidates.push(`${target}/index${ext}`);
+  }
+  return candidates.find(candidate => index.files.has(candidate)) ?? null;
+}
+
+function resolveJsImport(
+  specifier: string,
+  filePath: string,
+  index: RepoIndex,
+  aliasCache: Map<string, PathAliases | null>
+): string | null {
+  if (specifier.startsWith('.')) {
+    return resolveJsFile(joinPath(dirOf(filePath), specifier), index);
+  }
+
+  const aliases = findAliases(dirOf(filePath), index, aliasCache);
+  if (!aliases) return null;
+
+  for (const [pattern, targets] of Object.entries(aliases.paths)) {
+    const [prefix, suffix = ''] = pattern.split('*');
+    const isWildcard = pattern.includes('*');
+    if (isWildcard ? !(specifier.startsWith(prefix) && specifier.endsWith(suffix)) : specifier !== pattern) {
+      continue;
+    }
+    const matched = isWildcard ? specifier.slice(prefix.length, specifier.length - suffix.length) : '';
+    for (const target of targets) {
+      const resolved = resolveJsFile(joinPath(aliases.baseDir, target.replace('*', matched)), index);
+      if (resolved) return resolved;
+    }
+  }
+
+  return aliases.hasBaseUrl ? resolveJsFile(joinPath(aliases.baseDir, specifier), index) : null;
+}
+
+function extractJsImports(content: string): string[] {
+  const code = stripComments(content, 'c');
+  const specifiers: string[] = [];
+  const patterns = [
+    /\b(?:import|export)\s+(?:type\s+)?(?:[\w*{}\s,$]+?\s+from\s+)?['"]([^'"]+)['"]/g,
+    /\b(?:require|import)\s*\(\s*['"]([^'"]+)['"]\s*\)/g,
+  ];
+  for (const pattern of patterns) {
+    for (const match of code.matchAll(pattern)) {
+      specifiers.push(match[1]);
+    }
+  }
+  return specifiers;
+}
+
+function resolvePythonModule(modulePath: string, index: RepoIndex): string | null {
+  const candidates = [`${modulePath}.py`, `${modulePath}/__init__.py`];
+  return candidates.find(candidate => index.files.has(candidate)) ?? null;
+}
+
+function resolvePythonImports(content: string, filePath: string, index: RepoIndex): string[] {
+  const code = stripComments(content, 'hash');
+  const resolved: string[] = [];
+  // Absolute imports are looked up from the repo root and a conventional src/ layout
+  const roots = ['', 'src'];
+
+  const resolveDotted = (dotted: string, baseDir: string | null): string | null => {
+    const modulePath = dotted.replace(/\./g, '/');
+    if (baseDir !== null) {
+      return resolvePythonModule(joinPath(baseDir, modulePath), index);
+    }
+    for (const root of roots) {
+      const file = resolvePythonModule(joinPath(root, modulePath), index);
+      if (file) return file;
+    }
+    return null;
+  };
+
+  for (const match of code.matchAll(/^\s*import\s+([\w.]+(?:\s+as\s+\w+)?(?:\s*,\s*[\w.]+(?:\s+as\s+\w+)?)*)/gm)) {
+    for (const part of match[1].split(',')) {
+      const file = resolveDotted(part.trim().split(/\s+/)[0], null);
+      if (file) resolved.push(file);
+    }
+  }
+
+  for (const match of code.matchAll(/^\s*from\s+(\.*)([\w.]*)\s+import\s+(\([^)]*\)|[^\n]+)/gm)) {
+    const [, dots, moduleName, names] = match;
+    let baseDir: string | null = null;
+    if (dots.length > 0) {
+      baseDir = dirOf(filePath);
+      for (let i = 1; i < dots.length; i++) baseDir = dirOf(baseDir);
+    }
+    const moduleFile = moduleName ? resolveDotted(moduleName, baseDir) : null;
+    if (moduleFile) resolved.push(moduleFile);
+
+    // `from pkg import submodule` imports a module rather than a name
+    const importedNames = names.replace(/[()\\]/g, '').split(',').map(n => n.trim().split(/\s+/)[0]);
+    for (const name of importedNames.filter(n => /^\w+$/.test(n))) {
+      const dotted = moduleName ? `${moduleName}.${name}` : name;
+      const file = resolveDotted(dotted, baseDir);
+      if (file && file !== moduleFile) resolved.push(file);
+    }
+  }
+
+  return resolved;
+}
+
+function resolveGoImports(content: string, filePath: string, index: RepoIndex): string[] {
+  // The closest go.mod names the module prefix that local package imports start with
+  let modDir = dirOf(filePath);
+  let modulePath: string | null = null;
+  for (;;) {
+    const goMod = index.files.get(joinPath(modDir, 'go.mod'));
+    const match = goMod?.match(/^module\s+(\S+)/m);
+    if (match) {
+      modulePath = match[1];
+      break;
+    }
+    if (modDir === '') break;
+    modDir = dirOf(modDir);
+  }
+  if (!modulePath) return [];
+
+  const code = stripComments(content, 'c');
+  const importPaths: string[] = [];
+  for (const block of code.matchAll(/^import\s*\(([\s\S]*?)\)/gm)) {
+    for (const line of block[1].matchAll(/"([^"]+)"/g)) importPaths.push(line[1]);
+  }
+  for (const single of code.matchAll(/^import\s+(?:[\w.]+\s+)?"([^"]+)"/gm)) {
+    importPaths.push(single[1]);
+  }
+
+  const resolved: string[] = [];
+  for (const importPath of importPaths) {
+    if (importPath !== modulePath && !importPath.startsWith(`${modulePath}/`)) continue;
+    // A Go import names a package, i.e. every non-test file in its directory
+    const packageDir = joinPath(modDir, importPath.slice(modulePath.length + 1));
+    for (const file of index.filesByDir.get(packageDir) || []) {
+      if (file.endsWith('.go') && !file.endsWith('_test.go')) resolved.push(file);
+    }
+  }
+  return resolved;
+}
+
+// Where a module's children live: `src/foo.rs` and `src/foo/mod.rs` both keep them in `src/foo/`
+function rustModuleDir(filePath: string): string {
+  const base = path.posix.basename(filePath);
+  if (base === 'mod.rs' || base === 'lib.rs' || base === 'main.rs') return dirOf(filePath);
+  return filePath.replace(/\.rs$/, '');
+}
+
+function resolveRustModule(dir: string, segments: string[], index: RepoIndex): string | null {
+  // Try the longest path first: `use crate::a::b::Item` may refer to module a::b or to an item in a
+  for (let length = segments.length; length > 0; length--) {
+    const modulePath = joinPath(dir, ...segments.slice(0, length));
+    const file = [`${modulePath}.rs`, `${modulePath}/mod.rs`].find(candidate => index.files.has(candidate));
+    if (file) return file;
+  }
+  return null;
+}
+
+function resolveRustImports(content: string, filePath: string, index: RepoIndex): string[] {
+  const code = stripComments(content, 'c');
+  const resolved: string[] = [];
+  const moduleDir = rustModuleDir(filePath);
+
+  for (const match of code.matchAll(/^\s*(?:pub(?:\([\w:\s]+\))?\s+)?mod\s+(\w+)\s*;/gm)) {
+    const file = resolveRustModule(moduleDir, [match[1]], index);
+    if (file) resolved.push(file);
+  }
+
+  // The crate root is the closest lib.rs or main.rs above the file
+  let crateDir = dirOf(filePath);
+  while (crateDir !== '' && !index.files.has(joinPath(crateDir, 'lib.rs')) && !index.files.has(joinPath(crateDir, 'main.rs'))) {
+    crateDir = dirOf(crateDir);
+  }
+
+  for (const match of code.matchAll(/^\s*(?:pub(?:\([\w:\s]+\))?\s+)?use\s+(crate|super|self)::([\w:]+)/gm)) {
+    const [, anchor, rest] = match;
+    const segments = rest.split('::').filter(Boolean);
+    const baseDir = anchor === 'crate' ? crateDir : anchor === 'self' ? moduleDir : dirOf(moduleDir);
+    const file = resolveRustModule(baseDir, segments, index);
+    if (file && file !== filePath) resolved.push(file);
+  }
+
+  return resolved;
+}
+
+/**
+ * Build the repository's dependency map by parsing import statements:
+ * TS/JS (`import`, `export ... from`, `require`, dynamic `import()`, with
+ * tsconfig/jsconfig `baseUrl` and `paths` aliases), Python, Go and Rust.
+ * Only edges to files in the repo are kept; external packages are dropped.
+ */
+export function buildImportGraph(files: SourceFile[]): Record<string, string[]> {
+  const index: RepoIndex = { files: new Map(), filesByDir: new Map() };
+  for (const file of files) {
+    index.files.set(file.path, file.content);
+    const dir = dirOf(file.path);
+    index.filesByDir.set(dir, [...(index.filesByDir.get(dir) || []), file.path]);
+  }
+
+  const aliasCache = new Map<string, PathAliases | null>();
+  const graph: Record<string, string[]> = {};
+
+  for (const file of files) {
+    let imports: string[] = [];
+    if (JS_FILE.test(file.path)) {
+      imports = extractJsImports(file.content)
+        .map(specifier => resolveJsImport(specifier, file.path, index, aliasCache))
+        .filter((resolved): resolved is string => resolved !== null);
+    } else if (file.path.endsWith('.py')) {
+      imports = resolvePythonImports(file.content, file.path, index);
+    } else if (file.path.endsWith('.go')) {
+      imports = resolveGoImports(file.content, file.path, index);
+    } else if (file.path.endsWith('.rs')) {
+      imports = resolveRustImports(file.content, file.path, index);
+    }
+
+    const unique = Array.from(new Set(imports)).filter(dep => dep !== file.path);
+    if (unique.length > 0) {
+      graph[file.path] = unique.sort();
+    }
+  }
+
+  return graph;
+}
@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import type { AskedQuestion, InterviewSession } from '@/types/interview';
+import { countAnswered, DEFAULT_INTERVIEW_PLAN, isPlanComplete, resolveInterviewPlan } from './interviewPlan';
+
+function asked(id: string, score?: number): AskedQuestion {
+  return { id, text: id, topic: id, category: 'architecture', difficulty: 'medium', relatedFiles: [], score };
+}
+
+function sessionWith(questionsAsked: AskedQuestion[], questionCount: number): InterviewSession {
+  return { questionsAsked, plan: { ...DEFAULT_INTERVIEW_PLAN, questionCount } } as InterviewSession;
+}
+
+describe('resolveInterviewPlan', () => {
+  it('fills in defaults for a missing plan', () => {
+    expect(resolveInterviewPlan(null)).toEqual(DEFAULT_INTERVIEW_PLAN);
+  });
+
+  it('clamps numbers, drops unknown categories and normalizes focus paths', () => {
+    const plan = resolveInterviewPlan({
+      questionCount: 100,
+      categories: ['architecture', 'astrology' as never],
+      timeLimitSeconds: 5,
+      maxHints: -1,
+      focusPaths: ['./lib/', 'lib', 'src\\app', ''],
+    });
+    expect(plan).toEqual({
+      questionCount: 30,
+      categories: ['architecture'],
+      timeLimitSeconds: 30,
+      maxHints: 0,
+      focusPaths: ['lib', 'src/app'],
+    });
+  });
+
+  it('treats a zero time limit as untimed', () => {
+    expect(resolveInterviewPlan({ timeLimitSeconds: 0 }).timeLimitSeconds).toBeNull();
+  });
+});
+
+describe('isPlanComplete', () => {
+  it('counts questions asked, so a replaced question still uses its place', () => {
+    const session = sessionWith([asked('q1', 80), asked('q2')], 2);
+    expect(countAnswered(session)).toBe(1);
+    expect(isPlanComplete(session)).toBe(true);
+  });
+
+  it('leaves room for the planned questions not yet asked', () => {
+    expect(isPlanComplete(sessionWith([asked('q1', 80)], 2))).toBe(false);
+  });
+});
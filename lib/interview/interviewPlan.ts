@@ -0,0 +1,109 @@
+import { CATEGORIES } from './adaptiveInterviewer';
+import type { InterviewPlan, InterviewSession, QuestionCategory } from '@/types/interview';
+
+export const DEFAULT_INTERVIEW_PLAN: InterviewPlan = {
+  questionCount: 8,
+  categories: CATEGORIES,
+  timeLimitSeconds: null,
+  maxHints: 6,
+  focusPaths: [],
+};
+
+const MAX_QUESTIONS = 30;
+const MIN_TIME_LIMIT_SECONDS = 30;
+const MAX_TIME_LIMIT_SECONDS = 30 * 60;
+const MAX_HINTS = 30;
+const MAX_FOCUS_PATHS = 10;
+// Answers sent right as the clock runs out still count
+const DEADLINE_GRACE_MS = 5000;
+
+function clampInteger(value: unknown, min: number, max: number, fallback: number): number {
+  if (typeof value !== 'number' || !Number.isFinite(value)) return fallback;
+  return Math.min(Math.max(Math.round(value), min), max);
+}
+
+function normalizeFocusPath(path: string): string {
+  return path.trim().replace(/\\/g, '/').replace(/^\.?\/+/, '').replace(/\/+$/, '');
+}
+
+/**
+ * Fill in a plan from a start request: missing fields take the defaults,
+ * numbers are clamped into range and unknown categories are dropped, the
+ * same way the hint route clamps its level rather than rejecting it.
+ */
+export function resolveInterviewPlan(input?: Partial<InterviewPlan> | null): InterviewPlan {
+  const plan = input || {};
+
+  const categories = Array.isArray(plan.categories)
+    ? CATEGORIES.filter(category => plan.categories!.includes(category))
+    : [];
+
+  const focusPaths = Array.isArray(plan.focusPaths)
+    ? Array.from(new Set(
+        plan.focusPaths
+          .filter((path): path is string => typeof path === 'string')
+          .map(normalizeFocusPath)
+          .filter(Boolean)
+      )).slice(0, MAX_FOCUS_PATHS)
+    : [];
+
+  return {
+    questionCount: clampInteger(plan.questionCount, 1, MAX_QUESTIONS, DEFAULT_INTERVIEW_PLAN.questionCount),
+    categories: categories.length > 0 ? categories : DEFAULT_INTERVIEW_PLAN.categories,
+    // Zero or a missing limit means untimed
+    timeLimitSeconds: typeof plan.timeLimitSeconds === 'number' && plan.timeLimitSeconds > 0
+      ? clampInteger(plan.timeLimitSeconds, MIN_TIME_LIMIT_SECONDS, MAX_TIME_LIMIT_SECONDS, MIN_TIME_LIMIT_SECONDS)
+      : null,
+    maxHints: clampInteger(plan.maxHints, 0, MAX_HINTS, DEFAULT_INTERVIEW_PLAN.maxHints),
+    focusPaths,
+  };
+}
+
+export function isUnderFocusPath(file: string, focusPaths: string[]): boolean {
+  return focusPaths.some(path => file === path || file.startsWith(`${path}/`));
+}
+
+export function countAnswered(session: InterviewSession): number {
+  return session.questionsAsked.filter(q => q.score !== undefined).length;
+}
+
+/**
+ * Every planned question has been asked, so no more may be. Asked rather than
+ * answered: a question replaced before it was answered still used up its place
+ * in the plan. The interview ends once the last one is closed.
+ */
+export function isPlanComplete(session: InterviewSession): boolean {
+  return session.questionsAsked.length >= session.plan.questionCount;
+}
+
+export function getHintsRemaining(session: InterviewSession): number {
+  return Math.max(0, session.plan.maxHints - session.hintsUsed);
+}
+
+export function isPastDeadline(session: InterviewSession, now: number = Date.now()): boolean {
+  return session.questionDeadline !== null && now > session.questionDeadline + DEADLINE_GRACE_MS;
+}
+
+function formatDuration(seconds: number): string {
+  if (seconds < 60) return `${seconds} seconds`;
+  const minutes = Math.floor(seconds / 60);
+  const rest = seconds % 60;
+  return `${minutes} minute${minutes === 1 ? '' : 's'}${rest ? ` ${rest} seconds` : ''}`;
+}
+
+function formatCategories(categories: QuestionCategory[]): string {
+  return categories.length === CATEGORIES.length ? 'all categories' : categories.join(', ');
+}
+
+/** One-line description of the plan, for the welcome message */
+export function describePlan(plan: InterviewPlan): string {
+  const parts = [
+    `${plan.questionCount} question${plan.questionCount === 1 ? '' : 's'} (${formatCategories(plan.categories)})`,
+    plan.timeLimitSeconds ? `${formatDuration(plan.timeLimitSeconds)} per question` : 'no time limit',
+    `${plan.maxHints} hint${plan.maxHints === 1 ? '' : 's'}`,
+  ];
+  if (plan.focusPaths.length > 0) {
+    parts.push(`questions on ${plan.focusPaths.join(', ')}`);
+  }
+  return parts.join(', ');
+}
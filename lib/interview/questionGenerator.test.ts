@@ -0,0 +1,114 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { setLLMProvider } from '@/lib/llm';
+import { createMockProvider } from '@/lib/llm/mockProvider';
+import type { FixtureSet } from '@/lib/llm/fixtures';
+import type { AskedQuestion, RepoAnalysis } from '@/types/interview';
+import { evaluateAnswer } from './answerEvaluator';
+import { createFollowUp } from './followUpEngine';
+import { generateQuestion } from './questionGenerator';
+import { buildSymbolIndex } from './symbolIndex';
+
+const CACHE = [
+  "import { redis } from './redis';",
+  '',
+  '// Repositories are cached for a week, keyed by commit',
+  'export async function getCachedRepo(key: string) {',
+  '  const data = await redis.get(key);',
+  '  return data ? JSON.parse(data) : null;',
+  '}',
+].join('\n');
+
+const FIXTURES: FixtureSet = {
+  'generate-question': [
+    {
+      text: 'How does getCachedRepo decide whether a repository is cached?',
+      topic: 'Repository cache',
+      relatedFiles: ['lib/cache.ts'],
+      keyPoints: ['Reads the key from Redis', 'Returns null on a miss'],
+      codeSnippets: [{ file: 'lib/cache.ts', startLine: 4, endLine: 7, relevance: 'getCachedRepo reads the cache' }],
+    },
+    { text: 'What happens when Redis is down?', topic: 'Redis outages', relatedFiles: [], keyPoints: [], codeSnippets: [] },
+  ],
+  'evaluate-answer': {
+    score: 60,
+    isCorrect: true,
+    feedback: 'Right idea, no detail on misses.',
+    missedPoints: ['Returns null on a miss'],
+    strengths: ['Reads the key from Redis'],
+    needsHint: false,
+  },
+  'follow-up-question': {
+    text: 'What does getCachedRepo return when the key is missing?',
+    relatedFiles: [],
+    keyPoints: ['It returns null'],
+    codeSnippets: [],
+  },
+};
+
+function analysisOf(fileContents: Record<string, string>): RepoAnalysis {
+  return {
+    structure: [],
+    mainEntryPoints: ['lib/cache.ts'],
+    dependencies: {},
+    patterns: ['Read-through cache'],
+    librariesUsed: ['ioredis'],
+    summary: 'Caches repositories in Redis.',
+    symbols: buildSymbolIndex(Object.entries(fileContents).map(([path, content]) => ({ path, content }))),
+    analyzedAt: 0,
+    fileContents,
+  };
+}
+
+describe('interview flow with the mock provider', () => {
+  afterEach(() => {
+    setLLMProvider(null);
+  });
+
+  it('asks a question, scores the answer and follows up on what was missed', async () => {
+    setLLMProvider(createMockProvider(FIXTURES));
+    const analysis = analysisOf({ 'lib/cache.ts': CACHE });
+
+    const question = await generateQuestion(analysis, []);
+    expect(question).toMatchObject({
+      text: 'How does getCachedRepo decide whether a repository is cached?',
+      topic: 'Repository cache',
+      difficulty: 'medium',
+      category: 'architecture',
+    });
+    expect(question.codeSnippets.map(snippet => [snippet.file, snippet.startLine, snippet.endLine])).toEqual([
+      ['lib/cache.ts', 4, 7],
+    ]);
+
+    const answer = 'It reads the key from Redis.';
+    const evaluation = await evaluateAnswer(question, answer, analysis);
+    // isCorrect follows the score, whatever the model claims
+    expect(evaluation).toMatchObject({ score: 60, isCorrect: false, needsHint: false, missedPoints: ['Returns null on a miss'] });
+
+    const followUp = await createFollowUp(analysis, question, answer, evaluation, 0);
+    expect(followUp).toMatchObject({
+      text: 'What does getCachedRepo return when the key is missing?',
+      relatedFiles: ['lib/cache.ts'],
+      topic: 'Repository cache',
+      parentQuestionId: question.id,
+    });
+    expect(await createFollowUp(analysis, question, answer, evaluation, 2)).toBeNull();
+
+    const asked: AskedQuestion[] = [{ ...question, score: evaluation.score }];
+    const next = await generateQuestion(analysis, asked);
+    expect(next.text).toBe('What happens when Redis is down?');
+    expect(next.category).not.toBe('architecture');
+  });
+
+  it('clamps scores the model returns out of range', async () => {
+    setLLMProvider(createMockProvider({ 'evaluate-answer': { score: 120, feedback: 'Perfect' } }));
+    const analysis = analysisOf({ 'lib/cache.ts': CACHE });
+    const question = await generateQuestion(analysis, []);
+
+    expect(await evaluateAnswer(question, 'Everything', analysis)).toMatchObject({
+      score: 100,
+      isCorrect: true,
+      missedPoints: [],
+      strengths: [],
+    });
+  });
+});
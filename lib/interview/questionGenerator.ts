@@ -1,10 +1,21 @@
 import { v4 as uuidv4 } from 'uuid';
-import { generateStructuredCompletion, type ChatCompletionMessage } from './openaiClient';
-import { getFileContent, findRelatedFiles } from './repoAnalyzer';
-import type { Question, RepoAnalysis, CodeSnippet } from '@/types/interview';
+import { generateStructuredCompletion, type ChatCompletionMessage } from '@/lib/llm';
+import {
+  CATEGORY_DESCRIPTIONS,
+  CATEGORY_SEARCH_TERMS,
+  DIFFICULTY_GUIDELINES,
+  planNextQuestion,
+} from './adaptiveInterviewer';
+import { DEFAULT_INTERVIEW_PLAN, isUnderFocusPath } from './interviewPlan';
+import { findRelatedFiles } from './repoAnalyzer';
+import { formatChunks, retrieveChunks } from './retrieval';
+import { resolveSnippet, resolveSnippets } from './snippetResolver';
+import { formatSymbol } from './symbolIndex';
+import type { AskedQuestion, InterviewPlan, Question, RepoAnalysis } from '@/types/interview';
 
 interface GeneratedQuestion {
   text: string;
+  topic?: string;
   relatedFiles: string[];
   keyPoints: string[];
   codeSnippets: Array<{
@@ -15,81 +26,52 @@ interface GeneratedQuestion {
   }>;
 }
 
-function getLanguageFromPath(path: string): string {
-  const ext = path.split('.').pop()?.toLowerCase();
-  const languageMap: Record<string, string> = {
-    ts: 'typescript',
-    tsx: 'tsx',
-    js: 'javascript',
-    jsx: 'jsx',
-    py: 'python',
-    rb: 'ruby',
-    go: 'go',
-    rs: 'rust',
-    java: 'java',
-    kt: 'kotlin',
-    swift: 'swift',
-    c: 'c',
-    cpp: 'cpp',
-    cs: 'csharp',
-    php: 'php',
-    html: 'html',
-    css: 'css',
-    json: 'json',
-    yaml: 'yaml',
-    yml: 'yaml',
-    md: 'markdown',
-    sql: 'sql',
-    sh: 'bash',
-  };
-  return languageMap[ext || ''] || 'text';
-}
-
-function extractCodeSnippet(
-  content: string,
-  startLine: number,
-  endLine: number,
-  file: string
-): CodeSnippet {
-  const lines = content.split('\n');
-  const snippetLines = lines.slice(startLine - 1, endLine);
-
-  return {
-    id: uuidv4(),
-    file,
-    startLine,
-    endLine,
-    code: snippetLines.join('\n'),
-    language: getLanguageFromPath(file),
-    annotations: [],
-  };
-}
-
+/**
+ * Generate the next interview question. Difficulty and category adapt to the
+ * scores of earlier answers (see adaptiveInterviewer) within the interview
+ * plan's categories, questions rotate through the plan's focus paths, and
+ * topics already covered are listed so the model does not repeat them.
+ */
 export async function generateQuestion(
   analysis: RepoAnalysis,
-  previousQuestionIds: string[],
-  focusArea?: string
+  askedQuestions: AskedQuestion[],
+  interviewPlan: Pick<InterviewPlan, 'categories' | 'focusPaths'> = DEFAULT_INTERVIEW_PLAN
 ): Promise<Question> {
+  const plan = planNextQuestion(askedQuestions, interviewPlan.categories);
+
   // Build context from the analysis
   const availableFiles = Object.keys(analysis.fileContents);
   const entryPoints = analysis.mainEntryPoints.join('\n');
   const patterns = analysis.patterns.join(', ');
   const libraries = analysis.librariesUsed.join(', ');
 
-  // Sample some file contents for context
-  const sampledFiles = availableFiles
-    .filter(f => {
-      if (focusArea) {
-        return f.includes(focusArea);
-      }
-      return true;
-    })
-    .slice(0, 8)
-    .map(path => {
-      const content = analysis.fileContents[path];
-      return `=== ${path} ===\n${content?.slice(0, 2500) || 'Content not available'}`;
-    })
-    .join('\n\n');
+  // Each question takes the next focus path in turn; a path with no analyzed files is ignored
+  const { focusPaths } = interviewPlan;
+  const candidatePath = focusPaths.length > 0 ? focusPaths[askedQuestions.length % focusPaths.length] : undefined;
+  const focusFiles = candidatePath ? availableFiles.filter(f => isUnderFocusPath(f, [candidatePath])) : [];
+  const focusPath = focusFiles.length > 0 ? candidatePath : undefined;
+
+  // Retrieve the code most relevant to the chosen category and a different topic for each question,
+  // only from the focus path (and what it imports or is imported by) when there is one
+  const topics = [...analysis.patterns, ...analysis.mainEntryPoints];
+  const topic = topics[askedQuestions.length % Math.max(topics.length, 1)] || analysis.summary;
+  const relatedToFocus = focusFiles.slice(0, 4).flatMap(f => findRelatedFiles(analysis, f, 1));
+  const chunks = retrieveChunks(analysis, `${focusPath || ''} ${topic}\n${CATEGORY_SEARCH_TERMS[plan.category]}`, {
+    maxTokens: 5000,
+    boostFiles: focusFiles,
+    files: focusPath ? [...focusFiles, ...relatedToFocus] : undefined,
+  });
+  const sampledPaths = Array.from(new Set(chunks.map(chunk => chunk.file)));
+
+  // Real declarations, so the question can name functions and classes that actually exist
+  const keySymbols = (analysis.symbols || [])
+    .filter(symbol => symbol.exported && symbol.kind !== 'variable' && symbol.kind !== 'reexport')
+    .sort((a, b) => Number(sampledPaths.includes(b.file)) - Number(sampledPaths.includes(a.file)))
+    .slice(0, 40)
+    .map(symbol => `- ${formatSymbol(symbol)}`)
+    .join('\n');
+
+  const sampledFiles = formatChunks(chunks);
 
   const messages: ChatCompletionMessage[] = [
     {
@@ -104,19 +86,15 @@ Guidelines for questions:
 5. Questions should require actual code understanding, not guessing
 6. Be specific - reference actual functions, classes, and patterns in the code
 7. Make questions challenging but fair - they should have clear answers based on the code
-
-Question types to vary between:
-- Architecture and design decisions
-- Error handling and edge cases
-- Performance and optimization
-- Security considerations
-- Testing strategies
-- Code maintainability
-- Integration between components`,
+8. Match the requested difficulty and category exactly; the interview adapts them to the candidate`,
     },
     {
       role: 'user',
-      content: `Generate a challenging technical interview question about this codebase.
+      content: `Generate a technical interview question about this codebase.
+
+DIFFICULTY: ${plan.difficulty} - ${DIFFICULTY_GUIDELINES[plan.difficulty]}
+
+CATEGORY: ${CATEGORY_DESCRIPTIONS[plan.category]}
 
 CODEBASE SUMMARY:
 ${analysis.summary}
@@ -128,16 +106,20 @@ PATTERNS USED: ${patterns}
 
 LIBRARIES: ${libraries}
 
-${focusArea ? `FOCUS AREA: Questions should relate to ${focusArea}` : ''}
+${focusPath ? `FOCUS AREA: The question must be about code under ${focusPath}, and relatedFiles must include files there` : ''}
+
+KEY SYMBOLS (kind name (file:lines): signature):
+${keySymbols || 'None indexed'}
 
 CODE SAMPLES:
-${sampledFiles}
+${sampledFiles || 'Content not available'}
 
-${previousQuestionIds.length > 0 ? `Note: ${previousQuestionIds.length} questions have already been asked. Generate a NEW question on a DIFFERENT topic.` : ''}
+${askedQuestions.length > 0 ? `ALREADY ASKED (do not repeat these topics or questions):\n${askedQuestions.map(q => `- [${q.topic}] ${q.text}`).join('\n')}` : ''}
 
 Generate a question in JSON format:
 {
   "text": "The complete question text, being specific and technical",
+  "topic": "A 2-5 word label for what the question is about",
   "relatedFiles": ["list of file paths relevant to answering this question"],
   "keyPoints": ["point 1 they should mention", "point 2 they should mention", "point 3 they should mention"],
   "codeSnippets": [
@@ -156,33 +138,19 @@ The question should be answerable by studying the provided code but require deep
 
   const generated = await generateStructuredCompletion<GeneratedQuestion>(messages, {
     temperature: 0.8,
+    task: 'generate-question',
     maxTokens: 2048,
   });
 
-  // Extract actual code snippets from the analysis
-  const codeSnippets: CodeSnippet[] = [];
-  for (const snippet of generated.codeSnippets) {
-    const content = getFileContent(analysis, snippet.file);
-    if (content) {
-      const extracted = extractCodeSnippet(
-        content,
-        snippet.startLine,
-        snippet.endLine,
-        snippet.file
-      );
-      codeSnippets.push(extracted);
-    }
-  }
+  // Check the proposed ranges against the real files, relocating or dropping bad ones
+  const codeSnippets = resolveSnippets(analysis, generated.codeSnippets);
 
   // Add snippets from related files if we don't have enough
   if (codeSnippets.length < 1 && generated.relatedFiles.length > 0) {
     for (const file of generated.relatedFiles) {
-      const content = getFileContent(analysis, file);
-      if (content) {
-        const lines = content.split('\n');
-        const startLine = 1;
-        const endLine = Math.min(lines.length, 30);
-        codeSnippets.push(extractCodeSnippet(content, startLine, endLine, file));
+      const snippet = resolveSnippet(analysis, { file, startLine: 1, endLine: 30, relevance: generated.text });
+      if (snippet) {
+        codeSnippets.push(snippet);
         break;
       }
     }
@@ -194,22 +162,40 @@ The question should be answerable by studying the provided code but require deep
     relatedFiles: generated.relatedFiles,
     keyPoints: generated.keyPoints,
     codeSnippets,
-    difficulty: 'hard',
+    difficulty: plan.difficulty,
+    category: plan.category,
+    topic: generated.topic?.trim() || CATEGORY_DESCRIPTIONS[plan.category],
     generatedAt: Date.now(),
   };
 }
 
+/**
+ * Generate a follow-up that probes what the answer to `previousQuestion`
+ * missed. The follow-up is linked to the original question (not to an
+ * earlier follow-up) by parentQuestionId. Returns null when nothing was
+ * missed or generation fails; whether to follow up at all is decided by the
+ * follow-up engine.
+ */
 export async function generateFollowUpQuestion(
   analysis: RepoAnalysis,
   previousQuestion: Question,
   userAnswer: string,
   evaluation: { missedPoints: string[] }
 ): Promise<Question | null> {
-  // Only generate follow-up if there were significant missed points
-  if (evaluation.missedPoints.length < 2) {
+  // A follow-up targets the missed points; with none there is nothing to probe
+  if (evaluation.missedPoints.length === 0) {
     return null;
   }
 
+  // The code behind the missed points, so the follow-up can point at it precisely
+  const relevantCode = formatChunks(
+    retrieveChunks(analysis, `${previousQuestion.text}\n${evaluation.missedPoints.join('\n')}`, {
+      maxTokens: 2500,
+      maxChunks: 6,
+      boostFiles: previousQuestion.relatedFiles,
+    })
+  );
+
   const messages: ChatCompletionMessage[] = [
     {
       role: 'system',
@@ -226,7 +212,10 @@ ${evaluation.missedPoints.map(p => `- ${p}`).join('\n')}
 
 Related files: ${previousQuestion.relatedFiles.join(', ')}
 
-Generate a follow-up question that helps them think more deeply about what they missed. Format as JSON:
+RELEVANT CODE:
+${relevantCode || 'Content not available'}
+
+Generate one focused follow-up question that helps them think more deeply about what they missed. Do not repeat the previous question. Format as JSON:
 {
   "text": "The follow-up question",
   "relatedFiles": ["same or related files"],
@@ -239,27 +228,29 @@ Generate a follow-up question that helps them think more deeply about what they
   try {
     const generated = await generateStructuredCompletion<GeneratedQuestion>(messages, {
       temperature: 0.7,
+      task: 'follow-up-question',
       maxTokens: 1024,
     });
 
-    // Get code snippets
-    const codeSnippets: CodeSnippet[] = [];
-    for (const file of generated.relatedFiles.slice(0, 2)) {
-      const content = getFileContent(analysis, file);
-      if (content) {
-        const lines = content.split('\n');
-        const endLine = Math.min(lines.length, 25);
-        codeSnippets.push(extractCodeSnippet(content, 1, endLine, file));
-      }
-    }
+    const relatedFiles = generated.relatedFiles?.length ? generated.relatedFiles : previousQuestion.relatedFiles;
+
+    // Get code snippets, located by the follow-up's own wording
+    const codeSnippets = resolveSnippets(
+      analysis,
+      relatedFiles.slice(0, 2).map(file => ({ file, startLine: 1, endLine: 25, relevance: generated.text }))
+    );
 
     return {
       id: uuidv4(),
       text: generated.text,
-      relatedFiles: generated.relatedFiles,
+      relatedFiles,
       keyPoints: generated.keyPoints,
       codeSnippets,
-      difficulty: 'hard',
+      // A follow-up stays on its question's topic, so it inherits its labels
+      difficulty: previousQuestion.difficulty,
+      category: previousQuestion.category,
+      topic: previousQuestion.topic,
+      parentQuestionId: previousQuestion.parentQuestionId || previousQuestion.id,
       generatedAt: Date.now(),
     };
   } catch {
@@ -1,17 +1,65 @@
-import { generateStructuredCompletion, type ChatCompletionMessage } from './openaiClient';
-import type { FetchedRepo, RepoAnalysis, FileNode } from '@/types/interview';
+import { generateStructuredCompletion, type ChatCompletionMessage } from '@/lib/llm';
+import { needsSummary, summarizeRepository, type SummarizeOptions } from '@/lib/summarize';
+import type { FetchedRepo, RepoAnalysis, FileNode, RepoSummary } from '@/types/interview';
+import { buildImportGraph } from './importGraph';
+import { buildSymbolIndex } from './symbolIndex';
 
 interface AnalysisResult {
   mainEntryPoints: string[];
-  dependencies: Record<string, string[]>;
   patterns: string[];
   librariesUsed: string[];
   summary: string;
 }
 
-export async function analyzeRepository(repo: FetchedRepo): Promise<RepoAnalysis> {
+// Directories with file counts stand in for the file list when a repo has thousands of files
+function listDirectories(repo: FetchedRepo): string {
+  const counts = new Map<string, number>();
+  for (const file of repo.files) {
+    const dir = file.path.includes('/') ? file.path.slice(0, file.path.lastIndexOf('/')) : '.';
+    counts.set(dir, (counts.get(dir) || 0) + 1);
+  }
+  return Array.from(counts.entries())
+    .sort((a, b) => a[0].localeCompare(b[0]))
+    .map(([dir, count]) => `- ${dir}/ (${count} files)`)
+    .join('\n');
+}
+
+function describeSummary(summary: RepoSummary): string {
+  const directories = Object.keys(summary.directories)
+    .sort()
+    .map(dir => `- ${dir}/: ${summary.directories[dir]}`)
+    .join('\n');
+  return `ARCHITECTURE OVERVIEW (summarized from the repository's files):
+${summary.overview}
+
+DIRECTORY SUMMARIES:
+${directories || 'None'}`;
+}
+
+export async function analyzeRepository(repo: FetchedRepo, summarizeOptions: SummarizeOptions = {}): Promise<RepoAnalysis> {
+  // Too large for one prompt: summarize files and directories rather than sampling a few
+  const summary = needsSummary(repo) ? await summarizeRepository(repo, summarizeOptions) : null;
+
+  // Dependencies come from the code itself rather than from the model
+  const dependencies = buildImportGraph(repo.files);
+
+  // Files imported from the most places are usually the core abstractions
+  const importCounts = new Map<string, number>();
+  for (const deps of Object.values(dependencies)) {
+    for (const dep of deps) {
+      importCounts.set(dep, (importCounts.get(dep) || 0) + 1);
+    }
+  }
+  const mostImported = Array.from(importCounts.entries())
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, 10)
+    .map(([path, count]) => `- ${path} (imported by ${count} files)`)
+    .join('\n');
+
   // Build a condensed representation for the AI
-  const fileList = repo.files.map(f => `- ${f.path} (${f.language}, ${f.size} bytes)`).join('\n');
+  const fileList = summary
+    ? listDirectories(repo)
+    : repo.files.map(f => `- ${f.path} (${f.language}, ${f.size} bytes)`).join('\n');
 
   // Include key files content (limited to avoid token limits)
   const keyFiles = repo.files
@@ -59,10 +107,9 @@ export async function analyzeRepository(repo: FetchedRepo): Promise<RepoAnalysis
       role: 'system',
       content: `You are an expert code analyst. Analyze the repository structure and code to understand:
 1. Main entry points and their purposes
-2. Dependencies between files and modules
-3. Design patterns and architectural patterns used
-4. Key libraries and frameworks
-5. Overall purpose and architecture
+2. Design patterns and architectural patterns used
+3. Key libraries and frameworks
+4. Overall purpose and architecture
 
 Be thorough and technical. Focus on understanding how the codebase works.`,
     },
@@ -73,18 +120,17 @@ Be thorough and technical. Focus on understanding how the codebase works.`,
 FILE STRUCTURE:
 ${fileList}
 
+MOST IMPORTED FILES:
+${mostImported || 'None detected'}
+
 KEY FILES:
 ${keyFilesContent}
 
-OTHER IMPORTANT FILES:
-${otherImportantFiles}
+${summary ? describeSummary(summary) : `OTHER IMPORTANT FILES:\n${otherImportantFiles}`}
 
 Provide a detailed analysis in JSON format:
 {
   "mainEntryPoints": ["list of main entry point files with brief descriptions"],
-  "dependencies": {
-    "file/path.ts": ["list of files it depends on"]
-  },
   "patterns": ["list of design patterns and architectural patterns used"],
   "librariesUsed": ["list of key libraries/frameworks with their purposes"],
   "summary": "A thorough 3-5 paragraph summary of the codebase architecture, how it works, and key technical decisions"
@@ -94,6 +140,7 @@ Provide a detailed analysis in JSON format:
 
   const result = await generateStructuredCompletion<AnalysisResult>(messages, {
     temperature: 0.3,
+    task: 'analyze-repo',
     maxTokens: 4096,
   });
 
@@ -106,10 +153,11 @@ Provide a detailed analysis in JSON format:
   return {
     structure: repo.structure,
     mainEntryPoints: result.mainEntryPoints,
-    dependencies: result.dependencies,
+    dependencies,
     patterns: result.patterns,
     librariesUsed: result.librariesUsed,
     summary: result.summary,
+    symbols: buildSymbolIndex(repo.files),
     analyzedAt: Date.now(),
     fileContents,
   };
@@ -0,0 +1,197 @@
+import { generateStructuredCompletion, type ChatCompletionMessage } from '@/lib/llm';
+import { getFileUrl } from '@/lib/ingest';
+import { countAnswered } from './interviewPlan';
+import type {
+  ChatMessage,
+  InterviewRating,
+  InterviewReport,
+  InterviewSession,
+  RepoAnalysis,
+  ReportFileLink,
+  TopicReport,
+} from '@/types/interview';
+
+// Topics averaging below this are reported as weak areas
+const WEAK_AREA_SCORE = 70;
+const MAX_FILES_PER_TOPIC = 5;
+const MAX_RECOMMENDATIONS = 6;
+
+const RATING_THRESHOLDS: Array<[number, InterviewRating]> = [
+  [85, 'excellent'],
+  [70, 'strong'],
+  [55, 'competent'],
+  [40, 'developing'],
+  [0, 'needs-work'],
+];
+
+export function getRating(score: number): InterviewRating {
+  return RATING_THRESHOLDS.find(([threshold]) => score >= threshold)![1];
+}
+
+// Links point at the interviewed commit, so they still match the code after the branch moves on
+function linkFiles(session: InterviewSession, paths: string[]): ReportFileLink[] {
+  const ref = session.commitSha || session.ref;
+  return paths.map(path => {
+    const url = session.source !== 'upload' && ref ? getFileUrl(session.repoUrl, ref, path) : null;
+    return url ? { path, url } : { path };
+  });
+}
+
+/**
+ * Group answered questions by topic. A question's score is its thread's
+ * combined score (first answer and follow-ups); strengths come from every
+ * evaluation in the thread and missed points from the last one, since a
+ * follow-up may have covered what the first answer missed.
+ */
+function aggregateTopics(session: InterviewSession): TopicReport[] {
+  const evaluations = new Map<string, NonNullable<ChatMessage['metadata']>[]>();
+  for (const message of session.messages) {
+    const metadata = message.metadata;
+    if (metadata?.type !== 'evaluation' || !metadata.questionId) continue;
+    const threadId = metadata.parentQuestionId || metadata.questionId;
+    evaluations.set(threadId, [...(evaluations.get(threadId) || []), metadata]);
+  }
+
+  const topics = new Map<string, TopicReport & { totalScore: number; paths: Set<string> }>();
+  for (const question of session.questionsAsked) {
+    if (question.score === undefined) continue;
+
+    const key = question.topic.toLowerCase();
+    if (!topics.has(key)) {
+      topics.set(key, {
+        topic: question.topic,
+        category: question.category,
+        questionsAnswered: 0,
+        averageScore: 0,
+        strengths: [],
+        missedPoints: [],
+        files: [],
+        totalScore: 0,
+        paths: new Set(),
+      });
+    }
+
+    const entry = topics.get(key)!;
+    const thread = evaluations.get(question.id) || [];
+    entry.questionsAnswered += 1;
+    entry.totalScore += question.score;
+    for (const strength of thread.flatMap(evaluation => evaluation.strengths || [])) {
+      if (!entry.strengths.includes(strength)) entry.strengths.push(strength);
+    }
+    for (const point of thread[thread.length - 1]?.missedPoints || []) {
+      if (!entry.missedPoints.includes(point)) entry.missedPoints.push(point);
+    }
+    for (const path of question.relatedFiles) entry.paths.add(path);
+  }
+
+  return Array.from(topics.values()).map(({ totalScore, paths, ...topic }) => ({
+    ...topic,
+    averageScore: Math.round(totalScore / topic.questionsAnswered),
+    files: linkFiles(session, Array.from(paths).slice(0, MAX_FILES_PER_TOPIC)),
+  }));
+}
+
+// Used when the model is unavailable: point back at the code behind each missed point
+function fallbackRecommendations(weakAreas: TopicReport[]): string[] {
+  return weakAreas.slice(0, MAX_RECOMMENDATIONS).map(area => {
+    const files = area.files.map(file => file.path).join(', ');
+    const missed = area.missedPoints[0];
+    return `Review ${area.topic}${files ? ` in ${files}` : ''}${missed ? ` until you can explain: ${missed}` : ''}.`;
+  });
+}
+
+async function recommendStudy(
+  session: InterviewSession,
+  analysis: RepoAnalysis | null,
+  focusAreas: TopicReport[]
+): Promise<string[]> {
+  const areas = focusAreas
+    .map(area => `- ${area.topic} (${area.category}, average ${area.averageScore}/100)
+  Missed: ${area.missedPoints.join('; ') || 'nothing specific'}
+  Files: ${area.files.map(file => file.path).join(', ') || 'unknown'}`)
+    .join('\n');
+
+  const messages: ChatCompletionMessage[] = [
+    {
+      role: 'system',
+      content: 'You are a senior engineer mentoring a candidate after a code-review interview on a specific repository. Give concrete study recommendations: what to read in which files, what to trace or try, and what they should be able to explain afterwards. Only refer to files and concepts listed.',
+    },
+    {
+      role: 'user',
+      content: `Repository: ${session.repoId}
+
+${analysis ? `CODEBASE SUMMARY:\n${analysis.summary}\n\n` : ''}AREAS TO STUDY (weakest first):
+${areas}
+
+Write up to ${MAX_RECOMMENDATIONS} study recommendations in JSON format:
+{
+  "recommendations": ["One actionable recommendation, naming the files to read"]
+}`,
+    },
+  ];
+
+  try {
+    const result = await generateStructuredCompletion<{ recommendations?: string[] }>(messages, {
+      temperature: 0.4,
+      task: 'study-recommendations',
+      maxTokens: 1024,
+    });
+    const recommendations = (result.recommendations || [])
+      .filter(item => typeof item === 'string' && item.trim())
+      .slice(0, MAX_RECOMMENDATIONS);
+    return recommendations.length > 0 ? recommendations : fallbackRecommendations(focusAreas);
+  } catch (error) {
+    console.error('Error generating study recommendations:', error);
+    return fallbackRecommendations(focusAreas);
+  }
+}
+
+/**
+ * Build the end-of-interview scorecard: per-topic scores, strengths and missed
+ * points from the evaluation messages, an overall rating, the weak areas with
+ * links to their files, and study recommendations. `analysis` only adds
+ * context to the recommendations and may have expired.
+ */
+export async function generateReport(
+  session: InterviewSession,
+  analysis: RepoAnalysis | null
+): Promise<InterviewReport> {
+  const topics = aggregateTopics(session);
+  const scores = session.questionsAsked
+    .map(q => q.score)
+    .filter((score): score is number => score !== undefined);
+  const overallScore = scores.length > 0
+    ? Math.round(scores.reduce((sum, score) => sum + score, 0) / scores.length)
+    : null;
+
+  const weakAreas = topics
+    .filter(topic => topic.averageScore < WEAK_AREA_SCORE)
+    .sort((a, b) => a.averageScore - b.averageScore);
+
+  // A strong interview still gets recommendations, aimed at its lowest-scoring topics
+  const focusAreas = weakAreas.length > 0
+    ? weakAreas
+    : [...topics].sort((a, b) => a.averageScore - b.averageScore).slice(0, 2);
+  const recommendations = focusAreas.length > 0 ? await recommendStudy(session, analysis, focusAreas) : [];
+
+  return {
+    sessionId: session.sessionId,
+    repoId: session.repoId,
+    repoUrl: session.repoUrl,
+    source: session.source,
+    ref: session.ref,
+    commitSha: session.commitSha,
+    overallScore,
+    rating: overallScore === null ? null : getRating(overallScore),
+    questionsAnswered: countAnswered(session),
+    questionsPlanned: session.plan.questionCount,
+    hintsUsed: session.hintsUsed,
+    timedOut: session.questionsAsked.filter(q => q.timedOut).length,
+    topics,
+    weakAreas,
+    recommendations,
+    startedAt: session.createdAt,
+    endedAt: session.endedAt || session.lastActivity,
+    generatedAt: Date.now(),
+  };
+}
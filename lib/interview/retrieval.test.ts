@@ -0,0 +1,120 @@
+import { describe, expect, it } from 'vitest';
+import { buildSymbolIndex } from './symbolIndex';
+import { chunkRepository, createRetriever, formatChunks, retrieveChunks, tokenize, type ChunkSource } from './retrieval';
+
+function sourceOf(fileContents: Record<string, string>): ChunkSource {
+  return {
+    fileContents,
+    symbols: buildSymbolIndex(Object.entries(fileContents).map(([path, content]) => ({ path, content }))),
+  };
+}
+
+const FILES = {
+  'lib/auth/session.ts': [
+    '/** Creates a signed session cookie */',
+    'export function createSession(userId: string) {',
+    '  return sign(userId);',
+    '}',
+    '',
+    'export function destroySession() {',
+    "  return '';",
+    '}',
+  ].join('\n'),
+  'lib/cache.ts': [
+    'export class RedisCache {',
+    '  get(key: string) {',
+    '    return store.get(key);',
+    '  }',
+    '}',
+  ].join('\n'),
+  'lib/math.ts': 'export const add = (a: number, b: number) => a + b;',
+};
+
+describe('tokenize', () => {
+  it('splits identifiers on camelCase and snake_case and keeps the whole word', () => {
+    expect(tokenize('createSession parse_HTTPResponse')).toEqual([
+      'create', 'session', 'createsession', 'parse', 'http', 'response', 'parse_httpresponse',
+    ]);
+  });
+
+  it('drops stop words and single characters', () => {
+    expect(tokenize('const x = the function for y')).toEqual([]);
+  });
+});
+
+describe('chunkRepository', () => {
+  it('makes one chunk per declaration, keeping its doc comment', () => {
+    const chunks = chunkRepository(sourceOf(FILES));
+    expect(chunks.map(chunk => [chunk.file, chunk.startLine, chunk.endLine, chunk.symbol])).toEqual([
+      ['lib/auth/session.ts', 1, 4, 'createSession'],
+      ['lib/auth/session.ts', 6, 8, 'destroySession'],
+      ['lib/cache.ts', 1, 5, 'RedisCache'],
+      ['lib/math.ts', 1, 1, 'add'],
+    ]);
+  });
+
+  it('windows files without symbols', () => {
+    const lines = Array.from({ length: 130 }, (_, i) => `line ${i}`);
+    const chunks = chunkRepository({ fileContents: { 'notes.txt': lines.join('\n') }, symbols: [] });
+    expect(chunks.map(chunk => [chunk.startLine, chunk.endLine])).toEqual([[1, 60], [61, 120], [121, 130]]);
+  });
+});
+
+describe('retrieveChunks', () => {
+  it('ranks the chunks that match the query first', () => {
+    const chunks = retrieveChunks(sourceOf(FILES), 'where do we create a session?');
+    expect(chunks[0].symbol).toBe('createSession');
+    expect(chunks.map(chunk => chunk.file)).not.toContain('lib/math.ts');
+  });
+
+  it('matches on file paths', () => {
+    expect(retrieveChunks(sourceOf(FILES), 'auth').map(chunk => chunk.file)).toEqual([
+      'lib/auth/session.ts',
+      'lib/auth/session.ts',
+    ]);
+  });
+
+  it('falls back to the first chunks unless only matches are wanted', () => {
+    const source = sourceOf(FILES);
+    expect(retrieveChunks(source, 'kubernetes', { maxChunks: 2 })).toHaveLength(2);
+    expect(retrieveChunks(source, 'kubernetes', { matchesOnly: true })).toEqual([]);
+    expect(retrieveChunks(source, 'kubernetes', { matchesOnly: true, boostFiles: ['lib/math.ts'] })).toEqual([]);
+  });
+
+  it('boosts files, limits chunks per file and restricts to the given files', () => {
+    const source = sourceOf(FILES);
+    expect(retrieveChunks(source, 'session', { boostFiles: ['lib/math.ts'], maxChunksPerFile: 1 }).map(c => c.file)).toEqual([
+      'lib/auth/session.ts',
+      'lib/math.ts',
+    ]);
+    expect(retrieveChunks(source, 'session get', { files: ['lib/cache.ts'] }).map(c => c.symbol)).toEqual(['RedisCache']);
+  });
+
+  it('stays within the token budget', () => {
+    expect(retrieveChunks(sourceOf(FILES), 'session', { maxTokens: 1 })).toEqual([]);
+  });
+});
+
+describe('createRetriever', () => {
+  it('builds the index once per analysis and file selection', () => {
+    const source = sourceOf(FILES);
+    const first = createRetriever(source)('session');
+    expect(retrieveChunks(source, 'session')[0]).toBe(first[0]);
+    expect(createRetriever(source, ['lib/auth/session.ts'])('session')[0]).toBe(
+      retrieveChunks(source, 'session', { files: ['lib/auth/session.ts', 'lib/auth/session.ts'] })[0]
+    );
+    expect(createRetriever(source, ['lib/auth/session.ts'])('session')[0]).not.toBe(first[0]);
+    expect(createRetriever(sourceOf(FILES))('session')[0]).not.toBe(first[0]);
+  });
+});
+
+describe('formatChunks', () => {
+  it('orders chunks by file and line', () => {
+    const chunks = chunkRepository(sourceOf(FILES));
+    expect(formatChunks([chunks[3], chunks[1], chunks[0]]).split('\n').filter(line => line.startsWith('==='))).toEqual([
+      '=== lib/auth/session.ts (lines 1-4) ===',
+      '=== lib/auth/session.ts (lines 6-8) ===',
+      '=== lib/math.ts (lines 1-1) ===',
+    ]);
+  });
+});
@@ -0,0 +1,250 @@
+import { estimateTokens } from '@/lib/ingest';
+import type { CodeSymbol, RepoAnalysis } from '@/types/interview';
+
+export interface CodeChunk {
+  file: string;
+  startLine: number;
+  endLine: number;
+  text: string;
+  /** The declaration the chunk covers, when it lines up with one */
+  symbol?: string;
+}
+
+/** What chunking needs from an analysis; a fetched repo's files and symbol index work too */
+export type ChunkSource = Pick<RepoAnalysis, 'fileContents' | 'symbols'>;
+
+interface RetrieveOptions {
+  /** Token budget for all returned chunks together */
+  maxTokens?: number;
+  maxChunks?: number;
+  /** Files known to matter (e.g. a question's related files) rank higher */
+  boostFiles?: string[];
+  /** Spread context across files instead of returning one file's every chunk */
+  maxChunksPerFile?: number;
+  /** Only consider chunks from these files (e.g. an interview plan's focus paths) */
+  files?: string[];
+  /** Return nothing, rather than the first chunks, when no chunk matches the query */
+  matchesOnly?: boolean;
+}
+
+interface ChunkIndex {
+  chunks: CodeChunk[];
+  termFrequencies: Map<string, number>[];
+  lengths: number[];
+  averageLength: number;
+  documentFrequency: Map<string, number>;
+}
+
+const MAX_CHUNK_LINES = 60;
+// BM25 parameters; the usual defaults
+const K1 = 1.2;
+const B = 0.75;
+const BOOST = 1.5;
+
+const STOP_WORDS = new Set([
+  'the', 'and', 'for', 'this', 'that', 'with', 'from', 'are', 'was', 'not', 'but', 'you', 'your', 'how',
+  'what', 'why', 'when', 'where', 'which', 'does', 'its', 'into', 'they', 'their', 'there', 'can', 'will',
+  'const', 'let', 'var', 'return', 'import', 'export', 'function', 'def', 'self', 'new', 'true', 'false', 'null',
+]);
+
+/** Lowercased words, with identifiers also split on camelCase and snake_case boundaries */
+export function tokenize(text: string): string[] {
+  const tokens: string[] = [];
+  for (const word of text.match(/[A-Za-z_][A-Za-z0-9_]*/g) || []) {
+    const parts = word
+      .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+      .replace(/([A-Z]+)([A-Z][a-z])/g, '$1 $2')
+      .split(/[\s_]+/)
+      .map(part => part.toLowerCase())
+      .filter(part => part.length > 1 && !STOP_WORDS.has(part));
+    tokens.push(...parts);
+    const whole = word.toLowerCase();
+    if (parts.length > 1 && !STOP_WORDS.has(whole)) tokens.push(whole);
+  }
+  return tokens;
+}
+
+// Fixed windows for code no declaration covers, preferring to break at blank lines
+function windowChunks(file: string, lines: string[], start: number, end: number): CodeChunk[] {
+  const chunks: CodeChunk[] = [];
+  let cursor = start;
+  while (cursor <= end) {
+    let windowEnd = Math.min(end, cursor + MAX_CHUNK_LINES - 1);
+    if (windowEnd < end) {
+      for (let line = windowEnd; line > cursor + MAX_CHUNK_LINES / 2; line--) {
+        if (lines[line - 1].trim() === '') {
+          windowEnd = line;
+          break;
+        }
+      }
+    }
+    const text = lines.slice(cursor - 1, windowEnd).join('\n');
+    if (text.trim()) chunks.push({ file, startLine: cursor, endLine: windowEnd, text });
+    cursor = windowEnd + 1;
+  }
+  return chunks;
+}
+
+// Declarations become chunks of their own; large classes are split into their methods
+function chunkRanges(symbols: CodeSymbol[]): CodeSymbol[] {
+  const topLevel = symbols.filter(symbol => !symbol.container).sort((a, b) => a.startLine - b.startLine);
+  const ranges: CodeSymbol[] = [];
+  let coveredUntil = 0;
+  for (const symbol of topLevel) {
+    if (symbol.startLine <= coveredUntil) continue;
+    const methods = symbols.filter(s => s.container === symbol.name && s.startLine > symbol.startLine && s.endLine <= symbol.endLine);
+    if (symbol.endLine - symbol.startLine + 1 > MAX_CHUNK_LINES && methods.length > 0) {
+      ranges.push(...methods.sort((a, b) => a.startLine - b.startLine));
+    } else {
+      ranges.push(symbol);
+    }
+    coveredUntil = symbol.endLine;
+  }
+  return ranges;
+}
+
+/**
+ * Split every file into syntax-aware chunks: one per function, class or method
+ * from the symbol index (capped at MAX_CHUNK_LINES), with the code between
+ * declarations and files without any grouped into line windows.
+ */
+export function chunkRepository(analysis: ChunkSource): CodeChunk[] {
+  const symbolsByFile = new Map<string, CodeSymbol[]>();
+  for (const symbol of analysis.symbols || []) {
+    symbolsByFile.set(symbol.file, [...(symbolsByFile.get(symbol.file) || []), symbol]);
+  }
+
+  const chunks: CodeChunk[] = [];
+  for (const [file, content] of Object.entries(analysis.fileContents)) {
+    const lines = content.split('\n');
+    let cursor = 1;
+    for (const range of chunkRanges(symbolsByFile.get(file) || [])) {
+      if (range.startLine < cursor) continue;
+      // Keep a declaration's doc comment in its chunk
+      let start = range.startLine;
+      while (start > cursor && /^\s*(\/\/|\/\*|\*|#)/.test(lines[start - 2])) start--;
+      if (start > cursor) chunks.push(...windowChunks(file, lines, cursor, start - 1));
+      const end = Math.min(range.endLine, lines.length);
+      for (const chunk of windowChunks(file, lines, start, end)) {
+        chunks.push({ ...chunk, symbol: range.container ? `${range.container}.${range.name}` : range.name });
+      }
+      cursor = end + 1;
+    }
+    if (cursor <= lines.length) chunks.push(...windowChunks(file, lines, cursor, lines.length));
+  }
+  return chunks;
+}
+
+function buildIndex(chunks: CodeChunk[]): ChunkIndex {
+  const termFrequencies: Map<string, number>[] = [];
+  const lengths: number[] = [];
+  const documentFrequency = new Map<string, number>();
+
+  for (const chunk of chunks) {
+    // The path is part of the document, so "auth" finds auth/session.ts
+    const tokens = tokenize(`${chunk.file} ${chunk.symbol || ''} ${chunk.text}`);
+    const frequencies = new Map<string, number>();
+    for (const token of tokens) frequencies.set(token, (frequencies.get(token) || 0) + 1);
+    for (const token of frequencies.keys()) documentFrequency.set(token, (documentFrequency.get(token) || 0) + 1);
+    termFrequencies.push(frequencies);
+    lengths.push(tokens.length);
+  }
+
+  const averageLength = lengths.reduce((sum, length) => sum + length, 0) / Math.max(lengths.length, 1);
+  return { chunks, termFrequencies, lengths, averageLength, documentFrequency };
+}
+
+function scoreChunk(index: ChunkIndex, position: number, queryTerms: string[]): number {
+  const frequencies = index.termFrequencies[position];
+  const lengthNorm = 1 - B + B * (index.lengths[position] / (index.averageLength || 1));
+  let score = 0;
+  for (const term of queryTerms) {
+    const frequency = frequencies.get(term);
+    if (!frequency) continue;
+    const df = index.documentFrequency.get(term) || 0;
+    const idf = Math.log(1 + (index.chunks.length - df + 0.5) / (df + 0.5));
+    score += idf * ((frequency * (K1 + 1)) / (frequency + K1 * lengthNorm));
+  }
+  return score;
+}
+
+// Analyses are not modified once built, so their indexes live as long as they do
+const indexCache = new WeakMap<ChunkSource, Map<string, ChunkIndex>>();
+
+// One index per analysis and file selection, however many queries and callers share it
+function getIndex(analysis: ChunkSource, files?: string[]): ChunkIndex {
+  const key = files ? JSON.stringify(Array.from(new Set(files)).sort()) : '';
+  let indexes = indexCache.get(analysis);
+  if (!indexes) {
+    indexes = new Map();
+    indexCache.set(analysis, indexes);
+  }
+
+  let index = indexes.get(key);
+  if (!index) {
+    const allowed = files ? new Set(files) : null;
+    index = buildIndex(chunkRepository(analysis).filter(chunk => !allowed || allowed.has(chunk.file)));
+    indexes.set(key, index);
+  }
+  return index;
+}
+
+export type Retriever = (query: string, options?: Omit<RetrieveOptions, 'files'>) => CodeChunk[];
+
+/**
+ * Rank many queries against the repository's chunks. The index is built on
+ * first use and shared with every later retriever and `retrieveChunks` call on
+ * the same analysis. `files` restricts the index the way RetrieveOptions.files does.
+ */
+export function createRetriever(analysis: ChunkSource, files?: string[]): Retriever {
+  const index = getIndex(analysis, files);
+
+  return (query, options = {}) => {
+    const { maxTokens = 6000, maxChunks = 12, boostFiles = [], maxChunksPerFile = 3, matchesOnly = false } = options;
+    const queryTerms = Array.from(new Set(tokenize(query)));
+    const boosted = new Set(boostFiles);
+
+    const ranked = index.chunks
+      .map((chunk, position) => {
+        const score = scoreChunk(index, position, queryTerms);
+        // Boosted files rank even without a match, unless only matches are wanted
+        const boost = boosted.has(chunk.file) && (score > 0 || !matchesOnly);
+        return { chunk, score: boost ? (score || 0.1) * BOOST : score };
+      })
+      .filter(entry => entry.score > 0)
+      .sort((a, b) => b.score - a.score);
+
+    const candidates = ranked.length > 0 || matchesOnly ? ranked.map(entry => entry.chunk) : index.chunks;
+    const selected: CodeChunk[] = [];
+    const perFile = new Map<string, number>();
+    let tokens = 0;
+    for (const chunk of candidates) {
+      if (selected.length >= maxChunks) break;
+      if ((perFile.get(chunk.file) || 0) >= maxChunksPerFile) continue;
+      const chunkTokens = estimateTokens(chunk.text);
+      if (tokens + chunkTokens > maxTokens) continue;
+      selected.push(chunk);
+      perFile.set(chunk.file, (perFile.get(chunk.file) || 0) + 1);
+      tokens += chunkTokens;
+    }
+    return selected;
+  };
+}
+
+/**
+ * Rank the repository's chunks against a query with BM25 and return the best
+ * ones that fit the token budget. Falls back to the boosted files (or the
+ * first chunks) when nothing matches, so callers always get some code.
+ */
+export function retrieveChunks(analysis: ChunkSource, query: string, options: RetrieveOptions = {}): CodeChunk[] {
+  const { files, ...rest } = options;
+  return createRetriever(analysis, files)(query, rest);
+}
+
+/** Chunks as prompt context, in file order so neighbouring chunks read naturally */
+export function formatChunks(chunks: CodeChunk[]): string {
+  return [...chunks]
+    .sort((a, b) => a.file.localeCompare(b.file) || a.startLine - b.startLine)
+    .map(chunk => `=== ${chunk.file} (lines ${chunk.startLine}-${chunk.endLine}) ===\n${chunk.text}`)
+    .join('\n\n');
+}
@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import { redis } from '@/lib/redis';
+import { countAnswered, DEFAULT_INTERVIEW_PLAN, isPlanComplete } from './interviewPlan';
+import {
+  claimReportGeneration,
+  createSession,
+  getSession,
+  recordReportFailure,
+  releaseReportGeneration,
+  waitForReport,
+} from './sessionManager';
+
+describe('getSession', () => {
+  it('reads sessions saved by the current version as they are', async () => {
+    const session = await createSession('https://github.com/acme/widgets', 'acme/widgets');
+    expect(await getSession(session.sessionId)).toEqual({ ...session, lastActivity: expect.any(Number) });
+  });
+
+  it('upgrades sessions saved before interview plans', async () => {
+    // The shape sessions had when questionsAsked held question IDs and the analysis was embedded
+    await redis.setex('interview:session:legacy', 60, JSON.stringify({
+      sessionId: 'legacy',
+      repoUrl: 'https://github.com/acme/widgets',
+      repoId: 'acme/widgets',
+      selectedDirectories: [],
+      messages: [
+        { id: 'm1', role: 'assistant', content: 'How is caching done?', timestamp: 1, metadata: { type: 'question', questionId: 'q1' } },
+        { id: 'm2', role: 'assistant', content: 'Good answer', timestamp: 2, metadata: { type: 'evaluation', questionId: 'q1', score: 80 } },
+      ],
+      currentQuestion: { id: 'q2', text: 'Why Redis?', relatedFiles: ['lib/redis.ts'], keyPoints: [], codeSnippets: [], difficulty: 'hard', generatedAt: 3 },
+      questionsAsked: ['q1', 'q2'],
+      analysisCache: null,
+      createdAt: 1,
+      lastActivity: 3,
+      status: 'active',
+    }));
+
+    const session = (await getSession('legacy'))!;
+    expect(session.plan).toEqual(DEFAULT_INTERVIEW_PLAN);
+    expect(session).toMatchObject({ hintsUsed: 0, questionDeadline: null, analysisKey: null });
+    expect(session.currentQuestion).toMatchObject({ category: 'architecture', topic: 'Why Redis?' });
+    expect(session.questionsAsked).toEqual([
+      { id: 'q1', text: 'How is caching done?', topic: 'How is caching done?', category: 'architecture', difficulty: 'hard', relatedFiles: [], score: 80 },
+      { id: 'q2', text: 'Why Redis?', topic: 'Why Redis?', category: 'architecture', difficulty: 'hard', relatedFiles: ['lib/redis.ts'], score: undefined },
+    ]);
+    expect(countAnswered(session)).toBe(1);
+    expect(isPlanComplete(session)).toBe(false);
+  });
+});
+
+describe('report generation claims', () => {
+  it('lets one request claim a report and releases only its own claim', async () => {
+    const first = await claimReportGeneration('claimed');
+    expect(first).toEqual(expect.any(String));
+    expect(await claimReportGeneration('claimed')).toBeNull();
+
+    // The claim expired and another request took it over: the first must not release that one
+    await redis.setex('interview:report-lock:claimed', 90, 'second');
+    await releaseReportGeneration('claimed', first!);
+    expect(await claimReportGeneration('claimed')).toBeNull();
+
+    await releaseReportGeneration('claimed', 'second');
+    expect(await claimReportGeneration('claimed')).toEqual(expect.any(String));
+  });
+
+  it('stops waiting once the claimant records a failure, until the next claim', async () => {
+    const session = await createSession('https://github.com/acme/widgets', 'acme/widgets');
+    const claim = (await claimReportGeneration(session.sessionId))!;
+    await recordReportFailure(session.sessionId, 'Model unavailable');
+    await releaseReportGeneration(session.sessionId, claim);
+
+    const started = Date.now();
+    await expect(waitForReport(session.sessionId, 30 * 1000)).rejects.toThrow('Model unavailable');
+    expect(Date.now() - started).toBeLessThan(5 * 1000);
+
+    await claimReportGeneration(session.sessionId);
+    expect(await waitForReport(session.sessionId, 1)).toBeNull();
+  });
+});
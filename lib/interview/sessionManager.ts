@@ -1,24 +1,36 @@
 import { v4 as uuidv4 } from 'uuid';
-import { redis, RedisClient } from '@/lib/redis';
-import type { InterviewSession, ChatMessage, Question, RepoAnalysis } from '@/types/interview';
+import { ensureRedisConnected, redis } from '@/lib/redis';
+import { getCachedAnalysis } from './analysisCache';
+import { combineScores } from './followUpEngine';
+import { countAnswered, DEFAULT_INTERVIEW_PLAN, describePlan, isPlanComplete } from './interviewPlan';
+import type {
+  AskedQuestion,
+  InterviewSession,
+  InterviewPlan,
+  InterviewReport,
+  ChatMessage,
+  Question,
+  RepoAnalysis,
+  FetchedRepo,
+} from '@/types/interview';
 
 const SESSION_PREFIX = 'interview:session:';
 const SESSION_TTL = 60 * 60 * 24; // 24 hours in seconds
+const REPORT_LOCK_PREFIX = 'interview:report-lock:';
+// Outlives a generation (the report route's maxDuration), so a crashed one only blocks retries briefly
+const REPORT_LOCK_TTL = 90;
+const REPORT_FAILURE_PREFIX = 'interview:report-failure:';
+// Outlives the wait of every request that was waiting on the failed generation
+const REPORT_FAILURE_TTL = 60;
+const REPORT_POLL_MS = 1000;
 
-// Ensure Redis is connected before operations
-async function ensureRedisConnected(): Promise<void> {
-  try {
-    await RedisClient.connect();
-  } catch (error) {
-    // If already connected, ignore the error
-    const errorMessage = (error as Error).message;
-    if (errorMessage !== 'Redis is already connecting/connected') {
-      throw error;
-    }
-  }
-}
-
-export async function createSession(repoUrl: string, repoId: string): Promise<InterviewSession> {
+export async function createSession(
+  repoUrl: string,
+  repoId: string,
+  source: InterviewSession['source'] = 'github',
+  repoKey?: string,
+  plan: InterviewPlan = DEFAULT_INTERVIEW_PLAN
+): Promise<InterviewSession> {
   const sessionId = uuidv4();
   const now = Date.now();
 
@@ -27,6 +39,8 @@ export async function createSession(repoUrl: string, repoId: string): Promise<In
     role: 'assistant',
     content: `Welcome to Interview Mode! I'll test your understanding of this repository with challenging technical questions.
 
+**Interview plan:** ${describePlan(plan)}.
+
 Before we begin, would you like to:
 1. **Focus on specific directories** - Type the directory paths (e.g., "src/api, lib/utils")
 2. **Use the entire repository** - Type "entire repo" or "all"
@@ -42,11 +56,16 @@ What would you like to focus on?`,
     sessionId,
     repoUrl,
     repoId,
+    source,
+    repoKey,
     selectedDirectories: [],
     messages: [welcomeMessage],
     currentQuestion: null,
     questionsAsked: [],
-    analysisCache: null,
+    plan,
+    hintsUsed: 0,
+    questionDeadline: null,
+    analysisKey: null,
     createdAt: now,
     lastActivity: now,
     status: 'selecting_dirs',
@@ -67,13 +86,59 @@ export async function getSession(sessionId: string): Promise<InterviewSession |
     }
     
     if (!data) return null;
-    return JSON.parse(data) as InterviewSession;
+    return normalizeSession(JSON.parse(data));
   } catch (error) {
     console.error('Error getting session:', error);
     return null;
   }
 }
 
+function toAskedQuestion(question: Question): AskedQuestion {
+  return {
+    id: question.id,
+    text: question.text,
+    topic: question.topic,
+    category: question.category,
+    difficulty: question.difficulty,
+    relatedFiles: question.relatedFiles,
+  };
+}
+
+// Questions saved before they had a category and topic
+function normalizeQuestion(question: Question): Question {
+  return { ...question, category: question.category ?? 'architecture', topic: question.topic ?? question.text };
+}
+
+// Sessions saved before interview plans recorded only the IDs of the questions asked
+function legacyAskedQuestion(session: InterviewSession, id: string): AskedQuestion {
+  const score = session.messages.find(m => m.metadata?.type === 'evaluation' && m.metadata.questionId === id)?.metadata?.score;
+  if (session.currentQuestion?.id === id) {
+    return { ...toAskedQuestion(session.currentQuestion), score };
+  }
+  const text = session.messages.find(m => m.metadata?.type === 'question' && m.metadata.questionId === id)?.content ?? '';
+  return { id, text, topic: text, category: 'architecture', difficulty: 'hard', relatedFiles: [], score };
+}
+
+/**
+ * Sessions live for a day, so ones saved by an earlier version can still be
+ * read: fields added since then get their defaults and question IDs become
+ * asked questions.
+ */
+function normalizeSession(stored: InterviewSession): InterviewSession {
+  const questionsAsked: (AskedQuestion | string)[] = stored.questionsAsked || [];
+  const session: InterviewSession = {
+    ...stored,
+    messages: stored.messages || [],
+    currentQuestion: stored.currentQuestion ? normalizeQuestion(stored.currentQuestion) : null,
+    plan: stored.plan ?? DEFAULT_INTERVIEW_PLAN,
+    hintsUsed: stored.hintsUsed ?? 0,
+    questionDeadline: stored.questionDeadline ?? null,
+    analysisKey: stored.analysisKey ?? null,
+  };
+  session.questionsAsked = questionsAsked.map(q => (typeof q === 'string' ? legacyAskedQuestion(session, q) : q));
+  return session;
+}
+
 export async function saveSession(session: InterviewSession): Promise<void> {
   try {
     await ensureRedisConnected();
@@ -143,19 +208,38 @@ export async function setSelectedDirectories(
   return session;
 }
 
-export async function setAnalysisCache(
+// Records the revision the repository was fetched at, so later turns can cite it
+export async function setRepoRevision(
   sessionId: string,
-  analysis: RepoAnalysis
+  revision: Pick<FetchedRepo, 'ref' | 'commitSha' | 'subdirectory'>
 ): Promise<InterviewSession | null> {
   const session = await getSession(sessionId);
   if (!session) return null;
 
-  session.analysisCache = analysis;
+  session.ref = revision.ref;
+  session.commitSha = revision.commitSha;
+  session.subdirectory = revision.subdirectory;
+  await saveSession(session);
+  return session;
+}
+
+export async function setSessionAnalysis(
+  sessionId: string,
+  analysisKey: string
+): Promise<InterviewSession | null> {
+  const session = await getSession(sessionId);
+  if (!session) return null;
+
+  session.analysisKey = analysisKey;
   session.status = 'active';
   await saveSession(session);
   return session;
 }
 
+export async function getSessionAnalysis(session: InterviewSession): Promise<RepoAnalysis | null> {
+  return session.analysisKey ? getCachedAnalysis(session.analysisKey) : null;
+}
+
 export async function setCurrentQuestion(
   sessionId: string,
   question: Question
@@ -164,41 +248,168 @@ export async function setCurrentQuestion(
   if (!session) return null;
 
   session.currentQuestion = question;
-  session.questionsAsked.push(question.id);
+  session.questionsAsked.push(toAskedQuestion(question));
+  session.questionDeadline = getQuestionDeadline(session);
   await saveSession(session);
   return session;
 }
 
-export async function clearCurrentQuestion(sessionId: string): Promise<InterviewSession | null> {
+// The clock starts once the question is ready to show
+function getQuestionDeadline(session: InterviewSession): number | null {
+  return session.plan.timeLimitSeconds ? Date.now() + session.plan.timeLimitSeconds * 1000 : null;
+}
+
+/**
+ * Record a partial answer and make its follow-up the current question. The
+ * follow-up is not a new planned question: its answer joins the thread of
+ * `parentQuestionId` and is scored with it.
+ */
+export async function startFollowUp(
+  sessionId: string,
+  parentQuestionId: string,
+  score: number,
+  followUp: Question
+): Promise<InterviewSession | null> {
   const session = await getSession(sessionId);
   if (!session) return null;
 
-  session.currentQuestion = null;
+  const asked = session.questionsAsked.find(q => q.id === parentQuestionId);
+  if (asked) {
+    asked.answerScores = [...(asked.answerScores || []), score];
+  }
+  session.currentQuestion = followUp;
+  session.questionDeadline = getQuestionDeadline(session);
   await saveSession(session);
   return session;
 }
 
-export async function endSession(sessionId: string): Promise<InterviewSession | null> {
+/** Count a hint against the plan's allowance */
+export async function recordHint(sessionId: string): Promise<InterviewSession | null> {
   const session = await getSession(sessionId);
   if (!session) return null;
 
-  const endMessage: ChatMessage = {
+  session.hintsUsed += 1;
+  await saveSession(session);
+  return session;
+}
+
+function appendEndMessage(session: InterviewSession, reason: string): void {
+  session.messages.push({
     id: uuidv4(),
     role: 'assistant',
-    content: `Interview session ended. You answered ${session.questionsAsked.length} questions. Thanks for practicing!`,
+    content: `${reason} You answered ${countAnswered(session)} of ${session.plan.questionCount} planned questions. Thanks for practicing!`,
     timestamp: Date.now(),
     metadata: {
       type: 'system',
     },
-  };
-
-  session.messages.push(endMessage);
+  });
   session.status = 'ended';
+  session.endedAt = Date.now();
   session.currentQuestion = null;
+  session.questionDeadline = null;
+}
+
+/**
+ * Close the current question's thread with the score of its last answer. The
+ * thread's combined score is recorded so later questions adapt their
+ * difficulty and category, and the session ends once the plan's last
+ * question is answered. An answer past the time limit is recorded as a
+ * timed-out zero.
+ */
+export async function completeQuestion(
+  sessionId: string,
+  questionId: string,
+  score: number,
+  timedOut: boolean = false
+): Promise<InterviewSession | null> {
+  const session = await getSession(sessionId);
+  if (!session) return null;
+
+  const asked = session.questionsAsked.find(q => q.id === questionId);
+  if (asked) {
+    asked.answerScores = [...(asked.answerScores || []), score];
+    asked.score = combineScores(asked.answerScores);
+    if (timedOut) asked.timedOut = true;
+  }
+  session.currentQuestion = null;
+  session.questionDeadline = null;
+
+  if (isPlanComplete(session)) {
+    appendEndMessage(session, 'That was the last question in the interview plan.');
+  }
+  await saveSession(session);
+  return session;
+}
+
+export async function endSession(sessionId: string): Promise<InterviewSession | null> {
+  const session = await getSession(sessionId);
+  if (!session) return null;
+  // Already ended when the plan completed; keep that end message
+  if (session.status === 'ended') return session;
+
+  appendEndMessage(session, 'Interview session ended.');
   await saveSession(session);
   return session;
 }
 
+export async function setSessionReport(
+  sessionId: string,
+  report: InterviewReport
+): Promise<InterviewSession | null> {
+  const session = await getSession(sessionId);
+  if (!session) return null;
+
+  session.report = report;
+  await saveSession(session);
+  return session;
+}
+
+/**
+ * Claim the generation of a session's report, so concurrent first requests do
+ * not each generate one. Returns the claim's token, or null while another
+ * request holds the claim. A new claim clears the failure of an earlier one.
+ */
+export async function claimReportGeneration(sessionId: string): Promise<string | null> {
+  await ensureRedisConnected();
+  const token = uuidv4();
+  if (!(await redis.setIfAbsent(`${REPORT_LOCK_PREFIX}${sessionId}`, REPORT_LOCK_TTL, token))) {
+    return null;
+  }
+  await redis.del(`${REPORT_FAILURE_PREFIX}${sessionId}`);
+  return token;
+}
+
+/**
+ * Release a claim. Only deletes the lock while it still holds `token`: a claim
+ * that outlived REPORT_LOCK_TTL may have been taken over by another request.
+ */
+export async function releaseReportGeneration(sessionId: string, token: string): Promise<void> {
+  await ensureRedisConnected();
+  await redis.delIfEquals(`${REPORT_LOCK_PREFIX}${sessionId}`, token);
+}
+
+/** Record why a claimed generation failed, so requests waiting on it stop waiting */
+export async function recordReportFailure(sessionId: string, message: string): Promise<void> {
+  await ensureRedisConnected();
+  await redis.setex(`${REPORT_FAILURE_PREFIX}${sessionId}`, REPORT_FAILURE_TTL, message);
+}
+
+/**
+ * Wait for the request holding the claim to save the report; null if it does
+ * not within `timeoutMs`. Throws with the recorded message if it failed.
+ */
+export async function waitForReport(sessionId: string, timeoutMs: number): Promise<InterviewReport | null> {
+  const deadline = Date.now() + timeoutMs;
+  while (Date.now() < deadline) {
+    await new Promise(resolve => setTimeout(resolve, REPORT_POLL_MS));
+    const session = await getSession(sessionId);
+    if (session?.report) return session.report;
+    const failure = await redis.get(`${REPORT_FAILURE_PREFIX}${sessionId}`);
+    if (failure !== null) throw new Error(failure);
+  }
+  return null;
+}
+
 export function createMessage(
   role: ChatMessage['role'],
   content: string,
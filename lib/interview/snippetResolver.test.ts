@@ -0,0 +1,103 @@
+import { describe, expect, it } from 'vitest';
+import type { CodeSymbol, RepoAnalysis } from '@/types/interview';
+import { buildSymbolIndex } from './symbolIndex';
+import { resolveSnippet, resolveSnippets } from './snippetResolver';
+
+const SSE = [
+  '// Server-sent events helpers',
+  '',
+  'export type SSESend = (event: string, data: unknown) => void',
+  '',
+  '// Check whether the client asked for an event stream',
+  'export function wantsEventStream(request: Request): boolean {',
+  "  return (request.headers.get('accept') || '').includes('text/event-stream')",
+  '}',
+  '',
+  'export function createSSEStream(handler: (send: SSESend) => Promise<void>) {',
+  '  const encoder = new TextEncoder()',
+  '  return encoder',
+  '}',
+].join('\n');
+
+function analysisOf(fileContents: Record<string, string>, symbols?: CodeSymbol[]): RepoAnalysis {
+  return {
+    structure: [],
+    mainEntryPoints: [],
+    dependencies: {},
+    patterns: [],
+    librariesUsed: [],
+    summary: '',
+    symbols: symbols ?? buildSymbolIndex(Object.entries(fileContents).map(([path, content]) => ({ path, content }))),
+    analyzedAt: 0,
+    fileContents,
+  };
+}
+
+function lines(snippet: { startLine: number; endLine: number } | null): [number, number] | null {
+  return snippet ? [snippet.startLine, snippet.endLine] : null;
+}
+
+describe('resolveSnippet', () => {
+  const analysis = analysisOf({ 'lib/sse.ts': SSE });
+
+  it('snaps a range inside a declaration to the whole declaration', () => {
+    expect(lines(resolveSnippet(analysis, { file: 'lib/sse.ts', startLine: 7, endLine: 7 }))).toEqual([6, 8]);
+  });
+
+  it('keeps a type alias without a semicolon to its own line', () => {
+    const snippet = resolveSnippet(analysis, { file: 'lib/sse.ts', startLine: 3, endLine: 3, relevance: 'The `SSESend` type' });
+    expect(lines(snippet)).toEqual([3, 3]);
+    expect(snippet!.code).toBe('export type SSESend = (event: string, data: unknown) => void');
+    expect(snippet!.language).toBe('typescript');
+  });
+
+  it('resolves bare file names and relocates ranges that miss the named symbol', () => {
+    const snippet = resolveSnippet(analysis, {
+      file: 'sse.ts',
+      startLine: 1,
+      endLine: 2,
+      relevance: '`createSSEStream` wraps the handler',
+    });
+    expect(snippet!.file).toBe('lib/sse.ts');
+    expect(lines(snippet)).toEqual([10, 13]);
+  });
+
+  it('does not snap to symbols whose ranges overlap', () => {
+    // A misdetected range, as older indexes produced for type aliases without semicolons
+    const symbols = buildSymbolIndex([{ path: 'lib/sse.ts', content: SSE }]).map(symbol =>
+      symbol.name === 'SSESend' ? { ...symbol, endLine: 7 } : symbol
+    );
+    const overlapping = analysisOf({ 'lib/sse.ts': SSE }, symbols);
+
+    // Either range may be the wrong one, so neither is a target
+    expect(lines(resolveSnippet(overlapping, { file: 'lib/sse.ts', startLine: 3, endLine: 3 }))).toEqual([3, 3]);
+    expect(lines(resolveSnippet(overlapping, { file: 'lib/sse.ts', startLine: 7, endLine: 7 }))).toEqual([7, 7]);
+    expect(lines(resolveSnippet(overlapping, { file: 'lib/sse.ts', startLine: 11, endLine: 11 }))).toEqual([10, 13]);
+  });
+
+  it('returns null when neither the range nor the rest of the file matches the relevance text', () => {
+    expect(resolveSnippet(analysis, {
+      file: 'lib/sse.ts',
+      startLine: 6,
+      endLine: 8,
+      relevance: 'Retries failed uploads with exponential backoff',
+    })).toBeNull();
+  });
+
+  it('returns null for unknown files and blank out-of-range snippets with nothing to relocate to', () => {
+    expect(resolveSnippet(analysis, { file: 'missing.ts', startLine: 1, endLine: 2 })).toBeNull();
+    expect(resolveSnippet(analysis, { file: 'lib/sse.ts', startLine: 200, endLine: 210 })).toBeNull();
+  });
+});
+
+describe('resolveSnippets', () => {
+  it('drops unresolvable snippets and duplicates', () => {
+    const analysis = analysisOf({ 'lib/sse.ts': SSE });
+    const resolved = resolveSnippets(analysis, [
+      { file: 'lib/sse.ts', startLine: 6, endLine: 6 },
+      { file: 'lib/sse.ts', startLine: 7, endLine: 8 },
+      { file: 'missing.ts', startLine: 1, endLine: 1 },
+    ]);
+    expect(resolved.map(lines)).toEqual([[6, 8]]);
+  });
+});
@@ -0,0 +1,226 @@
+import { v4 as uuidv4 } from 'uuid';
+import { getLanguageFromPath } from '@/lib/ingest/filters';
+import type { CodeSnippet, CodeSymbol, RepoAnalysis } from '@/types/interview';
+
+/** A snippet as proposed by the model: the range is a guess until resolved */
+export interface ProposedSnippet {
+  file: string;
+  startLine: number;
+  endLine: number;
+  relevance?: string;
+}
+
+const MAX_SNIPPET_LINES = 60;
+// Window shown around a fuzzy match that is not inside any indexed symbol
+const CONTEXT_LINES = 8;
+
+// Too common in code and prose to say anything about where a snippet belongs
+const STOP_WORDS = new Set([
+  'the', 'and', 'for', 'this', 'that', 'with', 'from', 'how', 'why', 'what', 'when', 'where', 'which',
+  'shows', 'show', 'code', 'file', 'function', 'method', 'class', 'line', 'lines', 'here', 'its', 'are',
+  'is', 'in', 'of', 'to', 'a', 'an', 'it', 'be', 'by', 'on', 'as', 'or', 'if', 'not', 'use', 'uses',
+  'used', 'relevant', 'question', 'implementation', 'handles', 'handling', 'return', 'returns', 'const',
+]);
+
+export function extractCodeSnippet(
+  content: string,
+  startLine: number,
+  endLine: number,
+  file: string
+): CodeSnippet {
+  const lines = content.split('\n');
+  const snippetLines = lines.slice(startLine - 1, endLine);
+
+  return {
+    id: uuidv4(),
+    file,
+    startLine,
+    endLine,
+    code: snippetLines.join('\n'),
+    language: getLanguageFromPath(file),
+    annotations: [],
+  };
+}
+
+// Models often drop a leading directory or use a bare file name
+function resolveFilePath(analysis: RepoAnalysis, file: string): string | null {
+  const normalized = file.trim().replace(/^\.?\//, '');
+  if (normalized in analysis.fileContents) return normalized;
+
+  const paths = Object.keys(analysis.fileContents);
+  const bySuffix = paths.filter(path => path.endsWith(`/${normalized}`));
+  if (bySuffix.length === 1) return bySuffix[0];
+
+  const baseName = normalized.split('/').pop();
+  const byName = paths.filter(path => path.split('/').pop() === baseName);
+  return byName.length === 1 ? byName[0] : null;
+}
+
+// Identifiers and words from the relevance text; backticked code counts double
+function extractSearchTerms(relevance: string): Map<string, number> {
+  const terms = new Map<string, number>();
+  const add = (word: string, weight: number) => {
+    const lower = word.toLowerCase();
+    if (lower.length < 3 || STOP_WORDS.has(lower)) return;
+    terms.set(word, Math.max(terms.get(word) || 0, weight));
+  };
+
+  for (const match of relevance.matchAll(/`([^`]+)`/g)) {
+    for (const word of match[1].match(/[A-Za-z_$][\w$]*/g) || []) add(word, 2);
+  }
+  for (const word of relevance.match(/[A-Za-z_$][\w$]*/g) || []) {
+    // camelCase, snake_case and PascalCase words are almost certainly identifiers
+    add(word, /[a-z][A-Z]|_|^[A-Z][a-z]+[A-Z]/.test(word) ? 2 : 1);
+  }
+  return terms;
+}
+
+function scoreLine(line: string, terms: Map<string, number>): number {
+  let score = 0;
+  const lowerLine = line.toLowerCase();
+  for (const [term, weight] of terms) {
+    if (line.includes(term)) score += weight;
+    else if (lowerLine.includes(term.toLowerCase())) score += weight / 2;
+  }
+  return score;
+}
+
+function isBlank(lines: string[], start: number, end: number): boolean {
+  return lines.slice(start - 1, end).every(line => line.trim() === '');
+}
+
+// Two ranges that share lines without one nesting inside the other
+function overlaps(a: CodeSymbol, b: CodeSymbol): boolean {
+  if (a.startLine > b.endLine || b.startLine > a.endLine) return false;
+  const aContainsB = a.startLine <= b.startLine && a.endLine >= b.endLine;
+  const bContainsA = b.startLine <= a.startLine && b.endLine >= a.endLine;
+  return !aContainsB && !bContainsA;
+}
+
+// The smallest indexed declaration that contains the whole range. A declaration
+// that partly overlaps another has a misdetected range and is never a target.
+function findEnclosingSymbol(symbols: CodeSymbol[], file: string, start: number, end: number): CodeSymbol | null {
+  const inFile = symbols.filter(symbol => symbol.file === file);
+  let best: CodeSymbol | null = null;
+  for (const symbol of inFile) {
+    if (symbol.startLine > start || symbol.endLine < end) continue;
+    if (inFile.some(other => other !== symbol && overlaps(symbol, other))) continue;
+    if (!best || symbol.endLine - symbol.startLine < best.endLine - best.startLine) best = symbol;
+  }
+  return best;
+}
+
+// Expand a range to its enclosing function or class when that stays readable
+function snapToSymbol(
+  symbols: CodeSymbol[],
+  file: string,
+  start: number,
+  end: number
+): { start: number; end: number } {
+  const enclosing = findEnclosingSymbol(symbols, file, start, end);
+  if (enclosing && enclosing.endLine - enclosing.startLine + 1 <= MAX_SNIPPET_LINES) {
+    return { start: enclosing.startLine, end: enclosing.endLine };
+  }
+  return { start, end: Math.min(end, start + MAX_SNIPPET_LINES - 1) };
+}
+
+// Symbols of the file the relevance text names, most specific first: `Store.get` beats `Store` and `get`
+function findNamedSymbols(symbols: CodeSymbol[], file: string, terms: Map<string, number>): CodeSymbol[] {
+  const score = (symbol: CodeSymbol) =>
+    (terms.get(symbol.name) || 0) + (symbol.container && terms.has(symbol.container) ? 2 : 0);
+  return symbols
+    .filter(symbol => symbol.file === file && terms.has(symbol.name))
+    .sort((a, b) => score(b) - score(a) || (a.endLine - a.startLine) - (b.endLine - b.startLine));
+}
+
+// The declaration around a line, or a window of context when there is none to snap to
+function snapOrWindow(
+  symbols: CodeSymbol[],
+  file: string,
+  lines: string[],
+  line: number
+): { start: number; end: number } {
+  const snapped = snapToSymbol(symbols, file, line, line);
+  if (snapped.start !== line || snapped.end !== line) return snapped;
+  return {
+    start: Math.max(1, line - CONTEXT_LINES),
+    end: Math.min(lines.length, line + CONTEXT_LINES),
+  };
+}
+
+// Find where the relevance text points: a symbol it names, or else the best-matching line
+function relocate(
+  symbols: CodeSymbol[],
+  file: string,
+  lines: string[],
+  terms: Map<string, number>
+): { start: number; end: number } | null {
+  if (terms.size === 0) return null;
+
+  const named = findNamedSymbols(symbols, file, terms);
+  if (named.length > 0) return snapOrWindow(symbols, file, lines, named[0].startLine);
+
+  let bestLine = -1;
+  let bestScore = 0;
+  lines.forEach((line, index) => {
+    const score = scoreLine(line, terms);
+    if (score > bestScore) {
+      bestScore = score;
+      bestLine = index + 1;
+    }
+  });
+  // A single common word is not enough evidence to move a snippet
+  if (bestLine < 0 || bestScore < 2) return null;
+  return snapOrWindow(symbols, file, lines, bestLine);
+}
+
+/**
+ * Turn a model-proposed snippet into one that shows real code: the file must
+ * exist, the range must be in bounds and non-blank, and when the relevance text
+ * names code the range has to contain it. Wrong ranges are relocated by
+ * fuzzy-matching the relevance text; valid ones are snapped to the enclosing
+ * function or class. Returns null when the snippet cannot be resolved.
+ */
+export function resolveSnippet(analysis: RepoAnalysis, proposed: ProposedSnippet): CodeSnippet | null {
+  const file = resolveFilePath(analysis, proposed.file || '');
+  if (!file) return null;
+
+  const content = analysis.fileContents[file];
+  const lines = content.split('\n');
+  const symbols = analysis.symbols || [];
+  const terms = extractSearchTerms(proposed.relevance || '');
+
+  const start = Math.max(1, Math.floor(Number(proposed.startLine) || 0));
+  let end = Math.min(lines.length, Math.floor(Number(proposed.endLine) || 0));
+  if (end < start && start <= lines.length) end = Math.min(lines.length, start + CONTEXT_LINES * 2);
+
+  const inBounds = start <= lines.length && end >= start && !isBlank(lines, start, end);
+  const rangeText = inBounds ? lines.slice(start - 1, end) : [];
+  // When the relevance text names a declaration of this file, the range has to overlap it
+  const named = findNamedSymbols(symbols, file, terms);
+  const matchesRelevance = named.length > 0
+    ? named.some(symbol => symbol.startLine <= end && symbol.endLine >= start)
+    : terms.size === 0 || rangeText.some(line => scoreLine(line, terms) >= 1);
+
+  // A range that does not show what the relevance text describes is moved to code that does, or dropped
+  const range = inBounds && matchesRelevance
+    ? snapToSymbol(symbols, file, start, end)
+    : relocate(symbols, file, lines, terms);
+  if (!range) return null;
+
+  return extractCodeSnippet(content, range.start, range.end, file);
+}
+
+/** Resolve every proposed snippet, dropping unresolvable ones and duplicates */
+export function resolveSnippets(analysis: RepoAnalysis, proposed: ProposedSnippet[]): CodeSnippet[] {
+  const resolved: CodeSnippet[] = [];
+  for (const snippet of proposed || []) {
+    const result = resolveSnippet(analysis, snippet);
+    if (!result) continue;
+    const duplicate = resolved.some(
+      existing => existing.file === result.file && existing.startLine === result.startLine && existing.endLine === result.endLine
+    );
+    if (!duplicate) resolved.push(result);
+  }
+  return resolved;
+}
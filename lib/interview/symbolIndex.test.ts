@@ -0,0 +1,249 @@
+import { describe, expect, it } from 'vitest';
+import type { CodeSymbol } from '@/types/interview';
+import { buildSymbolIndex, searchSymbols } from './symbolIndex';
+
+function index(path: string, lines: string[]): CodeSymbol[] {
+  return buildSymbolIndex([{ path, content: lines.join('\n') }]);
+}
+
+function range(symbols: CodeSymbol[], name: string): [number, number] {
+  const symbol = symbols.find(s => s.name === name);
+  expect(symbol, name).toBeDefined();
+  return [symbol!.startLine, symbol!.endLine];
+}
+
+describe('buildSymbolIndex', () => {
+  it('spans the body of a function whose parameters end in a default object', () => {
+    const symbols = index('collect.ts', [
+      'export async function collectFiles(',
+      '  candidates: CandidateFile[],',
+      '  options: IngestOptions = {}',
+      '): Promise<CollectResult> {',
+      '  const files = [];',
+      '  return { files };',
+      '}',
+      '',
+      'export function next() {}',
+    ]);
+
+    expect(range(symbols, 'collectFiles')).toEqual([1, 7]);
+    expect(symbols.find(s => s.name === 'collectFiles')!.signature).toBe(
+      'export async function collectFiles( candidates: CandidateFile[], options: IngestOptions = {} ): Promise<CollectResult>'
+    );
+    expect(range(symbols, 'next')).toEqual([9, 9]);
+  });
+
+  it('ends a type alias without a semicolon on its own line', () => {
+    const symbols = index('sse.ts', [
+      'export type SSESend = (event: string, data: unknown) => void',
+      '',
+      '// Check whether the client asked for an event stream',
+      'export function wantsEventStream(request: Request): boolean {',
+      "  return (request.headers.get('accept') || '').includes('text/event-stream')",
+      '}',
+    ]);
+
+    expect(range(symbols, 'SSESend')).toEqual([1, 1]);
+    expect(symbols.find(s => s.name === 'SSESend')!.signature).toBe(
+      'export type SSESend = (event: string, data: unknown) => void'
+    );
+    expect(range(symbols, 'wantsEventStream')).toEqual([4, 6]);
+  });
+
+  it('follows declarations that carry on over several lines', () => {
+    const symbols = index('types.ts', [
+      'export type Status =',
+      "  | 'active'",
+      "  | 'done'",
+      'export const LIMITS = [',
+      '  1,',
+      '  2,',
+      ']',
+      'export const double = (value: number) =>',
+      '  value * 2;',
+      'const prompt = `',
+      '  multi-line ${value}',
+      '`',
+      'const last = 1',
+    ]);
+
+    expect(range(symbols, 'Status')).toEqual([1, 3]);
+    expect(range(symbols, 'LIMITS')).toEqual([4, 7]);
+    expect(range(symbols, 'double')).toEqual([8, 9]);
+    expect(range(symbols, 'prompt')).toEqual([10, 12]);
+    expect(range(symbols, 'last')).toEqual([13, 13]);
+  });
+
+  it('indexes class methods with their container', () => {
+    const symbols = index('store.ts', [
+      '/** Keeps values in memory */',
+      'export class Store {',
+      '  private values = new Map<string, string>();',
+      '',
+      '  get(key: string): string | undefined {',
+      '    return this.values.get(key);',
+      '  }',
+      '',
+      '  private set(',
+      '    key: string,',
+      '    options: { ttl?: number } = {}',
+      '  ): void {',
+      "    if (options.ttl) this.values.set(key, '');",
+      '  }',
+      '}',
+    ]);
+
+    expect(range(symbols, 'Store')).toEqual([2, 15]);
+    expect(symbols.find(s => s.name === 'Store')!.doc).toBe('Keeps values in memory');
+    expect(symbols.filter(s => s.kind === 'method').map(s => [s.name, s.startLine, s.endLine, s.exported])).toEqual([
+      ['get', 5, 7, true],
+      ['set', 9, 14, false],
+    ]);
+    expect(symbols.every(s => s.kind !== 'method' || s.container === 'Store')).toBe(true);
+  });
+
+  it('ignores braces and parentheses inside strings, comments and regex literals', () => {
+    const symbols = index('parse.ts', [
+      "const OPEN = /[({]/; // an unmatched ( or {",
+      'export function parse(text: string) {',
+      "  const close = '})';",
+      '  /* { */',
+      '  return text.match(OPEN);',
+      '}',
+    ]);
+
+    expect(range(symbols, 'OPEN')).toEqual([1, 1]);
+    expect(range(symbols, 'parse')).toEqual([2, 6]);
+  });
+
+  it('marks declarations exported by an export list or a default export', () => {
+    const symbols = index('store.ts', [
+      'function get() {}',
+      'class Store {}',
+      'const limit = 10;',
+      'function unused() {}',
+      'import { Cache } from "./cache";',
+      'export {',
+      '  get,',
+      '  limit as maxEntries,',
+      '  Cache,',
+      '};',
+      'export default Store;',
+    ]);
+
+    expect(symbols.map(s => [s.name, s.kind, s.exported])).toEqual([
+      ['get', 'function', true],
+      ['Store', 'class', true],
+      ['limit', 'variable', true],
+      ['unused', 'function', false],
+      ['Cache', 'reexport', true],
+    ]);
+    expect(range(symbols, 'Cache')).toEqual([6, 10]);
+  });
+
+  it('indexes re-exports from other modules', () => {
+    const symbols = index('index.ts', [
+      "export { createStore, type StoreOptions as Options } from './store';",
+      "export * as filters from './filters';",
+      "export * from './types';",
+    ]);
+
+    expect(symbols.map(s => [s.name, s.kind, s.startLine, s.signature])).toEqual([
+      ['createStore', 'reexport', 1, "export { createStore, type StoreOptions as Options } from './store'"],
+      ['Options', 'reexport', 1, "export { createStore, type StoreOptions as Options } from './store'"],
+      ['filters', 'reexport', 2, "export * as filters from './filters'"],
+    ]);
+  });
+
+  it('indexes default exports of anonymous functions, classes and values', () => {
+    const handler = index('handler.ts', [
+      'export default async function (req: Request) {',
+      '  return new Response(req.url);',
+      '}',
+    ]);
+    expect(handler.map(s => [s.name, s.kind, s.startLine, s.endLine, s.signature])).toEqual([
+      ['default', 'function', 1, 3, 'export default async function (req: Request)'],
+    ]);
+
+    expect(index('model.ts', ['export default class {', '  id = 1;', '}'])[0]).toMatchObject({ name: 'default', kind: 'class' });
+    expect(index('arrow.ts', ['export default (a: number) => a * 2;'])[0]).toMatchObject({ name: 'default', kind: 'function' });
+    expect(index('config.mjs', ['export default {', '  port: 3000,', '};'])[0]).toMatchObject({
+      name: 'default',
+      kind: 'variable',
+      startLine: 1,
+      endLine: 3,
+    });
+  });
+
+  it('indexes Go, Rust and Python declarations', () => {
+    const go = index('main.go', [
+      'type Server struct {',
+      '  addr string',
+      '}',
+      'type ID int',
+      'func (s *Server) Start(',
+      '  ctx context.Context,',
+      ') error {',
+      '  return nil',
+      '}',
+    ]);
+    expect(go.map(s => [s.name, s.kind, s.startLine, s.endLine, s.container])).toEqual([
+      ['Server', 'struct', 1, 3, undefined],
+      ['ID', 'type', 4, 4, undefined],
+      ['Start', 'method', 5, 9, 'Server'],
+    ]);
+
+    const rust = index('lib.rs', [
+      'pub struct Unit;',
+      'impl Unit {',
+      '    pub fn new() -> Self {',
+      '        Unit',
+      '    }',
+      '}',
+    ]);
+    expect(rust.map(s => [s.name, s.kind, s.startLine, s.endLine, s.container])).toEqual([
+      ['Unit', 'struct', 1, 1, undefined],
+      ['new', 'method', 3, 5, 'Unit'],
+    ]);
+
+    const python = index('app.py', [
+      'class Greeter:',
+      '    """Says hello."""',
+      '',
+      '    def greet(self, name):',
+      '        return f"hello {name}"',
+      '',
+      'def _helper():',
+      '    pass',
+    ]);
+    expect(python.map(s => [s.name, s.kind, s.startLine, s.endLine, s.exported])).toEqual([
+      ['Greeter', 'class', 1, 5, true],
+      ['greet', 'method', 4, 5, true],
+      ['_helper', 'function', 7, 8, false],
+    ]);
+    expect(python[0].doc).toBe('Says hello.');
+  });
+});
+
+describe('searchSymbols', () => {
+  const symbols = index('store.ts', [
+    'export function getStore() {}',
+    'function get() {}',
+    'export class Store {',
+    '  get(key: string) {}',
+    '}',
+  ]);
+
+  it('ranks exact and exported matches first', () => {
+    expect(searchSymbols(symbols, 'get').map(s => s.container ? `${s.container}.${s.name}` : s.name)).toEqual([
+      'Store.get',
+      'get',
+      'getStore',
+    ]);
+  });
+
+  it('matches qualified names and ignores empty queries', () => {
+    expect(searchSymbols(symbols, 'store.get').map(s => s.name)).toEqual(['get']);
+    expect(searchSymbols(symbols, '  ')).toEqual([]);
+  });
+});
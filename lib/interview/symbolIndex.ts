@@ -0,0 +1,545 @@
+import { v4 as uuidv4 } from 'uuid';
+import { getLanguageFromPath } from '@/lib/ingest/filters';
+import type { CodeSnippet, CodeSymbol, RepoAnalysis } from '@/types/interview';
+
+interface SourceFile {
+  path: string;
+  content: string;
+}
+
+type BraceLanguage = 'js' | 'go' | 'rust';
+
+const MAX_SYMBOLS = 5000;
+const MAX_SIGNATURE_LENGTH = 200;
+const MAX_DOC_LENGTH = 300;
+
+const JS_FILE = /\.(ts|tsx|js|jsx|mjs|cjs|mts|cts)$/;
+
+// Words that look like method declarations (`if (x) {`) but are control flow
+const NOT_METHODS = new Set(['if', 'for', 'while', 'switch', 'catch', 'return', 'function', 'super', 'with']);
+
+interface LineDepths {
+  /** `{}` depth at the start of every line */
+  braces: number[];
+  /** `()` and `[]` depth at the start of every line, plus one inside a multi-line string */
+  groups: number[];
+}
+
+/**
+ * Bracket depths at the start of every line, skipping brackets inside strings,
+ * regex literals and comments. Template literal interpolations are treated as
+ * plain string content.
+ */
+function computeDepths(lines: string[], language: BraceLanguage): LineDepths {
+  const braces: number[] = [];
+  const groups: number[] = [];
+  let depth = 0;
+  let groupDepth = 0;
+  let inBlockComment = false;
+  let inString: string | null = null;
+
+  for (const line of lines) {
+    braces.push(depth);
+    groups.push(groupDepth + (inString ? 1 : 0));
+    for (let i = 0; i < line.length; i++) {
+      const char = line[i];
+      const next = line[i + 1];
+      if (inBlockComment) {
+        if (char === '*' && next === '/') {
+          inBlockComment = false;
+          i++;
+        }
+        continue;
+      }
+      if (inString) {
+        if (char === '\\') {
+          i++;
+        } else if (char === inString) {
+          inString = null;
+        }
+        continue;
+      }
+      if (char === '/' && next === '/') break;
+      if (char === '/' && next === '*') {
+        inBlockComment = true;
+        i++;
+        continue;
+      }
+      // A slash where an operand is expected starts a regex literal, which may hold quotes or braces
+      if (char === '/' && language === 'js' && /(^|[(,=:[!&|?{};])\s*$/.test(line.slice(0, i))) {
+        let inClass = false;
+        for (i++; i < line.length; i++) {
+          if (line[i] === '\\') i++;
+          else if (line[i] === '[') inClass = true;
+          else if (line[i] === ']') inClass = false;
+          else if (line[i] === '/' && !inClass) break;
+        }
+        continue;
+      }
+      // Rust lifetimes ('a) are not strings
+      if (char === '"' || char === '`' || (char === "'" && language !== 'rust')) {
+        inString = char;
+        continue;
+      }
+      if (char === '{') depth++;
+      if (char === '}') depth = Math.max(0, depth - 1);
+      if (char === '(' || char === '[') groupDepth++;
+      if (char === ')' || char === ']') groupDepth = Math.max(0, groupDepth - 1);
+    }
+    // Only template literals (and Go raw strings) span lines
+    if (inString && inString !== '`') inString = null;
+  }
+
+  return { braces, groups };
+}
+
+// Tokens that leave an expression unfinished at the end of a line, or carry it on at the start of the next
+const CONTINUES_AFTER = /(?:[=,([{:?|&.+]|=>)$/;
+const CONTINUES_BEFORE = /^(?:[|&.?:]|=>)/;
+
+function withoutComment(line: string): string {
+  return line.replace(/\s*\/\/[^'"`]*$/, '').trim();
+}
+
+/**
+ * The declaration ends on the line where the brace depth returns to where it
+ * started. One without a body (`type X = ...`) ends once its parentheses and
+ * brackets are balanced and the expression does not carry on to the next line,
+ * with or without a semicolon.
+ */
+function findBlockEnd(lines: string[], depths: LineDepths, start: number): number {
+  const startDepth = depths.braces[start];
+  const startGroups = depths.groups[start];
+  let opened = false;
+  for (let i = start; i < lines.length; i++) {
+    const nextDepth = i + 1 < lines.length ? depths.braces[i + 1] : 0;
+    const nextGroups = i + 1 < lines.length ? depths.groups[i + 1] : 0;
+    if (nextDepth > startDepth) opened = true;
+    if (opened && nextDepth <= startDepth) return i;
+    if (!opened && nextDepth <= startDepth && nextGroups <= startGroups && !CONTINUES_AFTER.test(withoutComment(lines[i]))) {
+      const following = lines.slice(i + 1).find(line => line.trim() !== '');
+      if (following === undefined || !CONTINUES_BEFORE.test(following.trim())) return i;
+    }
+    if (!opened && i - start >= 20) return start;
+  }
+  return lines.length - 1;
+}
+
+// With `depths`, lines that leave parentheses open are parameters even when they end in `{}` (`options = {}`)
+function buildSignature(lines: string[], start: number, end: number, terminator: RegExp, depths?: LineDepths): string {
+  const parts: string[] = [];
+  for (let i = start; i <= Math.min(end, start + 5); i++) {
+    if (depths && i + 1 < lines.length && depths.groups[i + 1] > depths.groups[start]) {
+      parts.push(lines[i].trim());
+      continue;
+    }
+    // Drop one-line bodies so they do not end up in the signature
+    const line = lines[i].trim().replace(/\s*\{[^{}]*\}\s*;?$/, ' {');
+    const end = line.search(terminator);
+    parts.push(end >= 0 ? line.slice(0, end) : line);
+    if (end >= 0) break;
+  }
+  const signature = parts.join(' ').replace(/\s+/g, ' ').trim();
+  return signature.length > MAX_SIGNATURE_LENGTH ? `${signature.slice(0, MAX_SIGNATURE_LENGTH)}...` : signature;
+}
+
+function cleanDoc(doc: string): string | undefined {
+  const cleaned = doc.replace(/\s+/g, ' ').trim();
+  if (!cleaned) return undefined;
+  return cleaned.length > MAX_DOC_LENGTH ? `${cleaned.slice(0, MAX_DOC_LENGTH)}...` : cleaned;
+}
+
+// `/** ... */`, `///` and `//` comments directly above a declaration, skipping decorators and attributes
+function findLeadingDoc(lines: string[], start: number): string | undefined {
+  let i = start - 1;
+  while (i >= 0 && /^\s*(@\w|#\[)/.test(lines[i])) i--;
+  if (i < 0) return undefined;
+
+  if (/\*\/\s*$/.test(lines[i])) {
+    const end = i;
+    while (i >= 0 && !/\/\*/.test(lines[i])) i--;
+    if (i < 0) return undefined;
+    return cleanDoc(
+      lines
+        .slice(i, end + 1)
+        .map(line => line.replace(/\*\/\s*$/, '').replace(/^\s*\/\*\*?|^\s*\*\s?/, ''))
+        .filter(line => !/^\s*@/.test(line))
+        .join(' ')
+    );
+  }
+
+  const commentLines: string[] = [];
+  while (i >= 0 && /^\s*\/\//.test(lines[i])) {
+    commentLines.unshift(lines[i].replace(/^\s*\/\/\/?\s?/, ''));
+    i--;
+  }
+  return commentLines.length > 0 ? cleanDoc(commentLines.join(' ')) : undefined;
+}
+
+function indexJs(file: SourceFile, lines: string[]): CodeSymbol[] {
+  const depths = computeDepths(lines, 'js');
+  const symbols: CodeSymbol[] = [];
+  const topLevel = [
+    { kind: 'function', pattern: /^(export\s+(?:default\s+)?)?(?:declare\s+)?(?:async\s+)?function\s*\*?\s*([\w$]+)/ },
+    { kind: 'class', pattern: /^(export\s+(?:default\s+)?)?(?:declare\s+)?(?:abstract\s+)?class\s+([\w$]+)/ },
+    { kind: 'interface', pattern: /^(export\s+)?(?:declare\s+)?interface\s+([\w$]+)/ },
+    { kind: 'type', pattern: /^(export\s+)?(?:declare\s+)?type\s+([\w$]+)\s*(?:<[^=]*>)?\s*=/ },
+    { kind: 'enum', pattern: /^(export\s+)?(?:declare\s+)?(?:const\s+)?enum\s+([\w$]+)/ },
+    { kind: 'variable', pattern: /^(export\s+)?(?:declare\s+)?(?:const|let|var)\s+([\w$]+)/ },
+  ] as const;
+
+  const exportStatements: number[] = [];
+
+  for (let i = 0; i < lines.length; i++) {
+    if (depths.braces[i] !== 0) continue;
+    if (/^export\s/.test(lines[i]) && !topLevel.some(({ pattern }) => pattern.test(lines[i]))) {
+      exportStatements.push(i);
+      continue;
+    }
+    for (const { kind, pattern } of topLevel) {
+      const match = lines[i].match(pattern);
+      if (!match) continue;
+      const endLine = findBlockEnd(lines, depths, i);
+      // Arrow functions assigned to constants are functions for all practical purposes
+      const isArrow = kind === 'variable' && /=\s*(?:async\s+)?(?:\([^)]*\)|[\w$]+)\s*(?::[^=]+)?=>/.test(lines[i]);
+      symbols.push({
+        name: match[2],
+        kind: isArrow ? 'function' : kind,
+        file: file.path,
+        startLine: i + 1,
+        endLine: endLine + 1,
+        signature: isArrow
+          ? buildSignature(lines, i, endLine, /=>/)
+          : kind === 'variable'
+            ? buildSignature(lines, i, endLine, /=/)
+            : kind === 'type'
+              ? buildSignature(lines, i, endLine, /;\s*$|\{\s*$/)
+              : buildSignature(lines, i, endLine, /\{\s*$/, depths),
+        doc: findLeadingDoc(lines, i),
+        exported: !!match[1],
+      });
+
+      if (kind === 'class') {
+        symbols.push(...indexJsMethods(file, lines, depths, i, endLine, match[2]));
+      }
+      break;
+    }
+  }
+
+  symbols.push(...indexJsExports(file, lines, depths, exportStatements, symbols));
+  return symbols;
+}
+
+// `a`, `b as c` and `type D` in an export list: the local name and the name it is exported under
+function parseExportList(list: string): { local: string; exported: string }[] {
+  return list
+    .split(',')
+    .map(item => item.trim().replace(/^type\s+/, ''))
+    .filter(Boolean)
+    .map(item => {
+      const [local, exported = local] = item.split(/\s+as\s+/);
+      return { local, exported };
+    });
+}
+
+/**
+ * Export statements that declare nothing themselves. `export { a }` and
+ * `export default a` mark the local declaration exported; names re-exported
+ * from another module (or imported and exported again) are indexed as
+ * re-exports at the statement, and `export default <expression>` as `default`.
+ */
+function indexJsExports(
+  file: SourceFile,
+  lines: string[],
+  depths: LineDepths,
+  statements: number[],
+  declared: CodeSymbol[]
+): CodeSymbol[] {
+  const symbols: CodeSymbol[] = [];
+  const local = new Map(declared.filter(symbol => !symbol.container).map(symbol => [symbol.name, symbol]));
+
+  for (const i of statements) {
+    const endLine = findBlockEnd(lines, depths, i);
+    const statement = lines.slice(i, endLine + 1).map(withoutComment).join(' ').replace(/\s+/g, ' ').trim();
+    const at = (name: string, kind: CodeSymbol['kind'], signature: string): CodeSymbol => ({
+      name,
+      kind,
+      file: file.path,
+      startLine: i + 1,
+      endLine: endLine + 1,
+      signature,
+      doc: findLeadingDoc(lines, i),
+      exported: true,
+    });
+
+    const list = statement.match(/^export (?:type )?\{([^}]*)\}\s*(from\b)?/);
+    const namespace = statement.match(/^export \* as ([\w$]+) from\b/);
+    const expression = statement.match(/^export default (.*?);?$/);
+    if (list) {
+      for (const { local: name, exported } of parseExportList(list[1])) {
+        const declaration = list[2] ? undefined : local.get(name);
+        if (declaration) declaration.exported = true;
+        else symbols.push(at(exported, 'reexport', statement.replace(/;$/, '')));
+      }
+    } else if (namespace) {
+      symbols.push(at(namespace[1], 'reexport', statement.replace(/;$/, '')));
+    } else if (expression && local.has(expression[1])) {
+      local.get(expression[1])!.exported = true;
+    } else if (expression) {
+      const value = expression[1];
+      const kind = /^class\b/.test(value)
+        ? 'class'
+        : /^(?:async\s+)?(?:function\b|\([^)]*\)\s*(?::[^=]+)?=>|[\w$]+\s*=>)/.test(value)
+          ? 'function'
+          : 'variable';
+      const signature = kind === 'variable'
+        ? buildSignature(lines, i, endLine, /;\s*$/)
+        : buildSignature(lines, i, endLine, /\{\s*$/, depths);
+      symbols.push(at('default', kind, signature));
+    }
+  }
+
+  return symbols;
+}
+
+function indexJsMethods(
+  file: SourceFile,
+  lines: string[],
+  depths: LineDepths,
+  classStart: number,
+  classEnd: number,
+  className: string
+): CodeSymbol[] {
+  const methods: CodeSymbol[] = [];
+  const methodPattern = /^\s*(?:(?:public|private|protected|static|async|readonly|override|abstract|get|set)\s+)*\*?\s*(#?[\w$]+)\s*(?:<[^>]*>)?\s*\(/;
+
+  for (let i = classStart + 1; i < classEnd; i++) {
+    if (depths.braces[i] !== depths.braces[classStart] + 1) continue;
+    const match = lines[i].match(methodPattern);
+    if (!match || NOT_METHODS.has(match[1])) continue;
+    const endLine = findBlockEnd(lines, depths, i);
+    methods.push({
+      name: match[1],
+      kind: 'method',
+      file: file.path,
+      startLine: i + 1,
+      endLine: endLine + 1,
+      signature: buildSignature(lines, i, endLine, /\{\s*$/, depths),
+      doc: findLeadingDoc(lines, i),
+      exported: !/^\s*(private|protected)\b|^\s*#/.test(lines[i]),
+      container: className,
+    });
+  }
+  return methods;
+}
+
+function indexGo(file: SourceFile, lines: string[]): CodeSymbol[] {
+  const depths = computeDepths(lines, 'go');
+  const symbols: CodeSymbol[] = [];
+
+  for (let i = 0; i < lines.length; i++) {
+    if (depths.braces[i] !== 0) continue;
+    const func = lines[i].match(/^func\s+(?:\(\s*\w*\s*\*?\s*(\w+)(?:\[[^\]]*\])?\s*\)\s*)?(\w+)/);
+    const type = lines[i].match(/^type\s+(\w+)(?:\[[^\]]*\])?\s+(struct|interface)?/);
+    if (!func && !type) continue;
+
+    const name = func ? func[2] : type![1];
+    const end = findBlockEnd(lines, depths, i);
+    symbols.push({
+      name,
+      kind: func ? (func[1] ? 'method' : 'function') : type![2] === 'interface' ? 'interface' : type![2] === 'struct' ? 'struct' : 'type',
+      file: file.path,
+      startLine: i + 1,
+      endLine: end + 1,
+      signature: buildSignature(lines, i, end, /\{\s*$/, depths),
+      doc: findLeadingDoc(lines, i),
+      // Go exports by capitalization
+      exported: /^[A-Z]/.test(name),
+      container: func?.[1],
+    });
+  }
+
+  return symbols;
+}
+
+function indexRust(file: SourceFile, lines: string[]): CodeSymbol[] {
+  const depths = computeDepths(lines, 'rust');
+  const symbols: CodeSymbol[] = [];
+  const itemPattern = /^\s*(pub(?:\([\w:\s]+\))?\s+)?(?:(?:const|async|unsafe|extern\s+"\w+")\s+)*(fn|struct|enum|trait|type)\s+(\w+)/;
+  // Methods belong to the innermost `impl` block they appear in
+  let impl: { name: string; depth: number; end: number } | null = null;
+
+  for (let i = 0; i < lines.length; i++) {
+    if (impl && i > impl.end) impl = null;
+
+    const implMatch = lines[i].match(/^\s*impl(?:<[^>]*>)?\s+(?:[\w:<>, ]+\s+for\s+)?(\w+)/);
+    if (implMatch && depths.braces[i] === 0) {
+      impl = { name: implMatch[1], depth: depths.braces[i], end: findBlockEnd(lines, depths, i) };
+      continue;
+    }
+
+    const match = lines[i].match(itemPattern);
+    if (!match) continue;
+    const inImpl = impl !== null && depths.braces[i] === impl.depth + 1;
+    if (depths.braces[i] !== 0 && !inImpl) continue;
+
+    const keyword = match[2];
+    const end = findBlockEnd(lines, depths, i);
+    symbols.push({
+      name: match[3],
+      kind: keyword === 'fn' ? (inImpl ? 'method' : 'function') : keyword === 'struct' ? 'struct' : keyword === 'enum' ? 'enum' : keyword === 'trait' ? 'trait' : 'type',
+      file: file.path,
+      startLine: i + 1,
+      endLine: end + 1,
+      signature: buildSignature(lines, i, end, /\{\s*$|;\s*$/, depths),
+      doc: findLeadingDoc(lines, i),
+      exported: !!match[1],
+      container: inImpl ? impl!.name : undefined,
+    });
+  }
+
+  return symbols;
+}
+
+function indentOf(line: string): number {
+  return line.match(/^\s*/)![0].length;
+}
+
+function indexPython(file: SourceFile, lines: string[]): CodeSymbol[] {
+  const symbols: CodeSymbol[] = [];
+  // Enclosing classes, so methods can be attributed to them
+  const classes: { name: string; indent: number; bodyIndent: number }[] = [];
+
+  for (let i = 0; i < lines.length; i++) {
+    const match = lines[i].match(/^(\s*)(?:async\s+)?(def|class)\s+(\w+)/);
+    if (!match) continue;
+    const indent = match[1].length;
+    while (classes.length > 0 && classes[classes.length - 1].indent >= indent) classes.pop();
+    const container = classes[classes.length - 1];
+    // Nested functions are implementation details; only module level and class members are indexed
+    if (indent > 0 && (!container || indent !== container.bodyIndent)) continue;
+
+    // The body runs until the next non-blank line at the same or lower indentation
+    let end = i;
+    for (let j = i + 1; j < lines.length; j++) {
+      if (lines[j].trim() === '') continue;
+      if (indentOf(lines[j]) <= indent) break;
+      end = j;
+    }
+
+    // Docstrings open on the line after the signature
+    let doc: string | undefined;
+    const bodyStart = lines.slice(i, end + 1).findIndex(line => /:\s*(#.*)?$/.test(line));
+    const docLine = bodyStart >= 0 ? lines[i + bodyStart + 1] : undefined;
+    const docMatch = docLine?.match(/^\s*[rub]?("""|''')([\s\S]*)/);
+    if (docMatch) {
+      const docLines = [docMatch[2]];
+      for (let j = i + bodyStart + 2; j <= end && !docLines[docLines.length - 1].includes(docMatch[1]); j++) {
+        docLines.push(lines[j]);
+      }
+      doc = cleanDoc(docLines.join(' ').split(docMatch[1])[0]);
+    }
+
+    symbols.push({
+      name: match[3],
+      kind: match[2] === 'class' ? 'class' : container ? 'method' : 'function',
+      file: file.path,
+      startLine: i + 1,
+      endLine: end + 1,
+      signature: buildSignature(lines, i, end, /:\s*(#.*)?$/),
+      doc,
+      exported: !match[3].startsWith('_'),
+      container: container?.name,
+    });
+
+    if (match[2] === 'class') {
+      const firstMember = lines.slice(i + 1, end + 1).find(line => line.trim() !== '');
+      classes.push({ name: match[3], indent, bodyIndent: firstMember ? indentOf(firstMember) : indent + 4 });
+    }
+  }
+
+  return symbols;
+}
+
+/**
+ * Index the functions, classes, methods, interfaces, types and exported
+ * variables declared in TS/JS, Python, Go and Rust files, with their line
+ * ranges, signatures and doc comments, plus TS/JS re-exports.
+ */
+export function buildSymbolIndex(files: SourceFile[]): CodeSymbol[] {
+  const symbols: CodeSymbol[] = [];
+
+  for (const file of files) {
+    const lines = file.content.split('\n');
+    if (JS_FILE.test(file.path)) {
+      symbols.push(...indexJs(file, lines));
+    } else if (file.path.endsWith('.py')) {
+      symbols.push(...indexPython(file, lines));
+    } else if (file.path.endsWith('.go')) {
+      symbols.push(...indexGo(file, lines));
+    } else if (file.path.endsWith('.rs')) {
+      symbols.push(...indexRust(file, lines));
+    }
+    if (symbols.length >= MAX_SYMBOLS) break;
+  }
+
+  return symbols.slice(0, MAX_SYMBOLS);
+}
+
+/** Symbols whose name (or `Container.name`) matches the query, exact and exported matches first */
+export function searchSymbols(symbols: CodeSymbol[], query: string, limit: number = 20): CodeSymbol[] {
+  const needle = query.trim().toLowerCase();
+  if (!needle) return [];
+
+  const scored: { symbol: CodeSymbol; score: number }[] = [];
+  for (const symbol of symbols) {
+    const name = symbol.name.toLowerCase();
+    const qualified = symbol.container ? `${symbol.container}.${symbol.name}`.toLowerCase() : name;
+    let score = 0;
+    if (name === needle || qualified === needle) score = 3;
+    else if (name.startsWith(needle) || qualified.startsWith(needle)) score = 2;
+    else if (qualified.includes(needle)) score = 1;
+    if (score === 0) continue;
+    scored.push({ symbol, score: score + (symbol.exported ? 0.5 : 0) });
+  }
+
+  return scored
+    .sort((a, b) => b.score - a.score || a.symbol.name.length - b.symbol.name.length)
+    .slice(0, limit)
+    .map(entry => entry.symbol);
+}
+
+/** Symbols mentioned by name in a piece of text, e.g. a question or a code snippet */
+export function findMentionedSymbols(symbols: CodeSymbol[], text: string, limit: number = 5): CodeSymbol[] {
+  const words = new Set(text.match(/[A-Za-z_$][\w$]{2,}/g) || []);
+  return symbols
+    .filter(symbol => symbol.kind !== 'variable' && symbol.kind !== 'reexport' && words.has(symbol.name))
+    .sort((a, b) => Number(b.exported) - Number(a.exported))
+    .slice(0, limit);
+}
+
+export function formatSymbol(symbol: CodeSymbol): string {
+  return `${symbol.kind} ${symbol.container ? `${symbol.container}.` : ''}${symbol.name} (${symbol.file}:${symbol.startLine}-${symbol.endLine}): ${symbol.signature}`;
+}
+
+/** The full source of a symbol's definition */
+export function getSymbolDefinition(analysis: RepoAnalysis, symbol: CodeSymbol, maxLines: number = 80): string | null {
+  const content = analysis.fileContents[symbol.file];
+  if (!content) return null;
+  const lines = content.split('\n').slice(symbol.startLine - 1, symbol.endLine);
+  return lines.length > maxLines ? `${lines.slice(0, maxLines).join('\n')}\n// ...` : lines.join('\n');
+}
+
+export function createSymbolSnippet(analysis: RepoAnalysis, symbol: CodeSymbol): CodeSnippet | null {
+  const content = analysis.fileContents[symbol.file];
+  if (!content) return null;
+  return {
+    id: uuidv4(),
+    file: symbol.file,
+    startLine: symbol.startLine,
+    endLine: symbol.endLine,
+    code: content.split('\n').slice(symbol.startLine - 1, symbol.endLine).join('\n'),
+    language: getLanguageFromPath(symbol.file),
+    annotations: [],
+  };
+}
@@ -0,0 +1,381 @@
+import { describeDelivery } from '@/lib/speech/delivery';
+import type {
+  ChatMessage,
+  CodeSnippet,
+  InterviewReport,
+  InterviewSession,
+  QuestionCategory,
+  QuestionDifficulty,
+} from '@/types/interview';
+import type { DeliveryMetrics } from '@/types/speech';
+
+export type ExportFormat = 'markdown' | 'json' | 'html';
+
+export const EXPORT_FORMATS: ExportFormat[] = ['markdown', 'json', 'html'];
+
+export function isExportFormat(value: string): value is ExportFormat {
+  return (EXPORT_FORMATS as string[]).includes(value);
+}
+
+export interface TranscriptTurn {
+  questionId: string;
+  /** Set on follow-ups: the question whose thread this turn continues */
+  parentQuestionId?: string;
+  question: string;
+  topic?: string;
+  category?: QuestionCategory;
+  difficulty?: QuestionDifficulty;
+  askedAt: number;
+  hints: string[];
+  answer?: string;
+  /** Set when the answer was spoken */
+  delivery?: DeliveryMetrics;
+  timedOut?: boolean;
+  evaluation?: {
+    score?: number;
+    strengths: string[];
+    missedPoints: string[];
+    feedback: string;
+  };
+  /** Annotated snippets, as last annotated (after evaluation when answered) */
+  codeSnippets: CodeSnippet[];
+}
+
+export interface TranscriptExport {
+  sessionId: string;
+  repoId: string;
+  repoUrl: string;
+  ref?: string;
+  commitSha?: string;
+  selectedDirectories: string[];
+  plan: InterviewSession['plan'];
+  status: InterviewSession['status'];
+  startedAt: number;
+  endedAt?: number;
+  exportedAt: number;
+  turns: TranscriptTurn[];
+  report?: InterviewReport;
+}
+
+/**
+ * Group the chat into one turn per question: the question, its hints, the
+ * answer and its evaluation. Follow-ups get their own turns, after the turn
+ * they follow up on.
+ */
+export function buildTranscript(session: InterviewSession): TranscriptExport {
+  const asked = new Map(session.questionsAsked.map(q => [q.id, q]));
+  const turns = new Map<string, TranscriptTurn>();
+
+  const turnFor = (message: ChatMessage): TranscriptTurn | null => {
+    const questionId = message.metadata?.questionId;
+    return questionId ? turns.get(questionId) || null : null;
+  };
+
+  for (const message of session.messages) {
+    const metadata = message.metadata;
+    switch (metadata?.type) {
+      case 'question': {
+        if (!metadata.questionId) break;
+        const question = asked.get(metadata.parentQuestionId || metadata.questionId);
+        turns.set(metadata.questionId, {
+          questionId: metadata.questionId,
+          parentQuestionId: metadata.parentQuestionId,
+          question: message.content,
+          topic: question?.topic,
+          category: metadata.category || question?.category,
+          difficulty: metadata.difficulty || question?.difficulty,
+          askedAt: message.timestamp,
+          hints: [],
+          codeSnippets: metadata.codeSnippets || [],
+        });
+        break;
+      }
+      case 'hint':
+        turnFor(message)?.hints.push(message.content);
+        break;
+      case 'answer': {
+        const turn = turnFor(message);
+        if (!turn) break;
+        turn.answer = message.content;
+        if (metadata.delivery) turn.delivery = metadata.delivery;
+        break;
+      }
+      case 'evaluation': {
+        const turn = turnFor(message);
+        if (!turn) break;
+        turn.evaluation = {
+          score: metadata.score,
+          strengths: metadata.strengths || [],
+          missedPoints: metadata.missedPoints || [],
+          feedback: message.content,
+        };
+        if (metadata.codeSnippets && metadata.codeSnippets.length > 0) {
+          turn.codeSnippets = metadata.codeSnippets;
+        }
+        break;
+      }
+    }
+  }
+
+  // A thread times out on its last answer
+  const lastTurns = new Map<string, TranscriptTurn>();
+  for (const turn of turns.values()) {
+    lastTurns.set(turn.parentQuestionId || turn.questionId, turn);
+  }
+  for (const [threadId, turn] of lastTurns) {
+    if (asked.get(threadId)?.timedOut && turn.answer !== undefined) turn.timedOut = true;
+  }
+
+  return {
+    sessionId: session.sessionId,
+    repoId: session.repoId,
+    repoUrl: session.repoUrl,
+    ref: session.ref,
+    commitSha: session.commitSha,
+    selectedDirectories: session.selectedDirectories,
+    plan: session.plan,
+    status: session.status,
+    startedAt: session.createdAt,
+    endedAt: session.endedAt,
+    exportedAt: Date.now(),
+    turns: Array.from(turns.values()),
+    report: session.report,
+  };
+}
+
+function formatDate(timestamp: number): string {
+  return new Date(timestamp).toISOString().replace('T', ' ').slice(0, 16) + ' UTC';
+}
+
+function describeRevision(transcript: TranscriptExport): string {
+  if (!transcript.ref) return '';
+  return ` @ ${transcript.ref}${transcript.commitSha ? ` (${transcript.commitSha.slice(0, 7)})` : ''}`;
+}
+
+function describePlan(transcript: TranscriptExport): string {
+  const { questionCount, timeLimitSeconds } = transcript.plan;
+  return `${questionCount} question${questionCount === 1 ? '' : 's'}${timeLimitSeconds ? `, ${timeLimitSeconds}s per question` : ', no time limit'}`;
+}
+
+// Follow-ups are numbered after the question they follow up on, e.g. "Question 2" then "Follow-up to question 2"
+function numberTurns(turns: TranscriptTurn[]): string[] {
+  const numbers = new Map<string, number>();
+  return turns.map(turn => {
+    if (turn.parentQuestionId && numbers.has(turn.parentQuestionId)) {
+      return `Follow-up to question ${numbers.get(turn.parentQuestionId)}`;
+    }
+    numbers.set(turn.questionId, numbers.size + 1);
+    return `Question ${numbers.size}`;
+  });
+}
+
+function describeAnswer(turn: TranscriptTurn): string {
+  const notes = [
+    turn.delivery ? `spoken: ${describeDelivery(turn.delivery)}` : '',
+    turn.timedOut ? 'after the time limit' : '',
+  ].filter(Boolean);
+  return `Answer${notes.length > 0 ? ` (${notes.join('; ')})` : ''}`;
+}
+
+function describeTurn(turn: TranscriptTurn): string {
+  return [turn.topic, turn.difficulty, turn.category?.replace('-', ' ')].filter(Boolean).join(' · ');
+}
+
+// Longest run of backticks in the code, so the fence around it is always longer
+function fenceFor(code: string): string {
+  const longest = Math.max(2, ...Array.from(code.matchAll(/`+/g), match => match[0].length));
+  return '`'.repeat(longest + 1);
+}
+
+function numberLines(snippet: CodeSnippet): string[] {
+  const lines = snippet.code.split('\n');
+  const width = String(snippet.startLine + lines.length - 1).length;
+  return lines.map((line, index) => `${String(snippet.startLine + index).padStart(width)} | ${line}`);
+}
+
+function snippetToMarkdown(snippet: CodeSnippet): string {
+  const code = numberLines(snippet).join('\n');
+  const fence = fenceFor(code);
+  const annotations = [...snippet.annotations]
+    .sort((a, b) => a.line - b.line)
+    .map(annotation => `- **L${annotation.line}** (${annotation.type}): ${annotation.text}`)
+    .join('\n');
+  return `**\`${snippet.file}\`** (lines ${snippet.startLine}-${snippet.endLine})
+
+${fence}${snippet.language}
+${code}
+${fence}${annotations ? `\n\n${annotations}` : ''}`;
+}
+
+function quote(text: string): string {
+  return text.split('\n').map(line => `> ${line}`).join('\n');
+}
+
+export function renderMarkdown(transcript: TranscriptExport): string {
+  const sections: string[] = [];
+  sections.push(`# Interview transcript: ${transcript.repoId}${describeRevision(transcript)}
+
+- Repository: ${transcript.repoUrl}
+- Started: ${formatDate(transcript.startedAt)}${transcript.endedAt ? `\n- Ended: ${formatDate(transcript.endedAt)}` : ''}
+- Plan: ${describePlan(transcript)}, categories: ${transcript.plan.categories.join(', ')}${transcript.selectedDirectories.length > 0 ? `\n- Directories: ${transcript.selectedDirectories.join(', ')}` : ''}`);
+
+  const report = transcript.report;
+  if (report) {
+    const lines = [
+      '## Scorecard',
+      '',
+      `- Overall: ${report.overallScore ?? '-'}/100${report.rating ? ` (${report.rating})` : ''}`,
+      `- Answered: ${report.questionsAnswered} of ${report.questionsPlanned}, hints used: ${report.hintsUsed}${report.timedOut ? `, timed out: ${report.timedOut}` : ''}`,
+    ];
+    if (report.weakAreas.length > 0) {
+      lines.push('', '**Weak areas:**');
+      for (const area of report.weakAreas) {
+        const files = area.files.map(file => (file.url ? `[${file.path}](${file.url})` : `\`${file.path}\``));
+        lines.push(`- ${area.topic} (${area.averageScore}/100)${files.length > 0 ? `: ${files.join(', ')}` : ''}`);
+      }
+    }
+    if (report.recommendations.length > 0) {
+      lines.push('', '**Study recommendations:**');
+      report.recommendations.forEach((item, index) => lines.push(`${index + 1}. ${item}`));
+    }
+    sections.push(lines.join('\n'));
+  }
+
+  const headings = numberTurns(transcript.turns);
+  transcript.turns.forEach((turn, index) => {
+    const parts = [`## ${headings[index]}${describeTurn(turn) ? ` · ${describeTurn(turn)}` : ''}`, turn.question];
+    for (const hint of turn.hints) {
+      parts.push(quote(hint));
+    }
+    if (turn.answer !== undefined) {
+      parts.push(`### ${describeAnswer(turn)}\n\n${quote(turn.answer)}`);
+    } else {
+      parts.push('*Not answered.*');
+    }
+    if (turn.evaluation) {
+      parts.push(`### Evaluation\n\n${turn.evaluation.feedback.trim()}`);
+    }
+    if (turn.codeSnippets.length > 0) {
+      parts.push(`### Code\n\n${turn.codeSnippets.map(snippetToMarkdown).join('\n\n')}`);
+    }
+    sections.push(parts.join('\n\n'));
+  });
+
+  if (transcript.turns.length === 0) {
+    sections.push('*No questions were asked in this session.*');
+  }
+
+  return `${sections.join('\n\n')}\n`;
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+// The same light formatting the chat applies: **bold**, *italic* and `code`
+function formatInline(text: string): string {
+  return escapeHtml(text)
+    .replace(/\*\*([^*]+)\*\*/g, '<strong>$1</strong>')
+    .replace(/\*([^*]+)\*/g, '<em>$1</em>')
+    .replace(/`([^`]+)`/g, '<code>$1</code>');
+}
+
+function snippetToHtml(snippet: CodeSnippet): string {
+  const annotations = new Map(snippet.annotations.map(annotation => [annotation.line, annotation]));
+  const rows = snippet.code.split('\n').map((line, index) => {
+    const lineNumber = snippet.startLine + index;
+    const annotation = annotations.get(lineNumber);
+    return `<tr${annotation ? ` class="annotated ${annotation.type}"` : ''}><td class="ln">${lineNumber}</td><td class="src">${escapeHtml(line) || ' '}</td><td class="note">${annotation ? escapeHtml(annotation.text) : ''}</td></tr>`;
+  });
+  return `<figure class="snippet">
+<figcaption><code>${escapeHtml(snippet.file)}</code> lines ${snippet.startLine}-${snippet.endLine}</figcaption>
+<table>${rows.join('')}</table>
+</figure>`;
+}
+
+const PRINT_STYLES = `
+body { font: 14px/1.5 -apple-system, BlinkMacSystemFont, "Segoe UI", sans-serif; max-width: 860px; margin: 2rem auto; padding: 0 1rem; color: #111; }
+h1 { font-size: 1.4rem; } h2 { font-size: 1.1rem; margin-top: 2rem; border-bottom: 1px solid #ddd; padding-bottom: .25rem; } h3 { font-size: .95rem; }
+.meta { color: #555; font-size: .85rem; }
+.text { white-space: pre-wrap; }
+blockquote { margin: .5rem 0; padding: .25rem .75rem; border-left: 3px solid #ccc; color: #333; white-space: pre-wrap; }
+.hint { border-left-color: #e0b000; }
+code { font-family: ui-monospace, SFMono-Regular, Menlo, monospace; font-size: .85em; }
+.snippet { margin: .75rem 0; border: 1px solid #ddd; border-radius: 4px; overflow: hidden; }
+.snippet figcaption { background: #f5f5f5; padding: .25rem .5rem; font-size: .8rem; }
+.snippet table { border-collapse: collapse; width: 100%; font: 12px/1.4 ui-monospace, SFMono-Regular, Menlo, monospace; }
+.snippet td { vertical-align: top; padding: 0 .5rem; }
+.snippet .ln { color: #999; text-align: right; user-select: none; width: 1%; }
+.snippet .src { white-space: pre-wrap; word-break: break-all; }
+.snippet .note { font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", sans-serif; color: #555; width: 35%; }
+.snippet .annotated { background: #fff8dc; }
+.snippet .warning { background: #fdecea; }
+.print { position: fixed; top: 1rem; right: 1rem; }
+@media print { .print { display: none; } body { margin: 0; } h2 { break-after: avoid; } .snippet { break-inside: avoid; } }
+`;
+
+/** A standalone page laid out for printing, so the browser's "Save as PDF" gives a shareable PDF */
+export function renderHtml(transcript: TranscriptExport): string {
+  const title = `Interview transcript: ${transcript.repoId}${describeRevision(transcript)}`;
+  const sections: string[] = [];
+
+  const report = transcript.report;
+  if (report) {
+    sections.push(`<h2>Scorecard</h2>
+<p><strong>${report.overallScore ?? '-'}/100</strong>${report.rating ? ` (${escapeHtml(report.rating)})` : ''}. Answered ${report.questionsAnswered} of ${report.questionsPlanned}, hints used: ${report.hintsUsed}${report.timedOut ? `, timed out: ${report.timedOut}` : ''}.</p>
+${report.weakAreas.length > 0 ? `<h3>Weak areas</h3><ul>${report.weakAreas.map(area => `<li>${escapeHtml(area.topic)} (${area.averageScore}/100)${area.files.length > 0 ? `: ${area.files.map(file => file.url ? `<a href="${escapeHtml(file.url)}"><code>${escapeHtml(file.path)}</code></a>` : `<code>${escapeHtml(file.path)}</code>`).join(', ')}` : ''}</li>`).join('')}</ul>` : ''}
+${report.recommendations.length > 0 ? `<h3>Study recommendations</h3><ol>${report.recommendations.map(item => `<li>${escapeHtml(item)}</li>`).join('')}</ol>` : ''}`);
+  }
+
+  const headings = numberTurns(transcript.turns);
+  transcript.turns.forEach((turn, index) => {
+    const parts = [
+      `<h2>${headings[index]}${describeTurn(turn) ? ` <span class="meta">· ${escapeHtml(describeTurn(turn))}</span>` : ''}</h2>`,
+      `<div class="text">${formatInline(turn.question)}</div>`,
+      ...turn.hints.map(hint => `<blockquote class="hint">${formatInline(hint)}</blockquote>`),
+      turn.answer !== undefined
+        ? `<h3>${escapeHtml(describeAnswer(turn))}</h3><blockquote>${escapeHtml(turn.answer)}</blockquote>`
+        : '<p class="meta"><em>Not answered.</em></p>',
+    ];
+    if (turn.evaluation) {
+      parts.push(`<h3>Evaluation</h3><div class="text">${formatInline(turn.evaluation.feedback.trim())}</div>`);
+    }
+    if (turn.codeSnippets.length > 0) {
+      parts.push(`<h3>Code</h3>${turn.codeSnippets.map(snippetToHtml).join('\n')}`);
+    }
+    sections.push(parts.join('\n'));
+  });
+
+  if (transcript.turns.length === 0) {
+    sections.push('<p class="meta"><em>No questions were asked in this session.</em></p>');
+  }
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(title)}</title>
+<style>${PRINT_STYLES}</style>
+</head>
+<body>
+<button class="print" onclick="window.print()">Print / Save as PDF</button>
+<h1>${escapeHtml(title)}</h1>
+<p class="meta">${escapeHtml(transcript.repoUrl)}<br>Started ${formatDate(transcript.startedAt)}${transcript.endedAt ? `, ended ${formatDate(transcript.endedAt)}` : ''}. Plan: ${describePlan(transcript)}.</p>
+${sections.join('\n')}
+</body>
+</html>
+`;
+}
+
+/** File name for a download, e.g. `interview-owner-repo-2026-10-19.md` */
+export function getExportFileName(transcript: TranscriptExport, format: ExportFormat): string {
+  const slug = transcript.repoId.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'session';
+  const date = new Date(transcript.startedAt).toISOString().slice(0, 10);
+  const extension = format === 'markdown' ? 'md' : format;
+  return `interview-${slug}-${date}.${extension}`;
+}
@@ -0,0 +1,115 @@
+import type { CompletionTask } from './types';
+
+/** A fixture is either raw text or an object that is returned as JSON */
+export type FixtureResponse = string | Record<string, unknown>;
+
+/**
+ * A single response, or a sequence returned in order. Once a sequence is
+ * exhausted the last entry keeps being returned.
+ */
+export type Fixture = FixtureResponse | FixtureResponse[];
+
+export type FixtureSet = Partial<Record<CompletionTask, Fixture>>;
+
+// Default responses for the mock provider. They are shaped exactly like the
+// JSON each prompt asks for, so the explain and interview flows run end to end.
+export const DEFAULT_FIXTURES: Record<CompletionTask, Fixture> = {
+  explain: {
+    technicalExplanation:
+      'The project is a web application that ingests a code repository and summarizes it for different audiences. A server route collects the source files, keeps the input within the model context window, and requests structured output. The interface lets users pick an audience and tone before generating results. Responses are validated before being shown so malformed output is rejected early. Everything is organized so ingestion, generation, and presentation stay independent.',
+    resumeBullets: [
+      'Built a repository analysis tool enabling audience-specific project summaries via structured prompting, using TypeScript and Next.js.',
+      'Designed a token-aware ingestion pipeline that keeps large codebases within model limits while preserving the most relevant files.',
+    ],
+    interviewPitch:
+      'I built a tool that reads a code repository and explains it back in the language of whoever is listening. The tricky part was fitting real code into a limited context window, so I wrote an ingestion step that prioritizes the most informative files. The result is a set of ready-to-use explanations that stay grounded in the actual source.',
+  },
+  refine: 'Refined: a more concise version of the original content that keeps every stated fact.',
+  'analyze-repo': {
+    mainEntryPoints: ['The main application entry point and its request handlers'],
+    patterns: ['Layered architecture', 'Module-level singletons'],
+    librariesUsed: ['The framework and libraries declared in the project manifest'],
+    summary:
+      'This repository is organized into a presentation layer, request handlers, and supporting library modules. Handlers validate input, delegate to library functions, and return structured responses.\n\nShared state such as caches and clients is created once per process and reused across requests.',
+  },
+  'generate-question': [
+    {
+      text: 'Walk through how a request flows from the entry point to the module that does the main work. Where is input validated, and what happens when validation fails?',
+      topic: 'Request flow and validation',
+      relatedFiles: [],
+      keyPoints: [
+        'Identifies the entry point that receives the request',
+        'Explains where and how input is validated',
+        'Describes the error path and what the caller receives',
+      ],
+      codeSnippets: [],
+    },
+    {
+      text: 'Which pieces of state are shared across requests in this codebase, and what trade-offs does that design introduce?',
+      topic: 'Shared state across requests',
+      relatedFiles: [],
+      keyPoints: [
+        'Names the module-level singletons or caches',
+        'Discusses lifetime and invalidation of the shared state',
+        'Mentions concurrency or multi-instance implications',
+      ],
+      codeSnippets: [],
+    },
+  ],
+  'follow-up-question': {
+    text: 'You mentioned the main flow. What specifically happens on the error path you skipped?',
+    relatedFiles: [],
+    keyPoints: ['Describes the error path precisely'],
+    codeSnippets: [],
+  },
+  'evaluate-answer': {
+    score: 65,
+    isCorrect: false,
+    feedback: 'The answer identifies the main flow but stays general about validation and error handling.',
+    missedPoints: ['Where validation happens', 'What the caller receives on failure'],
+    strengths: ['Correctly identified the entry point'],
+    needsHint: false,
+  },
+  hint: 'Start at the entry point and follow the first function it calls. Look at what it checks before doing any work.',
+  'annotate-snippet': {
+    annotations: [],
+  },
+  'summarize-files': {
+    summaries: {},
+  },
+  'summarize-directory': 'Groups related modules behind a small public surface; the files here share helpers and are used together by the layer above.',
+  'summarize-repo':
+    'The repository is split into top-level directories that each own one concern, with shared library code used by the application entry points.\n\nLarger directories were summarized from their files, so the overview reflects the whole codebase rather than the first files read.',
+  'study-recommendations': {
+    recommendations: [
+      'Trace one request from the entry point to the module that does the work, noting every place input is checked.',
+      'For each shared cache or singleton, write down when it is filled, when it is invalidated and what happens with several server instances.',
+    ],
+  },
+  'evaluate-pitch': {
+    coverage: { score: 70, feedback: 'Covers the architecture and the main technology, but not why it was chosen.' },
+    clarity: { score: 80, feedback: 'Easy to follow: problem, approach, result.' },
+    accuracy: { score: 90, feedback: 'Consistent with the project context.' },
+    feedback: 'A solid rehearsal. Say why you chose the main technology and end on the result.',
+    strengths: ['Clear problem statement', 'Named the core architecture'],
+    missedPoints: ['Why the main technology was chosen'],
+  },
+  'verify-claims': {
+    sentences: [
+      {
+        id: 1,
+        claims: [
+          { claim: 'Ingests a code repository', kind: 'feature', supported: true, sources: ['S1'] },
+          { claim: 'Summarizes it for different audiences', kind: 'feature', supported: true, sources: ['S1'] },
+        ],
+      },
+      {
+        id: 3,
+        claims: [{ claim: 'Users pick an audience and tone', kind: 'feature', supported: false, sources: [] }],
+      },
+    ],
+  },
+  'regenerate-claims': {
+    rewrites: [{ id: 1, text: 'The interface collects the options used to tailor the generated results.' }],
+  },
+};
@@ -0,0 +1,99 @@
+import { createOpenAIProvider } from './openaiProvider';
+import { createMockProvider } from './mockProvider';
+import { INTERVIEW_MODEL } from './models';
+import type { ChatCompletionMessage, CompletionOptions, LLMProvider } from './types';
+
+export type { ChatCompletionMessage, CompletionOptions, CompletionTask, LLMProvider } from './types';
+export { EXPLAIN_MODEL, INTERVIEW_MODEL } from './models';
+
+export type LLMProviderName = LLMProvider['name'];
+
+export function getConfiguredProviderName(): LLMProviderName {
+  const name = (process.env.LLM_PROVIDER || 'openai').toLowerCase();
+  if (name === 'openai' || name === 'local' || name === 'mock') {
+    return name;
+  }
+  throw new Error(`Unknown LLM_PROVIDER "${name}". Use "openai", "local" or "mock".`);
+}
+
+function createProviderFromEnv(): LLMProvider {
+  const name = getConfiguredProviderName();
+
+  switch (name) {
+    case 'mock':
+      return createMockProvider({}, process.env.LLM_MOCK_FIXTURES);
+    case 'local':
+      if (!process.env.LLM_BASE_URL) {
+        throw new Error('LLM_BASE_URL is required when LLM_PROVIDER=local');
+      }
+      return createOpenAIProvider({
+        name: 'local',
+        apiKey: process.env.LLM_API_KEY,
+        baseURL: process.env.LLM_BASE_URL,
+        defaultModel: process.env.LLM_MODEL || 'llama3.1',
+        // Local servers only serve what they have loaded, so never forward OpenAI model names
+        fixedModel: process.env.LLM_MODEL || 'llama3.1',
+      });
+    case 'openai':
+    default:
+      if (!process.env.OPENAI_API_KEY) {
+        console.warn('Warning: OPENAI_API_KEY not set in environment variables');
+      }
+      return createOpenAIProvider({
+        name: 'openai',
+        apiKey: process.env.OPENAI_API_KEY,
+        baseURL: process.env.LLM_BASE_URL,
+        defaultModel: INTERVIEW_MODEL,
+        fixedModel: process.env.LLM_MODEL,
+      });
+  }
+}
+
+let provider: LLMProvider | null = null;
+
+export function getLLMProvider(): LLMProvider {
+  if (!provider) {
+    provider = createProviderFromEnv();
+  }
+  return provider;
+}
+
+/** Replace the active provider, e.g. with a mock carrying test-specific fixtures */
+export function setLLMProvider(next: LLMProvider | null): void {
+  provider = next;
+}
+
+export async function generateCompletion(
+  messages: ChatCompletionMessage[],
+  options?: CompletionOptions
+): Promise<string> {
+  const { temperature = 0.7, maxTokens = 4096, responseFormat = 'text', model = INTERVIEW_MODEL, task } = options || {};
+
+  return getLLMProvider().complete(messages, { temperature, maxTokens, responseFormat, model, task });
+}
+
+export async function generateStructuredCompletion<T>(
+  messages: ChatCompletionMessage[],
+  options?: Omit<CompletionOptions, 'responseFormat'>
+): Promise<T> {
+  const content = await generateCompletion(messages, {
+    ...options,
+    responseFormat: 'json',
+  });
+
+  try {
+    return JSON.parse(content) as T;
+  } catch (error) {
+    console.error('Failed to parse JSON response:', content);
+    throw new Error('Failed to parse AI response as JSON');
+  }
+}
+
+export async function streamCompletion(
+  messages: ChatCompletionMessage[],
+  options?: CompletionOptions
+): Promise<AsyncIterable<string>> {
+  const { temperature = 0.7, maxTokens = 4096, responseFormat = 'text', model = INTERVIEW_MODEL, task } = options || {};
+
+  return getLLMProvider().stream(messages, { temperature, maxTokens, responseFormat, model, task });
+}
@@ -0,0 +1,62 @@
+import fs from 'fs';
+import { DEFAULT_FIXTURES, type Fixture, type FixtureResponse, type FixtureSet } from './fixtures';
+import type { ChatCompletionMessage, CompletionOptions, LLMProvider } from './types';
+
+const STREAM_CHUNK_SIZE = 24;
+
+function loadFixtureFile(path: string): FixtureSet {
+  try {
+    return JSON.parse(fs.readFileSync(path, 'utf-8')) as FixtureSet;
+  } catch (error) {
+    throw new Error(`Failed to load LLM mock fixtures from ${path}: ${(error as Error).message}`);
+  }
+}
+
+/**
+ * Deterministic provider that answers from fixtures keyed by `options.task`.
+ * Lets the explain and interview flows run offline and without an API key.
+ */
+export function createMockProvider(overrides: FixtureSet = {}, fixturePath?: string): LLMProvider {
+  const fixtures: FixtureSet = {
+    ...DEFAULT_FIXTURES,
+    ...(fixturePath ? loadFixtureFile(fixturePath) : {}),
+    ...overrides,
+  };
+  const callCounts = new Map<string, number>();
+
+  function nextResponse(messages: ChatCompletionMessage[], options: CompletionOptions): string {
+    const fixture: Fixture | undefined = options.task ? fixtures[options.task] : undefined;
+
+    let response: FixtureResponse;
+    if (fixture === undefined) {
+      response = options.responseFormat === 'json' ? {} : `Mock response to: ${messages[messages.length - 1]?.content.slice(0, 80) || ''}`;
+    } else if (Array.isArray(fixture)) {
+      const key = options.task!;
+      const count = callCounts.get(key) || 0;
+      callCounts.set(key, count + 1);
+      response = fixture[Math.min(count, fixture.length - 1)];
+    } else {
+      response = fixture;
+    }
+
+    return typeof response === 'string' ? response : JSON.stringify(response);
+  }
+
+  return {
+    name: 'mock',
+    resolveModel: () => 'mock',
+
+    async complete(messages, options) {
+      return nextResponse(messages, options);
+    },
+
+    async stream(messages, options) {
+      const content = nextResponse(messages, options);
+      return (async function* () {
+        for (let i = 0; i < content.length; i += STREAM_CHUNK_SIZE) {
+          yield content.slice(i, i + STREAM_CHUNK_SIZE);
+        }
+      })();
+    },
+  };
+}
@@ -0,0 +1,3 @@
+// Model names used by the app. Kept free of provider code so client components can import them.
+export const EXPLAIN_MODEL = 'gpt-4o-mini';
+export const INTERVIEW_MODEL = 'gpt-4-turbo-preview';
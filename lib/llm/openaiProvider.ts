@@ -0,0 +1,64 @@
+import OpenAI from 'openai';
+import type { ChatCompletionMessage, CompletionOptions, LLMProvider } from './types';
+
+interface OpenAIProviderConfig {
+  name: 'openai' | 'local';
+  apiKey?: string;
+  /** Base URL of an OpenAI-compatible server, e.g. http://localhost:11434/v1 for Ollama */
+  baseURL?: string;
+  defaultModel: string;
+  /** When set, every request uses this model regardless of what the caller asked for */
+  fixedModel?: string;
+}
+
+/**
+ * Provider for the OpenAI API and any server that speaks the same protocol
+ * (Ollama, llama.cpp server, vLLM, LM Studio).
+ */
+export function createOpenAIProvider(config: OpenAIProviderConfig): LLMProvider {
+  const client = new OpenAI({
+    // Local servers usually ignore the key, but the SDK refuses to start without one
+    apiKey: config.apiKey || (config.name === 'local' ? 'local' : undefined),
+    baseURL: config.baseURL,
+  });
+
+  const resolveModel = (requested?: string): string =>
+    config.fixedModel || requested || config.defaultModel;
+
+  const buildRequest = (messages: ChatCompletionMessage[], options: CompletionOptions) => {
+    const { temperature = 0.7, maxTokens, responseFormat = 'text', model } = options;
+    return {
+      model: resolveModel(model),
+      messages,
+      temperature,
+      max_tokens: maxTokens,
+      response_format: responseFormat === 'json' ? { type: 'json_object' as const } : undefined,
+    };
+  };
+
+  return {
+    name: config.name,
+    resolveModel,
+
+    async complete(messages, options) {
+      const response = await client.chat.completions.create(buildRequest(messages, options));
+      return response.choices[0]?.message?.content || '';
+    },
+
+    async stream(messages, options) {
+      const stream = await client.chat.completions.create({
+        ...buildRequest(messages, options),
+        stream: true,
+      });
+
+      return (async function* () {
+        for await (const chunk of stream) {
+          const delta = chunk.choices[0]?.delta?.content;
+          if (delta) {
+            yield delta;
+          }
+        }
+      })();
+    },
+  };
+}
@@ -0,0 +1,43 @@
+export interface ChatCompletionMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+/**
+ * Names the kind of prompt being sent. Real providers ignore it; the mock
+ * provider uses it to pick a fixture response.
+ */
+export type CompletionTask =
+  | 'explain'
+  | 'refine'
+  | 'analyze-repo'
+  | 'generate-question'
+  | 'follow-up-question'
+  | 'evaluate-answer'
+  | 'hint'
+  | 'annotate-snippet'
+  | 'summarize-files'
+  | 'summarize-directory'
+  | 'summarize-repo'
+  | 'study-recommendations'
+  | 'evaluate-pitch'
+  | 'verify-claims'
+  | 'regenerate-claims';
+
+export interface CompletionOptions {
+  temperature?: number;
+  maxTokens?: number;
+  responseFormat?: 'text' | 'json';
+  /** Preferred model name; providers with a fixed model may ignore it */
+  model?: string;
+  task?: CompletionTask;
+}
+
+export interface LLMProvider {
+  readonly name: 'openai' | 'local' | 'mock';
+  complete(messages: ChatCompletionMessage[], options: CompletionOptions): Promise<string>;
+  /** Resolves once the request is accepted, then yields content deltas */
+  stream(messages: ChatCompletionMessage[], options: CompletionOptions): Promise<AsyncIterable<string>>;
+  /** The model that will actually serve a request for `requested` */
+  resolveModel(requested?: string): string;
+}
@@ -0,0 +1,132 @@
+import { EXPLAIN_MODEL, generateStructuredCompletion, type ChatCompletionMessage } from '@/lib/llm';
+import { countWords, describeDelivery } from '@/lib/speech/delivery';
+import type { PitchCriterion, PitchCriterionScore, PitchEvaluateRequest, PitchEvaluation } from '@/types/pitch';
+
+// /api/explain writes the pitch to be read aloud in about 30 seconds
+const TARGET_PITCH_SECONDS = 30;
+// Within this many seconds of the target counts as on time
+const TIMING_TOLERANCE_SECONDS = 5;
+// Each further second off target costs this many points
+const TIMING_PENALTY_PER_SECOND = 4;
+// Used to time a typed rehearsal
+const SPOKEN_WORDS_PER_MINUTE = 150;
+
+// Coverage and accuracy matter most: a pitch that is smooth but wrong is worse than one that runs long
+const CRITERION_WEIGHTS: Record<PitchCriterion, number> = {
+  coverage: 0.35,
+  accuracy: 0.3,
+  clarity: 0.2,
+  timing: 0.15,
+};
+
+interface PitchReviewResult {
+  coverage: PitchCriterionScore;
+  clarity: PitchCriterionScore;
+  accuracy: PitchCriterionScore;
+  feedback: string;
+  strengths: string[];
+  missedPoints: string[];
+}
+
+function clampScore(score: unknown): number {
+  return typeof score === 'number' && Number.isFinite(score) ? Math.round(Math.max(0, Math.min(100, score))) : 0;
+}
+
+function toCriterion(value: Partial<PitchCriterionScore> | undefined): PitchCriterionScore {
+  return { score: clampScore(value?.score), feedback: value?.feedback || '' };
+}
+
+/** Full marks within a few seconds of the target, then a linear penalty either way */
+export function scoreTiming(durationSeconds: number): PitchCriterionScore {
+  const seconds = Math.round(durationSeconds);
+  const offBy = Math.abs(durationSeconds - TARGET_PITCH_SECONDS);
+  if (offBy <= TIMING_TOLERANCE_SECONDS) {
+    return { score: 100, feedback: `${seconds}s, right on the ${TARGET_PITCH_SECONDS}-second target.` };
+  }
+
+  const score = clampScore(100 - (offBy - TIMING_TOLERANCE_SECONDS) * TIMING_PENALTY_PER_SECOND);
+  return {
+    score,
+    feedback: durationSeconds > TARGET_PITCH_SECONDS
+      ? `${seconds}s, about ${Math.round(offBy)}s over the ${TARGET_PITCH_SECONDS}-second target. Cut the least important detail.`
+      : `${seconds}s, about ${Math.round(offBy)}s under the ${TARGET_PITCH_SECONDS}-second target. There is room for one more technical decision or result.`,
+  };
+}
+
+/**
+ * Score a rehearsed pitch against the generated one and the project
+ * context. Timing is measured (or estimated for typed rehearsals); coverage
+ * of key technical decisions, clarity and accuracy are judged by the model.
+ * The overall score is a weighted mix, with the same feedback shape as an
+ * interview `Evaluation`.
+ */
+export async function evaluatePitch(request: PitchEvaluateRequest): Promise<PitchEvaluation> {
+  const { rehearsedPitch, generatedPitch, projectContext, delivery } = request;
+
+  const durationEstimated = !delivery;
+  const durationSeconds = delivery
+    ? delivery.durationSeconds
+    : Math.round((countWords(rehearsedPitch) / SPOKEN_WORDS_PER_MINUTE) * 60);
+
+  const messages: ChatCompletionMessage[] = [
+    {
+      role: 'system',
+      content: `You are an interview coach reviewing a candidate rehearsing the "tell me about a project" pitch. You compare what they said with a reference pitch and the project's facts.
+
+Score each criterion from 0 to 100:
+- COVERAGE: Did they mention the key technical decisions from the reference pitch (architecture, technologies and why they were chosen, the hardest problem and its solution, the result)? Paraphrasing is fine; missing decisions cost points.
+- CLARITY: Is it easy to follow when heard once: a clear problem, approach and impact, without rambling, hedging or filler?
+- ACCURACY: Is every claim consistent with the project context? Invented technologies, metrics or features are serious errors. Claims that are merely absent from the context are not errors.
+
+Be specific: name the decisions they missed and the claims that are wrong.`,
+    },
+    {
+      role: 'user',
+      content: `REFERENCE PITCH:
+${generatedPitch}
+
+${projectContext ? `PROJECT CONTEXT:\n${projectContext}\n\n` : ''}CANDIDATE'S REHEARSAL${delivery ? ' (spoken, transcribed automatically - forgive transcription errors in names)' : ''}:
+${rehearsedPitch}
+${delivery ? `\nDELIVERY: ${describeDelivery(delivery)}\n` : ''}
+Respond in JSON format:
+{
+  "coverage": { "score": <number 0-100>, "feedback": "Which key decisions were covered or missed" },
+  "clarity": { "score": <number 0-100>, "feedback": "How easy it was to follow" },
+  "accuracy": { "score": <number 0-100>, "feedback": "Any claims that contradict the project context" },
+  "feedback": "Two or three sentences of overall coaching",
+  "strengths": ["what the rehearsal did well"],
+  "missedPoints": ["key decisions left out, or claims to correct"]
+}`,
+    },
+  ];
+
+  const result = await generateStructuredCompletion<PitchReviewResult>(messages, {
+    model: EXPLAIN_MODEL,
+    temperature: 0.3,
+    task: 'evaluate-pitch',
+    maxTokens: 1500,
+  });
+
+  const criteria: Record<PitchCriterion, PitchCriterionScore> = {
+    timing: scoreTiming(durationSeconds),
+    coverage: toCriterion(result.coverage),
+    clarity: toCriterion(result.clarity),
+    accuracy: toCriterion(result.accuracy),
+  };
+  const score = Math.round(
+    (Object.keys(CRITERION_WEIGHTS) as PitchCriterion[])
+      .reduce((sum, criterion) => sum + criteria[criterion].score * CRITERION_WEIGHTS[criterion], 0)
+  );
+
+  return {
+    score,
+    isCorrect: score >= 70,
+    feedback: result.feedback || '',
+    missedPoints: result.missedPoints || [],
+    strengths: result.strengths || [],
+    needsHint: score < 50,
+    criteria,
+    durationSeconds,
+    durationEstimated,
+  };
+}
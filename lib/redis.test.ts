@@ -0,0 +1,59 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { InMemoryStore, redis } from './redis';
+
+describe('redis.setIfAbsent', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('sets a key only when it does not exist', async () => {
+    expect(await redis.setIfAbsent('test:lock:a', 60, 'first')).toBe(true);
+    expect(await redis.setIfAbsent('test:lock:a', 60, 'second')).toBe(false);
+    expect(await redis.get('test:lock:a')).toBe('first');
+
+    await redis.del('test:lock:a');
+    expect(await redis.setIfAbsent('test:lock:a', 60, 'third')).toBe(true);
+  });
+
+  it('treats an expired key as absent', async () => {
+    vi.useFakeTimers();
+    expect(await redis.setIfAbsent('test:lock:b', 10, 'first')).toBe(true);
+    vi.advanceTimersByTime(11 * 1000);
+    expect(await redis.setIfAbsent('test:lock:b', 10, 'second')).toBe(true);
+    expect(await redis.get('test:lock:b')).toBe('second');
+  });
+});
+
+describe('redis.delIfEquals', () => {
+  it('deletes a key only while it holds the given value', async () => {
+    await redis.setex('test:lock:c', 60, 'mine');
+    expect(await redis.delIfEquals('test:lock:c', 'theirs')).toBe(false);
+    expect(await redis.get('test:lock:c')).toBe('mine');
+
+    expect(await redis.delIfEquals('test:lock:c', 'mine')).toBe(true);
+    expect(await redis.get('test:lock:c')).toBeNull();
+    expect(await redis.delIfEquals('test:lock:c', 'mine')).toBe(false);
+  });
+});
+
+describe('InMemoryStore', () => {
+  it('evicts the least recently used keys past its size limit', async () => {
+    const store = new InMemoryStore(10, new Map());
+    await store.setex('a', 60, 'aaaa');
+    await store.setex('b', 60, 'bbbb');
+    await store.get('a');
+    await store.setex('c', 60, 'cccc');
+
+    expect(await store.get('b')).toBeNull();
+    expect(await store.get('a')).toBe('aaaa');
+    expect(await store.get('c')).toBe('cccc');
+  });
+
+  it('keeps the value just written even when it is over the limit', async () => {
+    const store = new InMemoryStore(4, new Map());
+    await store.setex('a', 60, 'a');
+    await store.setex('big', 60, 'too large');
+    expect(await store.get('a')).toBeNull();
+    expect(await store.get('big')).toBe('too large');
+  });
+});
@@ -15,7 +15,9 @@ const getRedisUrl = (): string => {
 interface RedisLike {
   get(key: string): Promise<string | null>;
   setex(key: string, seconds: number, value: string): Promise<string>;
+  setIfAbsent(key: string, seconds: number, value: string): Promise<boolean>;
   del(key: string): Promise<number>;
+  delIfEquals(key: string, value: string): Promise<boolean>;
   ping(): Promise<string>;
 }
 
@@ -25,14 +27,22 @@ declare global {
   var __redisClientInstance: Redis | InMemoryStore | undefined;
 }
 
+// Total length of the values the in-memory store keeps. Cached repos and analyses
+// can be several megabytes each and live for days, so the least recently used
+// entries are evicted past this instead of growing until they expire
+const MAX_IN_MEMORY_CHARS = 64 * 1024 * 1024;
+
 // In-memory fallback for development when Redis is not available
 class InMemoryStore implements RedisLike {
   private store: Map<string, { value: string; expiry?: number }>;
+  private totalChars = 0;
   public readonly _isInMemoryStore = true; // Marker for type checking
 
-  constructor() {
+  constructor(private readonly maxChars = MAX_IN_MEMORY_CHARS, store?: Map<string, { value: string; expiry?: number }>) {
     // Use global store if it exists (persists across hot reloads), otherwise create new
-    if (typeof global !== 'undefined' && global.__inMemoryStore) {
+    if (store) {
+      this.store = store;
+    } else if (typeof global !== 'undefined' && global.__inMemoryStore) {
       this.store = global.__inMemoryStore;
     } else {
       this.store = new Map<string, { value: string; expiry?: number }>();
@@ -40,6 +50,25 @@ class InMemoryStore implements RedisLike {
         global.__inMemoryStore = this.store;
       }
     }
+    for (const item of this.store.values()) {
+      this.totalChars += item.value.length;
+    }
+  }
+
+  private remove(key: string): boolean {
+    const item = this.store.get(key);
+    if (!item) return false;
+    this.store.delete(key);
+    this.totalChars -= item.value.length;
+    return true;
+  }
+
+  // Maps iterate in insertion order, and reads re-insert, so the first keys are the least recently used
+  private evict(keep: string): void {
+    for (const key of this.store.keys()) {
+      if (this.totalChars <= this.maxChars) break;
+      if (key !== keep) this.remove(key);
+    }
   }
 
   async get(key: string): Promise<string | null> {
@@ -53,10 +82,12 @@ class InMemoryStore implements RedisLike {
     
     // Check if expired
     if (item.expiry && Date.now() > item.expiry) {
-      this.store.delete(key);
+      this.remove(key);
       return null;
     }
-    
+
+    this.store.delete(key);
+    this.store.set(key, item);
     if (process.env.NODE_ENV === 'development') {
       console.log(`[InMemoryStore] Retrieved key: ${key}`);
     }
@@ -65,15 +96,30 @@ class InMemoryStore implements RedisLike {
 
   async setex(key: string, seconds: number, value: string): Promise<string> {
     const expiry = Date.now() + seconds * 1000;
+    this.remove(key);
     this.store.set(key, { value, expiry });
+    this.totalChars += value.length;
+    this.evict(key);
     if (process.env.NODE_ENV === 'development') {
       console.log(`[InMemoryStore] Saved key: ${key}, store size: ${this.store.size}`);
     }
     return 'OK';
   }
 
+  async setIfAbsent(key: string, seconds: number, value: string): Promise<boolean> {
+    // get() also drops the key once it has expired
+    if ((await this.get(key)) !== null) return false;
+    await this.setex(key, seconds, value);
+    return true;
+  }
+
   async del(key: string): Promise<number> {
-    return this.store.delete(key) ? 1 : 0;
+    return this.remove(key) ? 1 : 0;
+  }
+
+  async delIfEquals(key: string, value: string): Promise<boolean> {
+    if ((await this.get(key)) !== value) return false;
+    return this.remove(key);
   }
 
   async ping(): Promise<string> {
@@ -303,6 +349,9 @@ function isInMemoryStore(instance: Redis | InMemoryStore): instance is InMemoryS
   return instance && (instance as any)._isInMemoryStore === true;
 }
 
+// GET and DEL in one step, so a key that changed hands in between is not deleted
+const DEL_IF_EQUALS_SCRIPT = `if redis.call('get', KEYS[1]) == ARGV[1] then return redis.call('del', KEYS[1]) else return 0 end`;
+
 // Create a wrapper that works with both Redis and InMemoryStore
 export const redis = {
   get: async (key: string): Promise<string | null> => {
@@ -357,6 +406,33 @@ export const redis = {
       throw error;
     }
   },
+  /** SET key value EX seconds NX: whether the key was set, i.e. did not exist yet */
+  setIfAbsent: async (key: string, seconds: number, value: string): Promise<boolean> => {
+    // Ensure we're using the right instance
+    if (RedisClient.isUsingInMemory()) {
+      const instance = RedisClient.getInstance();
+      if (isInMemoryStore(instance)) {
+        return instance.setIfAbsent(key, seconds, value);
+      }
+    }
+    
+    const instance = RedisClient.getInstance();
+    if (isInMemoryStore(instance)) {
+      return instance.setIfAbsent(key, seconds, value);
+    }
+    
+    try {
+      return (await (instance as Redis).set(key, value, 'EX', seconds, 'NX')) === 'OK';
+    } catch (error) {
+      // If Redis operation fails, fall back to in-memory in all environments
+      if (!RedisClient.isUsingInMemory()) {
+        RedisClient.switchToInMemory();
+        const inMemory = RedisClient.getInstance();
+        return (inMemory as InMemoryStore).setIfAbsent(key, seconds, value);
+      }
+      throw error;
+    }
+  },
   del: async (key: string): Promise<number> => {
     // Ensure we're using the right instance
     if (RedisClient.isUsingInMemory()) {
@@ -383,6 +459,33 @@ export const redis = {
       throw error;
     }
   },
+  /** Delete a key only while it still holds `value`, atomically: whether it was deleted */
+  delIfEquals: async (key: string, value: string): Promise<boolean> => {
+    // Ensure we're using the right instance
+    if (RedisClient.isUsingInMemory()) {
+      const instance = RedisClient.getInstance();
+      if (isInMemoryStore(instance)) {
+        return instance.delIfEquals(key, value);
+      }
+    }
+    
+    const instance = RedisClient.getInstance();
+    if (isInMemoryStore(instance)) {
+      return instance.delIfEquals(key, value);
+    }
+    
+    try {
+      return (await (instance as Redis).eval(DEL_IF_EQUALS_SCRIPT, 1, key, value)) === 1;
+    } catch (error) {
+      // If Redis operation fails, fall back to in-memory in all environments
+      if (!RedisClient.isUsingInMemory()) {
+        RedisClient.switchToInMemory();
+        const inMemory = RedisClient.getInstance();
+        return (inMemory as InMemoryStore).delIfEquals(key, value);
+      }
+      throw error;
+    }
+  },
   ping: async (): Promise<string> => {
     // Ensure we're using the right instance
     if (RedisClient.isUsingInMemory()) {
@@ -411,4 +514,16 @@ export const redis = {
   },
 };
 
-export { RedisClient };
+/** Connect before an operation; a connection already in progress or open counts as connected */
+export async function ensureRedisConnected(): Promise<void> {
+  try {
+    await RedisClient.connect();
+  } catch (error) {
+    const errorMessage = (error as Error).message;
+    if (errorMessage !== 'Redis is already connecting/connected') {
+      throw error;
+    }
+  }
+}
+
+export { InMemoryStore, RedisClient };
@@ -0,0 +1,61 @@
+import type { DeliveryMetrics, SpeakingPace } from '@/types/speech';
+
+// Conversational interview pace; below sounds hesitant, above is hard to follow
+const SLOW_WORDS_PER_MINUTE = 110;
+const FAST_WORDS_PER_MINUTE = 170;
+
+// "like" is only a filler when set off by commas; "you know" and "I mean" are rarely anything else when spoken
+const FILLER_PATTERNS: Array<[string, RegExp]> = [
+  ['um', /\b(?:u+h*m+|e+r+m+)\b/g],
+  ['uh', /\b(?:u+h+|e+r+|a+h+)\b/g],
+  ['like', /,\s*like\s*,/g],
+  ['you know', /\byou know\b/g],
+  ['i mean', /\bi mean\b/g],
+  ['basically', /\bbasically\b/g],
+  ['literally', /\bliterally\b/g],
+  ['sort of', /\bsort of\b/g],
+  ['kind of', /\bkind of\b/g],
+];
+
+export function countWords(text: string): number {
+  return (text.match(/[\p{L}\p{N}][\p{L}\p{N}'’-]*/gu) || []).length;
+}
+
+export function countFillerWords(text: string): Record<string, number> {
+  const normalized = text.toLowerCase();
+  const counts: Record<string, number> = {};
+  for (const [filler, pattern] of FILLER_PATTERNS) {
+    const count = (normalized.match(pattern) || []).length;
+    if (count > 0) counts[filler] = count;
+  }
+  return counts;
+}
+
+function getPace(wordsPerMinute: number): SpeakingPace {
+  if (wordsPerMinute < SLOW_WORDS_PER_MINUTE) return 'slow';
+  if (wordsPerMinute > FAST_WORDS_PER_MINUTE) return 'fast';
+  return 'good';
+}
+
+export function computeDeliveryMetrics(transcript: string, durationSeconds: number): DeliveryMetrics {
+  const wordCount = countWords(transcript);
+  const fillerWords = countFillerWords(transcript);
+  const wordsPerMinute = durationSeconds > 0 ? Math.round(wordCount / (durationSeconds / 60)) : 0;
+
+  return {
+    durationSeconds: Math.round(durationSeconds * 10) / 10,
+    wordCount,
+    wordsPerMinute,
+    fillerWordCount: Object.values(fillerWords).reduce((sum, count) => sum + count, 0),
+    fillerWords,
+    pace: getPace(wordsPerMinute),
+  };
+}
+
+/** One-line summary for prompts and the chat, e.g. "42s, 138 words per minute (good pace), 3 filler words (um ×2, you know ×1)" */
+export function describeDelivery(delivery: DeliveryMetrics): string {
+  const fillers = Object.entries(delivery.fillerWords)
+    .map(([filler, count]) => `${filler} ×${count}`)
+    .join(', ');
+  return `${Math.round(delivery.durationSeconds)}s, ${delivery.wordsPerMinute} words per minute (${delivery.pace} pace), ${delivery.fillerWordCount} filler word${delivery.fillerWordCount === 1 ? '' : 's'}${fillers ? ` (${fillers})` : ''}`;
+}
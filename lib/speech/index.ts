@@ -0,0 +1,116 @@
+import { createOpenAISpeechProvider } from './openaiProvider';
+import { createMockSpeechProvider } from './mockProvider';
+import { computeDeliveryMetrics, countWords } from './delivery';
+import type { DeliveryMetrics } from '@/types/speech';
+import type { SpeechProvider, SynthesizedSpeech, TranscribeOptions } from './types';
+
+export type { SpeechProvider, SynthesizedSpeech, TranscribeOptions, Transcription } from './types';
+export { computeDeliveryMetrics, countFillerWords, countWords, describeDelivery } from './delivery';
+
+export type SpeechProviderName = SpeechProvider['name'];
+
+// OpenAI's upload limit for transcription
+export const MAX_AUDIO_SIZE = 25 * 1024 * 1024;
+// Longest text synthesized in one request
+export const MAX_SPEECH_CHARS = 4096;
+// Used to estimate a recording's length when neither the provider nor the browser reports it
+const ESTIMATED_WORDS_PER_MINUTE = 140;
+
+/** Follows LLM_PROVIDER=mock unless SPEECH_PROVIDER says otherwise, so offline runs need no extra setup */
+export function getConfiguredSpeechProviderName(): SpeechProviderName {
+  const fallback = (process.env.LLM_PROVIDER || '').toLowerCase() === 'mock' ? 'mock' : 'openai';
+  const name = (process.env.SPEECH_PROVIDER || fallback).toLowerCase();
+  if (name === 'openai' || name === 'local' || name === 'mock') {
+    return name;
+  }
+  throw new Error(`Unknown SPEECH_PROVIDER "${name}". Use "openai", "local" or "mock".`);
+}
+
+function createProviderFromEnv(): SpeechProvider {
+  const name = getConfiguredSpeechProviderName();
+
+  switch (name) {
+    case 'mock':
+      return createMockSpeechProvider(process.env.SPEECH_MOCK_TRANSCRIPT || undefined);
+    case 'local':
+      if (!process.env.SPEECH_BASE_URL) {
+        throw new Error('SPEECH_BASE_URL is required when SPEECH_PROVIDER=local');
+      }
+      return createOpenAISpeechProvider({
+        name: 'local',
+        apiKey: process.env.SPEECH_API_KEY,
+        baseURL: process.env.SPEECH_BASE_URL,
+        transcriptionModel: process.env.SPEECH_TRANSCRIPTION_MODEL || 'Systran/faster-whisper-small',
+        speechModel: process.env.SPEECH_TTS_MODEL || 'tts-1',
+        voice: process.env.SPEECH_VOICE || 'alloy',
+      });
+    case 'openai':
+    default:
+      if (!process.env.OPENAI_API_KEY) {
+        console.warn('Warning: OPENAI_API_KEY not set in environment variables');
+      }
+      return createOpenAISpeechProvider({
+        name: 'openai',
+        apiKey: process.env.OPENAI_API_KEY,
+        transcriptionModel: process.env.SPEECH_TRANSCRIPTION_MODEL || 'whisper-1',
+        speechModel: process.env.SPEECH_TTS_MODEL || 'tts-1',
+        voice: process.env.SPEECH_VOICE || 'alloy',
+      });
+  }
+}
+
+let provider: SpeechProvider | null = null;
+
+export function getSpeechProvider(): SpeechProvider {
+  if (!provider) {
+    provider = createProviderFromEnv();
+  }
+  return provider;
+}
+
+/** Replace the active provider, e.g. with a mock carrying a test-specific transcript */
+export function setSpeechProvider(next: SpeechProvider | null): void {
+  provider = next;
+}
+
+export type RecordingUpload =
+  | { audio: File; recordedSeconds: number | null; error?: undefined }
+  | { error: string };
+
+/** Read the `audio` file and the browser-timed `durationSeconds` field of a recording upload */
+export function readRecordingUpload(formData: FormData): RecordingUpload {
+  const audio = formData.get('audio');
+  if (!(audio instanceof File) || audio.size === 0) {
+    return { error: 'An audio recording is required' };
+  }
+  if (audio.size > MAX_AUDIO_SIZE) {
+    return { error: 'Recording exceeds the 25MB limit' };
+  }
+  const recordedSeconds = Number(formData.get('durationSeconds'));
+  return { audio, recordedSeconds: Number.isFinite(recordedSeconds) && recordedSeconds > 0 ? recordedSeconds : null };
+}
+
+export interface TranscribedRecording {
+  transcript: string;
+  delivery: DeliveryMetrics;
+}
+
+/**
+ * Transcribe a recorded answer or pitch and measure its delivery. The
+ * provider's duration wins over `recordedSeconds` (what the browser timed),
+ * which wins over an estimate from the word count.
+ */
+export async function transcribeRecording(
+  audio: File,
+  recordedSeconds: number | null,
+  options?: TranscribeOptions
+): Promise<TranscribedRecording> {
+  const { text, durationSeconds } = await getSpeechProvider().transcribe(audio, options);
+  const duration = durationSeconds || recordedSeconds || (countWords(text) / ESTIMATED_WORDS_PER_MINUTE) * 60;
+
+  return { transcript: text, delivery: computeDeliveryMetrics(text, duration) };
+}
+
+export async function synthesizeSpeech(text: string): Promise<SynthesizedSpeech> {
+  return getSpeechProvider().synthesize(text.slice(0, MAX_SPEECH_CHARS));
+}
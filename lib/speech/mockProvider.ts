@@ -0,0 +1,51 @@
+import type { SpeechProvider } from './types';
+
+export const DEFAULT_MOCK_TRANSCRIPT =
+  'So, um, the request comes in through the API route, which validates the input and, you know, returns a 400 when it is missing. Then it calls into the library module that does the main work and caches the result.';
+
+const SAMPLE_RATE = 16000;
+const SILENCE_SECONDS = 0.5;
+
+// Half a second of 16-bit mono silence, enough for an <audio> element to play and fire `ended`
+function createSilentWav(): ArrayBuffer {
+  const dataSize = SAMPLE_RATE * SILENCE_SECONDS * 2;
+  const buffer = new ArrayBuffer(44 + dataSize);
+  const view = new DataView(buffer);
+  const writeString = (offset: number, value: string) => {
+    for (let i = 0; i < value.length; i++) view.setUint8(offset + i, value.charCodeAt(i));
+  };
+
+  writeString(0, 'RIFF');
+  view.setUint32(4, 36 + dataSize, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, 1, true); // mono
+  view.setUint32(24, SAMPLE_RATE, true);
+  view.setUint32(28, SAMPLE_RATE * 2, true);
+  view.setUint16(32, 2, true);
+  view.setUint16(34, 16, true);
+  writeString(36, 'data');
+  view.setUint32(40, dataSize, true);
+  return buffer;
+}
+
+/**
+ * Deterministic provider: every recording transcribes to the same text and
+ * every synthesis is silence. Lets the voice flows run offline.
+ */
+export function createMockSpeechProvider(transcript: string = DEFAULT_MOCK_TRANSCRIPT): SpeechProvider {
+  return {
+    name: 'mock',
+
+    async transcribe() {
+      // No duration, so callers fall back to the length the browser recorded
+      return { text: transcript, durationSeconds: null };
+    },
+
+    async synthesize() {
+      return { audio: createSilentWav(), contentType: 'audio/wav' };
+    },
+  };
+}
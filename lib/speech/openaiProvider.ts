@@ -0,0 +1,57 @@
+import OpenAI from 'openai';
+import type { SpeechProvider } from './types';
+
+interface OpenAISpeechProviderConfig {
+  name: 'openai' | 'local';
+  apiKey?: string;
+  /** Base URL of a Whisper-compatible server, e.g. http://localhost:8000/v1 for faster-whisper-server */
+  baseURL?: string;
+  transcriptionModel: string;
+  speechModel: string;
+  voice: string;
+}
+
+// Whisper only reads the last 224 tokens of the prompt
+const MAX_PROMPT_CHARS = 800;
+
+/**
+ * Speech provider for the OpenAI audio API and any server that speaks the
+ * same protocol (faster-whisper-server, whisper.cpp server, LocalAI).
+ */
+export function createOpenAISpeechProvider(config: OpenAISpeechProviderConfig): SpeechProvider {
+  const client = new OpenAI({
+    // Local servers usually ignore the key, but the SDK refuses to start without one
+    apiKey: config.apiKey || (config.name === 'local' ? 'local' : undefined),
+    baseURL: config.baseURL,
+  });
+
+  return {
+    name: config.name,
+
+    async transcribe(audio, options = {}) {
+      // verbose_json reports the recording's duration alongside the text
+      const result = await client.audio.transcriptions.create({
+        file: audio,
+        model: config.transcriptionModel,
+        language: options.language,
+        prompt: options.prompt?.slice(-MAX_PROMPT_CHARS),
+        response_format: 'verbose_json',
+      });
+      return {
+        text: result.text.trim(),
+        // Some Whisper-compatible servers leave it out
+        durationSeconds: Number.isFinite(result.duration) ? result.duration : null,
+      };
+    },
+
+    async synthesize(text, options = {}) {
+      const response = await client.audio.speech.create({
+        model: config.speechModel,
+        voice: options.voice || config.voice,
+        input: text,
+        response_format: 'mp3',
+      });
+      return { audio: await response.arrayBuffer(), contentType: 'audio/mpeg' };
+    },
+  };
+}
@@ -0,0 +1,42 @@
+// Browser-side text-to-speech playback through /api/speech/synthesize
+
+let current: { audio: HTMLAudioElement; url: string } | null = null;
+
+// Drop the chat's markdown so it is not read out as symbols
+export function toSpeakableText(text: string): string {
+  return text
+    .replace(/```[\s\S]*?```/g, ' ')
+    .replace(/[*_`#>]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+export function stopSpeech(): void {
+  if (!current) return;
+  current.audio.pause();
+  URL.revokeObjectURL(current.url);
+  current = null;
+}
+
+/** Read `text` aloud, cutting off whatever is playing; resolves once playback starts */
+export async function playSpeech(text: string): Promise<void> {
+  const response = await fetch('/api/speech/synthesize', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ text: toSpeakableText(text) }),
+  });
+
+  if (!response.ok) {
+    const data = await response.json().catch(() => ({}));
+    throw new Error(data.error || 'Failed to read text aloud');
+  }
+
+  const url = URL.createObjectURL(await response.blob());
+  stopSpeech();
+  const audio = new Audio(url);
+  current = { audio, url };
+  audio.addEventListener('ended', () => {
+    if (current?.audio === audio) stopSpeech();
+  });
+  await audio.play();
+}
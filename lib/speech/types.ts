@@ -0,0 +1,27 @@
+export interface TranscribeOptions {
+  /** ISO-639-1 code; providers detect the language when omitted */
+  language?: string;
+  /** Text the recording is likely to mention, e.g. the question, so identifiers are spelled right */
+  prompt?: string;
+}
+
+export interface Transcription {
+  text: string;
+  /** Length of the recording, when the provider reports it */
+  durationSeconds: number | null;
+}
+
+export interface SynthesizeOptions {
+  voice?: string;
+}
+
+export interface SynthesizedSpeech {
+  audio: ArrayBuffer;
+  contentType: string;
+}
+
+export interface SpeechProvider {
+  readonly name: 'openai' | 'local' | 'mock';
+  transcribe(audio: File, options?: TranscribeOptions): Promise<Transcription>;
+  synthesize(text: string, options?: SynthesizeOptions): Promise<SynthesizedSpeech>;
+}
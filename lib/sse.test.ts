@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest'
+import { createSSEStream, readSSEStream } from './sse'
+
+// A response whose body arrives in exactly these chunks
+function responseOf(chunks: string[]): Response {
+  const encoder = new TextEncoder()
+  return new Response(new ReadableStream<Uint8Array>({
+    start(controller) {
+      for (const chunk of chunks) controller.enqueue(encoder.encode(chunk))
+      controller.close()
+    },
+  }))
+}
+
+async function read(response: Response): Promise<Array<[string, unknown]>> {
+  const events: Array<[string, unknown]> = []
+  await readSSEStream(response, (event, data) => events.push([event, data]))
+  return events
+}
+
+describe('readSSEStream', () => {
+  it('reassembles frames split across chunks', async () => {
+    const events = await read(responseOf([
+      'event: prog',
+      'ress\ndata: {"done":',
+      ' 1}\n',
+      '\nevent: result\ndata: {"ok":true}\n\nev',
+      'ent: end\ndata: {}\n\n',
+    ]))
+
+    expect(events).toEqual([
+      ['progress', { done: 1 }],
+      ['result', { ok: true }],
+      ['end', {}],
+    ])
+  })
+
+  it('decodes multi-byte characters split between chunks', async () => {
+    const bytes = new TextEncoder().encode('data: "héllo"\n\n')
+    const split = bytes.indexOf(0xc3) + 1
+    const response = new Response(new ReadableStream<Uint8Array>({
+      start(controller) {
+        controller.enqueue(bytes.slice(0, split))
+        controller.enqueue(bytes.slice(split))
+        controller.close()
+      },
+    }))
+
+    expect(await read(response)).toEqual([['message', 'héllo']])
+  })
+
+  it('joins multi-line data, passes non-JSON through and reads a final frame without a separator', async () => {
+    expect(await read(responseOf(['data: first\ndata: second\n\n: comment\n\n', 'event: tail\ndata: 42']))).toEqual([
+      ['message', 'first\nsecond'],
+      ['tail', 42],
+    ])
+  })
+
+  it('reads back what createSSEStream sends', async () => {
+    const stream = createSSEStream(async send => {
+      send('tokens', { estimatedTokens: 1200 })
+      send('result', { text: 'two\n\nparagraphs' })
+    })
+
+    expect(await read(new Response(stream))).toEqual([
+      ['tokens', { estimatedTokens: 1200 }],
+      ['result', { text: 'two\n\nparagraphs' }],
+    ])
+  })
+})
@@ -0,0 +1,101 @@
+// Server-sent events helpers
+// Used by streaming API routes on the server and by the client to read them back
+
+export const SSE_HEADERS: Record<string, string> = {
+  'Content-Type': 'text/event-stream; charset=utf-8',
+  'Cache-Control': 'no-cache, no-transform',
+  'Connection': 'keep-alive',
+  'X-Accel-Buffering': 'no', // Disable proxy buffering (nginx) so events arrive immediately
+}
+
+export type SSESend = (event: string, data: unknown) => void
+
+// Check whether the client asked for an event stream instead of a single JSON response
+export function wantsEventStream(request: Request): boolean {
+  return (request.headers.get('accept') || '').includes('text/event-stream')
+}
+
+// Create a stream that runs `handler` and forwards everything it sends as SSE frames.
+// The stream is closed when the handler settles; errors must be reported by the handler itself.
+export function createSSEStream(handler: (send: SSESend) => Promise<void>): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder()
+
+  return new ReadableStream<Uint8Array>({
+    async start(controller) {
+      let closed = false
+      const send: SSESend = (event, data) => {
+        if (closed) return
+        try {
+          controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`))
+        } catch {
+          // Client disconnected, stop writing
+          closed = true
+        }
+      }
+
+      try {
+        await handler(send)
+      } finally {
+        if (!closed) {
+          closed = true
+          controller.close()
+        }
+      }
+    },
+  })
+}
+
+// Read an SSE response body and invoke `onEvent` for every complete frame.
+// `T` is what the route sends; it is not checked, so callers must trust their own endpoint
+export async function readSSEStream<T = unknown>(
+  response: Response,
+  onEvent: (event: string, data: T) => void
+): Promise<void> {
+  if (!response.body) {
+    throw new Error('Response has no body to stream')
+  }
+
+  const reader = response.body.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ''
+
+  const dispatch = (frame: string) => {
+    let event = 'message'
+    const dataLines: string[] = []
+    for (const line of frame.split('\n')) {
+      if (line.startsWith('event:')) {
+        event = line.slice(6).trim()
+      } else if (line.startsWith('data:')) {
+        dataLines.push(line.slice(5).trimStart())
+      }
+    }
+    if (dataLines.length === 0) return
+    const raw = dataLines.join('\n')
+    // Non-JSON data is passed through as text; errors thrown by the handler propagate
+    let data: unknown = raw
+    try {
+      data = JSON.parse(raw)
+    } catch {
+      // Not JSON
+    }
+    onEvent(event, data as T)
+  }
+
+  while (true) {
+    const { done, value } = await reader.read()
+    if (done) break
+    buffer += decoder.decode(value, { stream: true })
+
+    let separatorIndex = buffer.indexOf('\n\n')
+    while (separatorIndex !== -1) {
+      dispatch(buffer.slice(0, separatorIndex))
+      buffer = buffer.slice(separatorIndex + 2)
+      separatorIndex = buffer.indexOf('\n\n')
+    }
+  }
+
+  buffer += decoder.decode()
+  if (buffer.trim()) {
+    dispatch(buffer)
+  }
+}
@@ -0,0 +1,36 @@
+import { createHash } from 'crypto';
+import { ensureRedisConnected, redis } from '@/lib/redis';
+
+const SUMMARY_CACHE_PREFIX = 'summary:';
+const SUMMARY_CACHE_TTL = 7 * 24 * 60 * 60; // 7 days; keys are content hashes, so entries never go stale
+
+export type SummaryKind = 'file' | 'directory' | 'repo';
+
+/**
+ * Summaries are keyed by a hash of what was summarized (a file's content, or
+ * the child summaries of a directory), so an unchanged file keeps its summary
+ * across commits, branches and forks.
+ */
+export function summaryHash(text: string): string {
+  return createHash('sha256').update(text).digest('hex');
+}
+
+export async function getCachedSummary(kind: SummaryKind, hash: string): Promise<string | null> {
+  try {
+    await ensureRedisConnected();
+    return await redis.get(`${SUMMARY_CACHE_PREFIX}${kind}:${hash}`);
+  } catch (error) {
+    console.error('Error reading summary cache:', error);
+    return null;
+  }
+}
+
+export async function cacheSummary(kind: SummaryKind, hash: string, summary: string): Promise<void> {
+  try {
+    await ensureRedisConnected();
+    await redis.setex(`${SUMMARY_CACHE_PREFIX}${kind}:${hash}`, SUMMARY_CACHE_TTL, summary);
+  } catch (error) {
+    // Caching is best-effort; the summary is still used for this request
+    console.error('Error writing summary cache:', error);
+  }
+}
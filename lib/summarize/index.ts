@@ -0,0 +1,312 @@
+import { EXPLAIN_MODEL, generateCompletion, generateStructuredCompletion, type ChatCompletionMessage } from '@/lib/llm';
+import { compareByValue, estimateTokens, findReadme, INGEST_TOKEN_BUDGET } from '@/lib/ingest';
+import type { FetchedRepo, RepoFile, RepoSummary } from '@/types/interview';
+import { cacheSummary, getCachedSummary, summaryHash } from './cache';
+
+// The head of a file says the most about it; the rest is not worth a larger map call
+const FILE_EXCERPT_CHARS = 6000;
+// File content per map call, so small files are summarized several at a time
+const BATCH_TOKENS = 8000;
+// A directory whose outline grows past this is condensed into a summary of its own
+const DIRECTORY_SUMMARY_TOKENS = 1000;
+// Upper bound on the outline the final reduce step reads (~30k tokens)
+const OVERVIEW_INPUT_CHARS = 120000;
+const SUMMARY_CONCURRENCY = 4;
+// New directory summaries per run (two rounds of calls); past it, outlines stay nested
+const MAX_DIRECTORY_SUMMARIES = 2 * SUMMARY_CONCURRENCY;
+// Rough wall time of one round of SUMMARY_CONCURRENCY map calls, with room for the reduce calls
+const SECONDS_PER_ROUND = 20;
+
+export interface SummarizeProgress {
+  stage: 'files' | 'directories' | 'overview';
+  completed: number;
+  total: number;
+}
+
+export interface SummarizeOptions {
+  onProgress?: (progress: SummarizeProgress) => void;
+  /**
+   * File content, in tokens, to summarize with new model calls; cached
+   * summaries do not count. The most informative files go first and the rest
+   * are listed without a summary. See `summaryBudget`.
+   */
+  tokenBudget?: number;
+}
+
+/** How much file content can be summarized in `seconds` of a route's time limit */
+export function summaryBudget(seconds: number): number {
+  return Math.max(1, Math.floor(seconds / SECONDS_PER_ROUND)) * SUMMARY_CONCURRENCY * BATCH_TOKENS;
+}
+
+/** Whether a repo is too large to send in a single prompt and has to be summarized instead */
+export function needsSummary(repo: FetchedRepo): boolean {
+  return repo.totalTokens > INGEST_TOKEN_BUDGET;
+}
+
+// Run `work` over every item with at most `limit` calls in flight
+async function runPool<T>(items: T[], limit: number, work: (item: T) => Promise<void>): Promise<void> {
+  let next = 0;
+  const workers = Array.from({ length: Math.min(limit, items.length) }, async () => {
+    while (next < items.length) {
+      await work(items[next++]);
+    }
+  });
+  await Promise.all(workers);
+}
+
+function parentOf(path: string): string {
+  const index = path.lastIndexOf('/');
+  return index < 0 ? '' : path.slice(0, index);
+}
+
+function baseName(path: string): string {
+  return path.slice(path.lastIndexOf('/') + 1);
+}
+
+function excerptTokens(file: RepoFile): number {
+  return estimateTokens(file.content.slice(0, FILE_EXCERPT_CHARS));
+}
+
+// The most informative files that fit the budget, still in path order
+function selectWithinBudget(files: RepoFile[], budget: number | undefined): RepoFile[] {
+  if (budget === undefined) return files;
+  const selected = new Set<RepoFile>();
+  let tokens = 0;
+  for (const file of [...files].sort(compareByValue)) {
+    const fileTokens = excerptTokens(file);
+    if (tokens + fileTokens > budget) continue;
+    selected.add(file);
+    tokens += fileTokens;
+  }
+  return files.filter(file => selected.has(file));
+}
+
+// Files are sorted by path, so a batch mostly holds neighbours from one directory
+function batchFiles(files: RepoFile[]): RepoFile[][] {
+  const batches: RepoFile[][] = [];
+  let current: RepoFile[] = [];
+  let tokens = 0;
+  for (const file of files) {
+    const fileTokens = excerptTokens(file);
+    if (current.length > 0 && tokens + fileTokens > BATCH_TOKENS) {
+      batches.push(current);
+      current = [];
+      tokens = 0;
+    }
+    current.push(file);
+    tokens += fileTokens;
+  }
+  if (current.length > 0) batches.push(current);
+  return batches;
+}
+
+async function summarizeFileBatch(batch: RepoFile[]): Promise<Record<string, string>> {
+  const messages: ChatCompletionMessage[] = [
+    {
+      role: 'system',
+      content: 'You summarize source files for an engineer mapping an unfamiliar codebase. For each file, write 1-2 sentences on its responsibility, its main exports and what it relies on. Only describe what the code shows.',
+    },
+    {
+      role: 'user',
+      content: `Summarize each of these files.
+
+${batch.map(f => `=== ${f.path} ===\n${f.content.slice(0, FILE_EXCERPT_CHARS)}`).join('\n\n')}
+
+Respond in JSON format:
+{
+  "summaries": { "<file path>": "1-2 sentence summary" }
+}`,
+    },
+  ];
+
+  const result = await generateStructuredCompletion<{ summaries?: Record<string, string> }>(messages, {
+    model: EXPLAIN_MODEL,
+    temperature: 0.2,
+    task: 'summarize-files',
+    maxTokens: 2048,
+  });
+  return result.summaries || {};
+}
+
+// Map step: one summary per file, reusing any file whose content was summarized before
+async function summarizeFiles(files: RepoFile[], options: SummarizeOptions): Promise<Record<string, string>> {
+  const summaries: Record<string, string> = {};
+  const hashes = new Map(files.map(file => [file.path, summaryHash(file.content)]));
+
+  const cached = await Promise.all(files.map(file => getCachedSummary('file', hashes.get(file.path)!)));
+  const uncached = files.filter((file, i) => {
+    if (cached[i]) summaries[file.path] = cached[i]!;
+    return !cached[i];
+  });
+
+  const batches = batchFiles(selectWithinBudget(uncached, options.tokenBudget));
+  let completed = 0;
+  options.onProgress?.({ stage: 'files', completed, total: batches.length });
+  await runPool(batches, SUMMARY_CONCURRENCY, async batch => {
+    try {
+      const results = await summarizeFileBatch(batch);
+      for (const file of batch) {
+        const summary = results[file.path]?.trim();
+        if (!summary) continue;
+        summaries[file.path] = summary;
+        await cacheSummary('file', hashes.get(file.path)!, summary);
+      }
+    } catch (error) {
+      // A failed batch leaves its files unsummarized rather than failing the whole repo
+      console.error('Error summarizing files:', error);
+    }
+    options.onProgress?.({ stage: 'files', completed: ++completed, total: batches.length });
+  });
+
+  return summaries;
+}
+
+// Null when the directory has no cached summary and `mayCall` allows no new one
+async function condenseDirectory(dir: string, outline: string, mayCall: () => boolean): Promise<string | null> {
+  const hash = summaryHash(`${dir}\n${outline}`);
+  const cached = await getCachedSummary('directory', hash);
+  if (cached) return cached;
+  if (!mayCall()) return null;
+
+  const messages: ChatCompletionMessage[] = [
+    {
+      role: 'system',
+      content: 'You summarize directories of a codebase from summaries of their contents. Write 2-4 sentences on what the directory is responsible for and how its main parts fit together. Only describe what the summaries show.',
+    },
+    {
+      role: 'user',
+      content: `Directory: ${dir}/\n\nCONTENTS:\n${outline}`,
+    },
+  ];
+  const summary = (await generateCompletion(messages, {
+    model: EXPLAIN_MODEL,
+    temperature: 0.2,
+    task: 'summarize-directory',
+    maxTokens: 400,
+  })).trim();
+
+  await cacheSummary('directory', hash, summary);
+  return summary;
+}
+
+/**
+ * Reduce step, deepest directories first: a directory's outline lists its files
+ * and subdirectories with their summaries, and is condensed into a summary of
+ * its own once it grows past DIRECTORY_SUMMARY_TOKENS, with at most
+ * MAX_DIRECTORY_SUMMARIES new model calls. Returns the condensed summaries and
+ * the root outline.
+ */
+async function summarizeDirectories(
+  files: RepoFile[],
+  fileSummaries: Record<string, string>,
+  options: SummarizeOptions
+): Promise<{ directories: Record<string, string>; rootOutline: string }> {
+  const filesByDir = new Map<string, RepoFile[]>();
+  const subdirsByDir = new Map<string, Set<string>>();
+  for (const file of files) {
+    const dir = parentOf(file.path);
+    filesByDir.set(dir, [...(filesByDir.get(dir) || []), file]);
+    for (let child = dir; child; child = parentOf(child)) {
+      const parent = parentOf(child);
+      if (!subdirsByDir.has(parent)) subdirsByDir.set(parent, new Set());
+      subdirsByDir.get(parent)!.add(child);
+    }
+  }
+
+  const allDirs = new Set(['', ...filesByDir.keys(), ...subdirsByDir.keys()]);
+  const depthOf = (dir: string) => (dir ? dir.split('/').length : 0);
+  const maxDepth = Math.max(...Array.from(allDirs, depthOf));
+
+  const outlines = new Map<string, string>();
+  const directories: Record<string, string> = {};
+  let completed = 0;
+  let calls = 0;
+  const mayCall = () => calls++ < MAX_DIRECTORY_SUMMARIES;
+  for (let depth = maxDepth; depth >= 0; depth--) {
+    const level = Array.from(allDirs).filter(dir => depthOf(dir) === depth);
+    await runPool(level, SUMMARY_CONCURRENCY, async dir => {
+      const lines: string[] = [];
+      for (const subdir of Array.from(subdirsByDir.get(dir) || []).sort()) {
+        const outline = outlines.get(subdir) || '';
+        // Condensed directories are one paragraph; the rest nest their listing
+        lines.push(subdir in directories
+          ? `- ${baseName(subdir)}/: ${outline}`
+          : `- ${baseName(subdir)}/\n${outline.replace(/^/gm, '  ')}`);
+      }
+      for (const file of filesByDir.get(dir) || []) {
+        const summary = fileSummaries[file.path];
+        lines.push(summary ? `- ${baseName(file.path)}: ${summary}` : `- ${baseName(file.path)}`);
+      }
+
+      const outline = lines.join('\n');
+      if (dir && estimateTokens(outline) > DIRECTORY_SUMMARY_TOKENS) {
+        try {
+          const summary = await condenseDirectory(dir, outline, mayCall);
+          if (summary) directories[dir] = summary;
+          outlines.set(dir, summary || outline);
+        } catch (error) {
+          console.error(`Error summarizing directory ${dir}:`, error);
+          outlines.set(dir, outline);
+        }
+      } else {
+        outlines.set(dir, outline);
+      }
+      options.onProgress?.({ stage: 'directories', completed: ++completed, total: allDirs.size });
+    });
+  }
+
+  return { directories, rootOutline: outlines.get('') || '' };
+}
+
+async function summarizeOverview(repo: FetchedRepo, rootOutline: string): Promise<string> {
+  const readme = findReadme(repo)?.content.slice(0, FILE_EXCERPT_CHARS) || '';
+  const outline = rootOutline.slice(0, OVERVIEW_INPUT_CHARS);
+  const hash = summaryHash(`${readme}\n${outline}`);
+  const cached = await getCachedSummary('repo', hash);
+  if (cached) return cached;
+
+  const messages: ChatCompletionMessage[] = [
+    {
+      role: 'system',
+      content: 'You are an expert code analyst. From summaries of every directory and file in a repository, write an architecture summary: what the project does, how it is organized, how the main parts interact, and notable technical decisions. Only describe what the summaries show.',
+    },
+    {
+      role: 'user',
+      content: `Repository: ${repo.owner}/${repo.name}
+
+${readme ? `README:\n${readme}\n\n` : ''}REPOSITORY OUTLINE (directories and files with their summaries):
+${outline}
+
+Write the architecture summary in 3-5 paragraphs.`,
+    },
+  ];
+  const overview = (await generateCompletion(messages, {
+    model: EXPLAIN_MODEL,
+    temperature: 0.3,
+    task: 'summarize-repo',
+    maxTokens: 1500,
+  })).trim();
+
+  await cacheSummary('repo', hash, overview);
+  return overview;
+}
+
+/**
+ * Summarize a repository that is too large for one prompt with map-reduce:
+ * every file is summarized (in batches, cached by content hash), directories
+ * are condensed bottom-up, and the top level is reduced to an architecture
+ * overview. A repo that changed in a few files only pays for those files.
+ * With `tokenBudget`, files past it are left out of the map step so the
+ * summary finishes within the caller's time limit.
+ */
+export async function summarizeRepository(repo: FetchedRepo, options: SummarizeOptions = {}): Promise<RepoSummary> {
+  const files = [...repo.files].sort((a, b) => a.path.localeCompare(b.path));
+  const fileSummaries = await summarizeFiles(files, options);
+  const { directories, rootOutline } = await summarizeDirectories(files, fileSummaries, options);
+
+  options.onProgress?.({ stage: 'overview', completed: 0, total: 1 });
+  const overview = await summarizeOverview(repo, rootOutline);
+  options.onProgress?.({ stage: 'overview', completed: 1, total: 1 });
+
+  return { overview, directories, files: fileSummaries };
+}
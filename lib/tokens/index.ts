@@ -0,0 +1,16 @@
+import { countTokens as countCl100kTokens } from 'gpt-tokenizer/encoding/cl100k_base';
+import { countTokens as countO200kTokens } from 'gpt-tokenizer/encoding/o200k_base';
+import { getModelLimits } from './models';
+
+export * from './models';
+
+// Source code can contain special-token text such as <|endoftext|>; count it as plain text
+const PLAIN_TEXT = { disallowedSpecial: new Set<string>() };
+
+/** Exact token count of `text` with the BPE tokenizer `model` uses */
+export function countTokens(text: string, model: string): number {
+  if (!text) return 0;
+  return getModelLimits(model).encoding === 'o200k_base'
+    ? countO200kTokens(text, PLAIN_TEXT)
+    : countCl100kTokens(text, PLAIN_TEXT);
+}
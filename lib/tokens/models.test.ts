@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { countTokens } from './index';
+import { EXPLAIN_OUTPUT_TOKENS, getExplainBudget, getModelLimits, getPromptBudget } from './models';
+
+describe('getModelLimits', () => {
+  it('matches dated snapshots by their longest family prefix', () => {
+    expect(getModelLimits('gpt-4o-mini-2024-07-18')).toEqual({ encoding: 'o200k_base', contextWindow: 128000, maxOutputTokens: 16384 });
+    expect(getModelLimits('gpt-4-0613').contextWindow).toBe(8192);
+  });
+
+  it('falls back to a 128k cl100k window for unknown models', () => {
+    expect(getModelLimits('llama3.1:8b')).toEqual({ encoding: 'cl100k_base', contextWindow: 128000, maxOutputTokens: 4096 });
+  });
+});
+
+describe('getPromptBudget', () => {
+  it('gives the project what the prompt and output reserve leave of the window', () => {
+    const budget = getPromptBudget('gpt-4o', { systemPromptTokens: 100, templateTokens: 400, outputTokens: 5000 });
+    expect(budget.outputTokens).toBe(5000);
+    expect(budget.projectTokens).toBe(128000 - 100 - 400 - 5000);
+  });
+
+  it('caps the output reserve at what the model can produce', () => {
+    const budget = getPromptBudget('gpt-4', { systemPromptTokens: 100, templateTokens: 400, outputTokens: EXPLAIN_OUTPUT_TOKENS });
+    expect(budget.outputTokens).toBe(4096);
+    expect(budget.projectTokens).toBe(8192 - 100 - 400 - 4096);
+  });
+
+  it('never goes negative', () => {
+    expect(getPromptBudget('gpt-4', { systemPromptTokens: 9000, templateTokens: 0, outputTokens: 0 }).projectTokens).toBe(0);
+  });
+
+  it('matches the fixed explain estimates in getExplainBudget', () => {
+    expect(getExplainBudget('gpt-4o').projectTokens).toBe(128000 - 150 - 600 - EXPLAIN_OUTPUT_TOKENS);
+  });
+});
+
+describe('countTokens', () => {
+  it('counts with the model encoding and treats special tokens as text', () => {
+    expect(countTokens('', 'gpt-4o')).toBe(0);
+    expect(countTokens('hello world', 'gpt-4o')).toBe(2);
+    expect(countTokens('<|endoftext|>', 'gpt-4')).toBeGreaterThan(1);
+  });
+});
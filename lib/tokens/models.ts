@@ -0,0 +1,75 @@
+// Context windows and tokenizers per model, and the prompt budgets derived from them.
+// Free of tokenizer data so client components can import it without the BPE tables.
+
+export type TokenEncoding = 'cl100k_base' | 'o200k_base';
+
+export interface ModelLimits {
+  encoding: TokenEncoding;
+  contextWindow: number;
+  maxOutputTokens: number;
+}
+
+export interface PromptBudget {
+  model: string;
+  contextWindow: number;
+  systemPromptTokens: number;
+  templateTokens: number;
+  outputTokens: number;
+  /** What is left of the context window for project content */
+  projectTokens: number;
+}
+
+// Matched by prefix, longest first, so dated snapshots (gpt-4o-2024-08-06) share their family's limits
+const MODEL_LIMITS: Record<string, ModelLimits> = {
+  'gpt-4.1': { encoding: 'o200k_base', contextWindow: 1047576, maxOutputTokens: 32768 },
+  'gpt-4o-mini': { encoding: 'o200k_base', contextWindow: 128000, maxOutputTokens: 16384 },
+  'gpt-4o': { encoding: 'o200k_base', contextWindow: 128000, maxOutputTokens: 16384 },
+  'gpt-4-turbo': { encoding: 'cl100k_base', contextWindow: 128000, maxOutputTokens: 4096 },
+  'gpt-4-0125-preview': { encoding: 'cl100k_base', contextWindow: 128000, maxOutputTokens: 4096 },
+  'gpt-4-1106-preview': { encoding: 'cl100k_base', contextWindow: 128000, maxOutputTokens: 4096 },
+  'gpt-4': { encoding: 'cl100k_base', contextWindow: 8192, maxOutputTokens: 4096 },
+  'gpt-3.5-turbo': { encoding: 'cl100k_base', contextWindow: 16385, maxOutputTokens: 4096 },
+};
+
+// Local models (Ollama, llama.cpp) and the mock provider: counts are approximate with cl100k
+const DEFAULT_MODEL_LIMITS: ModelLimits = { encoding: 'cl100k_base', contextWindow: 128000, maxOutputTokens: 4096 };
+
+// Fixed parts of the explain prompt; the project description gets the rest of the window
+export const EXPLAIN_SYSTEM_PROMPT_TOKENS = 150;
+export const EXPLAIN_TEMPLATE_TOKENS = 600;
+export const EXPLAIN_OUTPUT_TOKENS = 5000;
+
+// Rough average for sizing text before it has been read (e.g. from a file size); never used for budgets
+export const TOKENS_PER_CHAR = 0.25;
+
+export function getModelLimits(model: string): ModelLimits {
+  const name = Object.keys(MODEL_LIMITS)
+    .filter(prefix => model.startsWith(prefix))
+    .sort((a, b) => b.length - a.length)[0];
+  return name ? MODEL_LIMITS[name] : DEFAULT_MODEL_LIMITS;
+}
+
+/** Split a model's context window into the fixed prompt parts, the output reserve and project content */
+export function getPromptBudget(
+  model: string,
+  reserved: { systemPromptTokens: number; templateTokens: number; outputTokens: number }
+): PromptBudget {
+  const { contextWindow, maxOutputTokens } = getModelLimits(model);
+  const outputTokens = Math.min(reserved.outputTokens, maxOutputTokens);
+  return {
+    model,
+    contextWindow,
+    systemPromptTokens: reserved.systemPromptTokens,
+    templateTokens: reserved.templateTokens,
+    outputTokens,
+    projectTokens: Math.max(0, contextWindow - reserved.systemPromptTokens - reserved.templateTokens - outputTokens),
+  };
+}
+
+export function getExplainBudget(model: string): PromptBudget {
+  return getPromptBudget(model, {
+    systemPromptTokens: EXPLAIN_SYSTEM_PROMPT_TOKENS,
+    templateTokens: EXPLAIN_TEMPLATE_TOKENS,
+    outputTokens: EXPLAIN_OUTPUT_TOKENS,
+  });
+}
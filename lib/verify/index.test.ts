@@ -0,0 +1,100 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { setLLMProvider } from '@/lib/llm';
+import { createMockProvider } from '@/lib/llm/mockProvider';
+import type { FixtureSet } from '@/lib/llm/fixtures';
+import type { ExplainResult } from '@/types/explain';
+import { sourceFromDescription, splitSentences, verifyClaims } from './index';
+
+const DESCRIPTION = 'ExplainItBack is built with Next.js and Redis. It caches fetched repositories for a week.';
+
+const RESULT: ExplainResult = {
+  technicalExplanation: 'It uses Next.js. It handles 10k users.',
+  resumeBullets: ['Built a Redis cache for repositories', 'Shipped quickly'],
+  interviewPitch: 'I built it with Next.js.',
+};
+
+const CHECK: FixtureSet['verify-claims'] = {
+  sentences: [
+    { id: 1, claims: [{ claim: 'Uses Next.js', kind: 'technology', supported: true, sources: ['S1'] }] },
+    { id: 2, claims: [{ claim: 'Handles 10k users', kind: 'metric', supported: false, sources: [] }] },
+    // Supported, but citing a source that was never shown
+    { id: 3, claims: [{ claim: 'Redis cache', kind: 'technology', supported: true, sources: ['S9'] }] },
+  ],
+};
+
+function useFixtures(fixtures: FixtureSet): void {
+  setLLMProvider(createMockProvider(fixtures));
+}
+
+describe('splitSentences', () => {
+  it('splits at terminal punctuation before a new sentence', () => {
+    expect(splitSentences('It uses Next.js and Redis. Version 2 shipped! Why? "Quoted" starts here.')).toEqual([
+      'It uses Next.js and Redis.',
+      'Version 2 shipped!',
+      'Why?',
+      '"Quoted" starts here.',
+    ]);
+  });
+
+  it('keeps abbreviations and decimals inside a sentence', () => {
+    expect(splitSentences('Built on Node.js 20.1 e.g. for speed.  ')).toEqual(['Built on Node.js 20.1 e.g. for speed.']);
+    expect(splitSentences('')).toEqual([]);
+  });
+});
+
+describe('verifyClaims', () => {
+  afterEach(() => {
+    setLLMProvider(null);
+  });
+
+  it('cites supported claims and flags the rest without rewriting when asked not to', async () => {
+    useFixtures({ 'verify-claims': CHECK });
+    const { result, verification } = await verifyClaims(RESULT, sourceFromDescription(DESCRIPTION), { regenerate: false });
+
+    expect(result).toBe(RESULT);
+    expect(verification.regenerated).toBe(0);
+    expect(verification.unsupported).toBe(2);
+
+    const [nextJs, users] = verification.technicalExplanation;
+    expect(nextJs.supported).toBe(true);
+    expect(nextJs.citations).toEqual([{ path: 'project-description.md', startLine: 1, endLine: 1 }]);
+    expect(users.supported).toBe(false);
+    expect(users.citations).toEqual([]);
+
+    // A claim citing nothing real is not supported
+    expect(verification.resumeBullets[0]).toMatchObject({ supported: false, citations: [] });
+    // Sentences without claims point at their best-matching code, if any
+    expect(verification.resumeBullets[1]).toMatchObject({ supported: true, citations: [] });
+    expect(verification.interviewPitch[0].citations).toHaveLength(1);
+
+    expect(verification.snippets.map(snippet => snippet.code)).toEqual([DESCRIPTION]);
+  });
+
+  it('rewrites unsupported sentences once and checks the rewrites again', async () => {
+    const stages: string[] = [];
+    useFixtures({
+      'verify-claims': [
+        CHECK,
+        { sentences: [{ id: 1, claims: [{ claim: 'Caches repositories', kind: 'feature', supported: true, sources: ['S1'] }] }] },
+      ],
+      'regenerate-claims': { rewrites: [{ id: 1, text: 'It caches fetched repositories.' }, { id: 2, text: '' }] },
+    });
+    const { result, verification } = await verifyClaims(RESULT, sourceFromDescription(DESCRIPTION), {
+      onStage: stage => stages.push(stage),
+    });
+
+    expect(stages).toEqual(['checking', 'regenerating']);
+    expect(verification.regenerated).toBe(1);
+    expect(verification.unsupported).toBe(1);
+    expect(verification.technicalExplanation[1]).toMatchObject({
+      text: 'It caches fetched repositories.',
+      supported: true,
+      originalText: 'It handles 10k users.',
+    });
+    expect(result).toEqual({
+      technicalExplanation: 'It uses Next.js. It caches fetched repositories.',
+      resumeBullets: RESULT.resumeBullets,
+      interviewPitch: RESULT.interviewPitch,
+    });
+  });
+});
@@ -0,0 +1,350 @@
+import { EXPLAIN_MODEL, generateStructuredCompletion, type ChatCompletionMessage } from '@/lib/llm';
+import { findReadme, getFileUrl } from '@/lib/ingest';
+import { createRetriever, type ChunkSource, type CodeChunk, type Retriever } from '@/lib/interview/retrieval';
+import { getLanguageFromPath } from '@/lib/ingest/filters';
+import { buildSymbolIndex } from '@/lib/interview/symbolIndex';
+import type {
+  ClaimKind,
+  ClaimVerification,
+  ExplainResult,
+  SourceCitation,
+  VerifiedClaim,
+  VerifiedSentence,
+} from '@/types/explain';
+import type { CodeSnippet, FetchedRepo } from '@/types/interview';
+
+// Evidence retrieved for each sentence: enough to back or refute one sentence's claims
+const CHUNKS_PER_SENTENCE = 3;
+const TOKENS_PER_SENTENCE = 1200;
+// Sentences without claims are cited to this many of their best-matching chunks
+const FALLBACK_CITATIONS = 2;
+// A pasted description is cited like a file under this path
+const DESCRIPTION_PATH = 'project-description.md';
+const CLAIM_KINDS: ClaimKind[] = ['technology', 'metric', 'feature'];
+
+type GeneratedField = 'technicalExplanation' | 'resumeBullets' | 'interviewPitch';
+
+const FIELD_LABELS: Record<GeneratedField, string> = {
+  technicalExplanation: 'technical explanation',
+  resumeBullets: 'resume bullet',
+  interviewPitch: 'spoken interview pitch',
+};
+
+/** What generated claims are checked against */
+export interface ClaimSource extends ChunkSource {
+  /** Path of the README, which ranks higher as evidence */
+  readme?: string;
+  /** Web page for a cited line range, when the repository host has one */
+  fileUrl?: (path: string, lines: { start: number; end: number }) => string | null;
+}
+
+export interface VerifyOptions {
+  /** Rewrite sentences with unsupported claims, then check the rewrites (default true) */
+  regenerate?: boolean;
+  onStage?: (stage: 'checking' | 'regenerating') => void;
+}
+
+interface Evidence {
+  /** Every chunk retrieved for the batch, listed once; the model cites them as `S<index + 1>` */
+  sources: CodeChunk[];
+  /** The chunks retrieved for each sentence, best match first */
+  bySentence: CodeChunk[][];
+}
+
+type Cite = (chunk: CodeChunk) => SourceCitation;
+
+interface RawClaim {
+  claim?: string;
+  kind?: string;
+  supported?: boolean;
+  sources?: unknown[];
+}
+
+interface CheckResult {
+  sentences: Array<{ id: number; claims?: RawClaim[] }>;
+}
+
+interface RewriteResult {
+  rewrites: Array<{ id: number; text?: string }>;
+}
+
+interface PendingSentence {
+  field: GeneratedField;
+  text: string;
+}
+
+/** The ingested files of a repository, linked to the host when it has a web UI */
+export function sourceFromRepo(repo: FetchedRepo, repoUrl?: string): ClaimSource {
+  const ref = repo.commitSha || repo.ref || repo.defaultBranch;
+  return {
+    fileContents: Object.fromEntries(repo.files.map(file => [file.path, file.content])),
+    symbols: buildSymbolIndex(repo.files),
+    readme: findReadme(repo)?.path,
+    fileUrl: repoUrl ? (path, lines) => getFileUrl(repoUrl, ref, path, lines) : undefined,
+  };
+}
+
+/** A pasted project description, which is all a text-only explanation can be checked against */
+export function sourceFromDescription(text: string): ClaimSource {
+  return { fileContents: { [DESCRIPTION_PATH]: text }, symbols: [], readme: DESCRIPTION_PATH };
+}
+
+/** Split prose into sentences at terminal punctuation followed by the start of a new sentence */
+export function splitSentences(text: string): string[] {
+  return text
+    .split(/(?<=[.!?])\s+(?=["'(\[]?[A-Z0-9])/)
+    .map(sentence => sentence.trim())
+    .filter(Boolean);
+}
+
+function citationKey(citation: SourceCitation): string {
+  return `${citation.path}:${citation.startLine}-${citation.endLine}`;
+}
+
+// Cites chunks, keeping each cited chunk as a snippet the client can show
+function createCiter(source: ClaimSource, snippets: Map<string, CodeSnippet>): Cite {
+  return chunk => {
+    const citation: SourceCitation = { path: chunk.file, startLine: chunk.startLine, endLine: chunk.endLine };
+    const key = citationKey(citation);
+    if (!snippets.has(key)) {
+      snippets.set(key, {
+        id: key,
+        file: chunk.file,
+        startLine: chunk.startLine,
+        endLine: chunk.endLine,
+        code: chunk.text,
+        language: getLanguageFromPath(chunk.file),
+        annotations: [],
+      });
+    }
+    const url = source.fileUrl?.(chunk.file, { start: chunk.startLine, end: chunk.endLine });
+    return url ? { ...citation, url } : citation;
+  };
+}
+
+// Retrieve evidence for every sentence, listing each distinct chunk once
+function gatherEvidence(texts: string[], retrieve: Retriever, source: ClaimSource): Evidence {
+  const sources = new Map<string, CodeChunk>();
+  const bySentence = texts.map(text => {
+    const chunks = retrieve(text, {
+      maxChunks: CHUNKS_PER_SENTENCE,
+      maxTokens: TOKENS_PER_SENTENCE,
+      maxChunksPerFile: 2,
+      boostFiles: source.readme ? [source.readme] : [],
+      matchesOnly: true,
+    });
+    for (const chunk of chunks) sources.set(`${chunk.file}:${chunk.startLine}`, chunk);
+    return chunks;
+  });
+  return { sources: Array.from(sources.values()), bySentence };
+}
+
+function formatSources(sources: CodeChunk[]): string {
+  return sources
+    .map((chunk, i) => `[S${i + 1}] ${chunk.file} (lines ${chunk.startLine}-${chunk.endLine})\n${chunk.text}`)
+    .join('\n\n');
+}
+
+function toClaim(raw: RawClaim, evidence: Evidence, cite: Cite): VerifiedClaim {
+  const citations = (raw.sources || [])
+    .map(id => evidence.sources[Number(String(id).replace(/^S/i, '')) - 1])
+    .filter((chunk): chunk is CodeChunk => Boolean(chunk))
+    .map(cite);
+  // A claim the model calls supported without citing real evidence is not supported
+  const supported = raw.supported === true && citations.length > 0;
+  return {
+    claim: String(raw.claim || ''),
+    kind: CLAIM_KINDS.includes(raw.kind as ClaimKind) ? raw.kind as ClaimKind : 'feature',
+    supported,
+    citations: supported ? citations : [],
+  };
+}
+
+// One model call extracts and checks the claims of every sentence in the batch
+async function checkSentences(
+  texts: string[],
+  retrieve: Retriever,
+  source: ClaimSource,
+  cite: Cite
+): Promise<VerifiedSentence[]> {
+  if (texts.length === 0) return [];
+  const evidence = gatherEvidence(texts, retrieve, source);
+
+  const messages: ChatCompletionMessage[] = [
+    {
+      role: 'system',
+      content: `You fact-check generated descriptions of a software project against excerpts of its source files and README.
+
+For each sentence, list its factual claims and check each one:
+- TECHNOLOGY: languages, frameworks, libraries, services and tools the project uses
+- METRIC: numbers of any kind - scale, performance, counts, percentages, users
+- FEATURE: what the project does or how it works
+
+A claim is supported only when an excerpt states it or the code clearly shows it; cite those excerpts by id. Metrics need the number itself in an excerpt. Framing without a checkable fact ("I built", "the goal was") is not a claim. Claims that are merely plausible are unsupported.`,
+    },
+    {
+      role: 'user',
+      content: `SOURCES:
+${formatSources(evidence.sources)}
+
+SENTENCES:
+${texts.map((text, i) => `${i + 1}. ${text}`).join('\n')}
+
+Respond in JSON format, with an entry for every sentence (an empty claims list when it makes no factual claim):
+{
+  "sentences": [
+    {
+      "id": <sentence number>,
+      "claims": [
+        { "claim": "The claim in a few words", "kind": "technology" | "metric" | "feature", "supported": true | false, "sources": ["S1"] }
+      ]
+    }
+  ]
+}`,
+    },
+  ];
+
+  const result = await generateStructuredCompletion<CheckResult>(messages, {
+    model: EXPLAIN_MODEL,
+    temperature: 0.1,
+    task: 'verify-claims',
+    maxTokens: 4000,
+  });
+
+  const claimsById = new Map((result.sentences || []).map(sentence => [Number(sentence.id), sentence.claims || []]));
+  return texts.map((text, i) => {
+    const claims = (claimsById.get(i + 1) || []).map(raw => toClaim(raw, evidence, cite)).filter(claim => claim.claim);
+    // A sentence without claims points at the code it describes. Unsupported sentences get no such
+    // fallback: citing code that does not back them would lend them credibility
+    const cited = claims.length > 0
+      ? claims.flatMap(claim => claim.citations)
+      : evidence.bySentence[i].slice(0, FALLBACK_CITATIONS).map(cite);
+    const citations = new Map<string, SourceCitation>();
+    for (const citation of cited) citations.set(citationKey(citation), citation);
+    return {
+      text,
+      supported: claims.every(claim => claim.supported),
+      claims,
+      citations: Array.from(citations.values()),
+    };
+  });
+}
+
+// Rewrite sentences so they keep only what the evidence backs; returns '' where the model gave nothing usable
+async function rewriteSentences(
+  pending: Array<PendingSentence & { unsupported: string[] }>,
+  retrieve: Retriever,
+  source: ClaimSource
+): Promise<string[]> {
+  const evidence = gatherEvidence(pending.map(sentence => sentence.text), retrieve, source);
+
+  const messages: ChatCompletionMessage[] = [
+    {
+      role: 'system',
+      content: `You correct sentences from generated descriptions of a software project so they only state what the project's source supports. Keep everything that is supported. Correct an unsupported claim when the sources give the right fact, otherwise drop it. Never add facts that are not in the sources.
+
+Each sentence keeps its role: a resume bullet still starts with a strong action verb and fits on one or two lines; a pitch sentence stays natural to say aloud; an explanation sentence stays concrete.`,
+    },
+    {
+      role: 'user',
+      content: `SOURCES:
+${formatSources(evidence.sources)}
+
+SENTENCES TO CORRECT:
+${pending.map((sentence, i) => `${i + 1}. (${FIELD_LABELS[sentence.field]}) ${sentence.text}\n   Unsupported: ${sentence.unsupported.join('; ')}`).join('\n')}
+
+Respond in JSON format:
+{
+  "rewrites": [
+    { "id": <sentence number>, "text": "The corrected sentence" }
+  ]
+}`,
+    },
+  ];
+
+  const result = await generateStructuredCompletion<RewriteResult>(messages, {
+    model: EXPLAIN_MODEL,
+    temperature: 0.3,
+    task: 'regenerate-claims',
+    maxTokens: 2000,
+  });
+
+  const textById = new Map((result.rewrites || []).map(rewrite => [Number(rewrite.id), (rewrite.text || '').trim()]));
+  return pending.map((_, i) => textById.get(i + 1) || '');
+}
+
+/**
+ * Check every sentence of the technical explanation, every resume bullet and
+ * every pitch sentence against the source. Each sentence's technology, metric
+ * and feature claims are extracted and cited to the retrieved evidence that
+ * backs them. Unless turned off, sentences with unsupported claims are
+ * rewritten once and checked again; the returned result carries the rewrites.
+ */
+export async function verifyClaims(
+  result: ExplainResult,
+  source: ClaimSource,
+  options: VerifyOptions = {}
+): Promise<{ result: ExplainResult; verification: ClaimVerification }> {
+  const { regenerate = true, onStage } = options;
+  const retrieve = createRetriever(source);
+  const snippets = new Map<string, CodeSnippet>();
+  const cite = createCiter(source, snippets);
+
+  const pending: PendingSentence[] = [
+    ...splitSentences(result.technicalExplanation).map(text => ({ field: 'technicalExplanation' as const, text })),
+    ...result.resumeBullets.map(text => ({ field: 'resumeBullets' as const, text })),
+    ...splitSentences(result.interviewPitch).map(text => ({ field: 'interviewPitch' as const, text })),
+  ];
+
+  onStage?.('checking');
+  const checked = await checkSentences(pending.map(sentence => sentence.text), retrieve, source, cite);
+
+  const failing = checked
+    .map((sentence, i) => ({ sentence, i }))
+    .filter(({ sentence }) => !sentence.supported);
+  let regenerated = 0;
+  if (regenerate && failing.length > 0) {
+    onStage?.('regenerating');
+    const rewrites = await rewriteSentences(
+      failing.map(({ sentence, i }) => ({
+        ...pending[i],
+        unsupported: sentence.claims.filter(claim => !claim.supported).map(claim => claim.claim),
+      })),
+      retrieve,
+      source
+    );
+
+    const rewritten = failing
+      .map((entry, j) => ({ ...entry, text: rewrites[j] }))
+      .filter(entry => entry.text && entry.text !== entry.sentence.text);
+    const rechecked = await checkSentences(rewritten.map(entry => entry.text), retrieve, source, cite);
+    rewritten.forEach(({ sentence, i }, j) => {
+      checked[i] = { ...rechecked[j], originalText: sentence.text };
+    });
+    regenerated = rewritten.length;
+  }
+
+  const byField = (field: GeneratedField) => checked.filter((_, i) => pending[i].field === field);
+  const verification: ClaimVerification = {
+    technicalExplanation: byField('technicalExplanation'),
+    resumeBullets: byField('resumeBullets'),
+    interviewPitch: byField('interviewPitch'),
+    regenerated,
+    unsupported: checked.filter(sentence => !sentence.supported).length,
+    // Only the chunks still cited; a rewritten sentence may have dropped some
+    snippets: Array.from(new Set(checked.flatMap(sentence => sentence.citations.map(citationKey))))
+      .map(key => snippets.get(key)!),
+  };
+
+  if (regenerated === 0) {
+    return { result, verification };
+  }
+  return {
+    result: {
+      technicalExplanation: verification.technicalExplanation.map(sentence => sentence.text).join(' '),
+      resumeBullets: verification.resumeBullets.map(sentence => sentence.text),
+      interviewPitch: verification.interviewPitch.map(sentence => sentence.text).join(' '),
+    },
+    verification,
+  };
+}
@@ -0,0 +1,99 @@
+// Explain Feature Type Definitions
+
+import type { CodeSnippet } from './interview';
+
+export type Audience = 'recruiter' | 'engineer' | 'hiring-manager' | 'founder-product';
+export type Tone = 'confident' | 'concise' | 'conversational' | 'technical';
+
+export interface ExplainResult {
+  technicalExplanation: string;
+  resumeBullets: string[];
+  interviewPitch: string;
+}
+
+export interface ExplainMetadata {
+  inputLength?: number;
+  estimatedTokens?: number;
+  rateLimit?: {
+    remaining: number;
+    resetTime: number;
+    limit?: number;
+    globalLimit?: number;
+    globalRemaining?: number;
+  };
+  githubRateLimit?: {
+    remaining: number;
+    reset: number;
+  };
+  githubTokens?: {
+    count: number;
+    effectiveLimit: number;
+    totalUsage?: number;
+    usagePerToken?: number[];
+  };
+}
+
+export type ClaimKind = 'technology' | 'metric' | 'feature';
+
+/** Lines of an ingested file that back a claim */
+export interface SourceCitation {
+  path: string;
+  startLine: number;
+  endLine: number;
+  /** The lines on the repository host, when it has a web UI */
+  url?: string;
+}
+
+export interface VerifiedClaim {
+  claim: string;
+  kind: ClaimKind;
+  supported: boolean;
+  citations: SourceCitation[];
+}
+
+/** A generated sentence (or resume bullet) checked against the source */
+export interface VerifiedSentence {
+  text: string;
+  /** Every claim in the sentence is backed by the source; sentences without claims count as supported */
+  supported: boolean;
+  claims: VerifiedClaim[];
+  /**
+   * The citations of its supported claims, without duplicates. A sentence
+   * without claims cites the code that best matches it.
+   */
+  citations: SourceCitation[];
+  /** Set when the sentence was regenerated because it made unsupported claims */
+  originalText?: string;
+}
+
+export interface ClaimVerification {
+  technicalExplanation: VerifiedSentence[];
+  /** One entry per resume bullet */
+  resumeBullets: VerifiedSentence[];
+  interviewPitch: VerifiedSentence[];
+  /** Sentences rewritten because they made unsupported claims */
+  regenerated: number;
+  /** Sentences still unsupported after any rewriting */
+  unsupported: number;
+  /** The cited code, one snippet per distinct citation (matched by path and line range) */
+  snippets: CodeSnippet[];
+}
+
+export interface ExplainResponse extends ExplainResult {
+  metadata?: ExplainMetadata;
+  /** Absent when verification was turned off or could not run */
+  verification?: ClaimVerification;
+}
+
+// Events sent by POST /api/explain when the client requests `Accept: text/event-stream`.
+// The SSE event name is the `type` field; `result` or `error` is always the last event.
+export type ExplainStreamEvent =
+  | { type: 'github-rate-limit'; remaining: number; reset: number }
+  | { type: 'files'; filesFetched: number; totalTokens: number }
+  | { type: 'summarizing'; stage: 'files' | 'directories' | 'overview'; completed: number; total: number }
+  | { type: 'tokens'; inputLength: number; estimatedTokens: number; maxTokens: number }
+  | { type: 'generation-started'; model: string }
+  | { type: 'partial'; delta: string; length: number }
+  | { type: 'verifying'; stage: 'checking' | 'regenerating' }
+  | { type: 'result'; data: ExplainResponse }
+  | { type: 'error'; error: string; status: number; rateLimit?: { remaining: number; resetTime: number } };
@@ -1,16 +1,38 @@
 // Interview Feature Type Definitions
 
+import type { DeliveryMetrics } from './speech';
+
 export interface InterviewSession {
   sessionId: string;
   repoUrl: string;
   repoId: string;
+  /** Where the code comes from (defaults to 'github') */
+  source?: 'github' | 'upload';
+  /** Content address of an uploaded archive in the ingestion cache */
+  repoKey?: string;
+  /** Branch, tag or SHA from the URL (or the default branch), recorded once the repo is fetched */
+  ref?: string;
+  commitSha?: string;
+  /** Subdirectory the URL pointed at; the interview is scoped to it */
+  subdirectory?: string;
   selectedDirectories: string[];
   messages: ChatMessage[];
   currentQuestion: Question | null;
-  questionsAsked: string[];
-  analysisCache: RepoAnalysis | null;
+  /** Every question asked so far, with its topic and (once answered) its score */
+  questionsAsked: AskedQuestion[];
+  /** Length, categories and limits of the interview, fixed when it starts */
+  plan: InterviewPlan;
+  /** Hints given across the whole interview, counted against plan.maxHints */
+  hintsUsed: number;
+  /** When the current question's time limit runs out (ms since epoch), if the plan has one */
+  questionDeadline: number | null;
+  /** Scorecard, generated on first request once the session has ended */
+  report?: InterviewReport;
+  /** Key of the shared RepoAnalysis in the analysis cache, set once analysis completes */
+  analysisKey: string | null;
   createdAt: number;
   lastActivity: number;
+  endedAt?: number;
   status: 'initializing' | 'selecting_dirs' | 'analyzing' | 'active' | 'ended';
 }
 
@@ -22,19 +44,107 @@ export interface ChatMessage {
   metadata?: {
     type?: 'question' | 'answer' | 'evaluation' | 'hint' | 'system' | 'directory_selection';
     questionId?: string;
+    /** Set on follow-up turns: the question the follow-up probes */
+    parentQuestionId?: string;
     score?: number;
+    /** Evaluation details, kept so the end-of-interview report can aggregate them */
+    strengths?: string[];
+    missedPoints?: string[];
+    /** Set on spoken answers: how the answer was delivered */
+    delivery?: DeliveryMetrics;
+    difficulty?: QuestionDifficulty;
+    category?: QuestionCategory;
     codeSnippets?: CodeSnippet[];
     directories?: string[];
   };
 }
 
+export type QuestionDifficulty = 'easy' | 'medium' | 'hard' | 'staff';
+
+export type QuestionCategory = 'architecture' | 'error-handling' | 'security' | 'performance' | 'testing';
+
 export interface Question {
   id: string;
   text: string;
   relatedFiles: string[];
   keyPoints: string[];
   codeSnippets: CodeSnippet[];
-  difficulty: 'hard';
+  difficulty: QuestionDifficulty;
+  category: QuestionCategory;
+  /** Short label of what the question is about, used to avoid asking about it again */
+  topic: string;
+  /** Set on follow-ups: the original question they probe deeper into */
+  parentQuestionId?: string;
+  generatedAt: number;
+}
+
+export interface InterviewPlan {
+  /** Questions to ask; the session ends on its own once this many are answered */
+  questionCount: number;
+  /** Categories questions are drawn from */
+  categories: QuestionCategory[];
+  /** Seconds allowed per question, or null for no limit */
+  timeLimitSeconds: number | null;
+  /** Hints allowed across the whole interview */
+  maxHints: number;
+  /** Paths (files or directories) every question must draw on; empty for anywhere in the repo */
+  focusPaths: string[];
+}
+
+export interface AskedQuestion {
+  id: string;
+  text: string;
+  topic: string;
+  category: QuestionCategory;
+  difficulty: QuestionDifficulty;
+  relatedFiles: string[];
+  /** Score of each answer in the thread: the first answer, then one per follow-up */
+  answerScores?: number[];
+  /** Combined evaluation score (0-100) of the answer and its follow-ups, set once the thread is done */
+  score?: number;
+  /** The answer came in after the question's time limit and was not evaluated */
+  timedOut?: boolean;
+}
+
+export type InterviewRating = 'excellent' | 'strong' | 'competent' | 'developing' | 'needs-work';
+
+export interface ReportFileLink {
+  path: string;
+  /** Page for the file on its source host at the interviewed commit; absent for uploads */
+  url?: string;
+}
+
+export interface TopicReport {
+  topic: string;
+  category: QuestionCategory;
+  questionsAnswered: number;
+  averageScore: number;
+  strengths: string[];
+  missedPoints: string[];
+  files: ReportFileLink[];
+}
+
+export interface InterviewReport {
+  sessionId: string;
+  repoId: string;
+  repoUrl: string;
+  source?: InterviewSession['source'];
+  ref?: string;
+  commitSha?: string;
+  /** Mean score of every answered question, null if none were answered */
+  overallScore: number | null;
+  rating: InterviewRating | null;
+  questionsAnswered: number;
+  questionsPlanned: number;
+  hintsUsed: number;
+  timedOut: number;
+  /** Every topic covered, in the order first asked */
+  topics: TopicReport[];
+  /** Topics that scored below the weak-area threshold, weakest first */
+  weakAreas: TopicReport[];
+  recommendations: string[];
+  startedAt: number;
+  endedAt: number;
   generatedAt: number;
 }
 
@@ -61,10 +171,26 @@ export interface RepoAnalysis {
   patterns: string[];
   librariesUsed: string[];
   summary: string;
+  /** Declarations found by static parsing, for grounding prompts and jumping to definitions */
+  symbols: CodeSymbol[];
   analyzedAt: number;
   fileContents: Record<string, string>;
 }
 
+export interface CodeSymbol {
+  name: string;
+  /** `reexport` is a name exported from another module, e.g. `export { x } from './x'` */
+  kind: 'function' | 'method' | 'class' | 'interface' | 'type' | 'enum' | 'struct' | 'trait' | 'variable' | 'reexport';
+  file: string;
+  startLine: number;
+  endLine: number;
+  signature: string;
+  doc?: string;
+  exported: boolean;
+  /** Class, struct or impl a method belongs to */
+  container?: string;
+}
+
 export interface FileNode {
   path: string;
   name: string;
@@ -83,9 +209,13 @@ export interface Evaluation {
   needsHint: boolean;
 }
 
+// Sent as JSON for GitHub repos, or as multipart/form-data with a `file`
+// field (.zip, .tar.gz, .tgz), an optional `repoId` and an optional `plan`
+// (JSON-encoded) for uploaded archives. Plan fields left out take their defaults.
 export interface StartInterviewRequest {
   repoUrl: string;
   repoId: string;
+  plan?: Partial<InterviewPlan>;
 }
 
 export interface StartInterviewResponse {
@@ -122,6 +252,7 @@ export interface QuestionResponse {
   error?: string;
 }
 
+/** Sent as JSON, or as multipart form data with an `audio` recording (and `durationSeconds`) in place of `answer` */
 export interface AnswerRequest {
   sessionId: string;
   answer: string;
@@ -133,6 +264,19 @@ export interface AnswerResponse {
   evaluation?: Evaluation;
   message?: ChatMessage;
   codeSnippets?: CodeSnippet[];
+  /** Set on spoken answers: what was heard and how it was delivered */
+  transcript?: string;
+  delivery?: DeliveryMetrics;
+  /** Asked instead of moving on when the answer was partial; the session's current question */
+  followUpQuestion?: Question;
+  /** The answer completed the interview plan and the session has ended */
+  sessionEnded?: boolean;
+  error?: string;
+}
+
+export interface ReportResponse {
+  success: boolean;
+  report?: InterviewReport;
   error?: string;
 }
 
@@ -148,6 +292,15 @@ export interface HintResponse {
   error?: string;
 }
 
+// GET /api/interview/symbols?sessionId=...&q=... searches the symbol index;
+// passing `file` and `line` instead returns that symbol's definition as a snippet
+export interface SymbolSearchResponse {
+  success: boolean;
+  symbols?: CodeSymbol[];
+  snippet?: CodeSnippet;
+  error?: string;
+}
+
 export interface DirectorySelectionRequest {
   sessionId: string;
   directories: string[];
@@ -169,6 +322,30 @@ export interface FetchedRepo {
   owner: string;
   name: string;
   defaultBranch: string;
+  /** Branch, tag or SHA that was fetched (the default branch unless the URL named one) */
+  ref?: string;
+  commitSha?: string;
+  /** Subdirectory the URL pointed at; only files below it were fetched */
+  subdirectory?: string;
+  description?: string | null;
+  language?: string | null;
+  stars?: number;
+  forks?: number;
   files: RepoFile[];
   structure: FileNode[];
+  totalTokens: number;
+  stoppedEarly: boolean;
+  fetchedAt: number;
+}
+
+/**
+ * Hierarchical summary of a repo too large for one prompt: every file is
+ * summarized, directories whose file summaries grow too long are condensed,
+ * and the top-level summaries are reduced to an architecture overview.
+ */
+export interface RepoSummary {
+  overview: string;
+  /** Summaries of condensed directories, keyed by path ('' is the root) */
+  directories: Record<string, string>;
+  files: Record<string, string>;
 }
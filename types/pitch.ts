@@ -0,0 +1,35 @@
+// Pitch Coach Type Definitions
+
+import type { Evaluation } from './interview';
+import type { DeliveryMetrics } from './speech';
+
+export type PitchCriterion = 'timing' | 'coverage' | 'clarity' | 'accuracy';
+
+export interface PitchEvaluateRequest {
+  /** What the user actually said: typed, or the transcript of a recording */
+  rehearsedPitch: string;
+  /** The `interviewPitch` generated by /api/explain */
+  generatedPitch: string;
+  /** What the project is, e.g. the generated technical explanation; the pitch is checked against it */
+  projectContext?: string;
+  /** Set when the rehearsal was recorded; its duration is used for timing */
+  delivery?: DeliveryMetrics;
+}
+
+export interface PitchCriterionScore {
+  score: number;
+  feedback: string;
+}
+
+/** An `Evaluation` of the whole pitch, with a score per criterion */
+export interface PitchEvaluation extends Evaluation {
+  criteria: Record<PitchCriterion, PitchCriterionScore>;
+  durationSeconds: number;
+  /** The rehearsal was typed, so its duration was estimated from the word count */
+  durationEstimated: boolean;
+}
+
+export interface PitchEvaluateResponse {
+  evaluation?: PitchEvaluation;
+  error?: string;
+}
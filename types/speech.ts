@@ -0,0 +1,25 @@
+// Speech Type Definitions
+
+export type SpeakingPace = 'slow' | 'good' | 'fast';
+
+/** How a spoken answer was delivered, measured from its transcript and length */
+export interface DeliveryMetrics {
+  durationSeconds: number;
+  wordCount: number;
+  wordsPerMinute: number;
+  fillerWordCount: number;
+  /** Count per filler, e.g. { um: 3, 'you know': 1 } */
+  fillerWords: Record<string, number>;
+  pace: SpeakingPace;
+}
+
+export interface TranscribeResponse {
+  success: boolean;
+  transcript?: string;
+  delivery?: DeliveryMetrics;
+  error?: string;
+}
+
+export interface SynthesizeRequest {
+  text: string;
+}